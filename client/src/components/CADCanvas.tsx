@@ -1,7 +1,8 @@
-import { useRef, useEffect, useCallback, useState } from "react";
+import { useRef, useEffect, useCallback, useState, useMemo } from "react";
 import { useCAD, useCADActions } from "@/contexts/CADContext";
+import { useCollab } from "@/contexts/CollabContext";
 import type { Point, CADEntity, EntityData } from "@/lib/cad-types";
-import { generateId, distance, hitTestEntity, findSnapPoint, entitiesInBox, getLineDash, snapToAngle, snapToGridPoint } from "@/lib/cad-utils";
+import { generateId, distance, hitTestEntity, findSnapPoint, entitiesInBox, snapToAngle, snapToGridPoint, fitViewToBounds } from "@/lib/cad-utils";
 import { trimEntity } from "@/lib/trim-utils";
 import { extendEntity } from "@/lib/extend-utils";
 import { copyEntities } from "@/lib/copy-utils";
@@ -10,21 +11,27 @@ import { rotateEntityData, scaleEntityData } from "@/lib/rotate-scale-utils";
 import { filletEntities, type FilletMode } from "@/lib/fillet-utils";
 import { mirrorEntities } from "@/lib/mirror-utils";
 import { measureDistance, measureArea, measureAngle, drawDistanceOverlay, drawAreaOverlay, drawAngleOverlay, type MeasureResult } from "@/lib/measure-utils";
-import { getEntityBoundary, createHatchEntity, drawHatchPattern } from "@/lib/hatch-utils";
-import { createBlockDefinition, createBlockRefEntity, getBlockRefEntities, explodeBlockRef } from "@/lib/block-utils";
+import { getEntityBoundary, createHatchEntity } from "@/lib/hatch-utils";
+import { createBlockDefinition, createBlockRefEntity, explodeBlockRef } from "@/lib/block-utils";
 import { createRectangularArray, createPolarArray, getEntitiesCentroid } from "@/lib/array-utils";
-import { drawSpline, drawSplinePreview, hitTestSpline, moveSpline, evaluateCatmullRom } from "@/lib/spline-utils";
-import { drawXLine, drawRay, moveXLine, moveRay } from "@/lib/xline-utils";
-import { drawPaperSheet, drawViewportFrame, drawTitleBlock, getPaperPixelSize, MM_TO_PX } from "@/lib/layout-utils";
-import type { BlockRefData, SplineData, XLineData, RayData } from "@/lib/cad-types";
+import { drawSplinePreview, hitTestSpline, moveSpline, evaluateCatmullRom } from "@/lib/spline-utils";
+import { moveXLine, moveRay } from "@/lib/xline-utils";
+import { drawPaperSheet, drawTitleBlock, getPaperPixelSize } from "@/lib/layout-utils";
+import type { SplineData, XLineData, RayData } from "@/lib/cad-types";
 import DynamicInput from "@/components/DynamicInput";
 import { getEntityGrips, drawGrips, hitTestGrip, applyGripMove, type GripPoint } from "@/lib/grip-utils";
+import { buildDXFMerge } from "@/lib/dxf-merge";
+import { drawModelEntities, drawLayoutViewports, drawRemoteCursor } from "@/lib/canvas-render";
+import { findPlotStyleTable, applyPlotStyle, applyPlotStyleToBlocks } from "@/lib/plot-styles";
+import { calibrateImage, clipImage, onImageLoaded } from "@/lib/image-utils";
+import { buildToolpath, drawToolpath } from "@/lib/gcode-export";
 
 export default function CADCanvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const { state } = useCAD();
   const { dispatch, pushUndo } = useCADActions();
+  const { peers, moveCursor } = useCollab();
   const [mouseWorld, setMouseWorld] = useState<Point>({ x: 0, y: 0 });
   const [mouseScreen, setMouseScreen] = useState<Point>({ x: 0, y: 0 });
   const [canvasRect, setCanvasRect] = useState<DOMRect | null>(null);
@@ -42,6 +49,9 @@ export default function CADCanvas() {
   const hatchBoundaryPts = useRef<Point[]>([]);
   const blockInsertId = useRef<string | null>(null);
   const splinePoints = useRef<Point[]>([]);
+  // Image being calibrated or clipped
+  const imageTargetId = useRef<string | null>(null);
+  const [imageLoads, setImageLoads] = useState(0);
   const [hoveredGripId, setHoveredGripId] = useState<string | null>(null);
   const activeGripRef = useRef<GripPoint | null>(null);
   const gripDragging = useRef(false);
@@ -80,6 +90,35 @@ export default function CADCanvas() {
     return { x: wx * state.viewState.zoom + cx + state.viewState.panX, y: wy * state.viewState.zoom + cy + state.viewState.panY };
   }, [state.viewState]);
 
+  // Zoom to bounds requested elsewhere (e.g. after a DXF import)
+  useEffect(() => {
+    const bounds = state.zoomRequest;
+    const canvas = canvasRef.current;
+    if (!bounds || !canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    dispatch({ type: "SET_VIEW_STATE", viewState: fitViewToBounds(bounds, rect.width, rect.height) });
+    dispatch({ type: "ZOOM_TO_BOUNDS", bounds: null });
+  }, [state.zoomRequest, dispatch]);
+
+  // Redraw once embedded images have decoded
+  useEffect(() => onImageLoaded(() => setImageLoads(n => n + 1)), []);
+
+  // Toolpath overlay, replanned only when the geometry or cut settings change
+  const toolpath = useMemo(
+    () => state.toolpathPreview ? buildToolpath(state.entities, state.layers, state.blocks, state.gcodeSettings) : null,
+    [state.toolpathPreview, state.entities, state.layers, state.blocks, state.gcodeSettings]
+  );
+
+  // Image tools act on the selected image, if there is one
+  useEffect(() => {
+    if (state.activeTool !== "image_calibrate" && state.activeTool !== "image_clip") return;
+    const selected = state.entities.filter(e => state.selectedEntityIds.includes(e.id) && e.data.type === "image");
+    imageTargetId.current = selected.length === 1 ? selected[0].id : null;
+    const command = state.activeTool === "image_calibrate" ? "IMAGECALIBRATE" : "IMAGECLIP";
+    const next = state.activeTool === "image_calibrate" ? "Click the first point on the image." : "Click a closed boundary or pick clip points (right-click to finish).";
+    dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: imageTargetId.current ? next : "Click the frame of an image." } });
+  }, [state.activeTool]);
+
   // Render
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -102,14 +141,16 @@ export default function CADCanvas() {
     const cadSnap = computedStyle.getPropertyValue('--cad-snap').trim() || '#10b981';
     const cadDimension = computedStyle.getPropertyValue('--cad-dimension').trim() || '#f59e0b';
     const cadEntityDefault = computedStyle.getPropertyValue('--cad-entity-default').trim() || '#e2e8f0';
-    ctx.fillStyle = cadCanvas;
+    // Plot style preview draws on white, as the sheet will come out of the plotter
+    const preview = state.plotStylePreview;
+    ctx.fillStyle = preview ? "#ffffff" : cadCanvas;
     ctx.fillRect(0, 0, w, h);
 
     const { zoom, panX, panY } = state.viewState;
     const cx = w / 2, cy = h / 2;
 
     // Grid
-    if (state.gridSettings.visible) {
+    if (state.gridSettings.visible && !preview) {
       const spacing = state.gridSettings.spacing * zoom;
       const major = state.gridSettings.majorEvery;
       if (spacing > 4) {
@@ -157,24 +198,26 @@ export default function CADCanvas() {
 
     // Draw entities
     ctx.save();
-    for (const entity of state.entities) {
-      if (!entity.visible) continue;
-      const layer = state.layers.find(l => l.id === entity.layerId);
-      if (layer && !layer.visible) continue;
-      const isSelected = state.selectedEntityIds.includes(entity.id);
-      drawEntity(ctx, entity, zoom, panX, panY, cx, cy, isSelected);
-      // Render block reference child entities
-      if (entity.data.type === "blockref") {
-        const blockDef = state.blocks.find(b => b.id === (entity.data as BlockRefData).blockId);
-        if (blockDef) {
-          const childEntities = getBlockRefEntities(blockDef, entity.data as BlockRefData);
-          for (const child of childEntities) {
-            drawEntity(ctx, child, zoom, panX, panY, cx, cy, isSelected);
-          }
-        }
+    if (state.revisionCompare) {
+      const { overlay } = state.revisionCompare;
+      drawModelEntities(ctx, overlay.entities, overlay.layers, overlay.blocks, zoom, panX, panY, cx, cy);
+    } else if (preview) {
+      const table = findPlotStyleTable(state.plotStyleTables, state.modelPlotStyleTableId);
+      drawModelEntities(ctx, applyPlotStyle(state.entities, table), state.layers, applyPlotStyleToBlocks(state.blocks, table), zoom, panX, panY, cx, cy, state.selectedEntityIds);
+    } else {
+      drawModelEntities(ctx, state.entities, state.layers, state.blocks, zoom, panX, panY, cx, cy, state.selectedEntityIds);
+    }
+    // What other participants have selected, in their colors
+    if (!state.revisionCompare) {
+      for (const peer of peers) {
+        if (!peer.selection.length) continue;
+        const ids = new Set(peer.selection);
+        const theirs = state.entities.filter(e => ids.has(e.id)).map(e => ({ ...e, color: peer.color, lineWidth: e.lineWidth + 1 }));
+        drawModelEntities(ctx, theirs, state.layers, state.blocks, zoom, panX, panY, cx, cy);
       }
     }
     ctx.restore();
+    if (toolpath) drawToolpath(ctx, toolpath, worldToScreen);
 
     // Drawing preview
     const ds = state.drawingState;
@@ -184,7 +227,7 @@ export default function CADCanvas() {
       ctx.lineWidth = 1;
       ctx.setLineDash([6, 4]);
       const tool = state.activeTool;
-      if (tool === "line" && ds.startPoint) {
+      if ((tool === "line" || tool === "image_calibrate") && ds.startPoint) {
         const s = worldToScreen(ds.startPoint.x, ds.startPoint.y);
         const e = worldToScreen(ds.previewPoint.x, ds.previewPoint.y);
         ctx.beginPath(); ctx.moveTo(s.x, s.y); ctx.lineTo(e.x, e.y); ctx.stroke();
@@ -192,7 +235,7 @@ export default function CADCanvas() {
         const s = worldToScreen(ds.startPoint.x, ds.startPoint.y);
         const r = distance(ds.startPoint, ds.previewPoint) * zoom;
         ctx.beginPath(); ctx.arc(s.x, s.y, r, 0, Math.PI * 2); ctx.stroke();
-      } else if (tool === "rectangle" && ds.startPoint) {
+      } else if ((tool === "rectangle" || tool === "plot_window" || tool === "vectorize_window") && ds.startPoint) {
         const s = worldToScreen(ds.startPoint.x, ds.startPoint.y);
         const e = worldToScreen(ds.previewPoint.x, ds.previewPoint.y);
         ctx.strokeRect(s.x, s.y, e.x - s.x, e.y - s.y);
@@ -214,7 +257,7 @@ export default function CADCanvas() {
         const rx = Math.abs(ds.previewPoint.x - ds.startPoint.x) * zoom;
         const ry = Math.abs(ds.previewPoint.y - ds.startPoint.y) * zoom;
         ctx.beginPath(); ctx.ellipse(s.x, s.y, rx, ry, 0, 0, Math.PI * 2); ctx.stroke();
-      } else if (tool === "polyline" && ds.currentPoints.length > 0) {
+      } else if ((tool === "polyline" || tool === "image_clip") && ds.currentPoints.length > 0) {
         ctx.beginPath();
         const first = worldToScreen(ds.currentPoints[0].x, ds.currentPoints[0].y);
         ctx.moveTo(first.x, first.y);
@@ -671,6 +714,11 @@ export default function CADCanvas() {
     ctx.beginPath(); ctx.moveTo(mScreen.x, 0); ctx.lineTo(mScreen.x, h); ctx.stroke();
     ctx.beginPath(); ctx.moveTo(0, mScreen.y); ctx.lineTo(w, mScreen.y); ctx.stroke();
 
+    // Other participants' pointers (model space coordinates)
+    for (const peer of peers) {
+      if (peer.cursor) drawRemoteCursor(ctx, worldToScreen(peer.cursor.x, peer.cursor.y), peer.color, peer.name);
+    }
+
     // Coordinates display
     ctx.fillStyle = cadEntityDefault + "80"; ctx.font = "11px 'Fira Code'"; ctx.textAlign = "right";
     ctx.fillText(`X: ${mouseWorld.x.toFixed(4)}  Y: ${mouseWorld.y.toFixed(4)}`, w - 12, h - 12);
@@ -678,7 +726,7 @@ export default function CADCanvas() {
     // Paper space overlay — render when a layout is active
     const activeLayout = state.activeLayoutId ? state.layouts.find(l => l.id === state.activeLayoutId) : null;
     if (activeLayout && state.activeSpace === "paper") {
-      const isDark = document.documentElement.classList.contains('dark');
+      const isDark = document.documentElement.classList.contains('dark') && !preview;
       const { w: paperW, h: paperH } = getPaperPixelSize(activeLayout);
       const paperZoom = Math.min((w - 80) / paperW, (h - 80) / paperH, 1.5);
       const paperOffX = (w - paperW * paperZoom) / 2;
@@ -692,40 +740,11 @@ export default function CADCanvas() {
       drawPaperSheet(ctx, activeLayout, paperOffX, paperOffY, paperZoom, isDark);
 
       // Draw viewports with clipped model space content
-      for (const vp of activeLayout.viewports) {
-        const vpX = paperOffX + vp.x * MM_TO_PX * paperZoom;
-        const vpY = paperOffY + vp.y * MM_TO_PX * paperZoom;
-        const vpW = vp.width * MM_TO_PX * paperZoom;
-        const vpH = vp.height * MM_TO_PX * paperZoom;
-
-        // Clip to viewport bounds
-        ctx.save();
-        ctx.beginPath();
-        ctx.rect(vpX, vpY, vpW, vpH);
-        ctx.clip();
-
-        // Viewport background
-        ctx.fillStyle = isDark ? '#0a0a12' : '#f4f6f9';
-        ctx.fillRect(vpX, vpY, vpW, vpH);
-
-        // Render model space entities within viewport
-        const vpCx = vpX + vpW / 2;
-        const vpCy = vpY + vpH / 2;
-        const vpZoom = vp.viewZoom * paperZoom;
-        const vpPanX = -vp.viewCenter.x * vpZoom;
-        const vpPanY = -vp.viewCenter.y * vpZoom;
-
-        for (const entity of state.entities) {
-          if (!entity.visible) continue;
-          const layer = state.layers.find(l => l.id === entity.layerId);
-          if (layer && !layer.visible) continue;
-          drawEntity(ctx, entity, vpZoom, vpPanX, vpPanY, vpCx, vpCy, false);
-        }
-
-        ctx.restore();
-
-        // Draw viewport frame
-        drawViewportFrame(ctx, vp, paperOffX, paperOffY, paperZoom, vp.active, isDark);
+      if (preview) {
+        const table = findPlotStyleTable(state.plotStyleTables, activeLayout.plotStyleTableId);
+        drawLayoutViewports(ctx, activeLayout, applyPlotStyle(state.entities, table), state.layers, applyPlotStyleToBlocks(state.blocks, table), paperOffX, paperOffY, paperZoom, false, '#ffffff');
+      } else {
+        drawLayoutViewports(ctx, activeLayout, state.entities, state.layers, state.blocks, paperOffX, paperOffY, paperZoom, isDark, isDark ? '#0a0a12' : '#f4f6f9');
       }
 
       // Draw title block
@@ -737,7 +756,12 @@ export default function CADCanvas() {
       ctx.textAlign = "left";
       ctx.fillText(`PAPER: ${activeLayout.name} (${activeLayout.paperSize} ${activeLayout.orientation})`, 12, 20);
     }
-  }, [state, mouseWorld, snapPoint, measureResult, worldToScreen, polyEditId, polyEditHoveredVertex, polyEditHoveredEdge, splineEditId, splineEditHoveredVertex, splineEditHoveredSegment, vertexDragSnap]);
+  }, [state, mouseWorld, snapPoint, measureResult, worldToScreen, polyEditId, polyEditHoveredVertex, polyEditHoveredEdge, splineEditId, splineEditHoveredVertex, splineEditHoveredSegment, vertexDragSnap, imageLoads, toolpath, peers]);
+
+  // Share the pointer with other participants; in paper space it is not a drawing position
+  useEffect(() => {
+    moveCursor(state.activeSpace === "model" ? mouseWorld : null);
+  }, [mouseWorld, state.activeSpace]);
 
   // Resize
   useEffect(() => {
@@ -746,6 +770,8 @@ export default function CADCanvas() {
     const observer = new ResizeObserver(() => {
       const canvas = canvasRef.current;
       if (canvas) { canvas.style.width = "100%"; canvas.style.height = "100%"; }
+      const rect = container.getBoundingClientRect();
+      dispatch({ type: "SET_CANVAS_SIZE", size: { width: rect.width, height: rect.height } });
     });
     observer.observe(container);
     return () => observer.disconnect();
@@ -1509,6 +1535,89 @@ export default function CADCanvas() {
       return;
     }
 
+    if (tool === "plot_window" || tool === "vectorize_window") {
+      const command = tool === "plot_window" ? "PLOT" : "VECTORIZE";
+      if (!state.drawingState.isDrawing) {
+        dispatch({ type: "SET_DRAWING_STATE", state: { isDrawing: true, startPoint: pt, previewPoint: pt } });
+        dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: "Specify opposite corner:" } });
+      } else if (state.drawingState.startPoint) {
+        const sp = state.drawingState.startPoint;
+        if (Math.abs(pt.x - sp.x) < 1e-6 || Math.abs(pt.y - sp.y) < 1e-6) return;
+        const bounds = { minX: Math.min(sp.x, pt.x), minY: Math.min(sp.y, pt.y), maxX: Math.max(sp.x, pt.x), maxY: Math.max(sp.y, pt.y) };
+        dispatch(tool === "plot_window" ? { type: "SET_PLOT_WINDOW", bounds } : { type: "SET_VECTORIZE_WINDOW", bounds });
+        dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: `${tool === "plot_window" ? "Plot window" : "Region"} ${(bounds.maxX - bounds.minX).toFixed(2)} × ${(bounds.maxY - bounds.minY).toFixed(2)}` } });
+        dispatch({ type: "SET_TOOL", tool: "select" });
+      }
+      return;
+    }
+
+    if (tool === "image_calibrate" || tool === "image_clip") {
+      const command = tool === "image_calibrate" ? "IMAGECALIBRATE" : "IMAGECLIP";
+      const target = state.entities.find(e => e.id === imageTargetId.current && e.data.type === "image");
+      if (!target || target.data.type !== "image") {
+        const tolerance = 8 / state.viewState.zoom;
+        const hit = [...state.entities].reverse().find(e => e.data.type === "image" && e.visible && !e.locked && hitTestEntity(e, pt, tolerance));
+        imageTargetId.current = hit?.id ?? null;
+        if (hit) dispatch({ type: "SELECT_ENTITIES", ids: [hit.id] });
+        dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: !hit ? "No image there. Click the frame of an image."
+          : tool === "image_calibrate" ? "Click the first point on the image." : "Click a closed boundary or pick clip points (right-click to finish)." } });
+        return;
+      }
+
+      if (tool === "image_calibrate") {
+        if (!state.drawingState.isDrawing) {
+          dispatch({ type: "SET_DRAWING_STATE", state: { isDrawing: true, startPoint: pt, previewPoint: pt } });
+          dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: "Click the second point." } });
+        } else if (state.drawingState.startPoint) {
+          const p1 = state.drawingState.startPoint;
+          const picked = distance(p1, pt);
+          if (picked < 1e-9) return;
+          const realStr = prompt(`Picked distance is ${picked.toFixed(4)}. Enter the real distance between the points:`);
+          const real = parseFloat(realStr ?? "");
+          if (real > 0) {
+            pushUndo();
+            dispatch({ type: "UPDATE_ENTITY", id: target.id, updates: { data: calibrateImage(target.data, p1, pt, real) } });
+            dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: `Image scaled by ${(real / picked).toFixed(4)}` } });
+          }
+          imageTargetId.current = null;
+          dispatch({ type: "SET_TOOL", tool: "select" });
+        }
+        return;
+      }
+
+      // Clipping: a closed entity gives the whole boundary at once
+      if (!state.drawingState.isDrawing) {
+        const tolerance = 8 / state.viewState.zoom;
+        const closed = state.entities.find(e => e.id !== target.id && e.visible && hitTestEntity(e, pt, tolerance) && getEntityBoundary(e));
+        const boundary = closed && getEntityBoundary(closed);
+        if (boundary) {
+          pushUndo();
+          dispatch({ type: "UPDATE_ENTITY", id: target.id, updates: { data: clipImage(target.data, boundary) } });
+          dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: `Image clipped to ${closed.type}` } });
+          imageTargetId.current = null;
+          dispatch({ type: "SET_TOOL", tool: "select" });
+          return;
+        }
+      }
+      const pts = [...state.drawingState.currentPoints, pt];
+      dispatch({ type: "SET_DRAWING_STATE", state: { isDrawing: true, startPoint: pts[0], currentPoints: pts, previewPoint: pt } });
+      dispatch({ type: "ADD_COMMAND", entry: { command, timestamp: Date.now(), result: `Clip point ${pts.length}.${pts.length >= 3 ? " Right-click to finish." : ""}` } });
+      return;
+    }
+
+    if (tool === "import_place") {
+      const pending = state.pendingImport;
+      if (!pending) { dispatch({ type: "SET_TOOL", tool: "select" }); return; }
+      const merged = buildDXFMerge(pending, state.layers, state.blocks, pt, state.activeLayerId, state.activeColor);
+      dispatch({ type: "MERGE_IMPORT", ...merged });
+      const what = pending.options.placement === "block" ? `as block "${merged.blocks[merged.blocks.length - 1].name}"` : `${merged.entities.length} entities`;
+      dispatch({ type: "ADD_COMMAND", entry: { command: "IMPORT", timestamp: Date.now(), result: `Imported ${pending.fileName} ${what} at (${pt.x.toFixed(2)}, ${pt.y.toFixed(2)})` } });
+      dispatch({ type: "SET_TOOL", tool: "select" });
+      const ext = pending.result.extents;
+      if (ext) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: { minX: ext.minX + pt.x, minY: ext.minY + pt.y, maxX: ext.maxX + pt.x, maxY: ext.maxY + pt.y } });
+      return;
+    }
+
     if (tool === "array_rect") {
       if (state.selectedEntityIds.length === 0) {
         dispatch({ type: "ADD_COMMAND", entry: { command: "ARRAYRECT", timestamp: Date.now(), result: "Select entities first" } });
@@ -1867,6 +1976,15 @@ export default function CADCanvas() {
       dispatch({ type: "ADD_COMMAND", entry: { command: "HATCH", timestamp: Date.now(), result: `Created hatch with ${hatchBoundaryPts.current.length} boundary points` } });
       hatchBoundaryPts.current = [];
       dispatch({ type: "SET_DRAWING_STATE", state: { isDrawing: false, startPoint: null, currentPoints: [], previewPoint: null } });
+    } else if (state.activeTool === "image_clip" && state.drawingState.currentPoints.length >= 3) {
+      const target = state.entities.find(e => e.id === imageTargetId.current);
+      if (target?.data.type === "image") {
+        pushUndo();
+        dispatch({ type: "UPDATE_ENTITY", id: target.id, updates: { data: clipImage(target.data, state.drawingState.currentPoints) } });
+        dispatch({ type: "ADD_COMMAND", entry: { command: "IMAGECLIP", timestamp: Date.now(), result: `Image clipped to ${state.drawingState.currentPoints.length} points` } });
+      }
+      imageTargetId.current = null;
+      dispatch({ type: "SET_TOOL", tool: "select" });
     } else if (state.activeTool === "polyline" && state.drawingState.isDrawing && state.drawingState.currentPoints.length >= 2) {
       pushUndo();
       const ent = createEntity({ type: "polyline", points: state.drawingState.currentPoints, closed: false });
@@ -1987,6 +2105,7 @@ export default function CADCanvas() {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={() => moveCursor(null)}
         onWheel={handleWheel}
         onContextMenu={handleContextMenu}
       />
@@ -2017,6 +2136,11 @@ function getCursor(tool: string, panning: boolean): string {
     case "hatch": return "crosshair";
     case "block_group": return "crosshair";
     case "block_insert": return "crosshair";
+    case "import_place": return "crosshair";
+    case "plot_window": return "crosshair";
+    case "vectorize_window": return "crosshair";
+    case "image_calibrate": return "crosshair";
+    case "image_clip": return "crosshair";
     case "array_rect": return "crosshair";
     case "array_polar": return "crosshair";
     case "spline": return "crosshair";
@@ -2030,133 +2154,6 @@ function getCursor(tool: string, panning: boolean): string {
   }
 }
 
-function drawEntity(ctx: CanvasRenderingContext2D, entity: CADEntity, zoom: number, panX: number, panY: number, cx: number, cy: number, selected: boolean) {
-  const toScreen = (p: Point) => ({ x: p.x * zoom + cx + panX, y: p.y * zoom + cy + panY });
-  ctx.strokeStyle = selected ? "#3b82f6" : entity.color;
-  ctx.lineWidth = (selected ? entity.lineWidth + 1 : entity.lineWidth);
-  ctx.setLineDash(getLineDash(entity.lineStyle));
-  const d = entity.data;
-
-  switch (d.type) {
-    case "line": { const s = toScreen(d.start), e = toScreen(d.end); ctx.beginPath(); ctx.moveTo(s.x, s.y); ctx.lineTo(e.x, e.y); ctx.stroke(); break; }
-    case "circle": { const c = toScreen(d.center); ctx.beginPath(); ctx.arc(c.x, c.y, d.radius * zoom, 0, Math.PI * 2); ctx.stroke(); break; }
-    case "arc": { const c = toScreen(d.center); ctx.beginPath(); ctx.arc(c.x, c.y, d.radius * zoom, d.startAngle, d.endAngle); ctx.stroke(); break; }
-    case "rectangle": { const tl = toScreen(d.topLeft); ctx.strokeRect(tl.x, tl.y, d.width * zoom, d.height * zoom); break; }
-    case "polyline": {
-      if (d.points.length < 2) break;
-      ctx.beginPath();
-      const first = toScreen(d.points[0]); ctx.moveTo(first.x, first.y);
-      for (let i = 1; i < d.points.length; i++) { const p = toScreen(d.points[i]); ctx.lineTo(p.x, p.y); }
-      if (d.closed) ctx.closePath();
-      ctx.stroke(); break;
-    }
-    case "ellipse": { const c = toScreen(d.center); ctx.beginPath(); ctx.ellipse(c.x, c.y, d.radiusX * zoom, d.radiusY * zoom, d.rotation, 0, Math.PI * 2); ctx.stroke(); break; }
-    case "text": {
-      const p = toScreen(d.position);
-      ctx.fillStyle = selected ? "#3b82f6" : entity.color;
-      ctx.font = `${d.fontSize * zoom}px 'Fira Code'`;
-      ctx.textBaseline = "bottom";
-      ctx.fillText(d.content, p.x, p.y);
-      break;
-    }
-    case "dimension": {
-      const s = toScreen(d.start), e = toScreen(d.end);
-      const dist = distance(d.start, d.end);
-      const off = d.offset * zoom;
-      ctx.strokeStyle = selected ? "#3b82f6" : "#f59e0b";
-      ctx.lineWidth = 0.5;
-      ctx.beginPath(); ctx.moveTo(s.x, s.y); ctx.lineTo(s.x, s.y - off); ctx.stroke();
-      ctx.beginPath(); ctx.moveTo(e.x, e.y); ctx.lineTo(e.x, e.y - off); ctx.stroke();
-      ctx.beginPath(); ctx.moveTo(s.x, s.y - off); ctx.lineTo(e.x, e.y - off); ctx.stroke();
-      const arrowSize = 6;
-      const angle = Math.atan2(0, e.x - s.x);
-      drawArrow(ctx, s.x, s.y - off, angle, arrowSize);
-      drawArrow(ctx, e.x, e.y - off, angle + Math.PI, arrowSize);
-      ctx.fillStyle = selected ? "#3b82f6" : "#f59e0b";
-      ctx.font = `${Math.max(10, 12 * zoom)}px 'Fira Code'`;
-      ctx.textAlign = "center"; ctx.textBaseline = "bottom";
-      ctx.fillText(dist.toFixed(2), (s.x + e.x) / 2, (s.y + e.y) / 2 - off - 4);
-      break;
-    }
-    case "hatch": {
-      const canvasEl = ctx.canvas;
-      drawHatchPattern(
-        ctx, d.boundary, d.pattern, d.patternScale, d.patternAngle,
-        selected ? "#3b82f6" : d.fillColor, d.fillOpacity,
-        zoom, panX, panY, canvasEl.width / (window.devicePixelRatio || 1), canvasEl.height / (window.devicePixelRatio || 1)
-      );
-      // Draw boundary outline
-      if (selected) {
-        ctx.strokeStyle = "#3b82f6";
-        ctx.lineWidth = 1.5;
-        ctx.setLineDash([4, 4]);
-        ctx.beginPath();
-        const bp0 = toScreen(d.boundary[0]);
-        ctx.moveTo(bp0.x, bp0.y);
-        for (let i = 1; i < d.boundary.length; i++) {
-          const bp = toScreen(d.boundary[i]);
-          ctx.lineTo(bp.x, bp.y);
-        }
-        ctx.closePath();
-        ctx.stroke();
-        ctx.setLineDash([]);
-      }
-      break;
-    }
-    case "spline": {
-      const sd = entity.data as SplineData;
-      drawSpline(ctx, sd, entity.color, entity.lineWidth, entity.lineStyle, cx + panX, cy + panY, zoom, selected, selected);
-      break;
-    }
-    case "xline": {
-      const xd = entity.data as XLineData;
-      const canvasEl = ctx.canvas;
-      const cw = canvasEl.width / (window.devicePixelRatio || 1);
-      const ch = canvasEl.height / (window.devicePixelRatio || 1);
-      drawXLine(ctx, xd, selected ? "#3b82f6" : entity.color, entity.lineWidth, cx + panX, cy + panY, zoom, cw, ch);
-      break;
-    }
-    case "ray": {
-      const rd = entity.data as RayData;
-      const canvasEl2 = ctx.canvas;
-      const cw2 = canvasEl2.width / (window.devicePixelRatio || 1);
-      const ch2 = canvasEl2.height / (window.devicePixelRatio || 1);
-      drawRay(ctx, rd, selected ? "#3b82f6" : entity.color, entity.lineWidth, cx + panX, cy + panY, zoom, cw2, ch2);
-      break;
-    }
-    case "blockref": {
-      // Block references are rendered by expanding their child entities
-      // The parent canvas loop handles this via getBlockRefEntities
-      // Draw a small indicator at insert point
-      const ip = toScreen(d.insertPoint);
-      ctx.strokeStyle = selected ? "#3b82f6" : entity.color;
-      ctx.lineWidth = 1;
-      const sz = 6;
-      ctx.beginPath();
-      ctx.moveTo(ip.x - sz, ip.y); ctx.lineTo(ip.x + sz, ip.y);
-      ctx.moveTo(ip.x, ip.y - sz); ctx.lineTo(ip.x, ip.y + sz);
-      ctx.stroke();
-      // Draw diamond marker
-      ctx.beginPath();
-      ctx.moveTo(ip.x, ip.y - sz); ctx.lineTo(ip.x + sz, ip.y);
-      ctx.lineTo(ip.x, ip.y + sz); ctx.lineTo(ip.x - sz, ip.y);
-      ctx.closePath();
-      ctx.stroke();
-      break;
-    }
-  }
-  ctx.setLineDash([]);
-}
-
-function drawArrow(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, size: number) {
-  ctx.beginPath();
-  ctx.moveTo(x, y);
-  ctx.lineTo(x - size * Math.cos(angle - 0.4), y - size * Math.sin(angle - 0.4));
-  ctx.moveTo(x, y);
-  ctx.lineTo(x - size * Math.cos(angle + 0.4), y - size * Math.sin(angle + 0.4));
-  ctx.stroke();
-}
-
 function moveEntityData(data: EntityData, dx: number, dy: number): EntityData | null {
   switch (data.type) {
     case "line": return { ...data, start: { x: data.start.x + dx, y: data.start.y + dy }, end: { x: data.end.x + dx, y: data.end.y + dy } };
@@ -2166,9 +2163,11 @@ function moveEntityData(data: EntityData, dx: number, dy: number): EntityData |
     case "polyline": return { ...data, points: data.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
     case "ellipse": return { ...data, center: { x: data.center.x + dx, y: data.center.y + dy } };
     case "text": return { ...data, position: { x: data.position.x + dx, y: data.position.y + dy } };
+    case "point": return { ...data, position: { x: data.position.x + dx, y: data.position.y + dy } };
     case "dimension": return { ...data, start: { x: data.start.x + dx, y: data.start.y + dy }, end: { x: data.end.x + dx, y: data.end.y + dy } };
-    case "hatch": return { ...data, boundary: data.boundary.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+    case "hatch": return { ...data, boundary: data.boundary.map(p => ({ x: p.x + dx, y: p.y + dy })), islands: data.islands?.map(loop => loop.map(p => ({ x: p.x + dx, y: p.y + dy }))) };
     case "blockref": return { ...data, insertPoint: { x: data.insertPoint.x + dx, y: data.insertPoint.y + dy } };
+    case "image": return { ...data, insertPoint: { x: data.insertPoint.x + dx, y: data.insertPoint.y + dy } };
     case "spline": return moveSpline(data as SplineData, dx, dy);
     case "xline": return moveXLine(data as XLineData, dx, dy);
     case "ray": return moveRay(data as RayData, dx, dy);
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { useCAD, useCADActions } from "@/contexts/CADContext";
 import type { ToolType } from "@/lib/cad-types";
 import { Terminal } from "lucide-react";
+import { describeGeoreference } from "@/lib/georeference";
 
 const CMD: Record<string, ToolType> = {
   line: "line", l: "line", circle: "circle", c: "circle", arc: "arc", a: "arc",
@@ -24,6 +25,7 @@ const CMD: Record<string, ToolType> = {
   dist: "measure_distance", distance: "measure_distance", measuredist: "measure_distance",
   area: "measure_area", measurearea: "measure_area",
   angle: "measure_angle", measureangle: "measure_angle",
+  imagecalibrate: "image_calibrate", calibrate: "image_calibrate", imageclip: "image_clip",
   select: "select", v: "select", pan: "pan",
 };
 
@@ -72,7 +74,21 @@ export default function CommandLine() {
     }
     else if (t === "importdxf" || t === "dxfin") { result = "Use File > Import DXF... (Ctrl+I)"; }
     else if (t === "exportpdf" || t === "pdf" || t === "print") { result = "Use File > Export PDF (Ctrl+P)"; }
-    else if (t === "help" || t === "?") { result = "LINE, CIRCLE, ARC, RECT, POLYLINE, ELLIPSE, SPLINE, XLINE, RAY, TEXT, DIM, HATCH, BLOCK, INSERT, MOVE, COPY, MIRROR, TRIM, EXTEND, OFFSET, ROTATE, SCALE, FILLET, CHAMFER, ARRAYRECT, ARRAYPOLAR, DIST, AREA, ANGLE, ERASE, UNDO, REDO, ORTHO, GRID, SNAP, ZOOM <n>, ZOOMFIT, MODEL, PAPER, LAYOUT <name>, IMPORTDXF, PDF"; }
+    else if (t === "publish") { result = "Use File > Publish Layouts..."; }
+    else if (t === "plot") { result = "Use File > Plot..."; }
+    else if (t === "image" || t === "imageattach") { result = "Use File > Insert Image..."; }
+    else if (t === "vectorize" || t === "trace") { result = "Use Edit > Vectorize Image..."; }
+    else if (t === "georef" || t === "geolocation") { result = state.georeference ? `${describeGeoreference(state.georeference)} — use File > Georeference... to change` : "No georeference. Use File > Georeference..."; }
+    else if (t === "geojsonin" || t === "geojson") { result = "Use File > Import GeoJSON..."; }
+    else if (t === "surveyin" || t === "importpoints") { result = "Use File > Import Survey Points..."; }
+    else if (t === "geojsonout") { result = "Use File > Export GeoJSON..."; }
+    else if (t === "gcode" || t === "cam") { result = "Use File > Export G-code..."; }
+    else if (t === "toolpath") { dispatch({ type: "TOGGLE_TOOLPATH_PREVIEW" }); result = `Toolpath preview ${state.toolpathPreview ? "off" : "on"}`; }
+    else if (t === "hpgl" || t === "plt") { result = "Use File > Export HPGL/2..."; }
+    else if (t === "nest" || t === "nesting") { result = "Select closed outlines or block references, then use Edit > Nest Parts..."; }
+    else if (t === "revisions" || t === "compare") { result = state.documentInfo.server ? "Use File > Revision History... to compare or restore revisions" : "Save the drawing to the server first (File > Save to Server...); its revisions are kept there"; }
+    else if (t === "collaborate" || t === "share") { result = state.collab ? "Shared session active. Use File > Leave Session to edit alone" : state.documentInfo.server ? "Use File > Collaborate to edit this drawing together with others" : "Save the drawing to the server first (File > Save to Server...), then use File > Collaborate"; }
+    else if (t === "help" || t === "?") { result = "LINE, CIRCLE, ARC, RECT, POLYLINE, ELLIPSE, SPLINE, XLINE, RAY, TEXT, DIM, HATCH, BLOCK, INSERT, MOVE, COPY, MIRROR, TRIM, EXTEND, OFFSET, ROTATE, SCALE, FILLET, CHAMFER, ARRAYRECT, ARRAYPOLAR, DIST, AREA, ANGLE, ERASE, UNDO, REDO, ORTHO, GRID, SNAP, ZOOM <n>, ZOOMFIT, MODEL, PAPER, LAYOUT <name>, IMPORTDXF, PDF, PLOT, PUBLISH, IMAGE, IMAGECALIBRATE, IMAGECLIP, VECTORIZE, GEOREF, GEOJSONIN, GEOJSONOUT, SURVEYIN, GCODE, TOOLPATH, HPGL, NEST, REVISIONS, COLLABORATE"; }
     else result = `Unknown: ${t}`;
     dispatch({ type: "ADD_COMMAND", entry: { command: cmd.trim(), timestamp: Date.now(), result } });
     setInput(""); setHistIdx(-1);
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { ImportReportDetails, type DXFImportReport } from "./DXFImportReportDialog";
+import type { DXFMergeOptions, ImportPlacement, LayerConflictMode } from "@/lib/dxf-merge";
+import type { Layer } from "@/lib/cad-types";
+
+interface DXFImportDialogProps {
+  source: DXFImportReport | null;
+  existingLayers: Layer[];
+  onCancel: () => void;
+  onConfirm: (options: DXFMergeOptions) => void;
+}
+
+/** Options for importing a DXF into the current drawing */
+export default function DXFImportDialog({ source, existingLayers, onCancel, onConfirm }: DXFImportDialogProps) {
+  const [placement, setPlacement] = useState<ImportPlacement>("entities");
+  const [layerConflict, setLayerConflict] = useState<LayerConflictMode>("keep");
+  const [blockName, setBlockName] = useState("");
+
+  const fileName = source?.fileName ?? "";
+  useEffect(() => { if (fileName) setBlockName(fileName.replace(/\.dxf$/i, "")); }, [fileName]);
+
+  const existingNames = new Set(existingLayers.map(l => l.name.toLowerCase()));
+  const conflicts = source ? source.result.layers.filter(l => existingNames.has(l.name.toLowerCase())) : [];
+
+  return (
+    <Dialog open={source !== null} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Import into Current Drawing</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <p className="text-xs text-muted-foreground">
+            <span className="text-foreground">{fileName}</span> — {source?.result.entities.length ?? 0} entities, {source?.result.layers.length ?? 0} layers, {source?.result.blocks.length ?? 0} blocks
+          </p>
+          {source && <ImportReportDetails report={source} />}
+          <Separator className="opacity-20" />
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Placement</h4>
+            <RadioGroup value={placement} onValueChange={v => setPlacement(v as ImportPlacement)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="entities" id="dxf-place-entities" /><Label htmlFor="dxf-place-entities" className="text-xs">Entities at picked insertion point</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="block" id="dxf-place-block" /><Label htmlFor="dxf-place-block" className="text-xs">New block at picked insertion point</Label></div>
+            </RadioGroup>
+            {placement === "block" && (
+              <div className="flex items-center justify-between mt-2 pl-6">
+                <Label className="text-xs text-muted-foreground">Block Name</Label>
+                <input type="text" value={blockName} onChange={e => setBlockName(e.target.value)} className="w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground focus:outline-none focus:border-primary/50" />
+              </div>
+            )}
+          </div>
+          <Separator className="opacity-20" />
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Layers with the Same Name</h4>
+            <RadioGroup value={layerConflict} onValueChange={v => setLayerConflict(v as LayerConflictMode)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="keep" id="dxf-layers-keep" /><Label htmlFor="dxf-layers-keep" className="text-xs">Keep existing layer properties</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="overwrite" id="dxf-layers-overwrite" /><Label htmlFor="dxf-layers-overwrite" className="text-xs">Overwrite with imported properties</Label></div>
+            </RadioGroup>
+            <p className="text-[10px] text-muted-foreground/60 mt-2">
+              {conflicts.length > 0 ? `Matching: ${conflicts.map(l => l.name).join(", ")}` : "No matching layer names"}
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" onClick={() => onConfirm({ placement, blockName, layerConflict })}>Pick Insertion Point</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
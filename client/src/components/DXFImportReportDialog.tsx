@@ -0,0 +1,83 @@
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { skipReason, type DXFImportResult } from "@/lib/dxf-import";
+import { INSUNITS, unitScale } from "@/lib/dxf-common";
+
+export interface DXFImportReport {
+  fileName: string;
+  result: DXFImportResult;
+  /** $INSUNITS code the file was drawn in, before any conversion */
+  sourceUnits: number;
+}
+
+const unitName = (code: number) => INSUNITS[code]?.name ?? "unitless";
+
+/** Units, imported entity counts and skipped entity types of a parsed DXF */
+export function ImportReportDetails({ report }: { report: DXFImportReport }) {
+  const { result, sourceUnits } = report;
+  const imported = Object.entries(result.stats.byType).sort((a, b) => b[1] - a[1]);
+  const skipped = Object.entries(result.stats.skippedByType).sort((a, b) => b[1] - a[1]);
+  const converted = result.units !== sourceUnits;
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="space-y-1">
+        <div className="flex justify-between"><span className="text-muted-foreground">DXF Version</span><span className="font-mono">{result.header.version || "Unknown"}</span></div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Units</span>
+          <span>{converted ? `${unitName(sourceUnits)} → ${unitName(result.units)} (×${+unitScale(sourceUnits, result.units).toPrecision(6)})` : unitName(sourceUnits)}</span>
+        </div>
+        {result.extents && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Extents</span>
+            <span className="font-mono">{(result.extents.maxX - result.extents.minX).toFixed(2)} × {(result.extents.maxY - result.extents.minY).toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+      <div>
+        <h4 className="font-semibold uppercase tracking-wider text-muted-foreground mb-1">Imported ({result.stats.totalParsed - result.stats.skipped})</h4>
+        {imported.length === 0 ? <p className="text-muted-foreground/60">Nothing imported</p> : (
+          <div className="grid grid-cols-2 gap-x-4">
+            {imported.map(([type, count]) => (
+              <div key={type} className="flex justify-between"><span className="font-mono">{type}</span><span>{count}</span></div>
+            ))}
+          </div>
+        )}
+      </div>
+      {skipped.length > 0 && (
+        <div>
+          <h4 className="font-semibold uppercase tracking-wider text-muted-foreground mb-1">Skipped ({result.stats.skipped})</h4>
+          <div className="space-y-0.5 max-h-32 overflow-y-auto">
+            {skipped.map(([type, count]) => (
+              <div key={type} className="flex gap-2">
+                <span className="font-mono w-24 shrink-0">{type}</span>
+                <span className="w-8 shrink-0 text-right">{count}</span>
+                <span className="text-muted-foreground">{skipReason(type)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DXFImportReportDialogProps {
+  report: DXFImportReport | null;
+  onClose: () => void;
+}
+
+/** Summary shown after a DXF has been imported */
+export default function DXFImportReportDialog({ report, onClose }: DXFImportReportDialogProps) {
+  return (
+    <Dialog open={report !== null} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">DXF Import Report — {report?.fileName}</DialogTitle></DialogHeader>
+        {report && <ImportReportDetails report={report} />}
+        <DialogFooter>
+          <Button size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { buildToolpath, layerCutSettings } from "@/lib/gcode-export";
+import type { BlockDefinition, CADEntity, GCodeSettings, Layer, LayerCutSettings } from "@/lib/cad-types";
+
+interface GCodeExportDialogProps {
+  open: boolean;
+  settings: GCodeSettings;
+  entities: CADEntity[];
+  layers: Layer[];
+  blocks: BlockDefinition[];
+  preview: boolean;
+  onTogglePreview: () => void;
+  onChange: (settings: Partial<GCodeSettings>) => void;
+  onClose: () => void;
+  onExport: () => void;
+}
+
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Cutting settings for G-code export; changes are kept with the drawing and shown live in the preview */
+export default function GCodeExportDialog({ open, settings, entities, layers, blocks, preview, onTogglePreview, onChange, onClose, onExport }: GCodeExportDialogProps) {
+  const toolpath = useMemo(() => open ? buildToolpath(entities, layers, blocks, settings) : null, [open, entities, layers, blocks, settings]);
+  const setLayer = (id: string, updates: Partial<LayerCutSettings>) =>
+    onChange({ layers: { ...settings.layers, [id]: { ...layerCutSettings(settings, id), ...updates } } });
+  const num = (v: string, min = 0) => Math.max(min, parseFloat(v) || 0);
+  const stats = toolpath?.stats;
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Export G-code</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Machine</h4>
+            <RadioGroup value={settings.machine} onValueChange={v => onChange({ machine: v as GCodeSettings["machine"] })} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="laser" id="gcode-laser" /><Label htmlFor="gcode-laser" className="text-xs">Laser</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="plasma" id="gcode-plasma" /><Label htmlFor="gcode-plasma" className="text-xs">Plasma</Label></div>
+            </RadioGroup>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Kerf width (mm)</Label>
+              <input type="number" min={0} step={0.05} value={settings.kerf} onChange={e => onChange({ kerf: num(e.target.value) })} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Lead-in / lead-out (mm)</Label>
+              <div className="flex gap-1.5">
+                <input type="number" min={0} step={0.5} value={settings.leadIn} onChange={e => onChange({ leadIn: num(e.target.value) })} className={numberClass} />
+                <input type="number" min={0} step={0.5} value={settings.leadOut} onChange={e => onChange({ leadOut: num(e.target.value) })} className={numberClass} />
+              </div>
+            </div>
+            {settings.machine === "plasma" && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Pierce delay (s)</Label>
+                <input type="number" min={0} step={0.1} value={settings.pierceDelay} onChange={e => onChange({ pierceDelay: num(e.target.value) })} className={numberClass} />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">S value at 100 % power</Label>
+              <input type="number" min={1} value={settings.maxPower} onChange={e => onChange({ maxPower: num(e.target.value, 1) })} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Machine zero</Label>
+              <select value={settings.origin} onChange={e => onChange({ origin: e.target.value as GCodeSettings["origin"] })} className={selectClass}>
+                <option value="extents">Lower-left of the parts</option>
+                <option value="drawing">Drawing origin</option>
+              </select>
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Layers</h4>
+            <div className="flex items-center gap-2 text-[10px] text-muted-foreground/60">
+              <span className="flex-1">Layer</span>
+              <span className="w-16 text-right">Feed mm/min</span>
+              <span className="w-16 text-right">Power %</span>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-1.5">
+              {layers.map(l => {
+                const cut = layerCutSettings(settings, l.id);
+                return (
+                  <div key={l.id} className="flex items-center gap-2">
+                    <Checkbox id={`gcode-layer-${l.id}`} checked={cut.enabled} onCheckedChange={v => setLayer(l.id, { enabled: v === true })} />
+                    <Label htmlFor={`gcode-layer-${l.id}`} className={`text-xs flex-1 ${l.visible ? "" : "text-muted-foreground/50"}`}>{l.name}</Label>
+                    <input type="number" min={1} disabled={!cut.enabled} value={cut.feed} onChange={e => setLayer(l.id, { feed: num(e.target.value, 1) })} className={numberClass} />
+                    <input type="number" min={0} max={100} disabled={!cut.enabled} value={cut.power} onChange={e => setLayer(l.id, { power: Math.min(100, num(e.target.value)) })} className={numberClass} />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Show toolpath on canvas</Label>
+            <Switch checked={preview} onCheckedChange={onTogglePreview} />
+          </div>
+          <p className="text-[10px] text-muted-foreground/60">
+            {stats && stats.contours > 0
+              ? `${stats.contours} contours — cut ${stats.cutLength.toFixed(0)} mm, rapid ${stats.rapidLength.toFixed(0)} mm, about ${stats.cutMinutes.toFixed(1)} min cutting`
+              : "Nothing to cut on visible, enabled layers"}
+          </p>
+          {stats && stats.uncompensated > 0 && (
+            <p className="text-[10px] text-destructive">{stats.uncompensated} closed contours could not be offset for the kerf and are cut on the line.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose}>Close</Button>
+          <Button size="sm" disabled={!stats || stats.contours === 0} onClick={onExport}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { CADEntity, Layer } from "@/lib/cad-types";
+
+interface GeoJSONExportDialogProps {
+  open: boolean;
+  layers: Layer[];
+  entities: CADEntity[];
+  onCancel: () => void;
+  onExport: (layerIds: string[]) => void;
+}
+
+/** Choose the layers written to a GeoJSON FeatureCollection */
+export default function GeoJSONExportDialog({ open, layers, entities, onCancel, onExport }: GeoJSONExportDialogProps) {
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (open) setIncluded(new Set(layers.filter(l => l.visible).map(l => l.id)));
+  }, [open]);
+
+  const toggle = (id: string, on: boolean) => setIncluded(prev => {
+    const next = new Set(prev);
+    if (on) next.add(id); else next.delete(id);
+    return next;
+  });
+  const counts = new Map<string, number>();
+  for (const e of entities) counts.set(e.layerId, (counts.get(e.layerId) ?? 0) + 1);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Export GeoJSON</DialogTitle></DialogHeader>
+        <div className="space-y-2 py-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Layers</h4>
+          <div className="max-h-64 overflow-y-auto space-y-1.5">
+            {layers.map(l => (
+              <div key={l.id} className="flex items-center gap-2">
+                <Checkbox id={`geojson-${l.id}`} checked={included.has(l.id)} onCheckedChange={v => toggle(l.id, v === true)} />
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ background: l.color }} />
+                <Label htmlFor={`geojson-${l.id}`} className="text-xs flex-1">{l.name}</Label>
+                <span className="text-[10px] text-muted-foreground cad-mono">{counts.get(l.id) ?? 0}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-muted-foreground/60">Curves are flattened, closed shapes become polygons and text becomes labelled points.</p>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={included.size === 0} onClick={() => onExport(layers.filter(l => included.has(l.id)).map(l => l.id))}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
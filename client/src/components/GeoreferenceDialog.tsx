@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_UNIT_SCALE } from "@/lib/georeference";
+import type { Georeference } from "@/lib/cad-types";
+
+interface GeoreferenceDialogProps {
+  open: boolean;
+  georeference: Georeference | null;
+  onCancel: () => void;
+  onApply: (georeference: Georeference | null) => void;
+}
+
+const numberClass = "w-28 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+const textClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground focus:outline-none focus:border-primary/50";
+
+const EMPTY: Georeference = { drawingPoint: { x: 0, y: 0 }, system: "geographic", groundPoint: { x: 0, y: 0 }, rotation: 0, unitScale: DEFAULT_UNIT_SCALE };
+
+/** Reference point, ground coordinates, rotation and unit scale tying the drawing to the map */
+export default function GeoreferenceDialog({ open, georeference, onCancel, onApply }: GeoreferenceDialogProps) {
+  const [geo, setGeo] = useState<Georeference>(EMPTY);
+
+  useEffect(() => { if (open) setGeo(georeference ?? EMPTY); }, [open]);
+
+  const set = (updates: Partial<Georeference>) => setGeo(g => ({ ...g, ...updates }));
+  const num = (v: string) => parseFloat(v) || 0;
+  const geographic = geo.system === "geographic";
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Georeference</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Drawing Point</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">X / Y</Label>
+              <div className="flex gap-1.5">
+                <input type="number" value={geo.drawingPoint.x} onChange={e => set({ drawingPoint: { ...geo.drawingPoint, x: num(e.target.value) } })} className={numberClass} />
+                <input type="number" value={geo.drawingPoint.y} onChange={e => set({ drawingPoint: { ...geo.drawingPoint, y: num(e.target.value) } })} className={numberClass} />
+              </div>
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Ground Point</h4>
+            <RadioGroup value={geo.system} onValueChange={v => set({ system: v as Georeference["system"] })} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="geographic" id="geo-system-geographic" /><Label htmlFor="geo-system-geographic" className="text-xs">Latitude / longitude</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="projected" id="geo-system-projected" /><Label htmlFor="geo-system-projected" className="text-xs">Projected</Label></div>
+            </RadioGroup>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">{geographic ? "Latitude (°)" : "Northing (m)"}</Label>
+              <input type="number" step="any" value={geo.groundPoint.y} onChange={e => set({ groundPoint: { ...geo.groundPoint, y: num(e.target.value) } })} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">{geographic ? "Longitude (°)" : "Easting (m)"}</Label>
+              <input type="number" step="any" value={geo.groundPoint.x} onChange={e => set({ groundPoint: { ...geo.groundPoint, x: num(e.target.value) } })} className={numberClass} />
+            </div>
+            {!geographic && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Coordinate system</Label>
+                <input type="text" placeholder="e.g. EPSG:27700" value={geo.crsName ?? ""} onChange={e => set({ crsName: e.target.value || undefined })} className={textClass} />
+              </div>
+            )}
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Orientation and Scale</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Rotation (° counter-clockwise from east)</Label>
+              <input type="number" value={geo.rotation} onChange={e => set({ rotation: num(e.target.value) })} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Meters per drawing unit</Label>
+              <input type="number" min={0} step="any" value={geo.unitScale} onChange={e => set({ unitScale: num(e.target.value) })} className={numberClass} />
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">Drawings are in millimeters, so 0.001 keeps features at true size; 1 maps one unit to one meter.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" className="mr-auto" disabled={!georeference} onClick={() => onApply(null)}>Remove</Button>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!(geo.unitScale > 0)} onClick={() => onApply(geo)}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
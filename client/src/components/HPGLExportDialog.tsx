@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_PLOT_SETTINGS, PLOT_SCALES, type PlotBounds } from "@/lib/pdf-export";
+import { defaultPens, HPGL_PEN_COUNT, type HPGLExportOptions, type HPGLPenMapping } from "@/lib/hpgl-export";
+import type { Layer, Layout, PaperOrientation, PaperSize } from "@/lib/cad-types";
+
+interface HPGLExportDialogProps {
+  open: boolean;
+  layers: Layer[];
+  /** Distinct entity colors in the drawing */
+  colors: string[];
+  layouts: Layout[];
+  activeLayoutId: string | null;
+  /** Window last picked on the canvas */
+  pickedWindow: PlotBounds | null;
+  onPickWindow: () => void;
+  onCancel: () => void;
+  onExport: (options: HPGLExportOptions) => void;
+}
+
+const PAPER_CHOICES: Exclude<PaperSize, "Custom">[] = ["A4", "A3", "A2", "A1", "A0", "Letter", "Legal", "Tabloid"];
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Plotter file settings: what to plot, at which scale, and which pen draws what */
+export default function HPGLExportDialog({ open, layers, colors, layouts, activeLayoutId, pickedWindow, onPickWindow, onCancel, onExport }: HPGLExportDialogProps) {
+  // "model" or a layout id
+  const [source, setSource] = useState("model");
+  const [useWindow, setUseWindow] = useState(false);
+  const [paperSize, setPaperSize] = useState<Exclude<PaperSize, "Custom">>(DEFAULT_PLOT_SETTINGS.paperSize);
+  const [orientation, setOrientation] = useState<PaperOrientation | "auto">("auto");
+  // "fit" or an index into PLOT_SCALES
+  const [scaleChoice, setScaleChoice] = useState("fit");
+  const [margin, setMargin] = useState(DEFAULT_PLOT_SETTINGS.margin);
+  const [viewportFrames, setViewportFrames] = useState(false);
+  const [penMapping, setPenMapping] = useState<HPGLPenMapping>("layer");
+  const [pens, setPens] = useState<Record<string, number>>({});
+  const [tolerance, setTolerance] = useState(0.05);
+
+  useEffect(() => {
+    if (!open) return;
+    if (activeLayoutId && layouts.some(l => l.id === activeLayoutId)) setSource(activeLayoutId);
+    setPens({ ...defaultPens(colors), ...defaultPens(layers.map(l => l.id)) });
+  }, [open]);
+
+  const layout = layouts.find(l => l.id === source);
+  const keys = penMapping === "layer" ? layers.map(l => ({ key: l.id, label: l.name, color: l.color })) : colors.map(c => ({ key: c, label: c, color: c }));
+  const scale = scaleChoice === "fit" ? "fit" : PLOT_SCALES[parseInt(scaleChoice)].value;
+
+  const handleExport = () => onExport({
+    target: layout
+      ? { kind: "layout", layout }
+      : { kind: "model", settings: { ...DEFAULT_PLOT_SETTINGS, area: useWindow ? pickedWindow : null, paperSize, orientation, scale, margin } },
+    penMapping,
+    pens,
+    tolerance,
+    viewportFrames,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Export HPGL/2</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Plot</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Source</Label>
+              <select value={source} onChange={e => setSource(e.target.value)} className={selectClass}>
+                <option value="model">Model space</option>
+                {layouts.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+            {layout ? (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Plot viewport frames</Label>
+                <Switch checked={viewportFrames} onCheckedChange={setViewportFrames} />
+              </div>
+            ) : (
+              <>
+                <RadioGroup value={useWindow ? "window" : "extents"} onValueChange={v => setUseWindow(v === "window")} className="gap-2">
+                  <div className="flex items-center gap-2"><RadioGroupItem value="extents" id="hpgl-area-extents" /><Label htmlFor="hpgl-area-extents" className="text-xs">Extents</Label></div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="window" id="hpgl-area-window" /><Label htmlFor="hpgl-area-window" className="text-xs flex-1">Window{pickedWindow ? ` (${(pickedWindow.maxX - pickedWindow.minX).toFixed(1)} × ${(pickedWindow.maxY - pickedWindow.minY).toFixed(1)})` : ""}</Label>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => { setUseWindow(true); onPickWindow(); }}>Pick on Canvas</Button>
+                  </div>
+                </RadioGroup>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Paper</Label>
+                  <div className="flex gap-1.5">
+                    <select value={paperSize} onChange={e => setPaperSize(e.target.value as Exclude<PaperSize, "Custom">)} className="w-20 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                      {PAPER_CHOICES.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <select value={orientation} onChange={e => setOrientation(e.target.value as PaperOrientation | "auto")} className="w-24 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                      <option value="auto">Auto</option>
+                      <option value="landscape">Landscape</option>
+                      <option value="portrait">Portrait</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Scale</Label>
+                  <select value={scaleChoice} onChange={e => setScaleChoice(e.target.value)} className="w-28 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                    <option value="fit">Fit to paper</option>
+                    {PLOT_SCALES.map((s, i) => <option key={s.label} value={String(i)}>{s.label}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Margin (mm)</Label>
+                  <input type="number" min={0} max={50} value={margin} onChange={e => setMargin(Math.max(0, Math.min(50, parseFloat(e.target.value) || 0)))} className={numberClass} />
+                </div>
+              </>
+            )}
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Pens</h4>
+            <RadioGroup value={penMapping} onValueChange={v => setPenMapping(v as HPGLPenMapping)} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="layer" id="hpgl-pens-layer" /><Label htmlFor="hpgl-pens-layer" className="text-xs">By layer</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="color" id="hpgl-pens-color" /><Label htmlFor="hpgl-pens-color" className="text-xs">By color</Label></div>
+            </RadioGroup>
+            <div className="max-h-40 overflow-y-auto space-y-1.5">
+              {keys.map(k => (
+                <div key={k.key} className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-sm border border-border shrink-0" style={{ background: k.color }} />
+                  <span className="text-xs flex-1 truncate">{k.label}</span>
+                  <input type="number" min={1} max={HPGL_PEN_COUNT} value={pens[k.key] ?? 1} onChange={e => setPens(p => ({ ...p, [k.key]: Math.max(1, Math.min(HPGL_PEN_COUNT, parseInt(e.target.value) || 1)) }))} className={numberClass} />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Curve tolerance (mm on paper)</Label>
+              <input type="number" min={0.005} step={0.01} value={tolerance} onChange={e => setTolerance(Math.max(0.005, parseFloat(e.target.value) || 0.05))} className={numberClass} />
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">Arcs and circles are sent as AA/CI; splines and ellipses are flattened within the tolerance. Hatches and images are not plotted.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!layout && useWindow && !pickedWindow} onClick={handleExport}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
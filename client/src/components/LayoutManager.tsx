@@ -13,6 +13,7 @@ import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
 import { Plus, X, Settings2, FileText, Maximize2 } from "lucide-react";
 import { createDefaultLayout, createViewport } from "@/lib/layout-utils";
+import { getPlotStyleTables } from "@/lib/plot-styles";
 import type { PaperSize, PaperOrientation, Layout, TitleBlockInfo } from "@/lib/cad-types";
 
 export default function LayoutManager() {
@@ -205,6 +206,7 @@ function NewLayoutForm({ onSubmit, onCancel }: { onSubmit: (name: string, size:
 // Layout Settings Panel (inside popover)
 // ============================================================
 function LayoutSettingsPanel({ layout, onAddViewport }: { layout: Layout; onAddViewport: () => void }) {
+  const { state } = useCAD();
   const { dispatch } = useCADActions();
 
   const updateTitleBlock = (updates: Partial<TitleBlockInfo>) => {
@@ -239,6 +241,21 @@ function LayoutSettingsPanel({ layout, onAddViewport }: { layout: Layout; onAddV
         </div>
       </div>
 
+      {/* Plot style */}
+      <div className="space-y-1.5">
+        <Label className="text-[10px] text-muted-foreground uppercase tracking-wider">Plot Style</Label>
+        <select
+          value={layout.plotStyleTableId ?? ""}
+          onChange={(e) => dispatch({ type: "UPDATE_LAYOUT", id: layout.id, updates: { plotStyleTableId: e.target.value || null } })}
+          className="w-full bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground"
+        >
+          <option value="">None (entity colors)</option>
+          {getPlotStyleTables(state.plotStyleTables).map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+      </div>
+
       <Separator className="opacity-20" />
 
       {/* Title Block */}
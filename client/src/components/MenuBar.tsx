@@ -1,73 +1,223 @@
-import { useCAD, useCADActions } from "@/contexts/CADContext";
-import { exportToDXF, exportToSVG } from "@/lib/cad-utils";
-import { parseDXF } from "@/lib/dxf-import";
-import { exportModelSpaceToPdf, exportLayoutToPdf } from "@/lib/pdf-export";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger, DropdownMenuShortcut } from "@/components/ui/dropdown-menu";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useCAD, useCADActions, initialState } from "@/contexts/CADContext";
+import { useCollab } from "@/contexts/CollabContext";
+import { exportToSVG, type SVGBackground } from "@/lib/svg-export";
+import { exportToDXF, type DXFVersion } from "@/lib/dxf-export";
+import { createDocument, serializeDocument, parseDocument, DocumentValidationError, DOCUMENT_FILE_EXTENSION, DOCUMENT_MIME_TYPE } from "@/lib/cad-document";
+import { createDrawing, updateDrawing, setAuthorName, DrawingConflictError, type DrawingSummary } from "@/lib/drawings-api";
+import { addRecentDrawing, listRecentDrawings, type RecentDrawing } from "@/lib/local-store";
+import { parseDXF, convertImportUnits } from "@/lib/dxf-import";
+import { parseSVG } from "@/lib/svg-import";
+import { DRAWING_INSUNITS, INSUNITS, unitScale } from "@/lib/dxf-common";
+import { mergeLayers, remapLayerIds, type DXFMergeOptions } from "@/lib/dxf-merge";
+import { exportModelSpaceToPdf, exportLayoutToPdf, publishLayoutsToPdf, plotModelSpaceToPdf, getPlotExtents, type PublishOptions, type PlotSettings } from "@/lib/pdf-export";
+import { exportToRaster, getDrawingExtents, getRasterSize, RASTER_EXTENSIONS, type RasterExportOptions } from "@/lib/raster-export";
+import { getEntitiesBBox } from "@/lib/cad-utils";
+import { findPlotStyleTable } from "@/lib/plot-styles";
+import { readImageFile, createImageEntity } from "@/lib/image-utils";
+import { vectorizeImage, type VectorizeOptions } from "@/lib/vectorize";
+import { generateId } from "@/lib/cad-utils";
+import { readGeoJSON, geoJSONExtents, geoJSONToEntities, exportToGeoJSON } from "@/lib/geojson";
+import { suggestGeoreference, describeGeoreference } from "@/lib/georeference";
+import { surveyExtents, surveyToEntities, type SurveyImportOptions, type SurveyPoint } from "@/lib/survey-import";
+import { buildToolpath, toolpathToGCode } from "@/lib/gcode-export";
+import { exportToHPGL, drawingColors, type HPGLExportOptions } from "@/lib/hpgl-export";
+import { collectNestParts, nestParts, type NestPart, type NestResult, type NestSettings } from "@/lib/nesting";
+import { ENTITY_COLORS, type Layout } from "@/lib/cad-types";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger, DropdownMenuShortcut, DropdownMenuSub, DropdownMenuSubTrigger, DropdownMenuSubContent } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
-import { FileDown, FileUp, Undo2, Redo2, Trash2, Copy, Grid3X3, Layers, Terminal, PanelRight, Sun, Moon, Printer, FileInput } from "lucide-react";
+import { downloadFile } from "@/lib/utils";
+import { FileDown, FileUp, Undo2, Redo2, Trash2, Copy, Grid3X3, Layers, Terminal, PanelRight, Sun, Moon, Printer, FileInput, Image, CloudUpload, FolderOpen, History, Users, UserMinus } from "lucide-react";
 import { useTheme } from "@/contexts/ThemeContext";
 import ShortcutsDialog from "./ShortcutsDialog";
+import DXFImportDialog from "./DXFImportDialog";
+import SVGExportDialog from "./SVGExportDialog";
+import RasterExportDialog from "./RasterExportDialog";
+import PublishDialog from "./PublishDialog";
+import PlotStyleDialog from "./PlotStyleDialog";
+import PlotDialog from "./PlotDialog";
+import VectorizeDialog from "./VectorizeDialog";
+import GeoreferenceDialog from "./GeoreferenceDialog";
+import GeoJSONExportDialog from "./GeoJSONExportDialog";
+import SurveyImportDialog, { type SurveySource } from "./SurveyImportDialog";
+import GCodeExportDialog from "./GCodeExportDialog";
+import HPGLExportDialog from "./HPGLExportDialog";
+import NestingDialog from "./NestingDialog";
+import NestingReportDialog from "./NestingReportDialog";
+import ServerSaveDialog, { type ServerSaveRequest } from "./ServerSaveDialog";
+import RevisionHistoryDialog from "./RevisionHistoryDialog";
+import DXFImportReportDialog, { type DXFImportReport } from "./DXFImportReportDialog";
 import { NamedViewsButton } from "./NamedViewsPanel";
 
 const LOGO_URL = "https://files.manuscdn.com/user_upload_by_module/session_file/310519663343684150/bRJEUWLqFHNMPniX.png";
 
 export default function MenuBar() {
   const { state } = useCAD();
-  const { undo, redo, deselectAll, dispatch } = useCADActions();
+  const { undo, redo, deselectAll, dispatch, pushUndo } = useCADActions();
+  const [, navigate] = useLocation();
+  const collab = useCollab();
   const { theme, toggleTheme } = useTheme();
+  const [mergeSource, setMergeSource] = useState<DXFImportReport | null>(null);
+  const [svgExportOpen, setSvgExportOpen] = useState(false);
+  const [rasterExportOpen, setRasterExportOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
+  const [plotStylesOpen, setPlotStylesOpen] = useState(false);
+  const [plotOpen, setPlotOpen] = useState(false);
+  const [pickingPlotWindow, setPickingPlotWindow] = useState(false);
+  const [vectorizeOpen, setVectorizeOpen] = useState(false);
+  const [pickingVectorizeWindow, setPickingVectorizeWindow] = useState(false);
+  const [georeferenceOpen, setGeoreferenceOpen] = useState(false);
+  const [geoJSONExportOpen, setGeoJSONExportOpen] = useState(false);
+  const [surveySource, setSurveySource] = useState<SurveySource | null>(null);
+  const [recentDrawings, setRecentDrawings] = useState<RecentDrawing[]>([]);
+  const [serverSaveOpen, setServerSaveOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [gcodeOpen, setGcodeOpen] = useState(false);
+  const [hpglOpen, setHpglOpen] = useState(false);
+  const [pickingHpglWindow, setPickingHpglWindow] = useState(false);
+  const [nestSource, setNestSource] = useState<{ parts: NestPart[]; ignored: number } | null>(null);
+  const [nestReport, setNestReport] = useState<NestResult | null>(null);
 
-  const handleExportDXF = () => { downloadFile(exportToDXF(state.entities), "drawing.dxf", "application/dxf"); toast.success("Exported as DXF"); };
-  const handleExportSVG = () => { downloadFile(exportToSVG(state.entities), "drawing.svg", "image/svg+xml"); toast.success("Exported as SVG"); };
+  // Reopen the plot, HPGL or vectorize dialog once the window pick on the canvas ends (picked or cancelled)
+  useEffect(() => {
+    if (pickingPlotWindow && state.activeTool !== "plot_window") { setPickingPlotWindow(false); setPlotOpen(true); }
+    if (pickingHpglWindow && state.activeTool !== "plot_window") { setPickingHpglWindow(false); setHpglOpen(true); }
+    if (pickingVectorizeWindow && state.activeTool !== "vectorize_window") { setPickingVectorizeWindow(false); setVectorizeOpen(true); }
+  }, [state.activeTool]);
+  const [importReport, setImportReport] = useState<DXFImportReport | null>(null);
+
+  const handleExportDXF = (version: DXFVersion) => { downloadFile(exportToDXF(state.entities, state.layers, state.blocks, { version }), "drawing.dxf", "application/dxf"); toast.success(`Exported as DXF (${version})`); };
+  const handleExportSVG = (background: SVGBackground, selectionOnly: boolean) => {
+    const entityIds = selectionOnly ? state.selectedEntityIds : undefined;
+    downloadFile(exportToSVG(state.entities, state.layers, state.blocks, { background, entityIds }), "drawing.svg", "image/svg+xml");
+    setSvgExportOpen(false);
+    toast.success(selectionOnly ? `Exported ${state.selectedEntityIds.length} selected entities as SVG` : "Exported as SVG");
+  };
+  const handleExportRaster = (options: RasterExportOptions) => {
+    exportToRaster(options, state.entities, state.layers, state.blocks, state.layouts).then(blob => {
+      downloadFile(blob, `drawing.${RASTER_EXTENSIONS[options.format]}`, blob.type);
+      setRasterExportOpen(false);
+      toast.success(`Exported as ${options.format.toUpperCase()}`);
+    }).catch((err: Error) => toast.error(`Image export failed: ${err.message}`));
+  };
+  const selectedEntities = state.entities.filter(e => state.selectedEntityIds.includes(e.id));
+  const rasterWindow = rasterExportOpen ? (getEntitiesBBox(selectedEntities) ?? getDrawingExtents(state.entities, state.layers, state.blocks)) : null;
 
   const handleNewDrawing = () => {
     if (state.entities.length > 0 && !confirm("Clear all entities? This cannot be undone.")) return;
+    // Leave a shared session first, or clearing would delete the drawing for everyone in it
+    collab.stop();
     dispatch({ type: "CLEAR_ALL" });
     dispatch({ type: "SET_VIEW_STATE", viewState: { panX: 0, panY: 0, zoom: 1 } });
+    dispatch({ type: "SET_DOCUMENT_INFO", info: { name: "Untitled", savedAt: null, server: null } });
     toast.success("New drawing created");
   };
 
-  const handleSaveJSON = () => {
-    downloadFile(JSON.stringify({ entities: state.entities, layers: state.layers, viewState: state.viewState, gridSettings: state.gridSettings }, null, 2), "drawing.cad.json", "application/json");
+  /** Mark the drawing as matching a file and remember it under Open Recent */
+  const rememberDocument = (name: string, entityCount: number, text: string) => {
+    dispatch({ type: "SET_DOCUMENT_INFO", info: { name, savedAt: Date.now() } });
+    addRecentDrawing(name, entityCount, text).catch(err => console.warn("Cannot update recent drawings:", err));
+  };
+
+  const handleSave = () => {
+    const text = serializeDocument(state);
+    const name = state.documentInfo.name === "Untitled" ? "drawing" : state.documentInfo.name;
+    downloadFile(text, `${name}${DOCUMENT_FILE_EXTENSION}`, DOCUMENT_MIME_TYPE);
+    rememberDocument(name, state.entities.length, text);
     toast.success("Drawing saved");
   };
 
-  const handleLoadJSON = () => {
-    const inp = document.createElement("input"); inp.type = "file"; inp.accept = ".json";
+  const openDocumentText = (text: string, name: string) => {
+    const doc = parseDocument(text, initialState);
+    dispatch({ type: "LOAD_DOCUMENT", content: doc.content });
+    dispatch({ type: "SET_DOCUMENT_INFO", info: { server: null } });
+    rememberDocument(name, doc.content.entities.length, text);
+  };
+
+  const handleSaveToServer = async ({ name, author, message }: ServerSaveRequest) => {
+    setServerSaveOpen(false);
+    if (author) setAuthorName(author);
+    const doc = createDocument(state);
+    const { server } = state.documentInfo;
+    const note = { author, message };
+    const saved = (summary: DrawingSummary) => {
+      dispatch({ type: "SET_DOCUMENT_INFO", info: { name: summary.name, savedAt: Date.now(), server: { id: summary.id, revision: summary.revision } } });
+      // Other participants of a shared session save on top of this revision from now on
+      if (summary.id === server?.id) collab.announceSaved(summary.revision, summary.name);
+      toast.success(`Saved ${summary.name} to the server (revision ${summary.revision})`);
+    };
+    try {
+      saved(server ? await updateDrawing(server.id, doc, server.revision, note) : await createDrawing(name, doc, note));
+    } catch (err) {
+      if (!(err instanceof DrawingConflictError) || !server) {
+        toast.error(`Cannot save to the server: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      // Someone saved since this drawing was opened: overwrite their revision, keep both, or stop
+      try {
+        const { current } = err;
+        if (confirm(`${current.name} was saved on the server (revision ${current.revision}, ${new Date(current.updatedAt).toLocaleString()}) after you opened revision ${server.revision}.\n\nOK overwrites it with your drawing. Cancel lets you save yours as a copy instead.`)) {
+          saved(await updateDrawing(server.id, doc, current.revision, note));
+        } else {
+          const copyName = prompt("Save your drawing as a new server drawing named:", `${name} (copy)`);
+          if (copyName?.trim()) saved(await createDrawing(copyName.trim(), doc, note));
+        }
+      } catch (retryErr) {
+        toast.error(`Cannot save to the server: ${retryErr instanceof Error ? retryErr.message : String(retryErr)}`);
+      }
+    }
+  };
+
+  const handleBrowseServer = () => {
+    if (state.entities.length > 0 && !confirm("Leave the drawing for the server drawing browser? Changes not saved to a file or the server will be lost.")) return;
+    navigate("/drawings");
+  };
+
+  const handleOpenRecent = (recent: RecentDrawing) => {
+    if (state.entities.length > 0 && !confirm(`Open ${recent.name}? Unsaved changes to the current drawing will be lost.`)) return;
+    try {
+      openDocumentText(recent.text, recent.name);
+      toast.success(`Opened ${recent.name}`);
+    } catch (err) {
+      toast.error(`Cannot open ${recent.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleOpen = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = `${DOCUMENT_FILE_EXTENSION},.json`;
     inp.onchange = (ev: Event) => {
       const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
       const reader = new FileReader();
       reader.onload = (re) => {
         try {
-          const data = JSON.parse(re.target?.result as string);
-          if (data.entities) { dispatch({ type: "LOAD_ENTITIES", entities: data.entities }); if (data.viewState) dispatch({ type: "SET_VIEW_STATE", viewState: data.viewState }); toast.success("Drawing loaded"); }
-        } catch { toast.error("Failed to parse file"); }
+          openDocumentText(re.target?.result as string, file.name.replace(/\.(cadstudio|cad\.json|json)$/i, ""));
+          toast.success(`Opened ${file.name}`);
+        } catch (err) {
+          if (err instanceof DocumentValidationError) toast.error(`Cannot open ${file.name}: ${err.message}`);
+          else { console.error("Open error:", err); toast.error(`Cannot open ${file.name}`); }
+        }
       };
       reader.readAsText(file);
     };
     inp.click();
   };
 
-  const handleImportDXF = () => {
+  const pickDXF = (onParsed: (source: DXFImportReport) => void) => {
     const inp = document.createElement("input"); inp.type = "file"; inp.accept = ".dxf";
     inp.onchange = (ev: Event) => {
       const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
       const reader = new FileReader();
       reader.onload = (re) => {
         try {
-          const content = re.target?.result as string;
-          const result = parseDXF(content);
-          if (result.entities.length > 0) {
-            dispatch({ type: "LOAD_ENTITIES", entities: result.entities });
-            // Import layers if present
-            if (result.layers.length > 0) {
-              for (const layer of result.layers) {
-                dispatch({ type: "ADD_LAYER", layer });
-              }
-            }
-            toast.success(`Imported ${result.entities.length} entities from DXF`);
-          } else {
-            toast.warning("No supported entities found in DXF file");
+          let result = parseDXF(re.target?.result as string);
+          if (result.entities.length === 0) { toast.warning("No supported entities found in DXF file"); return; }
+          const sourceUnits = result.units;
+          const factor = unitScale(sourceUnits, DRAWING_INSUNITS);
+          if (factor !== 1 && confirm(`${file.name} is drawn in ${INSUNITS[sourceUnits].name}. Convert it to ${INSUNITS[DRAWING_INSUNITS].name} (scale ×${+factor.toPrecision(6)})?`)) {
+            result = convertImportUnits(result, DRAWING_INSUNITS);
           }
+          onParsed({ fileName: file.name, result, sourceUnits });
         } catch (err) {
           console.error("DXF import error:", err);
           toast.error("Failed to parse DXF file");
@@ -78,39 +228,345 @@ export default function MenuBar() {
     inp.click();
   };
 
+  const handleImportDXF = () => pickDXF(source => {
+    const { result } = source;
+    // Reuse existing layers with the same name instead of duplicating them
+    const { layers, idMap } = mergeLayers(state.layers, result.layers, "overwrite");
+    dispatch({ type: "LOAD_ENTITIES", entities: remapLayerIds(result.entities, idMap) });
+    for (const layer of layers) {
+      const existing = state.layers.find(l => l.id === layer.id);
+      if (existing) dispatch({ type: "UPDATE_LAYER", id: layer.id, updates: { color: layer.color, visible: layer.visible, locked: layer.locked } });
+      else dispatch({ type: "ADD_LAYER", layer });
+    }
+    for (const block of result.blocks) {
+      dispatch({ type: "ADD_BLOCK", block: { ...block, entities: remapLayerIds(block.entities, idMap) } });
+    }
+    if (result.extents) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: result.extents });
+    setImportReport(source);
+    toast.success(`Imported ${result.entities.length} entities from DXF`);
+  });
+
+  const handleImportDXFInto = () => pickDXF(setMergeSource);
+
+  const handleConfirmMerge = (options: DXFMergeOptions) => {
+    if (!mergeSource) return;
+    const { fileName, result } = mergeSource;
+    dispatch({ type: "SET_TOOL", tool: "import_place" });
+    dispatch({ type: "SET_PENDING_IMPORT", pending: { fileName, result, options } });
+    dispatch({ type: "ADD_COMMAND", entry: { command: "IMPORT", timestamp: Date.now(), result: `Specify insertion point for ${fileName}` } });
+    setMergeSource(null);
+  };
+
+  const handleImportSVG = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = ".svg,image/svg+xml";
+    inp.onchange = (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (re) => {
+        try {
+          const content = re.target?.result as string;
+          const groupsAsBlocks = /<(?:\w+:)?g[\s>]/.test(content) && confirm("Convert SVG groups into blocks?");
+          const result = parseSVG(content, { layerId: state.activeLayerId, defaultColor: state.activeColor, groupsAsBlocks, existingBlockNames: state.blocks.map(b => b.name) });
+          if (result.entities.length === 0) { toast.warning("No supported shapes found in SVG file"); return; }
+          dispatch({ type: "MERGE_IMPORT", entities: result.entities, layers: state.layers, blocks: result.blocks });
+          if (result.extents) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: result.extents });
+          const skipped = Object.entries(result.stats.skipped).map(([tag, n]) => `${n} <${tag}>`).join(", ");
+          toast.success(`Imported ${result.entities.length} entities from ${file.name}${skipped ? ` (skipped ${skipped})` : ""}`);
+        } catch (err) {
+          console.error("SVG import error:", err);
+          toast.error("Failed to parse SVG file");
+        }
+      };
+      reader.readAsText(file);
+    };
+    inp.click();
+  };
+
+  const handleImportGeoJSON = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = ".geojson,.json,application/geo+json,application/json";
+    inp.onchange = (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (re) => {
+        try {
+          const features = readGeoJSON(re.target?.result as string);
+          const extents = geoJSONExtents(features);
+          if (!extents) { toast.warning("No coordinates found in GeoJSON file"); return; }
+          let geo = state.georeference;
+          if (!geo) {
+            // Without a georeference, center the data on the drawing origin
+            geo = suggestGeoreference(extents);
+            if (!confirm(`The drawing has no georeference. Place the data using ${describeGeoreference(geo)}?`)) return;
+            dispatch({ type: "SET_GEOREFERENCE", georeference: geo });
+          }
+          const result = geoJSONToEntities(features, geo, { layerId: state.activeLayerId, color: state.activeColor });
+          if (result.entities.length === 0) { toast.warning("No supported geometries found in GeoJSON file"); return; }
+          pushUndo();
+          dispatch({ type: "ADD_ENTITIES", entities: result.entities });
+          if (result.extents) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: result.extents });
+          const { points, lines, polygons, holes, skipped } = result.stats;
+          const skippedText = Object.entries(skipped).map(([type, n]) => `${n} ${type}`).join(", ");
+          const summary = `${points} points, ${lines} lines, ${polygons} polygons${holes ? ` (${holes} holes as separate outlines)` : ""}`;
+          dispatch({ type: "ADD_COMMAND", entry: { command: "GEOJSONIN", timestamp: Date.now(), result: `Imported ${summary} from ${file.name}` } });
+          toast.success(`Imported ${summary} from ${file.name}${skippedText ? ` (skipped ${skippedText})` : ""}`);
+        } catch (err) {
+          console.error("GeoJSON import error:", err);
+          toast.error(err instanceof Error ? err.message : "Failed to parse GeoJSON file");
+        }
+      };
+      reader.readAsText(file);
+    };
+    inp.click();
+  };
+
+  const handleImportSurvey = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = ".csv,.txt,.pnt,.xyz,text/csv,text/plain";
+    inp.onchange = (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (re) => setSurveySource({ fileName: file.name, text: re.target?.result as string });
+      reader.readAsText(file);
+    };
+    inp.click();
+  };
+
+  const handleConfirmSurvey = (points: SurveyPoint[], options: Omit<SurveyImportOptions, "color">) => {
+    if (!surveySource) return;
+    let geo = state.georeference;
+    if (geo?.system === "geographic") { toast.error("Survey coordinates are easting/northing; set a projected georeference first (File > Georeference...)"); return; }
+    if (!geo) {
+      // Without a georeference, center the points on the drawing origin
+      const extents = surveyExtents(points);
+      if (!extents) return;
+      geo = { ...suggestGeoreference(extents), system: "projected" };
+      if (!confirm(`The drawing has no georeference. Place the points using ${describeGeoreference(geo)}?`)) return;
+      dispatch({ type: "SET_GEOREFERENCE", georeference: geo });
+    }
+    const result = surveyToEntities(points, geo, state.blocks, { ...options, color: state.activeColor });
+    // One undo step for the points and the marker block they reference
+    dispatch({ type: "MERGE_IMPORT", entities: result.entities, layers: state.layers, blocks: result.block ? [result.block] : [] });
+    if (result.extents) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: result.extents });
+    const { points: count, labels, lines } = result.stats;
+    const summary = `${count} points, ${labels} labels, ${lines} lines`;
+    dispatch({ type: "ADD_COMMAND", entry: { command: "SURVEYIN", timestamp: Date.now(), result: `Imported ${summary} from ${surveySource.fileName}` } });
+    setSurveySource(null);
+    toast.success(`Imported ${summary} from ${surveySource.fileName}`);
+  };
+
+  const handleExportGeoJSON = (layerIds: string[]) => {
+    if (!state.georeference) return;
+    const result = exportToGeoJSON(state.entities, state.layers, layerIds, state.georeference);
+    setGeoJSONExportOpen(false);
+    if (result.features === 0) { toast.warning("Nothing to export on the chosen layers"); return; }
+    downloadFile(result.json, "drawing.geojson", "application/geo+json");
+    const skipped = Object.entries(result.skipped).map(([type, n]) => `${n} ${type}`).join(", ");
+    toast.success(`Exported ${result.features} features as GeoJSON${skipped ? ` (skipped ${skipped})` : ""}`);
+  };
+
+  const handleExportGCode = () => {
+    const toolpath = buildToolpath(state.entities, state.layers, state.blocks, state.gcodeSettings);
+    downloadFile(toolpathToGCode(toolpath, state.layers, state.gcodeSettings), "drawing.nc", "text/plain");
+    const { contours, cutLength, uncompensated } = toolpath.stats;
+    const warning = uncompensated ? ` (${uncompensated} without kerf compensation)` : "";
+    dispatch({ type: "ADD_COMMAND", entry: { command: "GCODE", timestamp: Date.now(), result: `Exported ${contours} contours, ${cutLength.toFixed(0)} mm of cut${warning}` } });
+    setGcodeOpen(false);
+    if (uncompensated) toast.warning(`Exported G-code: ${contours} contours, ${uncompensated} cut on the line without kerf compensation`);
+    else toast.success(`Exported G-code: ${contours} contours`);
+  };
+
+  const handleApplyGeoreference = (georeference: typeof state.georeference) => {
+    dispatch({ type: "SET_GEOREFERENCE", georeference });
+    dispatch({ type: "ADD_COMMAND", entry: { command: "GEOREF", timestamp: Date.now(), result: georeference ? describeGeoreference(georeference) : "Georeference removed" } });
+    setGeoreferenceOpen(false);
+  };
+
+  const handleInsertImage = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = "image/png,image/jpeg,image/webp,image/gif,image/bmp";
+    inp.onchange = async (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
+      try {
+        const { src, pixelWidth, pixelHeight } = await readImageFile(file);
+        // One drawing unit per pixel, centered in the view; calibrate to scale it
+        const { zoom, panX, panY } = state.viewState;
+        const center = { x: -panX / zoom, y: -panY / zoom };
+        const insertPoint = { x: center.x - pixelWidth / 2, y: center.y - pixelHeight / 2 };
+        pushUndo();
+        dispatch({ type: "ADD_ENTITY", entity: createImageEntity(src, pixelWidth, pixelHeight, insertPoint, pixelWidth, state.activeLayerId, state.activeColor) });
+        dispatch({ type: "ZOOM_TO_BOUNDS", bounds: { minX: insertPoint.x, minY: insertPoint.y, maxX: insertPoint.x + pixelWidth, maxY: insertPoint.y + pixelHeight } });
+        toast.success(`Inserted ${file.name} (${pixelWidth} × ${pixelHeight} px). Use IMAGECALIBRATE to scale it.`);
+      } catch (err) {
+        console.error("Image insert error:", err);
+        toast.error(err instanceof Error ? err.message : "Failed to read image");
+      }
+    };
+    inp.click();
+  };
+
   const handleExportPDF = () => {
     if (state.activeSpace === "paper" && state.activeLayoutId) {
       const layout = state.layouts.find(l => l.id === state.activeLayoutId);
       if (layout) {
-        exportLayoutToPdf(layout, state.entities, state.blocks, `${layout.name}.pdf`);
+        exportLayoutToPdf(layout, state.entities, state.blocks, `${layout.name}.pdf`, findPlotStyleTable(state.plotStyleTables, layout.plotStyleTableId));
         toast.success(`Exported layout "${layout.name}" as PDF`);
         return;
       }
     }
-    exportModelSpaceToPdf(state.entities, state.blocks, "drawing.pdf");
+    exportModelSpaceToPdf(state.entities, state.blocks, "drawing.pdf", findPlotStyleTable(state.plotStyleTables, state.modelPlotStyleTableId));
     toast.success("Exported model space as PDF");
   };
 
+  const handlePickPlotWindow = () => {
+    setPlotOpen(false);
+    setPickingPlotWindow(true);
+    if (state.activeSpace === "paper") dispatch({ type: "SET_ACTIVE_LAYOUT", layoutId: null });
+    dispatch({ type: "SET_TOOL", tool: "plot_window" });
+    dispatch({ type: "ADD_COMMAND", entry: { command: "PLOT", timestamp: Date.now(), result: "Specify first corner of plot window:" } });
+  };
+
+  const handlePickHpglWindow = () => {
+    setHpglOpen(false);
+    setPickingHpglWindow(true);
+    if (state.activeSpace === "paper") dispatch({ type: "SET_ACTIVE_LAYOUT", layoutId: null });
+    dispatch({ type: "SET_TOOL", tool: "plot_window" });
+    dispatch({ type: "ADD_COMMAND", entry: { command: "HPGL", timestamp: Date.now(), result: "Specify first corner of plot window:" } });
+  };
+
+  const handleExportHPGL = (options: HPGLExportOptions) => {
+    downloadFile(exportToHPGL(state.entities, state.layers, state.blocks, options), "drawing.plt", "application/vnd.hp-hpgl");
+    setHpglOpen(false);
+    toast.success(options.target.kind === "layout" ? `Exported layout "${options.target.layout.name}" as HPGL/2` : "Exported model space as HPGL/2");
+  };
+
+  const handlePickVectorizeWindow = () => {
+    setVectorizeOpen(false);
+    setPickingVectorizeWindow(true);
+    if (state.activeSpace === "paper") dispatch({ type: "SET_ACTIVE_LAYOUT", layoutId: null });
+    dispatch({ type: "SET_TOOL", tool: "vectorize_window" });
+    dispatch({ type: "ADD_COMMAND", entry: { command: "VECTORIZE", timestamp: Date.now(), result: "Specify first corner of the region:" } });
+  };
+
+  const handleVectorize = (imageId: string, options: VectorizeOptions, layerId: string) => {
+    const image = state.entities.find(e => e.id === imageId);
+    if (image?.data.type !== "image") return;
+    const traced = vectorizeImage(image.data, options);
+    if (!traced) { toast.error("The image has not loaded yet or the region misses it"); return; }
+    if (traced.length === 0) { toast.warning("Nothing traced — try another threshold or a smaller minimum length"); return; }
+    const entities = traced.map(data => ({
+      id: generateId(), type: data.type, data, layerId, color: state.activeColor,
+      lineWidth: state.activeLineWidth, lineStyle: state.activeLineStyle, visible: true, locked: false, selected: false,
+    }));
+    // One undo step for the whole trace
+    pushUndo();
+    dispatch({ type: "ADD_ENTITIES", entities });
+    dispatch({ type: "SELECT_ENTITIES", ids: entities.map(e => e.id) });
+    const counts = (["line", "arc", "polyline"] as const).map(t => `${entities.filter(e => e.type === t).length} ${t}s`).join(", ");
+    dispatch({ type: "ADD_COMMAND", entry: { command: "VECTORIZE", timestamp: Date.now(), result: `Traced ${counts}` } });
+    setVectorizeOpen(false);
+    toast.success(`Vectorized image: ${counts}`);
+  };
+
+  const handleOpenNesting = () => {
+    const source = collectNestParts(selectedEntities, state.blocks);
+    if (source.parts.length === 0) { toast.warning("Select closed outlines or block references to nest"); return; }
+    setNestSource(source);
+  };
+
+  const handleNest = (settings: NestSettings) => {
+    if (!nestSource) return;
+    // Arrange the sheets on a fresh layer to the right of everything drawn so far
+    const names = new Set(state.layers.map(l => l.name));
+    let n = 1;
+    while (names.has(`Nest ${n}`)) n++;
+    const layer = { id: `layer-${generateId()}`, name: `Nest ${n}`, color: ENTITY_COLORS[state.layers.length % ENTITY_COLORS.length], visible: true, locked: false, active: false };
+    const bbox = getEntitiesBBox(state.entities);
+    const origin = bbox ? { x: bbox.maxX + settings.sheetWidth * 0.1, y: bbox.minY } : { x: 0, y: 0 };
+    const result = nestParts(nestSource.parts, settings, origin, layer.id);
+    if (result.placed === 0) { toast.error("No part fits on the sheet inside its margin"); return; }
+    dispatch({ type: "ADD_LAYER", layer });
+    // One undo step for the whole run
+    pushUndo();
+    dispatch({ type: "ADD_ENTITIES", entities: result.entities });
+    dispatch({ type: "ZOOM_TO_BOUNDS", bounds: result.bounds });
+    const summary = `${result.placed} parts on ${result.sheets.length} sheet${result.sheets.length === 1 ? "" : "s"}, ${(result.utilization * 100).toFixed(1)}% utilization`;
+    dispatch({ type: "ADD_COMMAND", entry: { command: "NEST", timestamp: Date.now(), result: `${summary} on layer ${layer.name}` } });
+    setNestSource(null);
+    setNestReport(result);
+    toast.success(`Nested ${summary}`);
+  };
+
+  const handlePlot = (settings: PlotSettings) => {
+    plotModelSpaceToPdf(state.entities, state.blocks, settings, "drawing.pdf", findPlotStyleTable(state.plotStyleTables, state.modelPlotStyleTableId));
+    setPlotOpen(false);
+    toast.success("Plotted model space as PDF");
+  };
+
+  const handlePublish = (layouts: Layout[], options: PublishOptions) => {
+    publishLayoutsToPdf(layouts, state.entities, state.blocks, options, "sheet-set.pdf", state.plotStyleTables);
+    setPublishOpen(false);
+    toast.success(`Published ${layouts.length} layout${layouts.length === 1 ? "" : "s"} as PDF`);
+  };
+
   return (
     <div className="flex items-center h-9 px-2 gap-1 border-b select-none" style={{ background: "var(--cad-toolbar-bg)", borderColor: "var(--cad-panel-border)" }}>
       <div className="flex items-center gap-2 mr-2">
         <img src={LOGO_URL} alt="CAD Studio" className="w-5 h-5 rounded" />
         <span className="text-xs font-semibold tracking-wide text-foreground/90">CAD Studio</span>
+        <span className="text-xs text-muted-foreground truncate max-w-40" title={state.documentInfo.savedAt ? `Saved ${new Date(state.documentInfo.savedAt).toLocaleString()}` : "Not saved to a file"}>— {state.documentInfo.name}</span>
+        {collab.status !== "off" && (
+          <span className="flex items-center gap-1 text-[10px] text-muted-foreground" title={["You", ...collab.peers.map(p => p.name)].join(", ")}>
+            {collab.color && <span className="w-2 h-2 rounded-full" style={{ background: collab.color }} />}
+            {collab.peers.map(p => <span key={p.clientId} className="w-2 h-2 rounded-full" style={{ background: p.color }} />)}
+            {collab.status === "connected" ? `${collab.peers.length + 1} editing` : collab.status === "connecting" ? "Joining…" : "Reconnecting…"}
+          </span>
+        )}
       </div>
 
-      <DropdownMenu>
+      <DropdownMenu onOpenChange={open => { if (open) listRecentDrawings().then(setRecentDrawings).catch(() => setRecentDrawings([])); }}>
         <DropdownMenuTrigger className="px-2 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent rounded transition-colors">File</DropdownMenuTrigger>
         <DropdownMenuContent align="start" className="w-52">
           <DropdownMenuItem onClick={handleNewDrawing}><Trash2 className="mr-2 h-3.5 w-3.5" /> New Drawing<DropdownMenuShortcut>Ctrl+N</DropdownMenuShortcut></DropdownMenuItem>
           <DropdownMenuSeparator />
-          <DropdownMenuItem onClick={handleLoadJSON}><FileUp className="mr-2 h-3.5 w-3.5" /> Open...<DropdownMenuShortcut>Ctrl+O</DropdownMenuShortcut></DropdownMenuItem>
-          <DropdownMenuItem onClick={handleSaveJSON}><FileDown className="mr-2 h-3.5 w-3.5" /> Save as JSON<DropdownMenuShortcut>Ctrl+S</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuItem onClick={handleOpen}><FileUp className="mr-2 h-3.5 w-3.5" /> Open...<DropdownMenuShortcut>Ctrl+O</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={recentDrawings.length === 0}><FileUp className="mr-2 h-3.5 w-3.5" /> Open Recent</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-60">
+              {recentDrawings.map(r => (
+                <DropdownMenuItem key={r.id} onClick={() => handleOpenRecent(r)}>
+                  <span className="flex-1 truncate">{r.name}</span>
+                  <span className="text-[10px] text-muted-foreground">{new Date(r.openedAt).toLocaleDateString()} · {r.entityCount}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={handleSave}><FileDown className="mr-2 h-3.5 w-3.5" /> Save<DropdownMenuShortcut>Ctrl+S</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setServerSaveOpen(true)}><CloudUpload className="mr-2 h-3.5 w-3.5" /> Save to Server...</DropdownMenuItem>
+          <DropdownMenuItem disabled={!state.documentInfo.server} onClick={() => setHistoryOpen(true)}><History className="mr-2 h-3.5 w-3.5" /> Revision History...</DropdownMenuItem>
+          {collab.status === "off"
+            ? <DropdownMenuItem disabled={!state.documentInfo.server} onClick={collab.start}><Users className="mr-2 h-3.5 w-3.5" /> Collaborate</DropdownMenuItem>
+            : <DropdownMenuItem onClick={collab.stop}><UserMinus className="mr-2 h-3.5 w-3.5" /> Leave Session</DropdownMenuItem>}
+          <DropdownMenuItem onClick={handleBrowseServer}><FolderOpen className="mr-2 h-3.5 w-3.5" /> Server Drawings...</DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={handleImportDXF}><FileInput className="mr-2 h-3.5 w-3.5" /> Import DXF...<DropdownMenuShortcut>Ctrl+I</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuItem onClick={handleImportDXFInto}><FileInput className="mr-2 h-3.5 w-3.5" /> Import DXF into Drawing...</DropdownMenuItem>
+          <DropdownMenuItem onClick={handleImportSVG}><FileInput className="mr-2 h-3.5 w-3.5" /> Import SVG...</DropdownMenuItem>
+          <DropdownMenuItem onClick={handleImportGeoJSON}><FileInput className="mr-2 h-3.5 w-3.5" /> Import GeoJSON...</DropdownMenuItem>
+          <DropdownMenuItem onClick={handleImportSurvey}><FileInput className="mr-2 h-3.5 w-3.5" /> Import Survey Points...</DropdownMenuItem>
+          <DropdownMenuItem onClick={handleInsertImage}><Image className="mr-2 h-3.5 w-3.5" /> Insert Image...</DropdownMenuItem>
           <DropdownMenuSeparator />
-          <DropdownMenuItem onClick={handleExportDXF}><FileDown className="mr-2 h-3.5 w-3.5" /> Export DXF</DropdownMenuItem>
-          <DropdownMenuItem onClick={handleExportSVG}><FileDown className="mr-2 h-3.5 w-3.5" /> Export SVG</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExportDXF("R2000")}><FileDown className="mr-2 h-3.5 w-3.5" /> Export DXF (R2000)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExportDXF("R12")}><FileDown className="mr-2 h-3.5 w-3.5" /> Export DXF (R12)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setSvgExportOpen(true)}><FileDown className="mr-2 h-3.5 w-3.5" /> Export SVG...</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setRasterExportOpen(true)}><FileDown className="mr-2 h-3.5 w-3.5" /> Export Image...</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setGcodeOpen(true)}><FileDown className="mr-2 h-3.5 w-3.5" /> Export G-code...</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setHpglOpen(true)}><FileDown className="mr-2 h-3.5 w-3.5" /> Export HPGL/2...</DropdownMenuItem>
+          <DropdownMenuItem disabled={!state.georeference} onClick={() => setGeoJSONExportOpen(true)}><FileDown className="mr-2 h-3.5 w-3.5" /> Export GeoJSON...</DropdownMenuItem>
           <DropdownMenuItem onClick={handleExportPDF}><Printer className="mr-2 h-3.5 w-3.5" /> Export PDF<DropdownMenuShortcut>Ctrl+P</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setPlotOpen(true)}><Printer className="mr-2 h-3.5 w-3.5" /> Plot...</DropdownMenuItem>
+          <DropdownMenuItem disabled={state.layouts.length === 0} onClick={() => setPublishOpen(true)}><Printer className="mr-2 h-3.5 w-3.5" /> Publish Layouts...</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setPlotStylesOpen(true)}>Plot Styles...</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setGeoreferenceOpen(true)}>Georeference...</DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -124,6 +580,12 @@ export default function MenuBar() {
           <DropdownMenuItem onClick={deselectAll}>Deselect All<DropdownMenuShortcut>Esc</DropdownMenuShortcut></DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={() => { if (state.selectedEntityIds.length > 0) dispatch({ type: "REMOVE_ENTITIES", ids: state.selectedEntityIds }); }}><Trash2 className="mr-2 h-3.5 w-3.5" /> Delete Selected<DropdownMenuShortcut>Del</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => dispatch({ type: "SET_TOOL", tool: "image_calibrate" })}>Calibrate Image</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => dispatch({ type: "SET_TOOL", tool: "image_clip" })}>Clip Image</DropdownMenuItem>
+          <DropdownMenuItem disabled={!state.entities.some(e => e.data.type === "image")} onClick={() => setVectorizeOpen(true)}>Vectorize Image...</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={state.selectedEntityIds.length === 0} onClick={handleOpenNesting}>Nest Parts...</DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -137,6 +599,8 @@ export default function MenuBar() {
           <DropdownMenuItem onClick={() => dispatch({ type: "SET_GRID_SETTINGS", settings: { visible: !state.gridSettings.visible } })}><Grid3X3 className="mr-2 h-3.5 w-3.5" />{state.gridSettings.visible ? "Hide Grid" : "Show Grid"}</DropdownMenuItem>
           <DropdownMenuItem onClick={() => dispatch({ type: "SET_SNAP_SETTINGS", settings: { enabled: !state.snapSettings.enabled } })}>{state.snapSettings.enabled ? "✓ " : "  "}Object Snap<DropdownMenuShortcut>F3</DropdownMenuShortcut></DropdownMenuItem>
           <DropdownMenuItem onClick={() => dispatch({ type: "TOGGLE_ORTHO" })}>{state.orthoMode ? "✓ " : "  "}Ortho Mode<DropdownMenuShortcut>F8</DropdownMenuShortcut></DropdownMenuItem>
+          <DropdownMenuItem onClick={() => dispatch({ type: "TOGGLE_PLOT_STYLE_PREVIEW" })}>{state.plotStylePreview ? "✓ " : "  "}Plot Style Preview</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => dispatch({ type: "TOGGLE_TOOLPATH_PREVIEW" })}>{state.toolpathPreview ? "✓ " : "  "}Toolpath Preview</DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={() => dispatch({ type: "TOGGLE_LAYERS" })}><Layers className="mr-2 h-3.5 w-3.5" />{state.showLayers ? "Hide Layers" : "Show Layers"}</DropdownMenuItem>
           <DropdownMenuItem onClick={() => dispatch({ type: "TOGGLE_PROPERTIES" })}><PanelRight className="mr-2 h-3.5 w-3.5" />{state.showProperties ? "Hide Properties" : "Show Properties"}</DropdownMenuItem>
@@ -156,6 +620,83 @@ export default function MenuBar() {
         <button className="cad-toolbar-btn" onClick={undo} title="Undo (Ctrl+Z)"><Undo2 size={14} /></button>
         <button className="cad-toolbar-btn" onClick={redo} title="Redo (Ctrl+Y)"><Redo2 size={14} /></button>
         <ShortcutsDialog />
+        <DXFImportDialog
+          source={mergeSource}
+          existingLayers={state.layers}
+          onCancel={() => setMergeSource(null)}
+          onConfirm={handleConfirmMerge}
+        />
+        <DXFImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+        <SVGExportDialog open={svgExportOpen} selectionCount={state.selectedEntityIds.length} onCancel={() => setSvgExportOpen(false)} onExport={handleExportSVG} />
+        <RasterExportDialog
+          open={rasterExportOpen}
+          layouts={state.layouts}
+          activeLayoutId={state.activeLayoutId}
+          defaultWindow={rasterWindow}
+          getSize={options => getRasterSize(options, state.entities, state.layers, state.blocks, state.layouts)}
+          onCancel={() => setRasterExportOpen(false)}
+          onExport={handleExportRaster}
+        />
+        <PlotDialog
+          open={plotOpen}
+          extents={plotOpen ? getPlotExtents(state.entities) : null}
+          viewState={state.viewState}
+          canvasSize={state.canvasSize}
+          namedViews={state.namedViews}
+          pickedWindow={state.plotWindow}
+          onPickWindow={handlePickPlotWindow}
+          onCancel={() => setPlotOpen(false)}
+          onPlot={handlePlot}
+        />
+        <VectorizeDialog
+          open={vectorizeOpen}
+          images={state.entities.filter(e => e.data.type === "image")}
+          defaultImageId={state.entities.find(e => e.data.type === "image" && state.selectedEntityIds.includes(e.id))?.id ?? null}
+          layers={state.layers}
+          activeLayerId={state.activeLayerId}
+          pickedWindow={state.vectorizeWindow}
+          onPickWindow={handlePickVectorizeWindow}
+          onCancel={() => setVectorizeOpen(false)}
+          onRun={handleVectorize}
+        />
+        <GeoreferenceDialog open={georeferenceOpen} georeference={state.georeference} onCancel={() => setGeoreferenceOpen(false)} onApply={handleApplyGeoreference} />
+        <SurveyImportDialog source={surveySource} layers={state.layers} activeLayerId={state.activeLayerId} onCancel={() => setSurveySource(null)} onImport={handleConfirmSurvey} />
+        <GeoJSONExportDialog open={geoJSONExportOpen} layers={state.layers} entities={state.entities} onCancel={() => setGeoJSONExportOpen(false)} onExport={handleExportGeoJSON} />
+        <GCodeExportDialog
+          open={gcodeOpen}
+          settings={state.gcodeSettings}
+          entities={state.entities}
+          layers={state.layers}
+          blocks={state.blocks}
+          preview={state.toolpathPreview}
+          onTogglePreview={() => dispatch({ type: "TOGGLE_TOOLPATH_PREVIEW" })}
+          onChange={settings => dispatch({ type: "SET_GCODE_SETTINGS", settings })}
+          onClose={() => setGcodeOpen(false)}
+          onExport={handleExportGCode}
+        />
+        <HPGLExportDialog
+          open={hpglOpen}
+          layers={state.layers}
+          colors={hpglOpen ? drawingColors(state.entities, state.blocks) : []}
+          layouts={state.layouts}
+          activeLayoutId={state.activeLayoutId}
+          pickedWindow={state.plotWindow}
+          onPickWindow={handlePickHpglWindow}
+          onCancel={() => setHpglOpen(false)}
+          onExport={handleExportHPGL}
+        />
+        <NestingDialog open={nestSource !== null} parts={nestSource?.parts ?? []} ignored={nestSource?.ignored ?? 0} onCancel={() => setNestSource(null)} onRun={handleNest} />
+        <NestingReportDialog result={nestReport} onClose={() => setNestReport(null)} />
+        <ServerSaveDialog
+          open={serverSaveOpen}
+          name={state.documentInfo.name}
+          nextRevision={state.documentInfo.server ? state.documentInfo.server.revision + 1 : null}
+          onCancel={() => setServerSaveOpen(false)}
+          onSave={handleSaveToServer}
+        />
+        <RevisionHistoryDialog open={historyOpen} onClose={() => setHistoryOpen(false)} />
+        <PlotStyleDialog open={plotStylesOpen} onClose={() => setPlotStylesOpen(false)} />
+        <PublishDialog open={publishOpen} layouts={state.layouts} onCancel={() => setPublishOpen(false)} onPublish={handlePublish} />
         <button
           className="cad-toolbar-btn"
           onClick={toggleTheme}
@@ -169,10 +710,3 @@ export default function MenuBar() {
     </div>
   );
 }
-
-function downloadFile(content: string, filename: string, mimeType: string) {
-  const blob = new Blob([content], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a"); a.href = url; a.download = filename; a.click();
-  URL.revokeObjectURL(url);
-}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_NEST_SETTINGS, NEST_ROTATIONS, type NestPart, type NestRotation, type NestSettings } from "@/lib/nesting";
+
+interface NestingDialogProps {
+  open: boolean;
+  parts: NestPart[];
+  /** Selected entities that are not closed outlines */
+  ignored: number;
+  onCancel: () => void;
+  onRun: (settings: NestSettings) => void;
+}
+
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Sheet stock, spacing, rotations and part quantities for a nesting run */
+export default function NestingDialog({ open, parts, ignored, onCancel, onRun }: NestingDialogProps) {
+  const [sheetWidth, setSheetWidth] = useState(DEFAULT_NEST_SETTINGS.sheetWidth);
+  const [sheetHeight, setSheetHeight] = useState(DEFAULT_NEST_SETTINGS.sheetHeight);
+  const [spacing, setSpacing] = useState(DEFAULT_NEST_SETTINGS.spacing);
+  const [margin, setMargin] = useState(DEFAULT_NEST_SETTINGS.margin);
+  const [rotation, setRotation] = useState<NestRotation>(DEFAULT_NEST_SETTINGS.rotation);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  useEffect(() => { if (open) setQuantities(Object.fromEntries(parts.map(p => [p.id, 1]))); }, [open, parts]);
+
+  const num = (v: string, min = 0) => Math.max(min, parseFloat(v) || 0);
+  const total = parts.reduce((n, p) => n + (quantities[p.id] ?? 0), 0);
+  const partArea = parts.reduce((a, p) => a + p.area * (quantities[p.id] ?? 0), 0);
+  const sheetArea = sheetWidth * sheetHeight;
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Nest Parts</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Parts</h4>
+            <div className="flex items-center gap-2 text-[10px] text-muted-foreground/60">
+              <span className="flex-1">Part</span>
+              <span className="w-20 text-right">Area</span>
+              <span className="w-16 text-right">Quantity</span>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-1.5">
+              {parts.map(p => (
+                <div key={p.id} className="flex items-center gap-2">
+                  <span className="text-xs flex-1 truncate">{p.name}{p.entities.length > 1 ? ` (${p.entities.length} entities)` : ""}</span>
+                  <span className="text-xs cad-mono w-20 text-right text-muted-foreground">{p.area.toFixed(0)}</span>
+                  <input type="number" min={0} step={1} value={quantities[p.id] ?? 0} onChange={e => setQuantities(q => ({ ...q, [p.id]: Math.floor(num(e.target.value)) }))} className={numberClass} />
+                </div>
+              ))}
+            </div>
+            {ignored > 0 && <p className="text-[10px] text-muted-foreground/60">{ignored} selected entit{ignored === 1 ? "y is" : "ies are"} not a closed outline and will be left out.</p>}
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Sheet</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Width × height</Label>
+              <div className="flex gap-1.5">
+                <input type="number" min={1} value={sheetWidth} onChange={e => setSheetWidth(num(e.target.value, 1))} className={numberClass} />
+                <input type="number" min={1} value={sheetHeight} onChange={e => setSheetHeight(num(e.target.value, 1))} className={numberClass} />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Part spacing</Label>
+              <input type="number" min={0} step={0.5} value={spacing} onChange={e => setSpacing(num(e.target.value))} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Edge margin</Label>
+              <input type="number" min={0} step={0.5} value={margin} onChange={e => setMargin(num(e.target.value))} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Rotations</Label>
+              <select value={rotation} onChange={e => setRotation(e.target.value as NestRotation)} className={selectClass}>
+                {NEST_ROTATIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+              </select>
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">
+              {total} cop{total === 1 ? "y" : "ies"}, at least {Math.max(1, Math.ceil(partArea / sheetArea))} sheet{partArea > sheetArea ? "s" : ""}. Copies go on a new layer to the right of the drawing.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={total === 0} onClick={() => onRun({ sheetWidth, sheetHeight, spacing, margin, rotation, quantities })}>Nest</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { NestResult } from "@/lib/nesting";
+
+interface NestingReportDialogProps {
+  result: NestResult | null;
+  onClose: () => void;
+}
+
+const percent = (v: number) => `${(v * 100).toFixed(1)} %`;
+
+/** Sheets used, copies per sheet and material utilization of a nesting run */
+export default function NestingReportDialog({ result, onClose }: NestingReportDialogProps) {
+  const unplaced = result ? Object.entries(result.unplaced).filter(([, n]) => n > 0) : [];
+
+  return (
+    <Dialog open={result !== null} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Nesting Report</DialogTitle></DialogHeader>
+        {result && (
+          <div className="space-y-3 text-xs">
+            <div className="space-y-1">
+              <div className="flex justify-between"><span className="text-muted-foreground">Sheets</span><span>{result.sheets.length}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Copies placed</span><span>{result.placed}</span></div>
+              <div className="flex justify-between"><span className="text-muted-foreground">Utilization</span><span className="font-mono">{percent(result.utilization)}</span></div>
+            </div>
+            <div>
+              <h4 className="font-semibold uppercase tracking-wider text-muted-foreground mb-1">Per Sheet</h4>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {result.sheets.map((sheet, i) => (
+                  <div key={i} className="flex gap-2">
+                    <span className="w-14 shrink-0">Sheet {i + 1}</span>
+                    <span className="w-14 shrink-0 text-right font-mono">{percent(sheet.utilization)}</span>
+                    <span className="text-muted-foreground">{Object.entries(sheet.parts).map(([name, n]) => `${n} × ${name}`).join(", ")}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {unplaced.length > 0 && (
+              <div>
+                <h4 className="font-semibold uppercase tracking-wider text-muted-foreground mb-1">Not Placed</h4>
+                {unplaced.map(([name, n]) => (
+                  <div key={name} className="flex justify-between"><span>{name}</span><span>{n}</span></div>
+                ))}
+                <p className="text-muted-foreground/60 mt-1">These parts are larger than the sheet inside its margin.</p>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
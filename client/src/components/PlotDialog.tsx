@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { computePlotLayout, DEFAULT_PLOT_SETTINGS, MAX_PLOT_PAGES, PLOT_SCALES, type PlotBounds, type PlotSettings } from "@/lib/pdf-export";
+import { viewToBounds } from "@/lib/cad-utils";
+import type { NamedView, PaperOrientation, PaperSize, ViewState } from "@/lib/cad-types";
+
+interface PlotDialogProps {
+  open: boolean;
+  extents: PlotBounds | null;
+  viewState: ViewState;
+  canvasSize: { width: number; height: number };
+  namedViews: NamedView[];
+  /** Window last picked on the canvas */
+  pickedWindow: PlotBounds | null;
+  onPickWindow: () => void;
+  onCancel: () => void;
+  onPlot: (settings: PlotSettings) => void;
+}
+
+type AreaKind = "extents" | "display" | "window" | "view";
+
+const PAPER_CHOICES: Exclude<PaperSize, "Custom">[] = ["A4", "A3", "A2", "A1", "A0", "Letter", "Legal", "Tabloid"];
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Plot configuration for model space: area, paper, scale, placement and tiling */
+export default function PlotDialog({ open, extents, viewState, canvasSize, namedViews, pickedWindow, onPickWindow, onCancel, onPlot }: PlotDialogProps) {
+  const [areaKind, setAreaKind] = useState<AreaKind>("extents");
+  const [viewId, setViewId] = useState("");
+  const [paperSize, setPaperSize] = useState<Exclude<PaperSize, "Custom">>(DEFAULT_PLOT_SETTINGS.paperSize);
+  const [orientation, setOrientation] = useState<PaperOrientation | "auto">("auto");
+  // "fit", an index into PLOT_SCALES, or "custom"
+  const [scaleChoice, setScaleChoice] = useState("fit");
+  const [customDenominator, setCustomDenominator] = useState(25);
+  const [center, setCenter] = useState(true);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [margin, setMargin] = useState(DEFAULT_PLOT_SETTINGS.margin);
+  const [tileOverlap, setTileOverlap] = useState(DEFAULT_PLOT_SETTINGS.tileOverlap);
+
+  const view = namedViews.find(v => v.id === viewId) ?? namedViews[0];
+  const area: PlotBounds | null =
+    areaKind === "display" ? viewToBounds(viewState, canvasSize.width, canvasSize.height)
+    : areaKind === "view" ? (view ? viewToBounds(view.viewState, canvasSize.width, canvasSize.height) : null)
+    : areaKind === "window" ? pickedWindow
+    : null;
+  const scale = scaleChoice === "fit" ? "fit" : scaleChoice === "custom" ? 1 / Math.max(1e-6, customDenominator) : PLOT_SCALES[parseInt(scaleChoice)].value;
+  const settings: PlotSettings = { area, paperSize, orientation, scale, center, offset, margin, tileOverlap };
+
+  const bounds = area ?? extents;
+  const layout = bounds ? computePlotLayout(settings, bounds) : null;
+  const pages = layout ? layout.cols * layout.rows : 0;
+  const tooManyPages = pages > MAX_PLOT_PAGES;
+  const ratio = layout ? (layout.scale >= 1 ? `${+layout.scale.toFixed(3)}:1` : `1:${+(1 / layout.scale).toFixed(2)}`) : "";
+  const missingArea = (areaKind === "window" && !pickedWindow) || (areaKind === "view" && !view);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Plot Model Space</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Plot Area</h4>
+            <RadioGroup value={areaKind} onValueChange={v => setAreaKind(v as AreaKind)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="extents" id="plot-area-extents" /><Label htmlFor="plot-area-extents" className="text-xs">Extents</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="display" id="plot-area-display" /><Label htmlFor="plot-area-display" className="text-xs">Display</Label></div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="window" id="plot-area-window" /><Label htmlFor="plot-area-window" className="text-xs flex-1">Window{pickedWindow ? ` (${(pickedWindow.maxX - pickedWindow.minX).toFixed(1)} × ${(pickedWindow.maxY - pickedWindow.minY).toFixed(1)})` : ""}</Label>
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => { setAreaKind("window"); onPickWindow(); }}>Pick on Canvas</Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="view" id="plot-area-view" disabled={namedViews.length === 0} /><Label htmlFor="plot-area-view" className="text-xs flex-1">Named view</Label>
+                <select value={view?.id ?? ""} disabled={namedViews.length === 0} onChange={e => { setViewId(e.target.value); setAreaKind("view"); }} className={selectClass}>
+                  {namedViews.length === 0 ? <option value="">No named views</option> : namedViews.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                </select>
+              </div>
+            </RadioGroup>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Paper and Scale</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Paper</Label>
+              <div className="flex gap-1.5">
+                <select value={paperSize} onChange={e => setPaperSize(e.target.value as Exclude<PaperSize, "Custom">)} className="w-20 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                  {PAPER_CHOICES.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <select value={orientation} onChange={e => setOrientation(e.target.value as PaperOrientation | "auto")} className="w-24 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                  <option value="auto">Auto</option>
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Scale</Label>
+              <div className="flex items-center gap-1.5">
+                {scaleChoice === "custom" && (
+                  <><span className="text-xs text-muted-foreground">1 :</span><input type="number" min={0.001} value={customDenominator} onChange={e => setCustomDenominator(Math.max(0.001, parseFloat(e.target.value) || 1))} className={numberClass} /></>
+                )}
+                <select value={scaleChoice} onChange={e => setScaleChoice(e.target.value)} className="w-28 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                  <option value="fit">Fit to paper</option>
+                  {PLOT_SCALES.map((s, i) => <option key={s.label} value={String(i)}>{s.label}</option>)}
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Margin (mm)</Label>
+              <input type="number" min={0} max={50} value={margin} onChange={e => setMargin(Math.max(0, Math.min(50, parseFloat(e.target.value) || 0)))} className={numberClass} />
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Placement</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Center the plot</Label>
+              <Switch checked={center} onCheckedChange={setCenter} />
+            </div>
+            {!center && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Offset X / Y (mm)</Label>
+                <div className="flex gap-1.5">
+                  <input type="number" value={offset.x} onChange={e => setOffset(o => ({ ...o, x: parseFloat(e.target.value) || 0 }))} className={numberClass} />
+                  <input type="number" value={offset.y} onChange={e => setOffset(o => ({ ...o, y: parseFloat(e.target.value) || 0 }))} className={numberClass} />
+                </div>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Tile overlap (mm)</Label>
+              <input type="number" min={0} max={50} value={tileOverlap} onChange={e => setTileOverlap(Math.max(0, Math.min(50, parseFloat(e.target.value) || 0)))} className={numberClass} />
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground/60">
+            {layout
+              ? `${ratio} on ${paperSize} ${layout.orientation} — ${pages === 1 ? "1 page" : `${pages} pages (${layout.cols} × ${layout.rows} tiles with registration marks)`}`
+              : "Nothing to plot"}
+          </p>
+          {tooManyPages && (
+            <p className="text-[10px] text-destructive">More than {MAX_PLOT_PAGES} pages; choose a smaller scale or a larger paper.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!layout || missingArea || tooManyPages} onClick={() => onPlot(settings)}>Plot</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
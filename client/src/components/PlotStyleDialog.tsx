@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useCAD, useCADActions } from "@/contexts/CADContext";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2, X } from "lucide-react";
+import { getPlotStyleTables, createPlotStyleTable, createPlotStyleRule } from "@/lib/plot-styles";
+import type { LineStyle, PlotStyleMode, PlotStyleRule, PlotStyleTable } from "@/lib/cad-types";
+
+interface PlotStyleDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const fieldClass = "bg-input border border-border rounded px-1.5 py-0.5 text-xs text-foreground focus:outline-none focus:border-primary/50";
+
+/** Create and edit plot style tables, pick the model space table and toggle the preview */
+export default function PlotStyleDialog({ open, onClose }: PlotStyleDialogProps) {
+  const { state } = useCAD();
+  const { dispatch } = useCADActions();
+  const tables = getPlotStyleTables(state.plotStyleTables);
+  const [selectedId, setSelectedId] = useState(tables[0].id);
+  const table = tables.find(t => t.id === selectedId) ?? tables[0];
+  const readOnly = table.builtIn === true;
+
+  const update = (updates: Partial<PlotStyleTable>) => dispatch({ type: "UPDATE_PLOT_STYLE_TABLE", id: table.id, updates });
+  const updateRule = (id: string, updates: Partial<PlotStyleRule>) => update({ rules: table.rules.map(r => r.id === id ? { ...r, ...updates } : r) });
+  // Optional rule fields are cleared by removing the key, so "from entity" survives a save/load
+  const clearRuleField = (id: string, key: "color" | "lineWeight" | "screening" | "lineStyle") =>
+    update({ rules: table.rules.map(r => { if (r.id !== id) return r; const next = { ...r }; delete next[key]; return next; }) });
+
+  const handleNew = () => {
+    const name = prompt("Plot style table name:", `Plot Style ${state.plotStyleTables.length + 1}`);
+    if (!name?.trim()) return;
+    const created = createPlotStyleTable(name.trim());
+    dispatch({ type: "ADD_PLOT_STYLE_TABLE", table: created });
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => {
+    if (readOnly || !confirm(`Delete plot style table "${table.name}"?`)) return;
+    dispatch({ type: "REMOVE_PLOT_STYLE_TABLE", id: table.id });
+    setSelectedId(tables[0].id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-[620px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Plot Style Tables</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2">
+            <select value={table.id} onChange={e => setSelectedId(e.target.value)} className={`flex-1 ${fieldClass}`}>
+              {tables.map(t => <option key={t.id} value={t.id}>{t.name}{t.builtIn ? " (built-in)" : ""}</option>)}
+            </select>
+            <Button variant="ghost" size="sm" onClick={handleNew}><Plus className="h-3.5 w-3.5 mr-1" />New</Button>
+            <Button variant="ghost" size="sm" disabled={readOnly} onClick={handleDelete}><Trash2 className="h-3.5 w-3.5" /></Button>
+          </div>
+
+          {!readOnly && (
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Name</Label>
+              <input type="text" value={table.name} onChange={e => update({ name: e.target.value })} className={`w-48 ${fieldClass}`} />
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Unmapped Colors</h4>
+            <RadioGroup value={table.mode} onValueChange={v => update({ mode: v as PlotStyleMode })} className="flex gap-4" disabled={readOnly}>
+              <div className="flex items-center gap-2"><RadioGroupItem value="color" id="pst-mode-color" /><Label htmlFor="pst-mode-color" className="text-xs">Color</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="monochrome" id="pst-mode-mono" /><Label htmlFor="pst-mode-mono" className="text-xs">Monochrome</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="grayscale" id="pst-mode-gray" /><Label htmlFor="pst-mode-gray" className="text-xs">Grayscale</Label></div>
+            </RadioGroup>
+          </div>
+
+          {!readOnly && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Rules (first match wins)</h4>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => update({ rules: [...table.rules, createPlotStyleRule({ by: "color", color: state.activeColor })] })}>+ Color</Button>
+                  <Button variant="ghost" size="sm" onClick={() => update({ rules: [...table.rules, createPlotStyleRule({ by: "layer", layerId: state.activeLayerId })] })}>+ Layer</Button>
+                </div>
+              </div>
+              {table.rules.length === 0 ? <p className="text-[10px] text-muted-foreground/60">No rules — every entity plots by the mode above</p> : (
+                <div className="space-y-1 max-h-56 overflow-y-auto">
+                  <div className="grid grid-cols-[1.4fr_1fr_0.8fr_0.8fr_1fr_20px] gap-1.5 text-[10px] text-muted-foreground uppercase tracking-wider">
+                    <span>Match</span><span>Color</span><span>Weight mm</span><span>Screen %</span><span>Linetype</span><span />
+                  </div>
+                  {table.rules.map(rule => (
+                    <div key={rule.id} className="grid grid-cols-[1.4fr_1fr_0.8fr_0.8fr_1fr_20px] gap-1.5 items-center">
+                      {rule.match.by === "color" ? (
+                        <div className="flex items-center gap-1">
+                          <input type="color" value={rule.match.color} onChange={e => updateRule(rule.id, { match: { by: "color", color: e.target.value } })} className="w-6 h-5 bg-transparent border-0 p-0" />
+                          <span className="text-[10px] font-mono">{rule.match.color}</span>
+                        </div>
+                      ) : (
+                        <select value={rule.match.layerId} onChange={e => updateRule(rule.id, { match: { by: "layer", layerId: e.target.value } })} className={fieldClass}>
+                          {state.layers.map(l => <option key={l.id} value={l.id}>Layer {l.name}</option>)}
+                        </select>
+                      )}
+                      <div className="flex items-center gap-1">
+                        <input type="checkbox" checked={rule.color !== undefined} onChange={e => e.target.checked ? updateRule(rule.id, { color: "#000000" }) : clearRuleField(rule.id, "color")} className="rounded border-border" title="Override color" />
+                        {rule.color !== undefined ? <input type="color" value={rule.color} onChange={e => updateRule(rule.id, { color: e.target.value })} className="w-6 h-5 bg-transparent border-0 p-0" /> : <span className="text-[10px] text-muted-foreground">Mode</span>}
+                      </div>
+                      <input type="number" min={0} step={0.05} placeholder="Entity" value={rule.lineWeight ?? ""} onChange={e => e.target.value === "" ? clearRuleField(rule.id, "lineWeight") : updateRule(rule.id, { lineWeight: Math.max(0, parseFloat(e.target.value) || 0) })} className={`w-full text-right ${fieldClass}`} />
+                      <input type="number" min={0} max={100} placeholder="100" value={rule.screening ?? ""} onChange={e => e.target.value === "" ? clearRuleField(rule.id, "screening") : updateRule(rule.id, { screening: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) })} className={`w-full text-right ${fieldClass}`} />
+                      <select value={rule.lineStyle ?? ""} onChange={e => e.target.value === "" ? clearRuleField(rule.id, "lineStyle") : updateRule(rule.id, { lineStyle: e.target.value as LineStyle })} className={fieldClass}>
+                        <option value="">Entity</option>
+                        {(["solid", "dashed", "dotted", "dashdot"] as LineStyle[]).map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                      <button className="cad-toolbar-btn" onClick={() => update({ rules: table.rules.filter(r => r.id !== rule.id) })} title="Remove rule"><X size={12} /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Model space plot style</Label>
+              <select value={state.modelPlotStyleTableId ?? ""} onChange={e => dispatch({ type: "SET_MODEL_PLOT_STYLE", tableId: e.target.value || null })} className={`w-48 ${fieldClass}`}>
+                <option value="">None (entity colors)</option>
+                {tables.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Preview plot styles on canvas</Label>
+              <Switch checked={state.plotStylePreview} onCheckedChange={() => dispatch({ type: "TOGGLE_PLOT_STYLE_PREVIEW" })} />
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">Layouts choose their table in Layout Settings.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
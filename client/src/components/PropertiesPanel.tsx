@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useCAD, useCADActions } from "@/contexts/CADContext";
 import { ENTITY_COLORS, LINE_WIDTHS } from "@/lib/cad-types";
-import type { HatchPattern, CADEntity, EntityData, Point } from "@/lib/cad-types";
+import type { HatchPattern, CADEntity, EntityData, Point, ImageEntityData, PointData, Georeference } from "@/lib/cad-types";
+import { drawingToGround } from "@/lib/georeference";
 import { distance, formatCoordinate, formatDistance, formatAngle, angleDeg } from "@/lib/cad-utils";
 import { Separator } from "@/components/ui/separator";
 
@@ -199,6 +200,21 @@ export default function PropertiesPanel() {
             {single.data.type === "blockref" && (
               <BlockRefEditor entity={single} onUpdate={updateEntityData} />
             )}
+
+            {/* IMAGE */}
+            {single.data.type === "image" && (
+              <ImageEditor entity={single} onUpdate={updateEntityData} />
+            )}
+
+            {/* POINT */}
+            {single.data.type === "point" && (
+              <PointEditor entity={single} georeference={state.georeference} onUpdate={updateEntityData} />
+            )}
+
+            {/* Attributes carried over from imported formats */}
+            {single.metadata && Object.keys(single.metadata).length > 0 && (
+              <MetadataList metadata={single.metadata} />
+            )}
           </div>
         ) : null}
       </div>
@@ -485,7 +501,7 @@ function DimensionEditor({ entity, onUpdate }: { entity: CADEntity; onUpdate: (i
 }
 
 function HatchEditor({ entity, onUpdate }: { entity: CADEntity; onUpdate: (id: string, data: Partial<EntityData>) => void }) {
-  const d = entity.data as { type: "hatch"; boundary: Point[]; pattern: HatchPattern; patternScale: number; patternAngle: number; fillColor: string; fillOpacity: number };
+  const d = entity.data as { type: "hatch"; boundary: Point[]; islands?: Point[][]; pattern: HatchPattern; patternScale: number; patternAngle: number; fillColor: string; fillOpacity: number };
   return (
     <div className="space-y-1.5">
       <div>
@@ -498,6 +514,7 @@ function HatchEditor({ entity, onUpdate }: { entity: CADEntity; onUpdate: (id: s
       <EditableField label="Angle" value={d.patternAngle} onChange={v => onUpdate(entity.id, { patternAngle: parseFloat(v) || 0 } as any)} suffix="°" />
       <EditableField label="Opacity" value={d.fillOpacity} onChange={v => { const o = parseFloat(v); if (o >= 0 && o <= 1) onUpdate(entity.id, { fillOpacity: o } as any); }} />
       <ReadonlyField label="Boundary" value={`${d.boundary.length} pts`} />
+      {d.islands && d.islands.length > 0 && <ReadonlyField label="Islands" value={`${d.islands.length}`} />}
     </div>
   );
 }
@@ -616,3 +633,65 @@ function BlockRefEditor({ entity, onUpdate }: { entity: CADEntity; onUpdate: (id
     </div>
   );
 }
+
+function ImageEditor({ entity, onUpdate }: { entity: CADEntity; onUpdate: (id: string, data: Partial<EntityData>) => void }) {
+  const d = entity.data as ImageEntityData;
+  return (
+    <div className="space-y-1.5">
+      <EditableField label="Insert X" value={d.insertPoint.x} onChange={v => onUpdate(entity.id, { insertPoint: { ...d.insertPoint, x: parseFloat(v) || 0 } } as any)} />
+      <EditableField label="Insert Y" value={d.insertPoint.y} onChange={v => onUpdate(entity.id, { insertPoint: { ...d.insertPoint, y: parseFloat(v) || 0 } } as any)} />
+      <EditableField label="Width" value={d.width} onChange={v => { const w = parseFloat(v); if (w > 0) onUpdate(entity.id, { width: w } as any); }} />
+      <EditableField label="Height" value={d.height} onChange={v => { const h = parseFloat(v); if (h > 0) onUpdate(entity.id, { height: h } as any); }} />
+      <EditableField label="Rotation" value={d.rotation * 180 / Math.PI} onChange={v => onUpdate(entity.id, { rotation: (parseFloat(v) || 0) * Math.PI / 180 } as any)} suffix="°" />
+      <EditableField label="Opacity" value={d.opacity} onChange={v => { const o = parseFloat(v); if (o >= 0 && o <= 1) onUpdate(entity.id, { opacity: o } as any); }} />
+      <Separator className="opacity-10" />
+      <ReadonlyField label="Pixels" value={`${d.pixelWidth} × ${d.pixelHeight}`} />
+      <ReadonlyField label="Clip" value={d.clip ? `${d.clip.length} pts` : "None"} />
+      {d.clip && (
+        <button className="w-full py-0.5 text-[10px] rounded border border-border text-muted-foreground hover:border-primary/50" onClick={() => onUpdate(entity.id, { clip: undefined } as any)}>Remove Clip</button>
+      )}
+    </div>
+  );
+}
+
+function PointEditor({ entity, georeference, onUpdate }: { entity: CADEntity; georeference: Georeference | null; onUpdate: (id: string, data: Partial<EntityData>) => void }) {
+  const d = entity.data as PointData;
+  const ground = georeference ? drawingToGround(d.position, georeference) : null;
+  return (
+    <div className="space-y-1.5">
+      <EditableField label="X" value={d.position.x} onChange={v => onUpdate(entity.id, { position: { ...d.position, x: parseFloat(v) || 0 } } as any)} />
+      <EditableField label="Y" value={d.position.y} onChange={v => onUpdate(entity.id, { position: { ...d.position, y: parseFloat(v) || 0 } } as any)} />
+      {ground && georeference && (
+        <>
+          <Separator className="opacity-10" />
+          {georeference.system === "geographic" ? (
+            <>
+              <ReadonlyField label="Latitude" value={ground.y.toFixed(7)} suffix="°" />
+              <ReadonlyField label="Longitude" value={ground.x.toFixed(7)} suffix="°" />
+            </>
+          ) : (
+            <>
+              <ReadonlyField label="Northing" value={ground.y.toFixed(3)} />
+              <ReadonlyField label="Easting" value={ground.x.toFixed(3)} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function MetadataList({ metadata }: { metadata: Record<string, unknown> }) {
+  return (
+    <div className="space-y-1.5">
+      <Separator className="opacity-10" />
+      <div className="text-[10px] text-muted-foreground/50 uppercase tracking-wider">Attributes</div>
+      {Object.entries(metadata).map(([key, value]) => (
+        <div key={key} className="flex items-start justify-between gap-2">
+          <span className="text-[10px] text-muted-foreground/50 truncate">{key}</span>
+          <span className="cad-mono text-foreground/60 text-[11px] text-right break-all">{value !== null && typeof value === "object" ? JSON.stringify(value) : String(value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { ChevronUp, ChevronDown } from "lucide-react";
+import { sheetLabel, type PublishOptions } from "@/lib/pdf-export";
+import type { Layout } from "@/lib/cad-types";
+
+interface PublishDialogProps {
+  open: boolean;
+  layouts: Layout[];
+  onCancel: () => void;
+  onPublish: (layouts: Layout[], options: PublishOptions) => void;
+}
+
+/** Choose and order the layouts published into one PDF */
+export default function PublishDialog({ open, layouts, onCancel, onPublish }: PublishDialogProps) {
+  const [order, setOrder] = useState<string[]>([]);
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+  const [coverSheet, setCoverSheet] = useState(true);
+  const [title, setTitle] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setOrder(layouts.map(l => l.id));
+    setIncluded(new Set(layouts.map(l => l.id)));
+    setTitle(layouts[0]?.titleBlock.projectName ?? "");
+  }, [open]);
+
+  const ordered = order.map(id => layouts.find(l => l.id === id)).filter((l): l is Layout => !!l);
+  const chosen = ordered.filter(l => included.has(l.id));
+
+  const toggle = (id: string, on: boolean) => setIncluded(prev => {
+    const next = new Set(prev);
+    if (on) next.add(id); else next.delete(id);
+    return next;
+  });
+  const move = (index: number, delta: number) => setOrder(prev => {
+    const next = [...prev];
+    const target = index + delta;
+    if (target < 0 || target >= next.length) return prev;
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Publish Layouts to PDF</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Sheets ({chosen.length} of {layouts.length})</h4>
+            <div className="space-y-1 max-h-60 overflow-y-auto">
+              {ordered.map((layout, i) => (
+                <div key={layout.id} className="flex items-center gap-2 text-xs">
+                  <Checkbox id={`publish-${layout.id}`} checked={included.has(layout.id)} onCheckedChange={v => toggle(layout.id, v === true)} />
+                  <Label htmlFor={`publish-${layout.id}`} className="flex-1 text-xs truncate">{sheetLabel(layout)}</Label>
+                  <span className="text-[10px] text-muted-foreground">{layout.paperSize} {layout.orientation}</span>
+                  <button className="cad-toolbar-btn" disabled={i === 0} onClick={() => move(i, -1)} title="Move up"><ChevronUp size={12} /></button>
+                  <button className="cad-toolbar-btn" disabled={i === ordered.length - 1} onClick={() => move(i, 1)} title="Move down"><ChevronDown size={12} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Cover sheet with sheet index</Label>
+              <Switch checked={coverSheet} onCheckedChange={setCoverSheet} />
+            </div>
+            {coverSheet && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Title</Label>
+                <input type="text" value={title} onChange={e => setTitle(e.target.value)} className="w-48 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground focus:outline-none focus:border-primary/50" />
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={chosen.length === 0} onClick={() => onPublish(chosen, { coverSheet, title: title.trim() || undefined })}>Publish</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
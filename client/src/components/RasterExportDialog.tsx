@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { MAX_RASTER_SIZE, type RasterArea, type RasterBackground, type RasterBounds, type RasterExportOptions, type RasterFormat } from "@/lib/raster-export";
+import type { Layout } from "@/lib/cad-types";
+
+interface RasterExportDialogProps {
+  open: boolean;
+  layouts: Layout[];
+  activeLayoutId: string | null;
+  /** Initial window corners: the selection's extents, else the drawing's */
+  defaultWindow: RasterBounds | null;
+  getSize: (options: RasterExportOptions) => { width: number; height: number };
+  onCancel: () => void;
+  onExport: (options: RasterExportOptions) => void;
+}
+
+type AreaKind = RasterArea["kind"];
+
+const inputClass = "w-20 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Format, area, resolution and background options for PNG/JPEG/WebP export */
+export default function RasterExportDialog({ open, layouts, activeLayoutId, defaultWindow, getSize, onCancel, onExport }: RasterExportDialogProps) {
+  const [format, setFormat] = useState<RasterFormat>("png");
+  const [areaKind, setAreaKind] = useState<AreaKind>("extents");
+  const [layoutId, setLayoutId] = useState("");
+  const [win, setWin] = useState<RasterBounds>({ minX: 0, minY: 0, maxX: 100, maxY: 100 });
+  const [dpi, setDpi] = useState(150);
+  const [width, setWidth] = useState(1920);
+  const [background, setBackground] = useState<RasterBackground>("white");
+
+  useEffect(() => {
+    if (!open) return;
+    if (defaultWindow) setWin(defaultWindow);
+    setLayoutId(activeLayoutId ?? layouts[0]?.id ?? "");
+    setAreaKind(activeLayoutId ? "layout" : "extents");
+  }, [open]);
+
+  const area: RasterArea = areaKind === "layout" ? { kind: "layout", layoutId }
+    : areaKind === "window" ? { kind: "window", bounds: { minX: Math.min(win.minX, win.maxX), minY: Math.min(win.minY, win.maxY), maxX: Math.max(win.minX, win.maxX), maxY: Math.max(win.minY, win.maxY) } }
+    : { kind: "extents" };
+  const options: RasterExportOptions = { format, area, dpi, width, background: format === "jpeg" ? "white" : background };
+  const size = open ? getSize(options) : { width: 0, height: 0 };
+  const clamped = Math.max(size.width, size.height) > MAX_RASTER_SIZE;
+  const emptyWindow = areaKind === "window" && (win.minX === win.maxX || win.minY === win.maxY);
+
+  const setCorner = (key: keyof RasterBounds, value: string) => setWin(w => ({ ...w, [key]: parseFloat(value) || 0 }));
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Export Image</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Format</h4>
+            <RadioGroup value={format} onValueChange={v => setFormat(v as RasterFormat)} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="png" id="img-fmt-png" /><Label htmlFor="img-fmt-png" className="text-xs">PNG</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="jpeg" id="img-fmt-jpeg" /><Label htmlFor="img-fmt-jpeg" className="text-xs">JPEG</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="webp" id="img-fmt-webp" /><Label htmlFor="img-fmt-webp" className="text-xs">WebP</Label></div>
+            </RadioGroup>
+          </div>
+          <Separator className="opacity-20" />
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Area</h4>
+            <RadioGroup value={areaKind} onValueChange={v => setAreaKind(v as AreaKind)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="extents" id="img-area-extents" /><Label htmlFor="img-area-extents" className="text-xs">Model space extents</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="window" id="img-area-window" /><Label htmlFor="img-area-window" className="text-xs">Window</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="layout" id="img-area-layout" disabled={layouts.length === 0} /><Label htmlFor="img-area-layout" className="text-xs">Layout sheet</Label></div>
+            </RadioGroup>
+            {areaKind === "window" && (
+              <div className="grid grid-cols-2 gap-2 mt-2 pl-6">
+                <div className="flex items-center justify-between"><Label className="text-xs text-muted-foreground">X1</Label><input type="number" value={win.minX} onChange={e => setCorner("minX", e.target.value)} className={inputClass} /></div>
+                <div className="flex items-center justify-between"><Label className="text-xs text-muted-foreground">Y1</Label><input type="number" value={win.minY} onChange={e => setCorner("minY", e.target.value)} className={inputClass} /></div>
+                <div className="flex items-center justify-between"><Label className="text-xs text-muted-foreground">X2</Label><input type="number" value={win.maxX} onChange={e => setCorner("maxX", e.target.value)} className={inputClass} /></div>
+                <div className="flex items-center justify-between"><Label className="text-xs text-muted-foreground">Y2</Label><input type="number" value={win.maxY} onChange={e => setCorner("maxY", e.target.value)} className={inputClass} /></div>
+              </div>
+            )}
+            {areaKind === "layout" && (
+              <div className="mt-2 pl-6">
+                <select value={layoutId} onChange={e => setLayoutId(e.target.value)} className="w-full bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground">
+                  {layouts.map(l => <option key={l.id} value={l.id}>{l.name} ({l.paperSize} {l.orientation})</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Resolution (DPI)</Label>
+              <input type="number" value={dpi} min={24} max={1200} onChange={e => setDpi(Math.max(24, Math.min(1200, parseInt(e.target.value) || 96)))} className={inputClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className={`text-xs ${areaKind === "layout" ? "text-muted-foreground/60" : ""}`}>Width (px)</Label>
+              <input type="number" value={areaKind === "layout" ? size.width : width} min={16} max={MAX_RASTER_SIZE} disabled={areaKind === "layout"} onChange={e => setWidth(Math.max(16, Math.min(MAX_RASTER_SIZE, parseInt(e.target.value) || 1920)))} className={inputClass} />
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">
+              {size.width} × {size.height} px{clamped ? ` — reduced to fit ${MAX_RASTER_SIZE} px` : ""}{areaKind === "layout" ? " — from paper size and DPI" : ""}
+            </p>
+          </div>
+          <Separator className="opacity-20" />
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Background</h4>
+            <RadioGroup value={format === "jpeg" ? "white" : background} onValueChange={v => setBackground(v as RasterBackground)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="white" id="img-bg-white" /><Label htmlFor="img-bg-white" className="text-xs">White (print style, white lines become black)</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="transparent" id="img-bg-none" disabled={format === "jpeg"} /><Label htmlFor="img-bg-none" className="text-xs">Transparent{format === "jpeg" ? " (not supported by JPEG)" : ""}</Label></div>
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={emptyWindow || (areaKind === "layout" && !layoutId)} onClick={() => onExport(options)}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useCADActions, initialState } from "@/contexts/CADContext";
+import { parseDocument } from "@/lib/cad-document";
+import { deleteSession, listRecoverableSessions, loadSessionSnapshot, type SessionInfo } from "@/lib/local-store";
+import { toast } from "sonner";
+
+/** Offered once at startup when earlier tabs closed or crashed with unsaved work */
+export default function RecoveryDialog() {
+  const { dispatch } = useCADActions();
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+
+  useEffect(() => {
+    listRecoverableSessions().then(setSessions).catch(err => console.warn("Cannot list autosaved sessions:", err));
+  }, []);
+
+  const discard = (ids: string[]) => {
+    setSessions(s => s.filter(x => !ids.includes(x.id)));
+    Promise.all(ids.map(deleteSession)).catch(err => console.warn("Cannot discard autosaved session:", err));
+  };
+
+  const restore = async (session: SessionInfo) => {
+    try {
+      const text = await loadSessionSnapshot(session.id);
+      if (!text) throw new Error("the autosave is empty");
+      const doc = parseDocument(text, initialState);
+      dispatch({ type: "LOAD_DOCUMENT", content: doc.content });
+      dispatch({ type: "SET_DOCUMENT_INFO", info: { name: session.name, savedAt: null, server: null } });
+      // This tab autosaves the drawing from now on
+      discard([session.id]);
+      setSessions([]);
+      toast.success(`Recovered ${session.name} (${session.entityCount} entities)`);
+    } catch (err) {
+      toast.error(`Cannot recover ${session.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <Dialog open={sessions.length > 0} onOpenChange={o => { if (!o) setSessions([]); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Recover Unsaved Drawings</DialogTitle></DialogHeader>
+        <div className="space-y-3 text-xs">
+          <p className="text-muted-foreground">These drawings were autosaved before their window closed. Recover one, or discard what you no longer need; the rest are offered again next time.</p>
+          <div className="space-y-1.5 max-h-60 overflow-y-auto">
+            {sessions.map(s => (
+              <div key={s.id} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{s.name}</div>
+                  <div className="text-[10px] text-muted-foreground">{new Date(s.updatedAt).toLocaleString()} — {s.entityCount} entit{s.entityCount === 1 ? "y" : "ies"}</div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => discard([s.id])}>Discard</Button>
+                <Button size="sm" className="h-6 text-xs" onClick={() => restore(s)}>Recover</Button>
+              </div>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={() => discard(sessions.map(s => s.id))}>Discard All</Button>
+          <Button variant="ghost" size="sm" onClick={() => setSessions([])}>Later</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
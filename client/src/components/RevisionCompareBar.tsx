@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { FileText, X } from "lucide-react";
+import { useCAD, useCADActions } from "@/contexts/CADContext";
+import { DIFF_COLORS } from "@/lib/drawing-diff";
+import { downloadFile } from "@/lib/utils";
+
+/** Legend and controls shown while two revisions are overlaid on the canvas */
+export default function RevisionCompareBar() {
+  const { state } = useCAD();
+  const { dispatch } = useCADActions();
+  const [reportOpen, setReportOpen] = useState(false);
+  const compare = state.revisionCompare;
+  if (!compare) return null;
+  const { diff } = compare;
+
+  const swatch = (color: string, label: string, count: number) => (
+    <span className="flex items-center gap-1.5">
+      <span className="w-2.5 h-2.5 rounded-sm" style={{ background: color }} />
+      {label} <span className="cad-mono text-foreground">{count}</span>
+    </span>
+  );
+
+  return (
+    <div className="flex items-center h-7 px-3 gap-4 border-t text-[11px] text-muted-foreground select-none" style={{ background: "var(--cad-toolbar-bg)", borderColor: "var(--cad-panel-border)" }}>
+      <span className="text-foreground font-medium">Comparing</span>
+      {swatch(DIFF_COLORS.added, "Added", diff.added.length)}
+      {swatch(DIFF_COLORS.removed, "Removed", diff.removed.length)}
+      {swatch(DIFF_COLORS.modified, "Modified", diff.modified.length)}
+      {swatch(DIFF_COLORS.unchanged, "Unchanged", diff.unchanged)}
+      <span className="truncate flex-1" title={`${compare.fromLabel}\n→ ${compare.toLabel}`}>{compare.fromLabel} → {compare.toLabel}</span>
+      <Button variant="ghost" size="sm" className="h-5 px-2 text-[11px]" onClick={() => setReportOpen(true)}><FileText className="mr-1 h-3 w-3" /> Report</Button>
+      <Button variant="ghost" size="sm" className="h-5 px-2 text-[11px]" onClick={() => dispatch({ type: "SET_REVISION_COMPARE", compare: null })}><X className="mr-1 h-3 w-3" /> End Compare</Button>
+
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent className="sm:max-w-[640px] bg-card text-card-foreground border-border">
+          <DialogHeader><DialogTitle className="text-sm font-semibold">Change Report</DialogTitle></DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto text-[11px] leading-relaxed cad-mono whitespace-pre-wrap bg-input rounded p-3">{compare.report}</pre>
+          <DialogFooter>
+            <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(compare.report)}>Copy</Button>
+            <Button variant="ghost" size="sm" onClick={() => downloadFile(compare.report, "change-report.txt", "text/plain")}>Download</Button>
+            <Button size="sm" onClick={() => setReportOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useCAD, useCADActions, initialState } from "@/contexts/CADContext";
+import { migrateDocument, validateDocument } from "@/lib/cad-document";
+import { fetchRevision, getAuthorName, listRevisions, restoreRevision, DrawingConflictError, type RevisionSummary } from "@/lib/drawings-api";
+import { DEFAULT_DIFF_TOLERANCE, diffDrawings, diffExtents, diffOverlay, diffReport, type DiffSide } from "@/lib/drawing-diff";
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** "current" is the drawing on screen, with any changes not saved yet */
+type CompareSide = number | "current";
+
+const selectClass = "w-60 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-20 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+function revisionLabel(r: RevisionSummary): string {
+  return `Revision ${r.revision}, ${new Date(r.savedAt).toLocaleString()}${r.author ? ` by ${r.author}` : ""}${r.message ? ` — ${r.message}` : ""}`;
+}
+
+/** Saved revisions of the open server drawing: compare two of them on the canvas, or restore one */
+export default function RevisionHistoryDialog({ open, onClose }: RevisionHistoryDialogProps) {
+  const { state } = useCAD();
+  const { dispatch } = useCADActions();
+  const server = state.documentInfo.server;
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [from, setFrom] = useState<CompareSide>(1);
+  const [to, setTo] = useState<CompareSide>("current");
+  const [tolerance, setTolerance] = useState(DEFAULT_DIFF_TOLERANCE);
+  const [busy, setBusy] = useState(false);
+
+  const load = () => {
+    if (!server) return;
+    setRevisions(null);
+    listRevisions(server.id)
+      .then(list => {
+        setRevisions(list);
+        // Newest against the one before it
+        setFrom(list[1]?.revision ?? list[0]?.revision ?? 1);
+        setTo(list[0]?.revision ?? "current");
+      })
+      .catch(err => { toast.error(`Cannot load the revision history: ${errorMessage(err)}`); onClose(); });
+  };
+
+  useEffect(() => { if (open) load(); }, [open]);
+
+  const latest = revisions?.[0]?.revision ?? 0;
+
+  const readSide = async (side: CompareSide): Promise<DiffSide> => {
+    if (side === "current" || !server) return { entities: state.entities, layers: state.layers, blocks: state.blocks };
+    const { content } = validateDocument(migrateDocument((await fetchRevision(server.id, side)).document), initialState);
+    return { entities: content.entities, layers: content.layers, blocks: content.blocks };
+  };
+
+  const sideLabel = (side: CompareSide) => {
+    const r = revisions?.find(r => r.revision === side);
+    return r ? revisionLabel(r) : "the drawing on screen";
+  };
+
+  const handleCompare = async () => {
+    setBusy(true);
+    try {
+      const [before, after] = await Promise.all([readSide(from), readSide(to)]);
+      const diff = diffDrawings(before, after, tolerance);
+      const labels = { fromLabel: sideLabel(from), toLabel: sideLabel(to), tolerance, diff };
+      dispatch({ type: "SET_REVISION_COMPARE", compare: { ...labels, overlay: diffOverlay(diff, before, after), report: diffReport(labels, before, after) } });
+      dispatch({ type: "SET_ACTIVE_SPACE", space: "model" });
+      const extents = diffExtents(diff);
+      if (extents) dispatch({ type: "ZOOM_TO_BOUNDS", bounds: extents });
+      onClose();
+    } catch (err) {
+      toast.error(`Cannot compare: ${errorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (r: RevisionSummary) => {
+    if (!server) return;
+    if (!confirm(`Restore revision ${r.revision}? It is saved again as revision ${latest + 1} and replaces the drawing on screen; changes not saved to the server are lost.`)) return;
+    setBusy(true);
+    try {
+      const summary = await restoreRevision(server.id, r.revision, latest, getAuthorName());
+      const { content } = validateDocument(migrateDocument((await fetchRevision(server.id, summary.revision)).document), initialState);
+      dispatch({ type: "LOAD_DOCUMENT", content });
+      dispatch({ type: "SET_DOCUMENT_INFO", info: { name: summary.name, savedAt: Date.now(), server: { id: summary.id, revision: summary.revision } } });
+      toast.success(`Restored revision ${r.revision} as revision ${summary.revision}`);
+      onClose();
+    } catch (err) {
+      if (err instanceof DrawingConflictError) {
+        toast.error(`${err.current.name} was saved again (revision ${err.current.revision}) while the history was open; nothing was restored`);
+        load();
+      } else {
+        toast.error(`Cannot restore revision ${r.revision}: ${errorMessage(err)}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sideValue = (side: CompareSide) => String(side);
+  const parseSide = (v: string): CompareSide => v === "current" ? "current" : parseInt(v);
+  const sideOptions = (
+    <>
+      <option value="current">Drawing on screen</option>
+      {revisions?.map(r => <option key={r.revision} value={r.revision}>Revision {r.revision}{r.author ? ` (${r.author})` : ""}</option>)}
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="sm:max-w-[520px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Revision History — {state.documentInfo.name}</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Revisions</h4>
+            {revisions === null ? <p className="text-xs text-muted-foreground">Loading…</p> : (
+              <div className="max-h-64 overflow-y-auto space-y-1.5">
+                {revisions.map(r => (
+                  <div key={r.revision} className="flex items-start gap-2 text-xs">
+                    <span className="w-8 font-mono text-muted-foreground">{r.revision}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{r.message || <span className="text-muted-foreground italic">No message</span>}</div>
+                      <div className="text-[10px] text-muted-foreground">
+                        {new Date(r.savedAt).toLocaleString()}{r.author ? ` — ${r.author}` : ""} — {r.entityCount} entit{r.entityCount === 1 ? "y" : "ies"}
+                        {r.revision === server?.revision ? " — open" : ""}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" disabled={busy || r.revision === latest} onClick={() => handleRestore(r)}>Restore</Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Compare</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">From</Label>
+              <select value={sideValue(from)} onChange={e => setFrom(parseSide(e.target.value))} className={selectClass}>{sideOptions}</select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">To</Label>
+              <select value={sideValue(to)} onChange={e => setTo(parseSide(e.target.value))} className={selectClass}>{sideOptions}</select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Tolerance (drawing units)</Label>
+              <input type="number" min={0} step={0.001} value={tolerance} onChange={e => setTolerance(Math.max(0, parseFloat(e.target.value) || 0))} className={numberClass} />
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">Entities are matched by identity; coordinates closer than the tolerance count as unchanged. Added entities show green, removed red and modified yellow.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onClose}>Close</Button>
+          <Button size="sm" disabled={busy || revisions === null || from === to} onClick={handleCompare}>Compare</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import type { SVGBackground } from "@/lib/svg-export";
+
+interface SVGExportDialogProps {
+  open: boolean;
+  selectionCount: number;
+  onCancel: () => void;
+  onExport: (background: SVGBackground, selectionOnly: boolean) => void;
+}
+
+/** Background and scope options for SVG export */
+export default function SVGExportDialog({ open, selectionCount, onCancel, onExport }: SVGExportDialogProps) {
+  const [background, setBackground] = useState<SVGBackground>("dark");
+  const [selectionOnly, setSelectionOnly] = useState(false);
+
+  useEffect(() => { if (open) setSelectionOnly(false); }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[360px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Export SVG</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">Background</h4>
+            <RadioGroup value={background} onValueChange={v => setBackground(v as SVGBackground)} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="dark" id="svg-bg-dark" /><Label htmlFor="svg-bg-dark" className="text-xs">Dark (as on screen)</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="white" id="svg-bg-white" /><Label htmlFor="svg-bg-white" className="text-xs">White (print style, white lines become black)</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="transparent" id="svg-bg-none" /><Label htmlFor="svg-bg-none" className="text-xs">Transparent</Label></div>
+            </RadioGroup>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Selected entities only{selectionCount > 0 ? ` (${selectionCount})` : ""}</Label>
+            <Switch checked={selectionOnly} disabled={selectionCount === 0} onCheckedChange={setSelectionOnly} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" onClick={() => onExport(background, selectionOnly)}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { getAuthorName } from "@/lib/drawings-api";
+
+export interface ServerSaveRequest {
+  name: string;
+  author: string;
+  message: string;
+}
+
+interface ServerSaveDialogProps {
+  open: boolean;
+  /** Name of the drawing; editable only when it is not on the server yet */
+  name: string;
+  /** Revision the save will create, or null for a new drawing */
+  nextRevision: number | null;
+  onCancel: () => void;
+  onSave: (request: ServerSaveRequest) => void;
+}
+
+const textClass = "w-56 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground focus:outline-none focus:border-primary/50";
+
+/** Name, author and message of the revision saved to the server */
+export default function ServerSaveDialog({ open, name, nextRevision, onCancel, onSave }: ServerSaveDialogProps) {
+  const [drawingName, setDrawingName] = useState(name);
+  const [author, setAuthor] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (open) { setDrawingName(name); setAuthor(getAuthorName()); setMessage(""); }
+  }, [open]);
+
+  const save = () => onSave({ name: drawingName.trim(), author: author.trim(), message: message.trim() });
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">{nextRevision === null ? "Save to Server" : `Save Revision ${nextRevision}`}</DialogTitle></DialogHeader>
+        <div className="space-y-2 py-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Drawing</Label>
+            <input value={drawingName} disabled={nextRevision !== null} onChange={e => setDrawingName(e.target.value)} className={`${textClass} disabled:opacity-60`} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Author</Label>
+            <input value={author} placeholder="Your name" onChange={e => setAuthor(e.target.value)} className={textClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Message</Label>
+            <textarea value={message} rows={3} placeholder="What changed, e.g. Issue B: doors moved per client comments"
+              onChange={e => setMessage(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && drawingName.trim()) save(); }}
+              className="w-full bg-input border border-border rounded px-2 py-1 text-xs text-foreground resize-none focus:outline-none focus:border-primary/50" />
+          </div>
+          <p className="text-[10px] text-muted-foreground/60">Every save is kept in the drawing's revision history.</p>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!drawingName.trim()} onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_SURVEY_OPTIONS, SURVEY_DELIMITERS, SURVEY_FIELDS, detectDelimiter, guessColumns, readSurveyPoints, splitRows, surveyCodes,
+  type SurveyAxisOrder, type SurveyColumns, type SurveyDelimiter, type SurveyImportOptions, type SurveyPoint,
+} from "@/lib/survey-import";
+import type { Layer } from "@/lib/cad-types";
+
+export interface SurveySource {
+  fileName: string;
+  text: string;
+}
+
+interface SurveyImportDialogProps {
+  source: SurveySource | null;
+  layers: Layer[];
+  activeLayerId: string;
+  onCancel: () => void;
+  onImport: (points: SurveyPoint[], options: Omit<SurveyImportOptions, "color">) => void;
+}
+
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Column mapping, markers, labels and code lines for a survey point file */
+export default function SurveyImportDialog({ source, layers, activeLayerId, onCancel, onImport }: SurveyImportDialogProps) {
+  const [delimiter, setDelimiter] = useState<SurveyDelimiter>(",");
+  const [axisOrder, setAxisOrder] = useState<SurveyAxisOrder>("ne");
+  const [hasHeader, setHasHeader] = useState(false);
+  const [columns, setColumns] = useState<SurveyColumns>({ number: -1, northing: -1, easting: -1, elevation: -1, description: -1 });
+  const [marker, setMarker] = useState(DEFAULT_SURVEY_OPTIONS.marker);
+  const [markerSize, setMarkerSize] = useState(DEFAULT_SURVEY_OPTIONS.markerSize);
+  const [labelNumber, setLabelNumber] = useState(DEFAULT_SURVEY_OPTIONS.labelNumber);
+  const [labelDescription, setLabelDescription] = useState(DEFAULT_SURVEY_OPTIONS.labelDescription);
+  const [textHeight, setTextHeight] = useState(DEFAULT_SURVEY_OPTIONS.textHeight);
+  const [joinCodes, setJoinCodes] = useState<string[]>([]);
+  const [layerId, setLayerId] = useState(activeLayerId);
+
+  const rows = useMemo(() => source ? splitRows(source.text, delimiter) : [], [source, delimiter]);
+
+  // A new file: detect its delimiter; a new delimiter or axis order: guess the columns again
+  useEffect(() => { if (source) { setDelimiter(detectDelimiter(source.text)); setJoinCodes([]); setLayerId(activeLayerId); } }, [source]);
+  useEffect(() => {
+    const guess = guessColumns(rows, axisOrder);
+    setHasHeader(guess.hasHeader);
+    setColumns(guess.columns);
+  }, [rows]);
+
+  const changeAxisOrder = (order: SurveyAxisOrder) => {
+    // Swapping the order swaps whichever columns northing and easting are mapped to
+    if (order !== axisOrder) setColumns(c => ({ ...c, northing: c.easting, easting: c.northing }));
+    setAxisOrder(order);
+  };
+
+  const { points, skipped } = useMemo(() => readSurveyPoints(rows, columns, hasHeader), [rows, columns, hasHeader]);
+  const codes = useMemo(() => surveyCodes(points), [points]);
+  const width = Math.max(0, ...rows.slice(0, 10).map(r => r.length));
+  const header = hasHeader ? rows[0] ?? [] : [];
+  const columnName = (i: number) => `Column ${i + 1}${header[i] ? ` (${header[i]})` : ""}`;
+
+  return (
+    <Dialog open={source !== null} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Import Survey Points — {source?.fileName}</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2 max-h-[70vh] overflow-y-auto">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">File</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Delimiter</Label>
+              <select value={delimiter} onChange={e => setDelimiter(e.target.value as SurveyDelimiter)} className={selectClass}>
+                {SURVEY_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </div>
+            <RadioGroup value={axisOrder} onValueChange={v => changeAxisOrder(v as SurveyAxisOrder)} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="ne" id="survey-order-ne" /><Label htmlFor="survey-order-ne" className="text-xs">Northing, easting (PNEZD)</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="en" id="survey-order-en" /><Label htmlFor="survey-order-en" className="text-xs">Easting, northing (PENZD)</Label></div>
+            </RadioGroup>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">First row is a header</Label>
+              <Switch checked={hasHeader} onCheckedChange={setHasHeader} />
+            </div>
+            {SURVEY_FIELDS.map(({ field, label }) => (
+              <div key={field} className="flex items-center justify-between">
+                <Label className="text-xs">{label}</Label>
+                <select value={columns[field]} onChange={e => setColumns(c => ({ ...c, [field]: parseInt(e.target.value) }))} className={selectClass}>
+                  <option value={-1}>None</option>
+                  {Array.from({ length: width }, (_, i) => <option key={i} value={i}>{columnName(i)}</option>)}
+                </select>
+              </div>
+            ))}
+            <p className="text-[10px] text-muted-foreground/60">
+              {points.length} point{points.length === 1 ? "" : "s"}{skipped > 0 ? `, ${skipped} row${skipped === 1 ? "" : "s"} without numeric coordinates skipped` : ""}
+              {points[0] ? ` — first: ${points[0].number} N ${points[0].northing} E ${points[0].easting}${points[0].description ? ` ${points[0].description}` : ""}` : ""}
+            </p>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Markers and Labels</h4>
+            <RadioGroup value={marker} onValueChange={v => setMarker(v as SurveyImportOptions["marker"])} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="point" id="survey-marker-point" /><Label htmlFor="survey-marker-point" className="text-xs">Point entities</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="block" id="survey-marker-block" /><Label htmlFor="survey-marker-block" className="text-xs">Marker blocks</Label></div>
+            </RadioGroup>
+            {marker === "block" && (
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Marker size (m)</Label>
+                <input type="number" min={0.01} step={0.1} value={markerSize} onChange={e => setMarkerSize(Math.max(0.01, parseFloat(e.target.value) || 0.5))} className={numberClass} />
+              </div>
+            )}
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2"><Checkbox id="survey-label-number" checked={labelNumber} onCheckedChange={v => setLabelNumber(v === true)} /><Label htmlFor="survey-label-number" className="text-xs">Number labels</Label></div>
+              <div className="flex items-center gap-2"><Checkbox id="survey-label-desc" checked={labelDescription} onCheckedChange={v => setLabelDescription(v === true)} /><Label htmlFor="survey-label-desc" className="text-xs">Description labels</Label></div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Text height (m)</Label>
+              <input type="number" min={0.01} step={0.1} value={textHeight} onChange={e => setTextHeight(Math.max(0.01, parseFloat(e.target.value) || 0.5))} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Layer</Label>
+              <select value={layerId} onChange={e => setLayerId(e.target.value)} className={selectClass}>
+                {layers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Join Codes into Lines</h4>
+            {codes.length === 0 ? <p className="text-[10px] text-muted-foreground/60">No description codes</p> : (
+              <div className="max-h-32 overflow-y-auto grid grid-cols-2 gap-x-4 gap-y-1.5">
+                {codes.map(({ code, count }) => (
+                  <div key={code} className="flex items-center gap-2">
+                    <Checkbox id={`survey-code-${code}`} disabled={count < 2} checked={joinCodes.includes(code)} onCheckedChange={v => setJoinCodes(j => v === true ? [...j, code] : j.filter(c => c !== code))} />
+                    <Label htmlFor={`survey-code-${code}`} className="text-xs flex-1 font-mono">{code}</Label>
+                    <span className="text-xs text-muted-foreground">{count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] text-muted-foreground/60">Points sharing the first word of their description are joined in file order.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={points.length === 0} onClick={() => onImport(points, { layerId, marker, markerSize, labelNumber, labelDescription, textHeight, joinCodes })}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
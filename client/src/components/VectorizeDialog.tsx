@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_VECTORIZE_OPTIONS, type VectorizeMode, type VectorizeOptions } from "@/lib/vectorize";
+import type { CADEntity, Layer } from "@/lib/cad-types";
+
+interface VectorizeDialogProps {
+  open: boolean;
+  images: CADEntity[];
+  /** Image to preselect (e.g. the selected one) */
+  defaultImageId: string | null;
+  layers: Layer[];
+  activeLayerId: string;
+  /** Window last picked on the canvas */
+  pickedWindow: VectorizeOptions["region"];
+  onPickWindow: () => void;
+  onCancel: () => void;
+  onRun: (imageId: string, options: VectorizeOptions, layerId: string) => void;
+}
+
+const selectClass = "w-40 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground";
+const numberClass = "w-16 bg-input border border-border rounded px-2 py-0.5 text-xs text-foreground text-right focus:outline-none focus:border-primary/50";
+
+/** Trace settings for turning an image underlay into lines, arcs and polylines */
+export default function VectorizeDialog({ open, images, defaultImageId, layers, activeLayerId, pickedWindow, onPickWindow, onCancel, onRun }: VectorizeDialogProps) {
+  const [imageId, setImageId] = useState("");
+  const [useWindow, setUseWindow] = useState(false);
+  const [mode, setMode] = useState<VectorizeMode>(DEFAULT_VECTORIZE_OPTIONS.mode);
+  const [threshold, setThreshold] = useState(DEFAULT_VECTORIZE_OPTIONS.threshold);
+  const [invert, setInvert] = useState(DEFAULT_VECTORIZE_OPTIONS.invert);
+  const [tolerance, setTolerance] = useState(DEFAULT_VECTORIZE_OPTIONS.tolerance);
+  const [minLength, setMinLength] = useState(DEFAULT_VECTORIZE_OPTIONS.minLength);
+  const [fitArcs, setFitArcs] = useState(DEFAULT_VECTORIZE_OPTIONS.fitArcs);
+  const [layerId, setLayerId] = useState(activeLayerId);
+
+  useEffect(() => { if (open && defaultImageId) setImageId(defaultImageId); }, [open, defaultImageId]);
+
+  const image = images.find(e => e.id === imageId) ?? images[0];
+  const pixels = image?.data.type === "image" ? `${image.data.pixelWidth} × ${image.data.pixelHeight} px` : "";
+  const region = useWindow ? pickedWindow : null;
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="sm:max-w-[420px] bg-card text-card-foreground border-border">
+        <DialogHeader><DialogTitle className="text-sm font-semibold">Vectorize Image</DialogTitle></DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Source</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Image</Label>
+              <select value={image?.id ?? ""} onChange={e => setImageId(e.target.value)} className={selectClass}>
+                {images.length === 0 ? <option value="">No images</option> : images.map((e, i) => <option key={e.id} value={e.id}>Image {i + 1}{e.data.type === "image" ? ` (${e.data.pixelWidth} × ${e.data.pixelHeight})` : ""}</option>)}
+              </select>
+            </div>
+            <RadioGroup value={useWindow ? "window" : "all"} onValueChange={v => setUseWindow(v === "window")} className="gap-2">
+              <div className="flex items-center gap-2"><RadioGroupItem value="all" id="vec-region-all" /><Label htmlFor="vec-region-all" className="text-xs">Whole image{pixels ? ` (${pixels})` : ""}</Label></div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="window" id="vec-region-window" /><Label htmlFor="vec-region-window" className="text-xs flex-1">Region{pickedWindow ? ` (${(pickedWindow.maxX - pickedWindow.minX).toFixed(1)} × ${(pickedWindow.maxY - pickedWindow.minY).toFixed(1)})` : ""}</Label>
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => { setUseWindow(true); onPickWindow(); }}>Pick on Canvas</Button>
+              </div>
+            </RadioGroup>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Tracing</h4>
+            <RadioGroup value={mode} onValueChange={v => setMode(v as VectorizeMode)} className="flex gap-4">
+              <div className="flex items-center gap-2"><RadioGroupItem value="centerline" id="vec-mode-center" /><Label htmlFor="vec-mode-center" className="text-xs">Centerline</Label></div>
+              <div className="flex items-center gap-2"><RadioGroupItem value="outline" id="vec-mode-outline" /><Label htmlFor="vec-mode-outline" className="text-xs">Outline</Label></div>
+            </RadioGroup>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Threshold</Label>
+              <div className="flex items-center gap-2">
+                <input type="range" min={1} max={254} value={threshold} onChange={e => setThreshold(parseInt(e.target.value))} className="w-28" />
+                <span className="text-xs cad-mono w-8 text-right">{threshold}</span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Light lines on dark background</Label>
+              <Switch checked={invert} onCheckedChange={setInvert} />
+            </div>
+          </div>
+          <Separator className="opacity-20" />
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Output</h4>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Simplification tolerance</Label>
+              <input type="number" min={0} step={0.1} value={tolerance} onChange={e => setTolerance(Math.max(0, parseFloat(e.target.value) || 0))} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Minimum feature length</Label>
+              <input type="number" min={0} step={1} value={minLength} onChange={e => setMinLength(Math.max(0, parseFloat(e.target.value) || 0))} className={numberClass} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Fit arcs</Label>
+              <Switch checked={fitArcs} onCheckedChange={setFitArcs} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Layer</Label>
+              <select value={layerId} onChange={e => setLayerId(e.target.value)} className={selectClass}>
+                {layers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+            <p className="text-[10px] text-muted-foreground/60">Tolerance and length are in drawing units; calibrate the image first.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!image || (useWindow && !pickedWindow)} onClick={() => image && onRun(image.id, { mode, threshold, invert, tolerance, minLength, fitArcs, region }, layerId)}>Vectorize</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,9 @@
 import { createContext, useContext, useReducer, useCallback, type ReactNode, type Dispatch } from "react";
-import type { CADState, CADEntity, Layer, ToolType, LineStyle, ViewState, GridSettings, SnapSettings, CommandEntry, BlockDefinition, HatchPattern, PolarTrackingSettings, Layout, NamedView, LayoutViewport } from "@/lib/cad-types";
-import { DEFAULT_LAYERS } from "@/lib/cad-types";
+import type { CADState, CADEntity, Layer, ToolType, LineStyle, ViewState, GridSettings, SnapSettings, CommandEntry, BlockDefinition, HatchPattern, PolarTrackingSettings, Layout, NamedView, LayoutViewport, PlotStyleTable, UndoSnapshot } from "@/lib/cad-types";
+import { DEFAULT_DOCUMENT_CONTENT, type CADDocumentContent } from "@/lib/cad-document";
+import type { PendingImport } from "@/lib/dxf-merge";
+import type { RevisionCompare } from "@/lib/drawing-diff";
+import { applyEntityChanges, applyOperation, diffOperation, type DrawingOperation, type DrawingSnapshot } from "@/lib/collab";
 
 type Action =
   | { type: "ADD_ENTITY"; entity: CADEntity }
@@ -31,6 +34,7 @@ type Action =
   | { type: "REDO" }
   | { type: "CLEAR_ALL" }
   | { type: "LOAD_ENTITIES"; entities: CADEntity[] }
+  | { type: "LOAD_DOCUMENT"; content: CADDocumentContent }
   | { type: "PUSH_UNDO" }
   | { type: "ADD_BLOCK"; block: BlockDefinition }
   | { type: "REMOVE_BLOCK"; id: string }
@@ -50,19 +54,34 @@ type Action =
   | { type: "REMOVE_VIEWPORT"; layoutId: string; viewportId: string }
   | { type: "ADD_NAMED_VIEW"; view: NamedView }
   | { type: "REMOVE_NAMED_VIEW"; id: string }
-  | { type: "RESTORE_NAMED_VIEW"; id: string };
+  | { type: "RESTORE_NAMED_VIEW"; id: string }
+  | { type: "SET_PENDING_IMPORT"; pending: PendingImport | null }
+  | { type: "MERGE_IMPORT"; entities: CADEntity[]; layers: Layer[]; blocks: BlockDefinition[] }
+  | { type: "ZOOM_TO_BOUNDS"; bounds: CADState["zoomRequest"] }
+  | { type: "ADD_PLOT_STYLE_TABLE"; table: PlotStyleTable }
+  | { type: "UPDATE_PLOT_STYLE_TABLE"; id: string; updates: Partial<PlotStyleTable> }
+  | { type: "REMOVE_PLOT_STYLE_TABLE"; id: string }
+  | { type: "SET_MODEL_PLOT_STYLE"; tableId: string | null }
+  | { type: "TOGGLE_PLOT_STYLE_PREVIEW" }
+  | { type: "SET_PLOT_WINDOW"; bounds: CADState["plotWindow"] }
+  | { type: "SET_VECTORIZE_WINDOW"; bounds: CADState["vectorizeWindow"] }
+  | { type: "SET_GEOREFERENCE"; georeference: CADState["georeference"] }
+  | { type: "SET_GCODE_SETTINGS"; settings: Partial<CADState["gcodeSettings"]> }
+  | { type: "TOGGLE_TOOLPATH_PREVIEW" }
+  | { type: "SET_CANVAS_SIZE"; size: CADState["canvasSize"] }
+  | { type: "SET_DOCUMENT_INFO"; info: Partial<CADState["documentInfo"]> }
+  | { type: "SET_REVISION_COMPARE"; compare: RevisionCompare | null }
+  | { type: "COLLAB_START" }
+  | { type: "COLLAB_JOINED"; snapshot: DrawingSnapshot }
+  | { type: "COLLAB_SENT"; count: number }
+  | { type: "COLLAB_ACK"; opId: string }
+  | { type: "COLLAB_REMOTE"; op: DrawingOperation }
+  | { type: "COLLAB_DISCONNECTED" }
+  | { type: "COLLAB_STOP" };
 
-const initialState: CADState = {
-  entities: [],
-  layers: DEFAULT_LAYERS,
-  activeLayerId: "layer-0",
+export const initialState: CADState = {
+  ...DEFAULT_DOCUMENT_CONTENT,
   activeTool: "select",
-  activeColor: "#ef4444",
-  activeLineWidth: 1,
-  activeLineStyle: "solid",
-  viewState: { panX: 0, panY: 0, zoom: 1 },
-  gridSettings: { visible: true, spacing: 20, majorEvery: 5, snapToGrid: true },
-  snapSettings: { enabled: true, gridSnap: true, endpointSnap: true, midpointSnap: true, centerSnap: true, intersectionSnap: true, perpendicularSnap: false, tangentSnap: false, nearestSnap: true },
   orthoMode: false,
   selectedEntityIds: [],
   drawingState: { isDrawing: false, startPoint: null, currentPoints: [], previewPoint: null },
@@ -72,18 +91,43 @@ const initialState: CADState = {
   showCommandLine: true,
   undoStack: [],
   redoStack: [],
-  blocks: [],
-  activeHatchPattern: "crosshatch" as HatchPattern,
-  activeHatchScale: 1,
-  activeHatchAngle: 0,
-  polarTracking: { enabled: false, increment: 45, additionalAngles: [], trackFromLastPoint: true },
   dynamicInputEnabled: true,
-  layouts: [],
   activeLayoutId: null,
-  namedViews: [],
   activeSpace: "model",
+  pendingImport: null,
+  zoomRequest: null,
+  plotStylePreview: false,
+  plotWindow: null,
+  vectorizeWindow: null,
+  toolpathPreview: false,
+  canvasSize: { width: 0, height: 0 },
+  documentInfo: { name: "Untitled", savedAt: null, server: null },
+  revisionCompare: null,
+  collab: null,
 };
 
+/** Layers with `active` set on the active one only, keeping the layers that are already right */
+function markActiveLayer(layers: Layer[], activeLayerId: string): Layer[] {
+  return layers.map(l => l.active === (l.id === activeLayerId) ? l : { ...l, active: l.id === activeLayerId });
+}
+
+/** The current drawing as an undo step, with the same parts as `like` (entities only by default) */
+function undoSnapshot(state: CADState, like?: UndoSnapshot): UndoSnapshot {
+  return { entities: [...state.entities], ...(like?.layers ? { layers: state.layers } : {}), ...(like?.blocks ? { blocks: state.blocks } : {}) };
+}
+
+/** The parts of the state an undo step puts back */
+function restoreSnapshot(state: CADState, snapshot: UndoSnapshot): Partial<CADState> {
+  const restored: Partial<CADState> = { entities: snapshot.entities, selectedEntityIds: [] };
+  if (snapshot.layers) {
+    const activeLayerId = snapshot.layers.some(l => l.id === state.activeLayerId) ? state.activeLayerId : snapshot.layers[0]?.id ?? state.activeLayerId;
+    restored.layers = markActiveLayer(snapshot.layers, activeLayerId);
+    restored.activeLayerId = activeLayerId;
+  }
+  if (snapshot.blocks) restored.blocks = snapshot.blocks;
+  return restored;
+}
+
 function reducer(state: CADState, action: Action): CADState {
   switch (action.type) {
     case "ADD_ENTITY": return { ...state, entities: [...state.entities, action.entity], redoStack: [] };
@@ -93,7 +137,7 @@ function reducer(state: CADState, action: Action): CADState {
     case "SELECT_ENTITIES": return { ...state, selectedEntityIds: action.ids };
     case "TOGGLE_SELECT": { const has = state.selectedEntityIds.includes(action.id); return { ...state, selectedEntityIds: has ? state.selectedEntityIds.filter(id => id !== action.id) : [...state.selectedEntityIds, action.id] }; }
     case "DESELECT_ALL": return { ...state, selectedEntityIds: [], drawingState: { isDrawing: false, startPoint: null, currentPoints: [], previewPoint: null } };
-    case "SET_TOOL": return { ...state, activeTool: action.tool, drawingState: { isDrawing: false, startPoint: null, currentPoints: [], previewPoint: null } };
+    case "SET_TOOL": return { ...state, activeTool: action.tool, drawingState: { isDrawing: false, startPoint: null, currentPoints: [], previewPoint: null }, pendingImport: action.tool === "import_place" ? state.pendingImport : null };
     case "SET_COLOR": return { ...state, activeColor: action.color };
     case "SET_LINE_WIDTH": return { ...state, activeLineWidth: action.width };
     case "SET_LINE_STYLE": return { ...state, activeLineStyle: action.style };
@@ -110,11 +154,16 @@ function reducer(state: CADState, action: Action): CADState {
     case "TOGGLE_LAYERS": return { ...state, showLayers: !state.showLayers };
     case "TOGGLE_PROPERTIES": return { ...state, showProperties: !state.showProperties };
     case "TOGGLE_COMMAND_LINE": return { ...state, showCommandLine: !state.showCommandLine };
-    case "PUSH_UNDO": return { ...state, undoStack: [...state.undoStack.slice(-49), [...state.entities]], redoStack: [] };
-    case "UNDO": { if (!state.undoStack.length) return state; const prev = state.undoStack[state.undoStack.length - 1]; return { ...state, entities: prev, undoStack: state.undoStack.slice(0, -1), redoStack: [...state.redoStack, [...state.entities]], selectedEntityIds: [] }; }
-    case "REDO": { if (!state.redoStack.length) return state; const next = state.redoStack[state.redoStack.length - 1]; return { ...state, entities: next, redoStack: state.redoStack.slice(0, -1), undoStack: [...state.undoStack, [...state.entities]], selectedEntityIds: [] }; }
-    case "CLEAR_ALL": return { ...state, entities: [], selectedEntityIds: [], undoStack: [...state.undoStack, [...state.entities]], redoStack: [] };
+    case "PUSH_UNDO": return { ...state, undoStack: [...state.undoStack.slice(-49), undoSnapshot(state)], redoStack: [] };
+    case "UNDO": { if (!state.undoStack.length) return state; const prev = state.undoStack[state.undoStack.length - 1]; return { ...state, ...restoreSnapshot(state, prev), undoStack: state.undoStack.slice(0, -1), redoStack: [...state.redoStack, undoSnapshot(state, prev)] }; }
+    case "REDO": { if (!state.redoStack.length) return state; const next = state.redoStack[state.redoStack.length - 1]; return { ...state, ...restoreSnapshot(state, next), redoStack: state.redoStack.slice(0, -1), undoStack: [...state.undoStack, undoSnapshot(state, next)] }; }
+    case "CLEAR_ALL": return { ...state, entities: [], selectedEntityIds: [], undoStack: [...state.undoStack, undoSnapshot(state)], redoStack: [] };
     case "LOAD_ENTITIES": return { ...state, entities: action.entities, selectedEntityIds: [], undoStack: [], redoStack: [] };
+    case "LOAD_DOCUMENT": return { ...state, ...action.content, selectedEntityIds: [], undoStack: [], redoStack: [], activeLayoutId: null, activeSpace: "model", drawingState: initialState.drawingState, revisionCompare: null, collab: null };
+    case "SET_PENDING_IMPORT": return { ...state, pendingImport: action.pending };
+    case "ZOOM_TO_BOUNDS": return { ...state, zoomRequest: action.bounds };
+    // Imported content lands in one step: a single undo snapshot covers its entities, layers and blocks
+    case "MERGE_IMPORT": return { ...state, entities: [...state.entities, ...action.entities], layers: action.layers, blocks: [...state.blocks, ...action.blocks], selectedEntityIds: action.entities.map(e => e.id), pendingImport: null, undoStack: [...state.undoStack.slice(-49), { entities: [...state.entities], layers: state.layers, blocks: state.blocks }], redoStack: [] };
     case "ADD_BLOCK": return { ...state, blocks: [...state.blocks, action.block] };
     case "REMOVE_BLOCK": return { ...state, blocks: state.blocks.filter(b => b.id !== action.id) };
     case "SET_HATCH_PATTERN": return { ...state, activeHatchPattern: action.pattern };
@@ -142,14 +191,75 @@ function reducer(state: CADState, action: Action): CADState {
       const nv = state.namedViews.find(v => v.id === action.id);
       return nv ? { ...state, viewState: { ...nv.viewState }, activeSpace: "model", activeLayoutId: null } : state;
     }
+    // Plot style tables
+    case "ADD_PLOT_STYLE_TABLE": return { ...state, plotStyleTables: [...state.plotStyleTables, action.table] };
+    case "UPDATE_PLOT_STYLE_TABLE": return { ...state, plotStyleTables: state.plotStyleTables.map(t => t.id === action.id ? { ...t, ...action.updates } : t) };
+    case "REMOVE_PLOT_STYLE_TABLE": return {
+      ...state,
+      plotStyleTables: state.plotStyleTables.filter(t => t.id !== action.id),
+      modelPlotStyleTableId: state.modelPlotStyleTableId === action.id ? null : state.modelPlotStyleTableId,
+      layouts: state.layouts.map(l => l.plotStyleTableId === action.id ? { ...l, plotStyleTableId: null } : l),
+    };
+    case "SET_MODEL_PLOT_STYLE": return { ...state, modelPlotStyleTableId: action.tableId };
+    case "TOGGLE_PLOT_STYLE_PREVIEW": return { ...state, plotStylePreview: !state.plotStylePreview };
+    case "SET_PLOT_WINDOW": return { ...state, plotWindow: action.bounds };
+    case "SET_VECTORIZE_WINDOW": return { ...state, vectorizeWindow: action.bounds };
+    case "SET_GEOREFERENCE": return { ...state, georeference: action.georeference };
+    case "SET_GCODE_SETTINGS": return { ...state, gcodeSettings: { ...state.gcodeSettings, ...action.settings } };
+    case "TOGGLE_TOOLPATH_PREVIEW": return { ...state, toolpathPreview: !state.toolpathPreview };
+    case "SET_CANVAS_SIZE": return { ...state, canvasSize: action.size };
+    case "SET_DOCUMENT_INFO": return { ...state, documentInfo: { ...state.documentInfo, ...action.info } };
+    case "SET_REVISION_COMPARE": return { ...state, revisionCompare: action.compare };
+    // Collaboration
+    case "COLLAB_START": return { ...state, collab: { joined: false, outbox: [], pending: [] } };
+    case "COLLAB_JOINED": {
+      // The session's drawing replaces the local one; edits made while connecting are replayed on it and sent
+      if (!state.collab) return state;
+      const local = [...state.collab.pending, ...state.collab.outbox];
+      let parts: DrawingSnapshot = { ...action.snapshot, layers: action.snapshot.layers.length ? action.snapshot.layers : state.layers };
+      for (const op of local) parts = applyOperation(parts, op);
+      const activeLayerId = parts.layers.some(l => l.id === state.activeLayerId) ? state.activeLayerId : parts.layers[0]?.id ?? state.activeLayerId;
+      const ids = new Set(parts.entities.map(e => e.id));
+      return {
+        ...state, entities: parts.entities, layers: markActiveLayer(parts.layers, activeLayerId), blocks: parts.blocks, activeLayerId,
+        selectedEntityIds: state.selectedEntityIds.filter(id => ids.has(id)), undoStack: [], redoStack: [],
+        collab: { joined: true, outbox: local, pending: [] },
+      };
+    }
+    case "COLLAB_SENT": return state.collab ? { ...state, collab: { ...state.collab, outbox: state.collab.outbox.slice(action.count), pending: [...state.collab.pending, ...state.collab.outbox.slice(0, action.count)] } } : state;
+    case "COLLAB_ACK": return state.collab ? { ...state, collab: { ...state.collab, pending: state.collab.pending.filter(op => op.id !== action.opId) } } : state;
+    // Whether the server applied the unacknowledged operations is unknown; sending them again is harmless
+    case "COLLAB_DISCONNECTED": return state.collab ? { ...state, collab: { joined: false, outbox: [...state.collab.pending, ...state.collab.outbox], pending: [] } } : state;
+    case "COLLAB_REMOTE": {
+      if (!state.collab?.joined) return state;
+      const parts = applyOperation(state, action.op, [...state.collab.pending, ...state.collab.outbox]);
+      const activeLayerId = parts.layers.some(l => l.id === state.activeLayerId) ? state.activeLayerId : parts.layers[0]?.id ?? state.activeLayerId;
+      const removed = new Set(action.op.entities?.remove ?? []);
+      // Undo steps the other participant's work along, so undoing only takes back local edits
+      const rebase = (stack: UndoSnapshot[]) => action.op.entities ? stack.map(snapshot => ({ ...snapshot, entities: applyEntityChanges(snapshot.entities, action.op) })) : stack;
+      return {
+        ...state, entities: parts.entities, layers: markActiveLayer(parts.layers, activeLayerId), blocks: parts.blocks, activeLayerId,
+        selectedEntityIds: removed.size ? state.selectedEntityIds.filter(id => !removed.has(id)) : state.selectedEntityIds,
+        undoStack: rebase(state.undoStack), redoStack: rebase(state.redoStack),
+      };
+    }
+    case "COLLAB_STOP": return { ...state, collab: null };
     default: return state;
   }
 }
 
+/** During a shared session, whatever an action changed in the drawing is queued to be sent as an operation */
+function collabReducer(state: CADState, action: Action): CADState {
+  const next = reducer(state, action);
+  if (!next.collab || next === state || action.type.startsWith("COLLAB_")) return next;
+  const op = diffOperation(state, next);
+  return op ? { ...next, collab: { ...next.collab, outbox: [...next.collab.outbox, op] } } : next;
+}
+
 const CADContext = createContext<{ state: CADState; dispatch: Dispatch<Action> } | null>(null);
 
 export function CADProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(reducer, initialState);
+  const [state, dispatch] = useReducer(collabReducer, initialState);
   return <CADContext.Provider value={{ state, dispatch }}>{children}</CADContext.Provider>;
 }
 
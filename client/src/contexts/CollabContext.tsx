@@ -0,0 +1,199 @@
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { toast } from "sonner";
+import type { Point } from "@/lib/cad-types";
+import { useCAD } from "@/contexts/CADContext";
+import { getAuthorName } from "@/lib/drawings-api";
+import { COLLAB_API_PATH, type CollabClientMessage, type CollabPeer, type CollabServerMessage, type DrawingOperation, type DrawingSnapshot } from "@/lib/collab";
+
+export type CollabStatus = "off" | "connecting" | "connected" | "reconnecting";
+
+interface CollabContextValue {
+  status: CollabStatus;
+  /** The other participants, with their latest cursor and selection */
+  peers: CollabPeer[];
+  /** Color the others see this participant in */
+  color: string | null;
+  /** Join (or open) the shared session of the open server drawing */
+  start: () => void;
+  stop: () => void;
+  /** Pointer position in drawing coordinates; null when it leaves the canvas */
+  moveCursor: (point: Point | null) => void;
+  /** Tell the others a save to the server made `revision` current */
+  announceSaved: (revision: number, name: string) => void;
+}
+
+/** Cursor updates are sent at most this often */
+const CURSOR_INTERVAL_MS = 50;
+/** Reconnect delays double from the first up to the last */
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const CollabContext = createContext<CollabContextValue | null>(null);
+
+function sessionUrl(drawingId: string): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}${COLLAB_API_PATH}/${encodeURIComponent(drawingId)}`;
+}
+
+/**
+ * Owns the WebSocket of a shared editing session: sends the operations the
+ * CAD reducer queues, merges the ones from other participants, and tracks
+ * everyone's cursor and selection. Reconnects with backoff when the
+ * connection drops; edits made meanwhile are sent once it is back.
+ */
+export function CollabProvider({ children }: { children: ReactNode }) {
+  const { state, dispatch } = useCAD();
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [status, setStatus] = useState<CollabStatus>("off");
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [color, setColor] = useState<string | null>(null);
+  const socket = useRef<WebSocket | null>(null);
+  /** Drawing of the session this tab wants to be in; null when it wants none */
+  const drawingId = useRef<string | null>(null);
+  const joined = useRef(false);
+  const attempts = useRef(0);
+  const reconnectTimer = useRef<number | null>(null);
+  const cursor = useRef<Point | null>(null);
+  const cursorTimer = useRef<number | null>(null);
+
+  const send = (message: CollabClientMessage) => {
+    if (socket.current?.readyState === WebSocket.OPEN) socket.current.send(JSON.stringify(message));
+  };
+
+  const sendPresence = () => {
+    send({ type: "presence", presence: { cursor: cursor.current, selection: stateRef.current.selectedEntityIds } });
+  };
+
+  const handleMessage = (message: CollabServerMessage) => {
+    switch (message.type) {
+      case "welcome":
+        joined.current = true;
+        attempts.current = 0;
+        dispatch({ type: "COLLAB_JOINED", snapshot: message.snapshot as DrawingSnapshot });
+        setPeers(message.peers);
+        setColor(message.color);
+        setStatus("connected");
+        sendPresence();
+        break;
+      case "op": dispatch({ type: "COLLAB_REMOTE", op: message.op as DrawingOperation }); break;
+      case "ack":
+      case "dropped": dispatch({ type: "COLLAB_ACK", opId: message.opId }); break;
+      case "presence": setPeers(list => list.map(p => p.clientId === message.clientId ? { ...p, ...message.presence } : p)); break;
+      case "peer-joined":
+        setPeers(list => [...list, message.peer]);
+        toast(`${message.peer.name} joined the session`);
+        break;
+      case "peer-left": setPeers(list => list.filter(p => p.clientId !== message.clientId)); break;
+      case "saved": {
+        const server = stateRef.current.documentInfo.server;
+        if (server) dispatch({ type: "SET_DOCUMENT_INFO", info: { name: message.name, savedAt: Date.now(), server: { ...server, revision: message.revision } } });
+        const who = peers.find(p => p.clientId === message.clientId)?.name ?? "Someone";
+        toast(`${who} saved revision ${message.revision}`);
+        break;
+      }
+      case "error": console.warn("Collaboration server:", message.error); break;
+    }
+  };
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const connect = () => {
+    const id = drawingId.current;
+    if (!id) return;
+    const ws = new WebSocket(sessionUrl(id));
+    socket.current = ws;
+    ws.onopen = () => {
+      send({ type: "hello", name: getAuthorName() || "Guest" });
+    };
+    ws.onmessage = ev => {
+      try {
+        handleMessageRef.current(JSON.parse(ev.data));
+      } catch (err) {
+        console.warn("Bad collaboration message:", err);
+      }
+    };
+    ws.onclose = () => {
+      if (socket.current !== ws) return;
+      socket.current = null;
+      setPeers([]);
+      if (!drawingId.current) return;
+      if (!joined.current && attempts.current === 0) {
+        toast.error("Cannot join the collaboration session; is the drawing server running?");
+        stop();
+        return;
+      }
+      joined.current = false;
+      dispatch({ type: "COLLAB_DISCONNECTED" });
+      setStatus("reconnecting");
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_MIN_MS * 2 ** attempts.current++);
+      reconnectTimer.current = window.setTimeout(() => { reconnectTimer.current = null; connect(); }, delay);
+    };
+  };
+
+  const disconnect = () => {
+    drawingId.current = null;
+    joined.current = false;
+    attempts.current = 0;
+    if (reconnectTimer.current !== null) { clearTimeout(reconnectTimer.current); reconnectTimer.current = null; }
+    const ws = socket.current;
+    socket.current = null;
+    ws?.close();
+    setPeers([]);
+    setColor(null);
+    setStatus("off");
+  };
+
+  const start = () => {
+    const server = stateRef.current.documentInfo.server;
+    if (!server || drawingId.current) return;
+    drawingId.current = server.id;
+    dispatch({ type: "COLLAB_START" });
+    setStatus("connecting");
+    connect();
+  };
+
+  const stop = () => {
+    disconnect();
+    if (stateRef.current.collab) dispatch({ type: "COLLAB_STOP" });
+  };
+
+  // Send what the reducer queued, once the session's drawing is in place
+  const outbox = state.collab?.outbox;
+  useEffect(() => {
+    if (!outbox?.length || !state.collab?.joined || socket.current?.readyState !== WebSocket.OPEN) return;
+    for (const op of outbox) send({ type: "op", op });
+    dispatch({ type: "COLLAB_SENT", count: outbox.length });
+  }, [outbox, state.collab?.joined]);
+
+  useEffect(() => { if (joined.current) sendPresence(); }, [state.selectedEntityIds]);
+
+  // Opening another drawing ends the session (LOAD_DOCUMENT clears state.collab), as does saving as a new copy
+  const serverId = state.documentInfo.server?.id ?? null;
+  useEffect(() => {
+    if (drawingId.current && (!state.collab || serverId !== drawingId.current)) stop();
+  }, [state.collab === null, serverId]);
+
+  useEffect(() => () => {
+    disconnect();
+    if (cursorTimer.current !== null) clearTimeout(cursorTimer.current);
+  }, []);
+
+  const moveCursor = (point: Point | null) => {
+    cursor.current = point;
+    if (!joined.current || cursorTimer.current !== null) return;
+    cursorTimer.current = window.setTimeout(() => { cursorTimer.current = null; sendPresence(); }, CURSOR_INTERVAL_MS);
+  };
+
+  const announceSaved = (revision: number, name: string) => send({ type: "saved", revision, name });
+
+  // Functions read refs only, so the value changes only with what consumers display
+  const value = useMemo(() => ({ status, peers, color, start, stop, moveCursor, announceSaved }), [status, peers, color]);
+  return <CollabContext.Provider value={value}>{children}</CollabContext.Provider>;
+}
+
+export function useCollab() {
+  const ctx = useContext(CollabContext);
+  if (!ctx) throw new Error("useCollab must be used within CollabProvider");
+  return ctx;
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react";
+import type { CADState } from "@/lib/cad-types";
+import { createDocument } from "@/lib/cad-document";
+import { SESSION_ID, answerLivenessPings, deleteSession, saveSession } from "@/lib/local-store";
+
+/** Quiet time after a change before it is written */
+const MIN_DELAY_MS = 2000;
+/** Longest wait between a change and its autosave, however large the drawing */
+const MAX_DELAY_MS = 30000;
+/** Saves are spaced at this multiple of the last save's duration, so big drawings stay responsive */
+const DURATION_FACTOR = 20;
+/** Periodic save of anything still pending */
+const PERIODIC_MS = 60000;
+
+/**
+ * Autosave the drawing into this tab's IndexedDB session: shortly after each
+ * change (throttled by how long saving takes) and periodically. Closing the tab
+ * with nothing unsaved removes the session; otherwise it stays recoverable.
+ */
+export function useAutosave(state: CADState) {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const mounted = useRef(false);
+  const timer = useRef<number | null>(null);
+  const saving = useRef(false);
+  /** Changes not autosaved yet */
+  const pending = useRef(false);
+  /** Changes not written to a file yet */
+  const unsaved = useRef(false);
+  const lastDuration = useRef(0);
+  const lastSavedAt = useRef(state.documentInfo.savedAt);
+
+  const flush = async () => {
+    if (timer.current !== null) { clearTimeout(timer.current); timer.current = null; }
+    if (saving.current) { schedule(); return; }
+    saving.current = true;
+    pending.current = false;
+    const started = performance.now();
+    try {
+      const s = stateRef.current;
+      const text = JSON.stringify(createDocument(s));
+      await saveSession({ id: SESSION_ID, name: s.documentInfo.name, entityCount: s.entities.length, updatedAt: Date.now(), unsaved: unsaved.current }, text);
+    } catch (err) {
+      console.warn("Autosave failed:", err);
+    } finally {
+      lastDuration.current = performance.now() - started;
+      saving.current = false;
+    }
+  };
+
+  const schedule = () => {
+    if (timer.current !== null) return;
+    const delay = Math.min(MAX_DELAY_MS, Math.max(MIN_DELAY_MS, lastDuration.current * DURATION_FACTOR));
+    timer.current = window.setTimeout(flush, delay);
+  };
+
+  useEffect(() => {
+    // The empty drawing at startup is not worth a session
+    if (!mounted.current) { mounted.current = true; return; }
+    // Saving or opening a file makes the drawing clean; any other change makes it unsaved
+    unsaved.current = state.documentInfo.savedAt === lastSavedAt.current;
+    lastSavedAt.current = state.documentInfo.savedAt;
+    pending.current = true;
+    schedule();
+  }, [
+    state.entities, state.layers, state.blocks, state.layouts, state.namedViews, state.plotStyleTables,
+    state.modelPlotStyleTableId, state.georeference, state.gcodeSettings, state.documentInfo,
+  ]);
+
+  useEffect(() => {
+    const stopAnswering = answerLivenessPings();
+    const interval = window.setInterval(() => { if (pending.current) flush(); }, PERIODIC_MS);
+    const onHide = () => {
+      if (!unsaved.current) deleteSession(SESSION_ID).catch(() => {});
+      else if (pending.current) flush();
+    };
+    window.addEventListener("pagehide", onHide);
+    return () => {
+      stopAnswering();
+      clearInterval(interval);
+      window.removeEventListener("pagehide", onHide);
+      if (timer.current !== null) clearTimeout(timer.current);
+    };
+  }, []);
+}
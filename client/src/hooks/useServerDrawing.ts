@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { useLocation, useSearch } from "wouter";
+import { toast } from "sonner";
+import type { CADState } from "@/lib/cad-types";
+import { useCADActions, initialState } from "@/contexts/CADContext";
+import { migrateDocument, validateDocument } from "@/lib/cad-document";
+import { fetchDrawing } from "@/lib/drawings-api";
+
+/** Workspace URL of a drawing kept on the server */
+export function serverDrawingPath(id: string): string {
+  return `/?drawing=${encodeURIComponent(id)}`;
+}
+
+/**
+ * Open the server drawing named by `?drawing=<id>` when the workspace loads,
+ * then keep that parameter following the drawing (saved to the server, or
+ * replaced by a new or local one) so a reload reopens what is on screen.
+ */
+export function useServerDrawing(state: CADState) {
+  const { dispatch } = useCADActions();
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  const requested = useRef(new URLSearchParams(search).get("drawing"));
+  const loading = useRef(requested.current !== null);
+
+  useEffect(() => {
+    const id = requested.current;
+    if (!id) return;
+    fetchDrawing(id)
+      .then(drawing => {
+        const doc = validateDocument(migrateDocument(drawing.document), initialState);
+        dispatch({ type: "LOAD_DOCUMENT", content: doc.content });
+        dispatch({ type: "SET_DOCUMENT_INFO", info: { name: drawing.name, savedAt: Date.now(), server: { id: drawing.id, revision: drawing.revision } } });
+        toast.success(`Opened ${drawing.name} (revision ${drawing.revision})`);
+      })
+      .catch(err => {
+        toast.error(`Cannot open drawing: ${err instanceof Error ? err.message : String(err)}`);
+        navigate("/", { replace: true });
+      })
+      .finally(() => { loading.current = false; });
+  }, []);
+
+  const serverId = state.documentInfo.server?.id ?? null;
+  useEffect(() => {
+    if (loading.current) return;
+    if (new URLSearchParams(search).get("drawing") !== serverId) navigate(serverId ? serverDrawingPath(serverId) : "/", { replace: true });
+  }, [serverId]);
+}
@@ -111,8 +111,10 @@ function displaceEntityData(data: EntityData, dx: number, dy: number): EntityDat
     case "ellipse": return { ...data, center: mp(data.center) };
     case "text": return { ...data, position: mp(data.position) };
     case "dimension": return { ...data, start: mp(data.start), end: mp(data.end) };
-    case "hatch": return { ...data, boundary: data.boundary.map(mp) };
+    case "hatch": return { ...data, boundary: data.boundary.map(mp), islands: data.islands?.map(loop => loop.map(mp)) };
     case "blockref": return { ...data, insertPoint: mp(data.insertPoint) };
+    case "image": return { ...data, insertPoint: mp(data.insertPoint) };
+    case "point": return { ...data, position: mp(data.position) };
     default: return data;
   }
 }
@@ -186,7 +188,7 @@ function rotateEntityDataAroundPoint(
     case "dimension":
       return { ...data, start: rp(data.start), end: rp(data.end) };
     case "hatch":
-      return { ...data, boundary: data.boundary.map(rp) };
+      return { ...data, boundary: data.boundary.map(rp), islands: data.islands?.map(loop => loop.map(rp)) };
     case "blockref": {
       const newInsert = rp(data.insertPoint);
       return {
@@ -195,6 +197,10 @@ function rotateEntityDataAroundPoint(
         rotation: rotateItems ? data.rotation + (angle * 180) / Math.PI : data.rotation,
       };
     }
+    case "image":
+      return { ...data, insertPoint: rp(data.insertPoint), rotation: rotateItems ? data.rotation + angle : data.rotation };
+    case "point":
+      return { ...data, position: rp(data.position) };
     default:
       return data;
   }
@@ -226,9 +232,11 @@ function getRepresentativePoints(entity: CADEntity): Point[] {
     case "polyline": return d.points;
     case "ellipse": return [d.center];
     case "text": return [d.position];
+    case "point": return [d.position];
     case "dimension": return [d.start, d.end];
     case "hatch": return d.boundary.length > 0 ? [d.boundary[0]] : [];
     case "blockref": return [d.insertPoint];
+    case "image": return [d.insertPoint, { x: d.insertPoint.x + d.width, y: d.insertPoint.y + d.height }];
     default: return [];
   }
 }
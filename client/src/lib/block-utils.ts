@@ -3,7 +3,7 @@
 // ============================================================
 
 import type { Point, CADEntity, BlockDefinition, BlockRefData } from "./cad-types";
-import { generateId } from "./cad-utils";
+import { generateId, getEntitiesBBox } from "./cad-utils";
 
 /** Calculate the centroid of a set of entities to use as base point */
 export function calculateBasePoint(entities: CADEntity[]): Point {
@@ -33,6 +33,8 @@ function getEntityPoints(entity: CADEntity): Point[] {
     case "dimension": return [d.start, d.end];
     case "hatch": return d.boundary;
     case "blockref": return [d.insertPoint];
+    case "image": return [d.insertPoint];
+    case "point": return [d.position];
     default: return [];
   }
 }
@@ -114,12 +116,22 @@ function transformPoint(
   return { x: rx + insertPoint.x, y: ry + insertPoint.y };
 }
 
-/** Get the transformed entities of a block reference for rendering */
+/** Maximum depth when expanding nested block references */
+const MAX_BLOCK_NESTING = 8;
+
+/**
+ * Get the transformed entities of a block reference for rendering.
+ * When `blocks` is given, nested block references are expanded too;
+ * `refColor` is applied to children whose color is ByBlock.
+ */
 export function getBlockRefEntities(
   blockDef: BlockDefinition,
-  refData: BlockRefData
+  refData: BlockRefData,
+  blocks?: BlockDefinition[],
+  refColor?: string,
+  depth = 0
 ): CADEntity[] {
-  return blockDef.entities.map(entity => {
+  return blockDef.entities.flatMap(entity => {
     const transformed = transformEntityData(
       entity,
       blockDef.basePoint,
@@ -128,12 +140,28 @@ export function getBlockRefEntities(
       refData.scaleY,
       refData.rotation
     );
-    return {
+    const child: CADEntity = {
       ...entity,
       ...transformed,
       id: `${entity.id}-ref-${refData.insertPoint.x.toFixed(0)}-${refData.insertPoint.y.toFixed(0)}`,
     };
+    if (entity.colorByBlock && refColor) child.color = refColor;
+    if (child.data.type !== "blockref" || !blocks || depth >= MAX_BLOCK_NESTING) return [child];
+    const nestedRef = child.data;
+    const nested = blocks.find(b => b.id === nestedRef.blockId);
+    return nested ? getBlockRefEntities(nested, nestedRef, blocks, child.color, depth + 1) : [];
+  });
+}
+
+/** Bounding box of entities with block references expanded into their contents; null when empty */
+export function getEntitiesBBoxWithBlocks(entities: CADEntity[], blocks: BlockDefinition[]) {
+  const flat = entities.flatMap(e => {
+    if (e.data.type !== "blockref") return [e];
+    const ref = e.data;
+    const block = blocks.find(b => b.id === ref.blockId);
+    return block ? getBlockRefEntities(block, ref, blocks) : [];
   });
+  return getEntitiesBBox(flat);
 }
 
 /** Transform entity data based on block reference parameters */
@@ -199,8 +227,32 @@ function transformEntityData(
     }
     case "dimension":
       return { data: { ...d, start: tp(d.start), end: tp(d.end) } };
+    case "point":
+      return { data: { ...d, position: tp(d.position) } };
     case "hatch":
-      return { data: { ...d, boundary: d.boundary.map(tp) } };
+      return { data: { ...d, boundary: d.boundary.map(tp), islands: d.islands?.map(loop => loop.map(tp)) } };
+    case "spline":
+      return { data: { ...d, controlPoints: d.controlPoints.map(tp) } };
+    case "blockref":
+      return {
+        data: {
+          ...d,
+          insertPoint: tp(d.insertPoint),
+          scaleX: d.scaleX * scaleX,
+          scaleY: d.scaleY * scaleY,
+          rotation: d.rotation + rotation,
+        },
+      };
+    case "image":
+      return {
+        data: {
+          ...d,
+          insertPoint: tp(d.insertPoint),
+          width: d.width * Math.abs(scaleX),
+          height: d.height * Math.abs(scaleY),
+          rotation: d.rotation + (rotation * Math.PI) / 180,
+        },
+      };
     default:
       return {};
   }
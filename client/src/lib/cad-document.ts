@@ -0,0 +1,412 @@
+// ============================================================
+// CAD Document — Native .cadstudio project file format
+// Versioned schema with a migration pipeline and validation
+// ============================================================
+
+import type { CADState, CADEntity, Layer, BlockDefinition, Layout, NamedView, EntityData, PlotStyleTable, PlotStyleRule, Georeference, Point, GCodeSettings } from "./cad-types";
+import { DEFAULT_LAYERS, DEFAULT_GCODE_SETTINGS } from "./cad-types";
+
+/** Current schema version written by this build */
+export const DOCUMENT_SCHEMA_VERSION = 1;
+
+export const DOCUMENT_FILE_EXTENSION = ".cadstudio";
+export const DOCUMENT_MIME_TYPE = "application/vnd.cadstudio+json";
+
+/** The persistent parts of CADState — everything that belongs to the drawing, not the session */
+export type CADDocumentContent = Pick<
+  CADState,
+  | "entities" | "layers" | "activeLayerId" | "blocks" | "layouts" | "namedViews"
+  | "plotStyleTables" | "modelPlotStyleTableId" | "georeference" | "gcodeSettings"
+  | "viewState" | "gridSettings" | "snapSettings" | "polarTracking"
+  | "activeColor" | "activeLineWidth" | "activeLineStyle"
+  | "activeHatchPattern" | "activeHatchScale" | "activeHatchAngle"
+>;
+
+export interface CADDocument {
+  format: "cadstudio";
+  schemaVersion: number;
+  savedAt: string;
+  content: CADDocumentContent;
+}
+
+/**
+ * What a new drawing starts with, and what a document's missing optional
+ * parts fall back to when it is read without an editor state (e.g. in Node)
+ */
+export const DEFAULT_DOCUMENT_CONTENT: CADDocumentContent = {
+  entities: [],
+  layers: DEFAULT_LAYERS,
+  activeLayerId: "layer-0",
+  blocks: [],
+  layouts: [],
+  namedViews: [],
+  plotStyleTables: [],
+  modelPlotStyleTableId: null,
+  georeference: null,
+  gcodeSettings: DEFAULT_GCODE_SETTINGS,
+  viewState: { panX: 0, panY: 0, zoom: 1 },
+  gridSettings: { visible: true, spacing: 20, majorEvery: 5, snapToGrid: true },
+  snapSettings: { enabled: true, gridSnap: true, endpointSnap: true, midpointSnap: true, centerSnap: true, intersectionSnap: true, perpendicularSnap: false, tangentSnap: false, nearestSnap: true },
+  polarTracking: { enabled: false, increment: 45, additionalAngles: [], trackFromLastPoint: true },
+  activeColor: "#ef4444",
+  activeLineWidth: 1,
+  activeLineStyle: "solid",
+  activeHatchPattern: "crosshatch",
+  activeHatchScale: 1,
+  activeHatchAngle: 0,
+};
+
+/** Thrown when a file cannot be read as a CAD Studio document */
+export class DocumentValidationError extends Error {
+  constructor(message: string, public readonly path: string = "") {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "DocumentValidationError";
+  }
+}
+
+// ============================================================
+// Serialize
+// ============================================================
+export function createDocument(state: CADState): CADDocument {
+  return {
+    format: "cadstudio",
+    schemaVersion: DOCUMENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    content: {
+      // Selection is session state — never persist it
+      entities: state.entities.map(e => ({ ...e, selected: false })),
+      layers: state.layers,
+      activeLayerId: state.activeLayerId,
+      blocks: state.blocks,
+      layouts: state.layouts,
+      namedViews: state.namedViews,
+      plotStyleTables: state.plotStyleTables,
+      modelPlotStyleTableId: state.modelPlotStyleTableId,
+      georeference: state.georeference,
+      gcodeSettings: state.gcodeSettings,
+      viewState: state.viewState,
+      gridSettings: state.gridSettings,
+      snapSettings: state.snapSettings,
+      polarTracking: state.polarTracking,
+      activeColor: state.activeColor,
+      activeLineWidth: state.activeLineWidth,
+      activeLineStyle: state.activeLineStyle,
+      activeHatchPattern: state.activeHatchPattern,
+      activeHatchScale: state.activeHatchScale,
+      activeHatchAngle: state.activeHatchAngle,
+    },
+  };
+}
+
+export function serializeDocument(state: CADState): string {
+  return JSON.stringify(createDocument(state), null, 2);
+}
+
+// ============================================================
+// Migrations — each step upgrades a document by exactly one version.
+// Add a new entry whenever DOCUMENT_SCHEMA_VERSION is bumped.
+// ============================================================
+type RawDocument = { schemaVersion: number; [key: string]: unknown };
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v0 → v1: legacy "Save as JSON" files ({ entities, layers, viewState, gridSettings })
+  0: (doc) => ({
+    format: "cadstudio",
+    schemaVersion: 1,
+    savedAt: new Date(0).toISOString(),
+    content: {
+      entities: doc.entities,
+      layers: doc.layers ?? DEFAULT_LAYERS,
+      viewState: doc.viewState,
+      gridSettings: doc.gridSettings,
+    },
+  }),
+};
+
+function detectVersion(raw: Record<string, unknown>): number {
+  if (raw.format === "cadstudio") {
+    if (typeof raw.schemaVersion !== "number" || !Number.isInteger(raw.schemaVersion)) {
+      throw new DocumentValidationError("missing or invalid schema version", "schemaVersion");
+    }
+    return raw.schemaVersion;
+  }
+  if (Array.isArray(raw.entities)) return 0;
+  throw new DocumentValidationError("not a CAD Studio drawing");
+}
+
+export function migrateDocument(raw: unknown): RawDocument {
+  if (!isObject(raw)) throw new DocumentValidationError("not a CAD Studio drawing");
+  let version = detectVersion(raw);
+  if (version > DOCUMENT_SCHEMA_VERSION) {
+    throw new DocumentValidationError(`file was saved by a newer version of CAD Studio (schema ${version}, this build reads up to ${DOCUMENT_SCHEMA_VERSION})`);
+  }
+  let doc: RawDocument = { ...raw, schemaVersion: version };
+  while (version < DOCUMENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new DocumentValidationError(`no migration from schema ${version}`);
+    doc = step(doc);
+    version = doc.schemaVersion;
+  }
+  return doc;
+}
+
+// ============================================================
+// Validation — check structure, fill defaults for optional parts
+// ============================================================
+const ENTITY_TYPES: EntityData["type"][] = [
+  "line", "circle", "arc", "rectangle", "polyline", "ellipse", "text",
+  "dimension", "hatch", "spline", "xline", "ray", "blockref", "image", "point",
+];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function expectArray(v: unknown, path: string): unknown[] {
+  if (!Array.isArray(v)) throw new DocumentValidationError("expected an array", path);
+  return v;
+}
+
+function expectString(v: unknown, path: string): string {
+  if (typeof v !== "string") throw new DocumentValidationError("expected a string", path);
+  return v;
+}
+
+function expectNumber(v: unknown, path: string): number {
+  if (typeof v !== "number" || !isFinite(v)) throw new DocumentValidationError("expected a number", path);
+  return v;
+}
+
+function expectPoint(v: unknown, path: string) {
+  if (!isObject(v)) throw new DocumentValidationError("expected a point", path);
+  expectNumber(v.x, `${path}.x`);
+  expectNumber(v.y, `${path}.y`);
+}
+
+function expectPointList(v: unknown, path: string) {
+  expectArray(v, path).forEach((p, i) => expectPoint(p, `${path}[${i}]`));
+}
+
+/** Geometry each entity type needs before it can be drawn; style fields are left to the renderer's defaults */
+const ENTITY_GEOMETRY: Record<EntityData["type"], { points?: string[]; pointLists?: string[]; numbers?: string[]; strings?: string[] }> = {
+  line: { points: ["start", "end"] },
+  circle: { points: ["center"], numbers: ["radius"] },
+  arc: { points: ["center"], numbers: ["radius", "startAngle", "endAngle"] },
+  rectangle: { points: ["topLeft"], numbers: ["width", "height"] },
+  polyline: { pointLists: ["points"] },
+  ellipse: { points: ["center"], numbers: ["radiusX", "radiusY", "rotation"] },
+  text: { points: ["position"], numbers: ["fontSize", "rotation"], strings: ["content"] },
+  dimension: { points: ["start", "end"], numbers: ["offset"] },
+  hatch: { pointLists: ["boundary"] },
+  spline: { pointLists: ["controlPoints"] },
+  xline: { points: ["basePoint", "direction"] },
+  ray: { points: ["basePoint", "direction"] },
+  blockref: { points: ["insertPoint"], numbers: ["scaleX", "scaleY", "rotation"], strings: ["blockId"] },
+  image: { points: ["insertPoint"], numbers: ["width", "height"], strings: ["src"] },
+  point: { points: ["position"] },
+};
+
+function isEntityType(v: unknown): v is EntityData["type"] {
+  return ENTITY_TYPES.some(t => t === v);
+}
+
+function validateEntityData(data: Record<string, unknown>, type: EntityData["type"], path: string) {
+  const { points = [], pointLists = [], numbers = [], strings = [] } = ENTITY_GEOMETRY[type];
+  for (const key of points) expectPoint(data[key], `${path}.${key}`);
+  for (const key of pointLists) expectPointList(data[key], `${path}.${key}`);
+  for (const key of numbers) expectNumber(data[key], `${path}.${key}`);
+  for (const key of strings) expectString(data[key], `${path}.${key}`);
+  if (type === "hatch" && data.islands !== undefined) expectArray(data.islands, `${path}.islands`).forEach((r, i) => expectPointList(r, `${path}.islands[${i}]`));
+  if (type === "image" && data.clip !== undefined) expectPointList(data.clip, `${path}.clip`);
+}
+
+function validateEntity(raw: unknown, path: string): CADEntity {
+  if (!isObject(raw)) throw new DocumentValidationError("expected an entity object", path);
+  const id = expectString(raw.id, `${path}.id`);
+  if (!isObject(raw.data)) throw new DocumentValidationError("missing entity data", `${path}.data`);
+  const type = raw.data.type;
+  if (!isEntityType(type)) throw new DocumentValidationError(`unknown entity type "${type}"`, `${path}.data.type`);
+  validateEntityData(raw.data, type, `${path}.data`);
+  const linePattern: unknown = raw.linePattern;
+  return {
+    id,
+    type,
+    data: raw.data as unknown as EntityData,
+    layerId: typeof raw.layerId === "string" ? raw.layerId : "layer-0",
+    color: typeof raw.color === "string" ? raw.color : "#ffffff",
+    lineWidth: typeof raw.lineWidth === "number" ? raw.lineWidth : 1,
+    lineStyle: typeof raw.lineStyle === "string" ? raw.lineStyle as CADEntity["lineStyle"] : "solid",
+    ...(Array.isArray(linePattern) && linePattern.every((v): v is number => typeof v === "number") ? { linePattern } : {}),
+    ...(raw.colorByBlock === true ? { colorByBlock: true } : {}),
+    ...(isObject(raw.metadata) ? { metadata: raw.metadata } : {}),
+    visible: raw.visible !== false,
+    locked: raw.locked === true,
+    selected: false,
+  };
+}
+
+function validateLayer(raw: unknown, path: string): Layer {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a layer object", path);
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    color: typeof raw.color === "string" ? raw.color : "#ffffff",
+    visible: raw.visible !== false,
+    locked: raw.locked === true,
+    active: raw.active === true,
+  };
+}
+
+function validateBlock(raw: unknown, path: string): BlockDefinition {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a block object", path);
+  if (!isObject(raw.basePoint)) throw new DocumentValidationError("missing base point", `${path}.basePoint`);
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    basePoint: { x: expectNumber(raw.basePoint.x, `${path}.basePoint.x`), y: expectNumber(raw.basePoint.y, `${path}.basePoint.y`) },
+    entities: expectArray(raw.entities, `${path}.entities`).map((e, i) => validateEntity(e, `${path}.entities[${i}]`)),
+  };
+}
+
+function validateLayout(raw: unknown, path: string): Layout {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a layout object", path);
+  expectString(raw.id, `${path}.id`);
+  expectString(raw.name, `${path}.name`);
+  expectString(raw.paperSize, `${path}.paperSize`);
+  const viewports = expectArray(raw.viewports, `${path}.viewports`).map((vp, i) => {
+    if (!isObject(vp)) throw new DocumentValidationError("expected a viewport object", `${path}.viewports[${i}]`);
+    expectString(vp.id, `${path}.viewports[${i}].id`);
+    return { ...vp, active: vp.active === true } as unknown as Layout["viewports"][number];
+  });
+  if (!isObject(raw.titleBlock)) throw new DocumentValidationError("missing title block", `${path}.titleBlock`);
+  return { ...(raw as unknown as Layout), viewports };
+}
+
+function validateNamedView(raw: unknown, path: string): NamedView {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a named view object", path);
+  if (!isObject(raw.viewState)) throw new DocumentValidationError("missing view state", `${path}.viewState`);
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    viewState: {
+      panX: expectNumber(raw.viewState.panX, `${path}.viewState.panX`),
+      panY: expectNumber(raw.viewState.panY, `${path}.viewState.panY`),
+      zoom: expectNumber(raw.viewState.zoom, `${path}.viewState.zoom`),
+    },
+    timestamp: typeof raw.timestamp === "number" ? raw.timestamp : 0,
+  };
+}
+
+function validatePlotStyleRule(raw: unknown, path: string): PlotStyleRule {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a plot style rule object", path);
+  const m = raw.match;
+  if (!isObject(m) || !(m.by === "color" ? typeof m.color === "string" : m.by === "layer" && typeof m.layerId === "string")) {
+    throw new DocumentValidationError("expected a color or layer match", `${path}.match`);
+  }
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    match: m as PlotStyleRule["match"],
+    ...(typeof raw.color === "string" ? { color: raw.color } : {}),
+    ...(typeof raw.lineWeight === "number" ? { lineWeight: raw.lineWeight } : {}),
+    ...(typeof raw.screening === "number" ? { screening: raw.screening } : {}),
+    ...(typeof raw.lineStyle === "string" ? { lineStyle: raw.lineStyle as PlotStyleRule["lineStyle"] } : {}),
+  };
+}
+
+function validatePlotStyleTable(raw: unknown, path: string): PlotStyleTable {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a plot style table object", path);
+  const mode = raw.mode === "monochrome" || raw.mode === "grayscale" ? raw.mode : "color";
+  return {
+    id: expectString(raw.id, `${path}.id`),
+    name: expectString(raw.name, `${path}.name`),
+    mode,
+    rules: expectArray(raw.rules, `${path}.rules`).map((r, i) => validatePlotStyleRule(r, `${path}.rules[${i}]`)),
+  };
+}
+
+function validateGeoreference(raw: unknown, path: string): Georeference {
+  if (!isObject(raw)) throw new DocumentValidationError("expected a georeference object", path);
+  const point = (v: unknown, p: string): Point => {
+    if (!isObject(v)) throw new DocumentValidationError("expected a point", p);
+    return { x: expectNumber(v.x, `${p}.x`), y: expectNumber(v.y, `${p}.y`) };
+  };
+  const unitScale = expectNumber(raw.unitScale, `${path}.unitScale`);
+  if (unitScale <= 0) throw new DocumentValidationError("expected a positive scale", `${path}.unitScale`);
+  return {
+    drawingPoint: point(raw.drawingPoint, `${path}.drawingPoint`),
+    system: raw.system === "geographic" ? "geographic" : "projected",
+    groundPoint: point(raw.groundPoint, `${path}.groundPoint`),
+    rotation: typeof raw.rotation === "number" ? raw.rotation : 0,
+    unitScale,
+    ...(typeof raw.crsName === "string" ? { crsName: raw.crsName } : {}),
+  };
+}
+
+/**
+ * Validate a migrated document. Required parts throw DocumentValidationError;
+ * optional parts fall back to the supplied defaults (normally the initial state).
+ */
+export function validateDocument(doc: RawDocument, defaults: CADDocumentContent): CADDocument {
+  if (!isObject(doc.content)) throw new DocumentValidationError("missing document content", "content");
+  const c = doc.content;
+
+  const entities = expectArray(c.entities, "content.entities").map((e, i) => validateEntity(e, `content.entities[${i}]`));
+  const layers = c.layers === undefined ? defaults.layers : expectArray(c.layers, "content.layers").map((l, i) => validateLayer(l, `content.layers[${i}]`));
+  if (layers.length === 0) throw new DocumentValidationError("a drawing needs at least one layer", "content.layers");
+  const blocks = c.blocks === undefined ? [] : expectArray(c.blocks, "content.blocks").map((b, i) => validateBlock(b, `content.blocks[${i}]`));
+  const layouts = c.layouts === undefined ? [] : expectArray(c.layouts, "content.layouts").map((l, i) => validateLayout(l, `content.layouts[${i}]`));
+  const namedViews = c.namedViews === undefined ? [] : expectArray(c.namedViews, "content.namedViews").map((v, i) => validateNamedView(v, `content.namedViews[${i}]`));
+  const plotStyleTables = c.plotStyleTables === undefined ? [] : expectArray(c.plotStyleTables, "content.plotStyleTables").map((t, i) => validatePlotStyleTable(t, `content.plotStyleTables[${i}]`));
+
+  const blockIds = new Set(blocks.map(b => b.id));
+  entities.forEach((e, i) => {
+    if (e.data.type === "blockref" && !blockIds.has(e.data.blockId)) {
+      throw new DocumentValidationError(`references missing block "${e.data.blockId}"`, `content.entities[${i}]`);
+    }
+  });
+
+  const activeLayerId = typeof c.activeLayerId === "string" && layers.some(l => l.id === c.activeLayerId)
+    ? c.activeLayerId
+    : (layers.find(l => l.active) ?? layers[0]).id;
+
+  return {
+    format: "cadstudio",
+    schemaVersion: doc.schemaVersion,
+    savedAt: typeof doc.savedAt === "string" ? doc.savedAt : new Date(0).toISOString(),
+    content: {
+      entities,
+      layers: layers.map(l => ({ ...l, active: l.id === activeLayerId })),
+      activeLayerId,
+      blocks,
+      layouts,
+      namedViews,
+      plotStyleTables,
+      modelPlotStyleTableId: typeof c.modelPlotStyleTableId === "string" ? c.modelPlotStyleTableId : null,
+      georeference: c.georeference == null ? null : validateGeoreference(c.georeference, "content.georeference"),
+      gcodeSettings: isObject(c.gcodeSettings)
+        ? { ...defaults.gcodeSettings, ...c.gcodeSettings as Partial<GCodeSettings>, layers: isObject(c.gcodeSettings.layers) ? c.gcodeSettings.layers as GCodeSettings["layers"] : {} }
+        : defaults.gcodeSettings,
+      viewState: isObject(c.viewState) ? { ...defaults.viewState, ...c.viewState } : defaults.viewState,
+      gridSettings: isObject(c.gridSettings) ? { ...defaults.gridSettings, ...c.gridSettings } : defaults.gridSettings,
+      snapSettings: isObject(c.snapSettings) ? { ...defaults.snapSettings, ...c.snapSettings } : defaults.snapSettings,
+      polarTracking: isObject(c.polarTracking) ? { ...defaults.polarTracking, ...c.polarTracking } : defaults.polarTracking,
+      activeColor: typeof c.activeColor === "string" ? c.activeColor : defaults.activeColor,
+      activeLineWidth: typeof c.activeLineWidth === "number" ? c.activeLineWidth : defaults.activeLineWidth,
+      activeLineStyle: typeof c.activeLineStyle === "string" ? c.activeLineStyle as CADDocumentContent["activeLineStyle"] : defaults.activeLineStyle,
+      activeHatchPattern: typeof c.activeHatchPattern === "string" ? c.activeHatchPattern as CADDocumentContent["activeHatchPattern"] : defaults.activeHatchPattern,
+      activeHatchScale: typeof c.activeHatchScale === "number" ? c.activeHatchScale : defaults.activeHatchScale,
+      activeHatchAngle: typeof c.activeHatchAngle === "number" ? c.activeHatchAngle : defaults.activeHatchAngle,
+    },
+  };
+}
+
+/** Parse file text into a validated, up-to-date document */
+export function parseDocument(text: string, defaults: CADDocumentContent): CADDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new DocumentValidationError("file is not valid JSON");
+  }
+  return validateDocument(migrateDocument(raw), defaults);
+}
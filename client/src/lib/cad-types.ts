@@ -2,6 +2,8 @@
 // CAD Types — Core type definitions for the CAD engine
 // ============================================================
 
+import type { CollabOperation } from "@shared/collab";
+
 export interface Point { x: number; y: number; }
 
 export type ToolType =
@@ -13,7 +15,9 @@ export type ToolType =
   | "measure_distance" | "measure_area" | "measure_angle"
   | "hatch" | "block_group" | "block_insert"
   | "array_rect" | "array_polar"
-  | "spline" | "xline" | "ray";
+  | "spline" | "xline" | "ray"
+  | "import_place" | "plot_window"
+  | "image_calibrate" | "image_clip" | "vectorize_window";
 
 export type HatchPattern = "solid" | "crosshatch" | "diagonal" | "dots" | "horizontal" | "vertical" | "brick";
 
@@ -27,16 +31,25 @@ export interface PolylineData { type: "polyline"; points: Point[]; closed: boole
 export interface EllipseData { type: "ellipse"; center: Point; radiusX: number; radiusY: number; rotation: number; }
 export interface TextData { type: "text"; position: Point; content: string; fontSize: number; rotation: number; }
 export interface DimensionData { type: "dimension"; start: Point; end: Point; offset: number; }
-export interface HatchData { type: "hatch"; boundary: Point[]; pattern: HatchPattern; patternScale: number; patternAngle: number; fillColor: string; fillOpacity: number; }
+export interface HatchData { type: "hatch"; boundary: Point[]; islands?: Point[][]; pattern: HatchPattern; patternScale: number; patternAngle: number; fillColor: string; fillOpacity: number; }
 export interface SplineData { type: "spline"; controlPoints: Point[]; degree: number; closed: boolean; }
 export interface XLineData { type: "xline"; basePoint: Point; direction: Point; }
 export interface RayData { type: "ray"; basePoint: Point; direction: Point; }
+/** A single location, drawn as a fixed-size marker (survey points, GIS points) */
+export interface PointData { type: "point"; position: Point; }
 export interface BlockRefData { type: "blockref"; blockId: string; insertPoint: Point; scaleX: number; scaleY: number; rotation: number; }
+/**
+ * Embedded raster underlay. insertPoint is the top-left corner; width/height are drawing units;
+ * rotation (radians) turns the image about insertPoint; clip is a polygon in normalized image
+ * coordinates (0..1 across width and height), so it follows the image when it is moved or scaled.
+ */
+export interface ImageEntityData { type: "image"; src: string; pixelWidth: number; pixelHeight: number; insertPoint: Point; width: number; height: number; rotation: number; opacity: number; clip?: Point[]; }
 
 export type EntityData =
   | LineData | CircleData | ArcData | RectangleData
   | PolylineData | EllipseData | TextData | DimensionData
-  | HatchData | SplineData | XLineData | RayData | BlockRefData;
+  | HatchData | SplineData | XLineData | RayData | BlockRefData
+  | ImageEntityData | PointData;
 
 export interface CADEntity {
   id: string;
@@ -46,6 +59,12 @@ export interface CADEntity {
   color: string;
   lineWidth: number;
   lineStyle: LineStyle;
+  /** Custom dash/gap lengths in drawing units, overriding lineStyle (e.g. imported linetypes) */
+  linePattern?: number[];
+  /** Inside a block definition: take the color of the referencing blockref */
+  colorByBlock?: boolean;
+  /** Attributes carried over from other formats (e.g. GeoJSON feature properties) */
+  metadata?: Record<string, unknown>;
   visible: boolean;
   locked: boolean;
   selected: boolean;
@@ -172,6 +191,39 @@ export interface Layout {
   marginRight: number;
   marginBottom: number;
   marginLeft: number;
+  /** Plot style table applied when the layout is plotted; null/omitted = entity colors */
+  plotStyleTableId?: string | null;
+}
+
+// ============================================================
+// Plot style tables
+// ============================================================
+
+/** How entity colors without a rule color are converted when plotting */
+export type PlotStyleMode = "color" | "monochrome" | "grayscale";
+
+export interface PlotStyleRule {
+  id: string;
+  /** Entities this rule applies to: by entity color (hex) or by layer */
+  match: { by: "color"; color: string } | { by: "layer"; layerId: string };
+  /** Output color; omitted = entity color converted by the table mode */
+  color?: string;
+  /** Lineweight in mm; omitted = derived from the entity line width */
+  lineWeight?: number;
+  /** Ink intensity in percent (100 = full color, 0 = white) */
+  screening?: number;
+  /** Linetype override */
+  lineStyle?: LineStyle;
+}
+
+export interface PlotStyleTable {
+  id: string;
+  name: string;
+  mode: PlotStyleMode;
+  /** Checked in order; the first matching rule wins */
+  rules: PlotStyleRule[];
+  /** Built-in tables cannot be edited or deleted */
+  builtIn?: boolean;
 }
 
 export interface NamedView {
@@ -181,6 +233,123 @@ export interface NamedView {
   timestamp: number;
 }
 
+// ============================================================
+// DXF import waiting for placement
+// ============================================================
+export interface ParseStats {
+  totalParsed: number;
+  skipped: number;
+  byType: Record<string, number>;
+  skippedByType: Record<string, number>;
+}
+
+export interface DXFHeader {
+  /** $ACADVER, e.g. "AC1015" */
+  version: string;
+  /** $INSUNITS code (0 = unitless) */
+  insUnits: number;
+  /** $LUNITS display format (1 scientific, 2 decimal, 3 engineering, 4 architectural, 5 fractional) */
+  lUnits: number;
+  /** $EXTMIN / $EXTMAX in DXF coordinates (Y-up) */
+  extMin: Point | null;
+  extMax: Point | null;
+}
+
+export interface DXFImportResult {
+  entities: CADEntity[];
+  layers: Layer[];
+  blocks: BlockDefinition[];
+  stats: ParseStats;
+  header: DXFHeader;
+  /** Detected $INSUNITS code of the content (0 = unknown) */
+  units: number;
+  /** Extents of the imported content in drawing coordinates */
+  extents: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+/** What to do when an imported layer has the same name as an existing one */
+export type LayerConflictMode = "keep" | "overwrite";
+
+/** Place imported geometry as individual entities, or wrapped in a new block */
+export type ImportPlacement = "entities" | "block";
+
+export interface DXFMergeOptions {
+  placement: ImportPlacement;
+  blockName: string;
+  layerConflict: LayerConflictMode;
+}
+
+/** A parsed DXF waiting for the user to pick its insertion point */
+export interface PendingImport {
+  fileName: string;
+  result: DXFImportResult;
+  options: DXFMergeOptions;
+}
+
+// ============================================================
+// Revision comparison
+// ============================================================
+/** The parts of a drawing that are compared */
+export interface DiffSide {
+  entities: CADEntity[];
+  layers: Layer[];
+  blocks: BlockDefinition[];
+}
+
+export interface EntityChange {
+  before: CADEntity;
+  after: CADEntity;
+  /** Readable descriptions, e.g. "moved by (10, 0)", "layer Walls → Doors" */
+  changes: string[];
+}
+
+export interface DrawingDiff {
+  added: CADEntity[];
+  removed: CADEntity[];
+  modified: EntityChange[];
+  unchanged: number;
+  layers: { added: string[]; removed: string[]; renamed: { from: string; to: string }[] };
+  blocks: { added: string[]; removed: string[]; modified: string[] };
+}
+
+/** A comparison shown on the canvas in place of the drawing */
+export interface RevisionCompare {
+  fromLabel: string;
+  toLabel: string;
+  tolerance: number;
+  diff: DrawingDiff;
+  /** Recolored entities of both versions, drawn instead of the model */
+  overlay: DiffSide;
+  /** Plain-text change report (diffReport) */
+  report: string;
+}
+
+// ============================================================
+// Shared editing
+// ============================================================
+/** One participant's edit, as whole records added, replaced or removed */
+export type DrawingOperation = CollabOperation<CADEntity, Layer, BlockDefinition>;
+
+/** Local side of a shared editing session */
+export interface CollabSession {
+  /** Set once the session's drawing replaced the local one */
+  joined: boolean;
+  /** Local operations not sent yet */
+  outbox: DrawingOperation[];
+  /** Sent, waiting for the server to acknowledge them */
+  pending: DrawingOperation[];
+}
+
+// ============================================================
+// Editor state
+// ============================================================
+/** What an undo step restores; layers and blocks are kept only by steps that change them */
+export interface UndoSnapshot {
+  entities: CADEntity[];
+  layers?: Layer[];
+  blocks?: BlockDefinition[];
+}
+
 export interface CADState {
   entities: CADEntity[];
   layers: Layer[];
@@ -199,8 +368,8 @@ export interface CADState {
   showLayers: boolean;
   showProperties: boolean;
   showCommandLine: boolean;
-  undoStack: CADEntity[][];
-  redoStack: CADEntity[][];
+  undoStack: UndoSnapshot[];
+  redoStack: UndoSnapshot[];
   blocks: BlockDefinition[];
   activeHatchPattern: HatchPattern;
   activeHatchScale: number;
@@ -212,6 +381,85 @@ export interface CADState {
   activeLayoutId: string | null; // null = model space
   namedViews: NamedView[];
   activeSpace: "model" | "paper";
+  // DXF content waiting for an insertion point (tool "import_place")
+  pendingImport: PendingImport | null;
+  // World-space bounds the canvas should zoom to on its next render
+  zoomRequest: { minX: number; minY: number; maxX: number; maxY: number } | null;
+  // Plot style tables (built-ins are not stored here)
+  plotStyleTables: PlotStyleTable[];
+  modelPlotStyleTableId: string | null;
+  // Draw with the active plot style on a white sheet
+  plotStylePreview: boolean;
+  // Window picked on the canvas for the plot dialog (tool "plot_window")
+  plotWindow: { minX: number; minY: number; maxX: number; maxY: number } | null;
+  // Region picked on the canvas for the vectorize dialog (tool "vectorize_window")
+  vectorizeWindow: { minX: number; minY: number; maxX: number; maxY: number } | null;
+  // Ground position of the drawing, for GeoJSON exchange
+  georeference: Georeference | null;
+  // Cutting settings for G-code export
+  gcodeSettings: GCodeSettings;
+  // Overlay the G-code toolpath (rapids and cuts) on the canvas
+  toolpathPreview: boolean;
+  // CSS pixel size of the drawing canvas, for "display" plot areas
+  canvasSize: { width: number; height: number };
+  // Name of the open drawing and when it last matched a saved or opened file
+  documentInfo: DocumentInfo;
+  // Two revisions overlaid on the canvas in place of the drawing, colored by change
+  revisionCompare: RevisionCompare | null;
+  // Shared editing session on the open server drawing; null when editing alone
+  collab: CollabSession | null;
+}
+
+export interface DocumentInfo {
+  name: string;
+  /** ms timestamp; null while the drawing has never been saved or opened */
+  savedAt: number | null;
+  /** The server copy this drawing was opened from or saved to, and its revision at that time */
+  server: { id: string; revision: number } | null;
+}
+
+/** Feed and power for the contours on one layer */
+export interface LayerCutSettings {
+  enabled: boolean;
+  /** mm/min */
+  feed: number;
+  /** Percent of the machine's maximum power */
+  power: number;
+}
+
+export interface GCodeSettings {
+  machine: "laser" | "plasma";
+  /** Cut width in mm; closed contours are offset by half of it away from the part */
+  kerf: number;
+  /** Lead lengths in mm, on the scrap side of closed contours */
+  leadIn: number;
+  leadOut: number;
+  /** Seconds to dwell after the torch fires (plasma) */
+  pierceDelay: number;
+  /** S word for 100 % power */
+  maxPower: number;
+  /** Machine zero at the drawing origin or at the lower-left corner of the cut extents */
+  origin: "drawing" | "extents";
+  /** Per layer id; layers without an entry use the defaults */
+  layers: Record<string, LayerCutSettings>;
+}
+
+/**
+ * Ties drawing coordinates to the ground: drawingPoint sits at groundPoint,
+ * the drawing turns by rotation and one drawing unit is unitScale meters.
+ */
+export interface Georeference {
+  drawingPoint: Point;
+  /** "geographic": WGS84 longitude/latitude in degrees; "projected": easting/northing in meters */
+  system: "geographic" | "projected";
+  /** x = longitude or easting, y = latitude or northing */
+  groundPoint: Point;
+  /** Degrees the drawing +X axis is turned counter-clockwise from east (grid north for projected systems) */
+  rotation: number;
+  /** Meters per drawing unit */
+  unitScale: number;
+  /** Name of the projected system, informational only (e.g. "EPSG:27700") */
+  crsName?: string;
 }
 
 export const ENTITY_COLORS = [
@@ -228,3 +476,14 @@ export const DEFAULT_LAYERS: Layer[] = [
   { id: "layer-dimensions", name: "Dimensions", color: "#f59e0b", visible: true, locked: false, active: false },
   { id: "layer-annotations", name: "Annotations", color: "#22c55e", visible: true, locked: false, active: false },
 ];
+
+export const DEFAULT_GCODE_SETTINGS: GCodeSettings = {
+  machine: "laser",
+  kerf: 0.2,
+  leadIn: 2,
+  leadOut: 1,
+  pierceDelay: 0.5,
+  maxPower: 1000,
+  origin: "extents",
+  layers: {},
+};
@@ -2,9 +2,10 @@
 // CAD Utils — Geometry, snapping, and export utilities
 // ============================================================
 
-import type { Point, CADEntity, SnapSettings, GridSettings, SnapResult, SplineData, XLineData, RayData } from "./cad-types";
+import type { Point, CADEntity, SnapSettings, GridSettings, SnapResult, SplineData, XLineData, RayData, ViewState } from "./cad-types";
 import { hitTestSpline, evaluateCatmullRom, getSplineEndpoints } from "./spline-utils";
 import { hitTestXLine, hitTestRay } from "./xline-utils";
+import { hitTestImage, imageCorners, imageOutline } from "./image-utils";
 
 let _idCounter = 0;
 export function generateId(): string {
@@ -90,6 +91,8 @@ export function hitTestEntity(entity: CADEntity, point: Point, tolerance: number
     case "spline": return hitTestSpline(d as SplineData, point, tolerance);
     case "xline": return hitTestXLine(d as XLineData, point, tolerance);
     case "ray": return hitTestRay(d as RayData, point, tolerance);
+    case "image": return hitTestImage(d, point, tolerance);
+    case "point": return distance(point, d.position) < tolerance;
     default: return false;
   }
 }
@@ -183,6 +186,12 @@ function getSnapPoints(entity: CADEntity, snap: SnapSettings): SnapResult[] {
       if (snap.endpointSnap) results.push({ point: rd.basePoint, type: "endpoint", entityId: id });
       break;
     }
+    case "image":
+      if (snap.endpointSnap) imageCorners(d).forEach(p => results.push({ point: p, type: "endpoint", entityId: id }));
+      break;
+    case "point":
+      if (snap.endpointSnap) results.push({ point: d.position, type: "endpoint", entityId: id });
+      break;
   }
   return results;
 }
@@ -193,14 +202,15 @@ export function entitiesInBox(entities: CADEntity[], p1: Point, p2: Point): stri
   const crossing = p2.x < p1.x;
   return entities.filter(e => {
     if (!e.visible || e.locked) return false;
-    const bb = getBBox(e);
+    const bb = getEntityBBox(e);
     if (!bb) return false;
     if (crossing) return !(bb.maxX < minX || bb.minX > maxX || bb.maxY < minY || bb.minY > maxY);
     return bb.minX >= minX && bb.maxX <= maxX && bb.minY >= minY && bb.maxY <= maxY;
   }).map(e => e.id);
 }
 
-function getBBox(entity: CADEntity) {
+/** Axis-aligned bounding box of an entity, or null when it has no finite extent */
+export function getEntityBBox(entity: CADEntity) {
   const d = entity.data;
   switch (d.type) {
     case "line": return { minX: Math.min(d.start.x, d.end.x), minY: Math.min(d.start.y, d.end.y), maxX: Math.max(d.start.x, d.end.x), maxY: Math.max(d.start.y, d.end.y) };
@@ -224,59 +234,64 @@ function getBBox(entity: CADEntity) {
       pts.forEach(p => { mnX = Math.min(mnX, p.x); mnY = Math.min(mnY, p.y); mxX = Math.max(mxX, p.x); mxY = Math.max(mxY, p.y); });
       return { minX: mnX, minY: mnY, maxX: mxX, maxY: mxY };
     }
+    case "hatch": {
+      if (!d.boundary.length) return null;
+      let mnX = Infinity, mnY = Infinity, mxX = -Infinity, mxY = -Infinity;
+      d.boundary.forEach(p => { mnX = Math.min(mnX, p.x); mnY = Math.min(mnY, p.y); mxX = Math.max(mxX, p.x); mxY = Math.max(mxY, p.y); });
+      return { minX: mnX, minY: mnY, maxX: mxX, maxY: mxY };
+    }
+    case "point": return { minX: d.position.x, minY: d.position.y, maxX: d.position.x, maxY: d.position.y };
+    case "image": {
+      const pts = imageOutline(d);
+      return { minX: Math.min(...pts.map(p => p.x)), minY: Math.min(...pts.map(p => p.y)), maxX: Math.max(...pts.map(p => p.x)), maxY: Math.max(...pts.map(p => p.y)) };
+    }
     default: return null;
   }
 }
 
-export function getLineDash(style: string): number[] {
-  switch (style) { case "dashed": return [10, 5]; case "dotted": return [2, 4]; case "dashdot": return [10, 4, 2, 4]; default: return []; }
+/** Combined bounding box of a set of entities, or null when none has a finite extent */
+export function getEntitiesBBox(entities: CADEntity[]) {
+  let box: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+  for (const e of entities) {
+    const bb = getEntityBBox(e);
+    if (!bb) continue;
+    box = box ? { minX: Math.min(box.minX, bb.minX), minY: Math.min(box.minY, bb.minY), maxX: Math.max(box.maxX, bb.maxX), maxY: Math.max(box.maxY, bb.maxY) } : bb;
+  }
+  return box;
 }
 
-export function exportToDXF(entities: CADEntity[]): string {
-  let dxf = "0\nSECTION\n2\nENTITIES\n";
-  for (const entity of entities) {
-    const d = entity.data;
-    switch (d.type) {
-      case "line": dxf += `0\nLINE\n8\n${entity.layerId}\n10\n${d.start.x}\n20\n${d.start.y}\n30\n0\n11\n${d.end.x}\n21\n${d.end.y}\n31\n0\n`; break;
-      case "circle": dxf += `0\nCIRCLE\n8\n${entity.layerId}\n10\n${d.center.x}\n20\n${d.center.y}\n30\n0\n40\n${d.radius}\n`; break;
-      case "arc": dxf += `0\nARC\n8\n${entity.layerId}\n10\n${d.center.x}\n20\n${d.center.y}\n30\n0\n40\n${d.radius}\n50\n${(d.startAngle * 180) / Math.PI}\n51\n${(d.endAngle * 180) / Math.PI}\n`; break;
-      case "rectangle": {
-        const tl = d.topLeft;
-        const pts = [tl, { x: tl.x + d.width, y: tl.y }, { x: tl.x + d.width, y: tl.y + d.height }, { x: tl.x, y: tl.y + d.height }];
-        for (let i = 0; i < 4; i++) { const a = pts[i], b = pts[(i + 1) % 4]; dxf += `0\nLINE\n8\n${entity.layerId}\n10\n${a.x}\n20\n${a.y}\n30\n0\n11\n${b.x}\n21\n${b.y}\n31\n0\n`; }
-        break;
-      }
-      case "polyline":
-        for (let i = 1; i < d.points.length; i++) dxf += `0\nLINE\n8\n${entity.layerId}\n10\n${d.points[i - 1].x}\n20\n${d.points[i - 1].y}\n30\n0\n11\n${d.points[i].x}\n21\n${d.points[i].y}\n31\n0\n`;
-        if (d.closed && d.points.length > 2) { const l = d.points[d.points.length - 1], f = d.points[0]; dxf += `0\nLINE\n8\n${entity.layerId}\n10\n${l.x}\n20\n${l.y}\n30\n0\n11\n${f.x}\n21\n${f.y}\n31\n0\n`; }
-        break;
-      case "text": dxf += `0\nTEXT\n8\n${entity.layerId}\n10\n${d.position.x}\n20\n${d.position.y}\n30\n0\n40\n${d.fontSize}\n1\n${d.content}\n`; break;
-    }
-  }
-  dxf += "0\nENDSEC\n0\nEOF\n";
-  return dxf;
+/** View that fits world-space bounds into a canvas, leaving a margin around them */
+export function fitViewToBounds(bounds: { minX: number; minY: number; maxX: number; maxY: number }, width: number, height: number, margin = 0.9): ViewState {
+  const w = Math.max(bounds.maxX - bounds.minX, 1e-6), h = Math.max(bounds.maxY - bounds.minY, 1e-6);
+  const zoom = Math.max(0.01, Math.min(100, margin * Math.min(width / w, height / h)));
+  return { zoom, panX: -(bounds.minX + bounds.maxX) / 2 * zoom, panY: -(bounds.minY + bounds.maxY) / 2 * zoom };
 }
 
-export function exportToSVG(entities: CADEntity[]): string {
-  let bb = { minX: -100, minY: -100, maxX: 500, maxY: 500 };
-  entities.forEach(e => { const ebb = getBBox(e); if (ebb) { bb.minX = Math.min(bb.minX, ebb.minX - 20); bb.minY = Math.min(bb.minY, ebb.minY - 20); bb.maxX = Math.max(bb.maxX, ebb.maxX + 20); bb.maxY = Math.max(bb.maxY, ebb.maxY + 20); } });
-  const w = bb.maxX - bb.minX, h = bb.maxY - bb.minY;
-  let svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${bb.minX} ${bb.minY} ${w} ${h}" width="${w}" height="${h}">\n<rect x="${bb.minX}" y="${bb.minY}" width="${w}" height="${h}" fill="#0d0d0d"/>\n`;
-  for (const entity of entities) {
-    if (!entity.visible) continue;
-    const d = entity.data, c = entity.color, sw = entity.lineWidth;
-    const dash = entity.lineStyle === "dashed" ? 'stroke-dasharray="10,5"' : entity.lineStyle === "dotted" ? 'stroke-dasharray="2,4"' : entity.lineStyle === "dashdot" ? 'stroke-dasharray="10,4,2,4"' : "";
-    switch (d.type) {
-      case "line": svg += `<line x1="${d.start.x}" y1="${d.start.y}" x2="${d.end.x}" y2="${d.end.y}" stroke="${c}" stroke-width="${sw}" ${dash}/>\n`; break;
-      case "circle": svg += `<circle cx="${d.center.x}" cy="${d.center.y}" r="${d.radius}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n`; break;
-      case "rectangle": svg += `<rect x="${d.topLeft.x}" y="${d.topLeft.y}" width="${d.width}" height="${d.height}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n`; break;
-      case "ellipse": svg += `<ellipse cx="${d.center.x}" cy="${d.center.y}" rx="${d.radiusX}" ry="${d.radiusY}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n`; break;
-      case "polyline": { const pts = d.points.map(p => `${p.x},${p.y}`).join(" "); svg += d.closed ? `<polygon points="${pts}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n` : `<polyline points="${pts}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n`; break; }
-      case "text": svg += `<text x="${d.position.x}" y="${d.position.y}" fill="${c}" font-size="${d.fontSize}" font-family="monospace">${d.content}</text>\n`; break;
-      case "arc": { const sx = d.center.x + d.radius * Math.cos(d.startAngle), sy = d.center.y + d.radius * Math.sin(d.startAngle), ex = d.center.x + d.radius * Math.cos(d.endAngle), ey = d.center.y + d.radius * Math.sin(d.endAngle); let sweep = d.endAngle - d.startAngle; if (sweep < 0) sweep += Math.PI * 2; svg += `<path d="M ${sx} ${sy} A ${d.radius} ${d.radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${ex} ${ey}" stroke="${c}" stroke-width="${sw}" fill="none" ${dash}/>\n`; break; }
-      case "dimension": { const dist = distance(d.start, d.end); const mx = (d.start.x + d.end.x) / 2, my = (d.start.y + d.end.y) / 2 - d.offset; svg += `<line x1="${d.start.x}" y1="${d.start.y - d.offset}" x2="${d.end.x}" y2="${d.end.y - d.offset}" stroke="${c}" stroke-width="0.5"/>\n<text x="${mx}" y="${my - 3}" fill="${c}" font-size="12" text-anchor="middle" font-family="monospace">${dist.toFixed(2)}</text>\n`; break; }
+/** World-space bounds shown by a view on a canvas of the given CSS pixel size */
+export function viewToBounds(view: ViewState, width: number, height: number) {
+  return {
+    minX: (-width / 2 - view.panX) / view.zoom, minY: (-height / 2 - view.panY) / view.zoom,
+    maxX: (width / 2 - view.panX) / view.zoom, maxY: (height / 2 - view.panY) / view.zoom,
+  };
+}
+
+/** Geometry of a dimension as drawn on the canvas (extension lines, dimension line, arrows, text) */
+export function dimensionGeometry(entity: CADEntity): { lines: [Point, Point][]; textPosition: Point; text: string } {
+  if (entity.data.type !== "dimension") return { lines: [], textPosition: { x: 0, y: 0 }, text: "" };
+  const { start, end, offset } = entity.data;
+  const s2 = { x: start.x, y: start.y - offset }, e2 = { x: end.x, y: end.y - offset };
+  const lines: [Point, Point][] = [[start, s2], [end, e2], [s2, e2]];
+  const len = distance(s2, e2) || 1, ux = (e2.x - s2.x) / len, uy = (e2.y - s2.y) / len;
+  const arrow = 6;
+  for (const [tip, dir] of [[s2, 1], [e2, -1]] as [Point, number][]) {
+    for (const a of [-0.4, 0.4]) {
+      const c = Math.cos(a), sn = Math.sin(a);
+      lines.push([tip, { x: tip.x + dir * arrow * (ux * c - uy * sn), y: tip.y + dir * arrow * (ux * sn + uy * c) }]);
     }
   }
-  svg += "</svg>";
-  return svg;
+  return { lines, textPosition: { x: (s2.x + e2.x) / 2, y: (s2.y + e2.y) / 2 - 4 }, text: distance(start, end).toFixed(2) };
+}
+
+export function getLineDash(style: string): number[] {
+  switch (style) { case "dashed": return [10, 5]; case "dotted": return [2, 4]; case "dashdot": return [10, 4, 2, 4]; default: return []; }
 }
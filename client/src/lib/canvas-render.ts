@@ -0,0 +1,246 @@
+// ============================================================
+// Canvas Render — Draw entities, block references and layout
+// viewports on a 2D context; shared by the editor canvas and
+// offscreen raster export
+// ============================================================
+
+import type { Point, CADEntity, Layer, BlockDefinition, BlockRefData, Layout, SplineData, XLineData, RayData } from "./cad-types";
+import { distance, getLineDash } from "./cad-utils";
+import { drawHatchPattern } from "./hatch-utils";
+import { drawSpline } from "./spline-utils";
+import { drawXLine, drawRay } from "./xline-utils";
+import { getBlockRefEntities } from "./block-utils";
+import { drawViewportFrame, MM_TO_PX } from "./layout-utils";
+import { drawImageEntity } from "./image-utils";
+
+/** Draw a single entity; block references draw only their insert marker */
+export function drawEntity(ctx: CanvasRenderingContext2D, entity: CADEntity, zoom: number, panX: number, panY: number, cx: number, cy: number, selected: boolean) {
+  const toScreen = (p: Point) => ({ x: p.x * zoom + cx + panX, y: p.y * zoom + cy + panY });
+  ctx.strokeStyle = selected ? "#3b82f6" : entity.color;
+  ctx.lineWidth = (selected ? entity.lineWidth + 1 : entity.lineWidth);
+  ctx.setLineDash(entity.linePattern ? entity.linePattern.map(v => Math.max(1, v * zoom)) : getLineDash(entity.lineStyle));
+  const d = entity.data;
+
+  switch (d.type) {
+    case "line": { const s = toScreen(d.start), e = toScreen(d.end); ctx.beginPath(); ctx.moveTo(s.x, s.y); ctx.lineTo(e.x, e.y); ctx.stroke(); break; }
+    case "circle": { const c = toScreen(d.center); ctx.beginPath(); ctx.arc(c.x, c.y, d.radius * zoom, 0, Math.PI * 2); ctx.stroke(); break; }
+    case "arc": { const c = toScreen(d.center); ctx.beginPath(); ctx.arc(c.x, c.y, d.radius * zoom, d.startAngle, d.endAngle); ctx.stroke(); break; }
+    case "rectangle": { const tl = toScreen(d.topLeft); ctx.strokeRect(tl.x, tl.y, d.width * zoom, d.height * zoom); break; }
+    case "polyline": {
+      if (d.points.length < 2) break;
+      ctx.beginPath();
+      const first = toScreen(d.points[0]); ctx.moveTo(first.x, first.y);
+      for (let i = 1; i < d.points.length; i++) { const p = toScreen(d.points[i]); ctx.lineTo(p.x, p.y); }
+      if (d.closed) ctx.closePath();
+      ctx.stroke(); break;
+    }
+    case "ellipse": { const c = toScreen(d.center); ctx.beginPath(); ctx.ellipse(c.x, c.y, d.radiusX * zoom, d.radiusY * zoom, d.rotation, 0, Math.PI * 2); ctx.stroke(); break; }
+    case "text": {
+      const p = toScreen(d.position);
+      ctx.fillStyle = selected ? "#3b82f6" : entity.color;
+      ctx.font = `${d.fontSize * zoom}px 'Fira Code'`;
+      ctx.textBaseline = "bottom";
+      ctx.fillText(d.content, p.x, p.y);
+      break;
+    }
+    case "dimension": {
+      const s = toScreen(d.start), e = toScreen(d.end);
+      const dist = distance(d.start, d.end);
+      const off = d.offset * zoom;
+      ctx.strokeStyle = selected ? "#3b82f6" : "#f59e0b";
+      ctx.lineWidth = 0.5;
+      ctx.beginPath(); ctx.moveTo(s.x, s.y); ctx.lineTo(s.x, s.y - off); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(e.x, e.y); ctx.lineTo(e.x, e.y - off); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(s.x, s.y - off); ctx.lineTo(e.x, e.y - off); ctx.stroke();
+      const arrowSize = 6;
+      const angle = Math.atan2(0, e.x - s.x);
+      drawArrow(ctx, s.x, s.y - off, angle, arrowSize);
+      drawArrow(ctx, e.x, e.y - off, angle + Math.PI, arrowSize);
+      ctx.fillStyle = selected ? "#3b82f6" : "#f59e0b";
+      ctx.font = `${Math.max(10, 12 * zoom)}px 'Fira Code'`;
+      ctx.textAlign = "center"; ctx.textBaseline = "bottom";
+      ctx.fillText(dist.toFixed(2), (s.x + e.x) / 2, (s.y + e.y) / 2 - off - 4);
+      break;
+    }
+    case "hatch": {
+      drawHatchPattern(
+        ctx, d.boundary, d.pattern, d.patternScale, d.patternAngle,
+        selected ? "#3b82f6" : d.fillColor, d.fillOpacity,
+        zoom, panX, panY, cx * 2, cy * 2,
+        d.islands
+      );
+      // Draw boundary outline
+      if (selected) {
+        ctx.strokeStyle = "#3b82f6";
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        for (const loop of [d.boundary, ...(d.islands ?? [])]) {
+          if (loop.length < 2) continue;
+          const bp0 = toScreen(loop[0]);
+          ctx.moveTo(bp0.x, bp0.y);
+          for (let i = 1; i < loop.length; i++) {
+            const bp = toScreen(loop[i]);
+            ctx.lineTo(bp.x, bp.y);
+          }
+          ctx.closePath();
+        }
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      break;
+    }
+    case "spline": {
+      const sd = entity.data as SplineData;
+      drawSpline(ctx, sd, entity.color, entity.lineWidth, entity.lineStyle, cx + panX, cy + panY, zoom, selected, selected);
+      break;
+    }
+    case "xline": {
+      const xd = entity.data as XLineData;
+      drawXLine(ctx, xd, selected ? "#3b82f6" : entity.color, entity.lineWidth, cx + panX, cy + panY, zoom, cx * 2, cy * 2);
+      break;
+    }
+    case "ray": {
+      const rd = entity.data as RayData;
+      drawRay(ctx, rd, selected ? "#3b82f6" : entity.color, entity.lineWidth, cx + panX, cy + panY, zoom, cx * 2, cy * 2);
+      break;
+    }
+    case "blockref": {
+      // Block references are rendered by expanding their child entities
+      // The parent canvas loop handles this via getBlockRefEntities
+      // Draw a small indicator at insert point
+      const ip = toScreen(d.insertPoint);
+      ctx.strokeStyle = selected ? "#3b82f6" : entity.color;
+      ctx.lineWidth = 1;
+      const sz = 6;
+      ctx.beginPath();
+      ctx.moveTo(ip.x - sz, ip.y); ctx.lineTo(ip.x + sz, ip.y);
+      ctx.moveTo(ip.x, ip.y - sz); ctx.lineTo(ip.x, ip.y + sz);
+      ctx.stroke();
+      // Draw diamond marker
+      ctx.beginPath();
+      ctx.moveTo(ip.x, ip.y - sz); ctx.lineTo(ip.x + sz, ip.y);
+      ctx.lineTo(ip.x, ip.y + sz); ctx.lineTo(ip.x - sz, ip.y);
+      ctx.closePath();
+      ctx.stroke();
+      break;
+    }
+    case "image": drawImageEntity(ctx, d, toScreen(d.insertPoint), zoom, entity.color, selected); break;
+    case "point": {
+      // Fixed screen size, whatever the zoom
+      const p = toScreen(d.position), sz = 4;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(p.x - sz, p.y - sz); ctx.lineTo(p.x + sz, p.y + sz);
+      ctx.moveTo(p.x - sz, p.y + sz); ctx.lineTo(p.x + sz, p.y - sz);
+      ctx.stroke();
+      ctx.fillStyle = selected ? "#3b82f6" : entity.color;
+      ctx.beginPath(); ctx.arc(p.x, p.y, 1.5, 0, Math.PI * 2); ctx.fill();
+      break;
+    }
+  }
+  ctx.setLineDash([]);
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, size: number) {
+  ctx.beginPath();
+  ctx.moveTo(x, y);
+  ctx.lineTo(x - size * Math.cos(angle - 0.4), y - size * Math.sin(angle - 0.4));
+  ctx.moveTo(x, y);
+  ctx.lineTo(x - size * Math.cos(angle + 0.4), y - size * Math.sin(angle + 0.4));
+  ctx.stroke();
+}
+
+/**
+ * Draw model space entities on visible layers, expanding block references.
+ * `selectedIds` highlights entities (and their block children).
+ */
+export function drawModelEntities(
+  ctx: CanvasRenderingContext2D,
+  entities: CADEntity[],
+  layers: Layer[],
+  blocks: BlockDefinition[],
+  zoom: number, panX: number, panY: number, cx: number, cy: number,
+  selectedIds: string[] = []
+) {
+  // Image underlays go first so geometry traced over them stays on top
+  const ordered = [...entities.filter(e => e.data.type === "image"), ...entities.filter(e => e.data.type !== "image")];
+  for (const entity of ordered) {
+    if (!entity.visible) continue;
+    const layer = layers.find(l => l.id === entity.layerId);
+    if (layer && !layer.visible) continue;
+    const isSelected = selectedIds.includes(entity.id);
+    drawEntity(ctx, entity, zoom, panX, panY, cx, cy, isSelected);
+    // Render block reference child entities
+    if (entity.data.type === "blockref") {
+      const blockDef = blocks.find(b => b.id === (entity.data as BlockRefData).blockId);
+      if (blockDef) {
+        const childEntities = getBlockRefEntities(blockDef, entity.data as BlockRefData, blocks, entity.color);
+        for (const child of childEntities) {
+          drawEntity(ctx, child, zoom, panX, panY, cx, cy, isSelected);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Draw the viewports of a layout: model space clipped to each viewport, then its frame.
+ * `viewportBackground` fills each viewport first when given.
+ */
+export function drawLayoutViewports(
+  ctx: CanvasRenderingContext2D,
+  layout: Layout,
+  entities: CADEntity[],
+  layers: Layer[],
+  blocks: BlockDefinition[],
+  paperOffX: number, paperOffY: number, paperZoom: number,
+  isDark: boolean,
+  viewportBackground: string | null,
+  highlightActive = true
+) {
+  for (const vp of layout.viewports) {
+    const vpX = paperOffX + vp.x * MM_TO_PX * paperZoom;
+    const vpY = paperOffY + vp.y * MM_TO_PX * paperZoom;
+    const vpW = vp.width * MM_TO_PX * paperZoom;
+    const vpH = vp.height * MM_TO_PX * paperZoom;
+
+    // Clip to viewport bounds
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(vpX, vpY, vpW, vpH);
+    ctx.clip();
+
+    if (viewportBackground) {
+      ctx.fillStyle = viewportBackground;
+      ctx.fillRect(vpX, vpY, vpW, vpH);
+    }
+
+    // Render model space entities within viewport
+    const vpZoom = vp.viewZoom * paperZoom;
+    drawModelEntities(ctx, entities, layers, blocks, vpZoom, -vp.viewCenter.x * vpZoom, -vp.viewCenter.y * vpZoom, vpX + vpW / 2, vpY + vpH / 2);
+
+    ctx.restore();
+
+    drawViewportFrame(ctx, vp, paperOffX, paperOffY, paperZoom, highlightActive && vp.active, isDark);
+  }
+}
+
+/** Another participant's pointer: an arrow at `at` (screen coordinates) with their name beside it */
+export function drawRemoteCursor(ctx: CanvasRenderingContext2D, at: Point, color: string, name: string) {
+  ctx.save();
+  ctx.translate(at.x, at.y);
+  ctx.fillStyle = color;
+  ctx.strokeStyle = "#00000080";
+  ctx.lineWidth = 1;
+  ctx.beginPath(); ctx.moveTo(0, 0); ctx.lineTo(0, 14); ctx.lineTo(4, 10); ctx.lineTo(9, 10); ctx.closePath();
+  ctx.fill(); ctx.stroke();
+  ctx.font = "10px 'Space Grotesk', sans-serif";
+  const width = ctx.measureText(name).width + 8;
+  ctx.fillRect(10, 12, width, 14);
+  ctx.fillStyle = "#ffffff";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillText(name, 14, 19);
+  ctx.restore();
+}
@@ -0,0 +1,103 @@
+// ============================================================
+// Collaboration — Turn local edits into operations and merge
+// operations from other participants into the drawing
+// ============================================================
+//
+// Edits are not described by hand: after every reducer action the
+// entities, layers and blocks are compared with their previous version
+// (records are immutable, so an unchanged record is the same object) and
+// whatever differs becomes one operation. Operations replace whole
+// records; see shared/collab.ts for how the server orders them.
+
+import { nanoid } from "nanoid";
+import type { CollabSnapshot, RecordChanges } from "@shared/collab";
+import type { CADEntity, Layer, BlockDefinition, DrawingOperation } from "./cad-types";
+
+export type { DrawingOperation, CollabSession } from "./cad-types";
+export type { CollabPeer, CollabPresence, CollabServerMessage, CollabClientMessage } from "@shared/collab";
+export { COLLAB_API_PATH } from "@shared/collab";
+
+export type DrawingSnapshot = CollabSnapshot<CADEntity, Layer, BlockDefinition>;
+
+/** Which layer is active is each participant's own choice, not part of the shared drawing */
+function sameLayer(a: Layer, b: Layer): boolean {
+  return a === b || (a.name === b.name && a.color === b.color && a.visible === b.visible && a.locked === b.locked);
+}
+
+function diffRecords<T extends { id: string }>(prev: T[], next: T[], same: (a: T, b: T) => boolean = (a, b) => a === b): RecordChanges<T> | undefined {
+  if (prev === next) return undefined;
+  const before = new Map(prev.map(r => [r.id, r]));
+  const changes: Required<RecordChanges<T>> = { add: [], update: [], remove: [] };
+  for (const r of next) {
+    const old = before.get(r.id);
+    if (!old) changes.add.push(r);
+    else if (!same(old, r)) changes.update.push(r);
+  }
+  const nextIds = new Set(next.map(r => r.id));
+  changes.remove = prev.filter(r => !nextIds.has(r.id)).map(r => r.id);
+  return changes.add.length + changes.update.length + changes.remove.length ? changes : undefined;
+}
+
+/** What changed between two versions of the drawing, as one operation; null when nothing did */
+export function diffOperation(prev: DrawingSnapshot, next: DrawingSnapshot): DrawingOperation | null {
+  const entities = diffRecords(prev.entities, next.entities);
+  const layers = diffRecords(prev.layers, next.layers, sameLayer);
+  const blocks = diffRecords(prev.blocks, next.blocks);
+  if (!entities && !layers && !blocks) return null;
+  const op: DrawingOperation = { id: nanoid(10) };
+  if (entities) op.entities = entities;
+  if (layers) op.layers = layers;
+  if (blocks) op.blocks = blocks;
+  return op;
+}
+
+/**
+ * Records with one kind of changes applied. Adds and updates of ids in
+ * `keep` are ignored (the local version wins); an update of a record that
+ * no longer exists is dropped; removals always apply.
+ */
+function applyRecords<T extends { id: string }>(records: T[], changes: RecordChanges<T> | undefined, keep: Set<string>): T[] {
+  if (!changes) return records;
+  const removed = new Set(changes.remove ?? []);
+  const incoming = new Map([...(changes.update ?? []), ...(changes.add ?? [])].filter(r => !keep.has(r.id)).map(r => [r.id, r]));
+  if (removed.size === 0 && incoming.size === 0) return records;
+  const result = records.filter(r => !removed.has(r.id)).map(r => incoming.get(r.id) ?? r);
+  const present = new Set(records.map(r => r.id));
+  for (const r of changes.add ?? []) {
+    if (!present.has(r.id) && incoming.get(r.id) === r) result.push(r);
+  }
+  return result;
+}
+
+/** Every record id an operation touches, per kind */
+function touchedIds(ops: DrawingOperation[]): Record<"entities" | "layers" | "blocks", Set<string>> {
+  const ids = { entities: new Set<string>(), layers: new Set<string>(), blocks: new Set<string>() };
+  for (const op of ops) {
+    for (const kind of ["entities", "layers", "blocks"] as const) {
+      const c = op[kind];
+      if (!c) continue;
+      for (const r of [...(c.add ?? []), ...(c.update ?? [])]) ids[kind].add(r.id);
+      for (const id of c.remove ?? []) ids[kind].add(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * The drawing with an operation applied. Records that `localOps` (this
+ * participant's operations the server has not applied yet) also change
+ * keep their local version, because the server applies those later.
+ */
+export function applyOperation(parts: DrawingSnapshot, op: DrawingOperation, localOps: DrawingOperation[] = []): DrawingSnapshot {
+  const keep = touchedIds(localOps);
+  return {
+    entities: applyRecords(parts.entities, op.entities, keep.entities),
+    layers: applyRecords(parts.layers, op.layers, keep.layers),
+    blocks: applyRecords(parts.blocks, op.blocks, keep.blocks),
+  };
+}
+
+/** Entity list (an undo snapshot) with the entity changes of an operation applied */
+export function applyEntityChanges(entities: CADEntity[], op: DrawingOperation): CADEntity[] {
+  return applyRecords(entities, op.entities, new Set());
+}
@@ -0,0 +1,161 @@
+// ============================================================
+// Convert — Headless file conversion: a DXF or .cadstudio file
+// in, a PDF, SVG or DXF file out; shared by the command-line
+// tool and the server's /api/convert route
+// ============================================================
+//
+// Everything here runs without a browser. The one browser-only step of
+// the exporters, baking rotated, clipped or transparent images for PDF,
+// needs a canvas; without one those images are left out with a warning.
+
+import type { BlockDefinition, CADEntity } from "./cad-types";
+import { parseDocument, DEFAULT_DOCUMENT_CONTENT, DocumentValidationError, type CADDocumentContent } from "./cad-document";
+import { parseDXF, convertImportUnits } from "./dxf-import";
+import { DRAWING_INSUNITS } from "./dxf-common";
+import { exportToSVG, type SVGBackground } from "./svg-export";
+import { exportToDXF, type DXFVersion } from "./dxf-export";
+import { buildLayoutPdf, buildModelSpacePdf, directImageFormat } from "./pdf-export";
+import { applyPlotStyle, applyPlotStyleToBlocks, findPlotStyleTable, getPlotStyleTables } from "./plot-styles";
+
+export type ConvertInputFormat = "dxf" | "cadstudio";
+export type ConvertOutputFormat = "pdf" | "svg" | "dxf";
+
+export const CONVERT_INPUT_FORMATS: ConvertInputFormat[] = ["dxf", "cadstudio"];
+export const CONVERT_OUTPUT_FORMATS: ConvertOutputFormat[] = ["pdf", "svg", "dxf"];
+const DXF_VERSIONS: DXFVersion[] = ["R12", "R2000"];
+const SVG_BACKGROUNDS: SVGBackground[] = ["dark", "white", "transparent"];
+
+export interface ConvertOptions {
+  to: ConvertOutputFormat;
+  /** Detected from the content when omitted */
+  from?: ConvertInputFormat;
+  /** PDF only: plot this paper space layout (by name) instead of model space */
+  layout?: string;
+  /**
+   * PDF and SVG: plot style table by name or id — a built-in ("monochrome",
+   * "grayscale") or one saved in the drawing; "none" plots in drawing colors.
+   * PDF defaults to the table the layout (or model space) is set to use, as
+   * when plotting in the editor; SVG defaults to drawing colors.
+   */
+  plotStyle?: string;
+  dxfVersion?: DXFVersion;
+  svgBackground?: SVGBackground;
+}
+
+export interface ConvertResult {
+  /** Text for SVG and DXF, bytes for PDF */
+  data: string | Uint8Array;
+  mimeType: string;
+  /** With the dot, e.g. ".pdf" */
+  extension: string;
+  /** Things the output leaves out */
+  warnings: string[];
+}
+
+/** The input or the options cannot be converted; the message says why */
+export class ConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversionError";
+  }
+}
+
+const OUTPUT_TYPES: Record<ConvertOutputFormat, { mimeType: string; extension: string }> = {
+  pdf: { mimeType: "application/pdf", extension: ".pdf" },
+  svg: { mimeType: "image/svg+xml", extension: ".svg" },
+  dxf: { mimeType: "application/dxf", extension: ".dxf" },
+};
+
+function oneOf<T extends string>(value: string | undefined, allowed: T[], what: string): T | undefined {
+  if (value === undefined || value === "") return undefined;
+  const match = allowed.find(a => a.toLowerCase() === value.toLowerCase());
+  if (!match) throw new ConversionError(`unknown ${what} "${value}" (use ${allowed.join(", ")})`);
+  return match;
+}
+
+/** Options from string parameters (command-line flags or a query string) */
+export function readConvertOptions(params: Record<string, string | undefined>): ConvertOptions {
+  const to = oneOf(params.to, CONVERT_OUTPUT_FORMATS, "output format");
+  if (!to) throw new ConversionError(`an output format is required (${CONVERT_OUTPUT_FORMATS.join(", ")})`);
+  return {
+    to,
+    from: oneOf(params.from, CONVERT_INPUT_FORMATS, "input format"),
+    layout: params.layout || undefined,
+    plotStyle: params.plotStyle || undefined,
+    dxfVersion: oneOf(params.dxfVersion, DXF_VERSIONS, "DXF version"),
+    svgBackground: oneOf(params.svgBackground, SVG_BACKGROUNDS, "SVG background"),
+  };
+}
+
+/** .cadstudio files are JSON; DXF files start with group codes */
+export function detectInputFormat(text: string): ConvertInputFormat {
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "cadstudio";
+  if (/^0\s*\r?\n\s*SECTION\b/.test(start) || /^999\s*\r?\n/.test(start)) return "dxf";
+  throw new ConversionError("the input is neither a DXF nor a .cadstudio file");
+}
+
+/** The drawing in a file; DXF content is scaled to drawing units when the file declares its units */
+function readDrawing(text: string, format: ConvertInputFormat): CADDocumentContent {
+  if (format === "cadstudio") {
+    try {
+      return parseDocument(text, DEFAULT_DOCUMENT_CONTENT).content;
+    } catch (err) {
+      if (err instanceof DocumentValidationError) throw new ConversionError(err.message);
+      throw err;
+    }
+  }
+  const dxf = convertImportUnits(parseDXF(text), DRAWING_INSUNITS);
+  const activeLayerId = (dxf.layers.find(l => l.active) ?? dxf.layers[0]).id;
+  return { ...DEFAULT_DOCUMENT_CONTENT, entities: dxf.entities, layers: dxf.layers, blocks: dxf.blocks, activeLayerId };
+}
+
+/** Images that cannot be placed in a PDF without a canvas to bake them on */
+function imagesNeedingCanvas(entities: CADEntity[], blocks: BlockDefinition[]): number {
+  if (typeof document !== "undefined") return 0;
+  return [...entities, ...blocks.flatMap(b => b.entities)]
+    .filter(e => e.data.type === "image" && directImageFormat(e.data) === null).length;
+}
+
+export function convertDrawing(input: string, options: ConvertOptions): ConvertResult {
+  const drawing = readDrawing(input, options.from ?? detectInputFormat(input));
+  const warnings: string[] = [];
+  if (options.layout && options.to !== "pdf") throw new ConversionError("layouts can only be plotted to PDF");
+  if (options.plotStyle && options.to === "dxf") throw new ConversionError("plot styles apply to PDF and SVG output only");
+
+  const layout = options.layout ? drawing.layouts.find(l => l.name.toLowerCase() === options.layout!.toLowerCase()) : undefined;
+  if (options.layout && !layout) {
+    const names = drawing.layouts.map(l => `"${l.name}"`).join(", ");
+    throw new ConversionError(`the drawing has no layout named "${options.layout}" (${names ? `it has ${names}` : "it has no layouts"})`);
+  }
+
+  let plotStyle = options.to === "pdf" ? findPlotStyleTable(drawing.plotStyleTables, layout ? layout.plotStyleTableId : drawing.modelPlotStyleTableId) : null;
+  if (options.plotStyle?.toLowerCase() === "none") plotStyle = null;
+  else if (options.plotStyle) {
+    const wanted = options.plotStyle.toLowerCase();
+    const tables = getPlotStyleTables(drawing.plotStyleTables);
+    plotStyle = tables.find(t => t.id === options.plotStyle || t.name.toLowerCase() === wanted) ?? null;
+    if (!plotStyle) throw new ConversionError(`unknown plot style "${options.plotStyle}" (use none, ${tables.map(t => t.name).join(", ")})`);
+  }
+
+  const { entities, layers, blocks } = drawing;
+  let data: string | Uint8Array;
+  switch (options.to) {
+    case "dxf":
+      data = exportToDXF(entities, layers, blocks, { version: options.dxfVersion });
+      break;
+    case "svg":
+      data = plotStyle
+        ? exportToSVG(applyPlotStyle(entities, plotStyle), layers, applyPlotStyleToBlocks(blocks, plotStyle), { background: options.svgBackground })
+        : exportToSVG(entities, layers, blocks, { background: options.svgBackground });
+      break;
+    case "pdf": {
+      const skipped = imagesNeedingCanvas(entities, blocks);
+      if (skipped) warnings.push(`${skipped} rotated, clipped or transparent image${skipped === 1 ? " is" : "s are"} left out: baking them for PDF needs a browser canvas`);
+      const pdf = layout ? buildLayoutPdf(layout, entities, blocks, plotStyle) : buildModelSpacePdf(entities, blocks, undefined, plotStyle);
+      data = new Uint8Array(pdf.output("arraybuffer"));
+      break;
+    }
+  }
+  return { data, ...OUTPUT_TYPES[options.to], warnings };
+}
@@ -41,9 +41,20 @@ function displaceEntityData(data: EntityData, dx: number, dy: number): EntityDat
     case "ellipse":
       return { ...data, center: movePoint(data.center, dx, dy) };
     case "text":
+    case "point":
       return { ...data, position: movePoint(data.position, dx, dy) };
     case "dimension":
       return { ...data, start: movePoint(data.start, dx, dy), end: movePoint(data.end, dx, dy) };
+    case "hatch":
+      return { ...data, boundary: data.boundary.map(p => movePoint(p, dx, dy)), islands: data.islands?.map(loop => loop.map(p => movePoint(p, dx, dy))) };
+    case "spline":
+      return { ...data, controlPoints: data.controlPoints.map(p => movePoint(p, dx, dy)) };
+    case "xline":
+    case "ray":
+      return { ...data, basePoint: movePoint(data.basePoint, dx, dy) };
+    case "blockref":
+    case "image":
+      return { ...data, insertPoint: movePoint(data.insertPoint, dx, dy) };
     default:
       return data;
   }
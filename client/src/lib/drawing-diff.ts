@@ -0,0 +1,187 @@
+// ============================================================
+// Drawing Diff — Compare two versions of a drawing: entities
+// matched by id, geometry equal within a tolerance; a colored
+// overlay for the canvas and a plain-text change report
+// ============================================================
+
+import type { CADEntity, Layer, BlockDefinition, DiffSide, EntityChange, DrawingDiff, RevisionCompare } from "./cad-types";
+import { getEntityBBox, getEntitiesBBox } from "./cad-utils";
+
+export type { DiffSide, EntityChange, DrawingDiff, RevisionCompare } from "./cad-types";
+
+export const DIFF_COLORS = {
+  added: "#22c55e",
+  removed: "#ef4444",
+  modified: "#eab308",
+  /** The earlier shape of a modified entity, drawn faint and dashed under the new one */
+  previous: "#eab30866",
+  unchanged: "#6b728099",
+};
+
+/** Default distance, in drawing units, below which coordinates count as equal */
+export const DEFAULT_DIFF_TOLERANCE = 0.001;
+
+/** Deep equality where numbers may differ by up to `tolerance` */
+function sameValue(a: unknown, b: unknown, tolerance: number): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) <= tolerance || (Number.isNaN(a) && Number.isNaN(b));
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => sameValue(v, b[i], tolerance));
+  if (a && b && typeof a === "object" && typeof b === "object" && !Array.isArray(a) && !Array.isArray(b)) {
+    const ra = a as Record<string, unknown>, rb = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(ra), ...Object.keys(rb)]);
+    return Array.from(keys).every(k => sameValue(ra[k], rb[k], tolerance));
+  }
+  return false;
+}
+
+const fmt = (n: number) => String(Math.round(n * 1000) / 1000);
+
+/** What differs between two versions of one entity; empty when they match */
+function entityChanges(before: CADEntity, after: CADEntity, layerName: (id: string) => string, tolerance: number): string[] {
+  const changes: string[] = [];
+  if (before.type !== after.type) changes.push(`type ${before.type} → ${after.type}`);
+  else if (!sameValue(before.data, after.data, tolerance)) {
+    const a = getEntityBBox(before), b = getEntityBBox(after);
+    const dx = a && b ? b.minX - a.minX : 0, dy = a && b ? b.minY - a.minY : 0;
+    const sameSize = a && b && Math.abs((b.maxX - b.minX) - (a.maxX - a.minX)) <= tolerance && Math.abs((b.maxY - b.minY) - (a.maxY - a.minY)) <= tolerance;
+    // A shift of the whole shape reads better than "geometry changed"
+    const moved = sameSize && (Math.abs(dx) > tolerance || Math.abs(dy) > tolerance)
+      && sameValue(translate(before.data, dx, dy), after.data, tolerance);
+    if (moved) changes.push(`moved by (${fmt(dx)}, ${fmt(-dy)})`);
+    else if (before.data.type === "text" && after.data.type === "text" && before.data.content !== after.data.content) changes.push(`text "${before.data.content}" → "${after.data.content}"`);
+    else changes.push("geometry changed");
+  }
+  if (before.layerId !== after.layerId) changes.push(`layer ${layerName(before.layerId)} → ${layerName(after.layerId)}`);
+  if (before.color !== after.color) changes.push(`color ${before.color} → ${after.color}`);
+  if (before.lineWidth !== after.lineWidth) changes.push(`line width ${before.lineWidth} → ${after.lineWidth}`);
+  if (before.lineStyle !== after.lineStyle || !sameValue(before.linePattern, after.linePattern, tolerance)) changes.push(`line style ${before.lineStyle} → ${after.lineStyle}`);
+  if (before.visible !== after.visible) changes.push(after.visible ? "shown" : "hidden");
+  if (!sameValue(before.metadata, after.metadata, 0)) changes.push("attributes changed");
+  return changes;
+}
+
+/** Entity data with every point moved by (dx, dy); points are objects with exactly x and y */
+function translate(value: unknown, dx: number, dy: number): unknown {
+  if (Array.isArray(value)) return value.map(v => translate(v, dx, dy));
+  if (value && typeof value === "object") {
+    const r = value as Record<string, unknown>;
+    const keys = Object.keys(r);
+    if (keys.length === 2 && typeof r.x === "number" && typeof r.y === "number") return { x: r.x + dx, y: r.y + dy };
+    return Object.fromEntries(keys.map(k => [k, translate(r[k], dx, dy)]));
+  }
+  return value;
+}
+
+/** Compare two versions of a drawing; entities with the same id are the same entity */
+export function diffDrawings(before: DiffSide, after: DiffSide, tolerance = DEFAULT_DIFF_TOLERANCE): DrawingDiff {
+  const layerNames = new Map([...before.layers, ...after.layers].map(l => [l.id, l.name]));
+  const layerName = (id: string) => layerNames.get(id) ?? id;
+  const beforeById = new Map(before.entities.map(e => [e.id, e]));
+  const afterIds = new Set(after.entities.map(e => e.id));
+
+  const diff: DrawingDiff = {
+    added: [], removed: before.entities.filter(e => !afterIds.has(e.id)), modified: [], unchanged: 0,
+    layers: { added: [], removed: [], renamed: [] },
+    blocks: { added: [], removed: [], modified: [] },
+  };
+  for (const e of after.entities) {
+    const old = beforeById.get(e.id);
+    if (!old) { diff.added.push(e); continue; }
+    const changes = entityChanges(old, e, layerName, tolerance);
+    if (changes.length) diff.modified.push({ before: old, after: e, changes });
+    else diff.unchanged++;
+  }
+
+  const beforeLayers = new Map(before.layers.map(l => [l.id, l]));
+  const afterLayerIds = new Set(after.layers.map(l => l.id));
+  for (const l of after.layers) {
+    const old = beforeLayers.get(l.id);
+    if (!old) diff.layers.added.push(l.name);
+    else if (old.name !== l.name) diff.layers.renamed.push({ from: old.name, to: l.name });
+  }
+  diff.layers.removed = before.layers.filter(l => !afterLayerIds.has(l.id)).map(l => l.name);
+
+  const beforeBlocks = new Map(before.blocks.map(b => [b.id, b]));
+  const afterBlockIds = new Set(after.blocks.map(b => b.id));
+  for (const b of after.blocks) {
+    const old = beforeBlocks.get(b.id);
+    if (!old) diff.blocks.added.push(b.name);
+    else if (old.name !== b.name || !sameValue(old.basePoint, b.basePoint, tolerance) || !sameValue(old.entities, b.entities, tolerance)) diff.blocks.modified.push(b.name);
+  }
+  diff.blocks.removed = before.blocks.filter(b => !afterBlockIds.has(b.id)).map(b => b.name);
+  return diff;
+}
+
+// ============================================================
+// Overlay
+// ============================================================
+
+/**
+ * Both versions recolored for the canvas: unchanged entities faint, added
+ * green, removed red, modified yellow over their faint dashed earlier shape.
+ * Every entity is drawn regardless of layer visibility.
+ */
+export function diffOverlay(diff: DrawingDiff, before: DiffSide, after: DiffSide): DiffSide {
+  const changed = new Set([...diff.added, ...diff.modified.map(m => m.after)].map(e => e.id));
+  const paint = (e: CADEntity, color: string, extra: Partial<CADEntity> = {}): CADEntity => ({ ...e, color, selected: false, ...extra });
+  const entities = [
+    ...after.entities.filter(e => !changed.has(e.id)).map(e => paint(e, DIFF_COLORS.unchanged)),
+    ...diff.modified.map(m => paint(m.before, DIFF_COLORS.previous, { lineStyle: "dashed", linePattern: undefined })),
+    ...diff.removed.map(e => paint(e, DIFF_COLORS.removed)),
+    ...diff.modified.map(m => paint(m.after, DIFF_COLORS.modified)),
+    ...diff.added.map(e => paint(e, DIFF_COLORS.added)),
+  ];
+  // Block contents take the color of each reference, so references show their status
+  const blocks = new Map([...before.blocks, ...after.blocks].map(b => [b.id, { ...b, entities: b.entities.map(e => ({ ...e, colorByBlock: true })) }]));
+  return { entities, layers: [], blocks: Array.from(blocks.values()) };
+}
+
+/** Extents of everything that changed, for zooming to the differences */
+export function diffExtents(diff: DrawingDiff) {
+  return getEntitiesBBox([...diff.added, ...diff.removed, ...diff.modified.flatMap(m => [m.before, m.after])]);
+}
+
+// ============================================================
+// Report
+// ============================================================
+
+function describeEntity(e: CADEntity, layerName: (id: string) => string): string {
+  const bb = getEntityBBox(e);
+  // Drawing Y grows downward; reports use the usual upward Y
+  const at = bb ? ` at (${fmt((bb.minX + bb.maxX) / 2)}, ${fmt(-(bb.minY + bb.maxY) / 2)})` : "";
+  const text = e.data.type === "text" ? ` "${e.data.content}"` : "";
+  return `${e.type}${text} on ${layerName(e.layerId)}${at}`;
+}
+
+/** Plain-text list of every difference, grouped by kind */
+export function diffReport(compare: Pick<RevisionCompare, "fromLabel" | "toLabel" | "tolerance" | "diff">, before: DiffSide, after: DiffSide): string {
+  const { diff } = compare;
+  const layerNames = new Map([...before.layers, ...after.layers].map(l => [l.id, l.name]));
+  const layerName = (id: string) => layerNames.get(id) ?? id;
+  const lines = [
+    `Changes from ${compare.fromLabel}`,
+    `          to ${compare.toLabel}`,
+    `Tolerance: ${compare.tolerance}`,
+    "",
+    `${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified, ${diff.unchanged} unchanged`,
+  ];
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push("", `${title} (${items.length})`, ...items.map(i => `  ${i}`));
+  };
+  section("Layers", [
+    ...diff.layers.added.map(n => `+ ${n}`),
+    ...diff.layers.removed.map(n => `- ${n}`),
+    ...diff.layers.renamed.map(r => `~ ${r.from} renamed to ${r.to}`),
+  ]);
+  section("Blocks", [
+    ...diff.blocks.added.map(n => `+ ${n}`),
+    ...diff.blocks.removed.map(n => `- ${n}`),
+    ...diff.blocks.modified.map(n => `~ ${n} redefined`),
+  ]);
+  section("Added", diff.added.map(e => `+ ${describeEntity(e, layerName)}`));
+  section("Removed", diff.removed.map(e => `- ${describeEntity(e, layerName)}`));
+  section("Modified", diff.modified.map(m => `~ ${describeEntity(m.after, layerName)}: ${m.changes.join("; ")}`));
+  if (diff.added.length + diff.removed.length + diff.modified.length === 0 && lines.length === 5) lines.push("", "The drawings are identical.");
+  return lines.join("\n");
+}
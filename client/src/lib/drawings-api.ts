@@ -0,0 +1,109 @@
+// ============================================================
+// Drawings API client — Open and save drawings kept on the
+// server, with conflict detection by revision and history
+// ============================================================
+
+import {
+  DRAWINGS_API_PATH,
+  type DrawingErrorResponse, type DrawingSummary, type DrawingWithDocument, type RevisionNote, type RevisionSummary, type RevisionWithDocument,
+  type CreateDrawingRequest, type UpdateDrawingRequest, type RenameDrawingRequest, type RestoreRevisionRequest,
+} from "@shared/drawings";
+
+export type { DrawingSummary, DrawingWithDocument, RevisionNote, RevisionSummary, RevisionWithDocument } from "@shared/drawings";
+
+const AUTHOR_KEY = "cad-studio-author";
+
+/** Name recorded as the author of this browser's server saves */
+export function getAuthorName(): string {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function setAuthorName(name: string) {
+  try {
+    localStorage.setItem(AUTHOR_KEY, name.trim());
+  } catch {
+    // Storage may be unavailable (private mode); the name then lasts for this save only
+  }
+}
+
+/** The server refused a request, or could not be reached */
+export class DrawingApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "DrawingApiError";
+  }
+}
+
+/** Someone saved the drawing after the revision this save started from */
+export class DrawingConflictError extends DrawingApiError {
+  constructor(message: string, public readonly current: DrawingSummary) {
+    super(message, 409);
+    this.name = "DrawingConflictError";
+  }
+}
+
+async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${DRAWINGS_API_PATH}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new DrawingApiError("the drawing server cannot be reached", 0);
+  }
+  if (res.status === 204) return undefined as T;
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    const err = data as DrawingErrorResponse | null;
+    const message = err?.error ?? `${res.status} ${res.statusText}`;
+    if (res.status === 409 && err?.current) throw new DrawingConflictError(message, err.current);
+    throw new DrawingApiError(message, res.status);
+  }
+  return data as T;
+}
+
+export function listDrawings(): Promise<DrawingSummary[]> {
+  return request("GET", "");
+}
+
+export function fetchDrawing(id: string): Promise<DrawingWithDocument> {
+  return request("GET", `/${encodeURIComponent(id)}`);
+}
+
+/** Store a new drawing at revision 1 */
+export function createDrawing(name: string, document: unknown, note: RevisionNote = {}): Promise<DrawingSummary> {
+  return request("POST", "", { name, document, ...note } satisfies CreateDrawingRequest);
+}
+
+/** Save the next revision; throws DrawingConflictError when `baseRevision` is no longer current */
+export function updateDrawing(id: string, document: unknown, baseRevision: number, note: RevisionNote = {}): Promise<DrawingSummary> {
+  return request("PUT", `/${encodeURIComponent(id)}`, { document, baseRevision, ...note } satisfies UpdateDrawingRequest);
+}
+
+export function renameDrawing(id: string, name: string): Promise<DrawingSummary> {
+  return request("PATCH", `/${encodeURIComponent(id)}`, { name } satisfies RenameDrawingRequest);
+}
+
+export function deleteDrawing(id: string): Promise<void> {
+  return request("DELETE", `/${encodeURIComponent(id)}`);
+}
+
+/** A drawing's saved revisions, newest first */
+export function listRevisions(id: string): Promise<RevisionSummary[]> {
+  return request("GET", `/${encodeURIComponent(id)}/revisions`);
+}
+
+export function fetchRevision(id: string, revision: number): Promise<RevisionWithDocument> {
+  return request("GET", `/${encodeURIComponent(id)}/revisions/${revision}`);
+}
+
+/** Save an earlier revision again as the newest one; throws DrawingConflictError like updateDrawing */
+export function restoreRevision(id: string, revision: number, baseRevision: number, author: string): Promise<DrawingSummary> {
+  return request("POST", `/${encodeURIComponent(id)}/revisions/${revision}/restore`, { baseRevision, author } satisfies RestoreRevisionRequest);
+}
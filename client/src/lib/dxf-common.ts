@@ -0,0 +1,139 @@
+// ============================================================
+// DXF Common — AutoCAD Color Index palette, true color and
+// lineweight mapping shared by DXF import and export
+// ============================================================
+
+/** Valid DXF lineweights in 1/100 mm (group code 370) */
+export const LINEWEIGHTS = [0, 5, 9, 13, 15, 18, 20, 25, 30, 35, 40, 50, 53, 60, 70, 80, 90, 100, 106, 120, 140, 158, 200, 211];
+
+/** Special ACI values */
+export const ACI_BYBLOCK = 0;
+export const ACI_BYLAYER = 256;
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(v => v.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** Fully saturated RGB components (0..1) for a hue in degrees */
+function hueToRgb(hue: number): [number, number, number] {
+  const f = (n: number) => {
+    const k = (n + hue / 60) % 6;
+    return 1 - Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [f(5), f(3), f(1)];
+}
+
+/**
+ * The 256-entry AutoCAD Color Index palette.
+ * 1–9 are the standard colors, 10–249 run through 24 hues in 15° steps
+ * with five shades each (even = pure, odd = half-saturated), 250–255 are grays.
+ */
+const ACI_PALETTE: string[] = (() => {
+  const palette = ["#000000", "#ff0000", "#ffff00", "#00ff00", "#00ffff", "#0000ff", "#ff00ff", "#ffffff", "#808080", "#c0c0c0"];
+  const shades = [1, 0.65, 0.5, 0.3, 0.15];
+  for (let i = 10; i < 250; i++) {
+    const rgb = hueToRgb((Math.floor(i / 10) - 1) * 15);
+    const shade = shades[Math.floor((i % 10) / 2)];
+    const light = i % 2 === 1;
+    const [r, g, b] = rgb.map(c => Math.floor(255 * shade * (light ? 0.5 + 0.5 * c : c)));
+    palette.push(toHex(r, g, b));
+  }
+  for (const v of [0x33, 0x50, 0x69, 0x82, 0xbe, 0xff]) palette.push(toHex(v, v, v));
+  return palette;
+})();
+
+/** ACI index (1–255) to hex; out-of-range values fall back to white */
+export function aciToHex(aci: number): string {
+  const i = Math.round(Math.abs(aci));
+  return i >= 1 && i <= 255 ? ACI_PALETTE[i] : "#ffffff";
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  let h = hex.replace("#", "");
+  if (h.length === 3) h = h.split("").map(c => c + c).join("");
+  if (!/^[0-9a-fA-F]{6}$/.test(h)) return null;
+  return [parseInt(h.slice(0, 2), 16), parseInt(h.slice(2, 4), 16), parseInt(h.slice(4, 6), 16)];
+}
+
+/** Nearest ACI index (1–255) for a hex color (7 when unparseable) */
+export function hexToAci(hex: string): number {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 7;
+  let best = 7, bestDist = Infinity;
+  for (let i = 1; i <= 255; i++) {
+    const [r, g, b] = hexToRgb(ACI_PALETTE[i])!;
+    const d = (rgb[0] - r) ** 2 + (rgb[1] - g) ** 2 + (rgb[2] - b) ** 2;
+    if (d < bestDist) { bestDist = d; best = i; }
+  }
+  return best;
+}
+
+/** Group code 420 value (0x00RRGGBB) to hex */
+export function trueColorToHex(value: number): string {
+  const v = Math.max(0, Math.floor(value)) & 0xffffff;
+  return toHex((v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff);
+}
+
+/** Hex to group code 420 value, or null when unparseable */
+export function hexToTrueColor(hex: string): number | null {
+  const rgb = hexToRgb(hex);
+  return rgb ? (rgb[0] << 16) | (rgb[1] << 8) | rgb[2] : null;
+}
+
+/** Group code 440 flag marking the low byte as an alpha value (0 clear – 255 opaque) */
+const TRANSPARENCY_BY_ALPHA = 0x02000000;
+
+/** Opacity (0..1) to a group code 440 transparency value */
+export function opacityToTransparency(opacity: number): number {
+  return TRANSPARENCY_BY_ALPHA | Math.round(Math.min(1, Math.max(0, opacity)) * 255);
+}
+
+/** Group code 440 value to opacity (0..1, to two decimals), or null when it is not an alpha value */
+export function transparencyToOpacity(value: number): number | null {
+  if ((value & TRANSPARENCY_BY_ALPHA) === 0) return null;
+  return Math.round(((value & 0xff) / 255) * 100) / 100;
+}
+
+/** DXF lineweight (1/100 mm) to screen line width — 1 unit of width is 0.25 mm */
+export function lineweightToWidth(lineweight: number): number {
+  return Math.max(0.5, lineweight / 25);
+}
+
+/** Screen line width to the nearest valid DXF lineweight */
+export function widthToLineweight(lineWidth: number): number {
+  const target = lineWidth * 25;
+  return LINEWEIGHTS.reduce((best, lw) => Math.abs(lw - target) < Math.abs(best - target) ? lw : best, 25);
+}
+
+/** $INSUNITS codes and the size of one unit in millimetres (0 = unitless) */
+export const INSUNITS: Record<number, { name: string; mm: number }> = {
+  1: { name: "inches", mm: 25.4 },
+  2: { name: "feet", mm: 304.8 },
+  3: { name: "miles", mm: 1609344 },
+  4: { name: "millimetres", mm: 1 },
+  5: { name: "centimetres", mm: 10 },
+  6: { name: "metres", mm: 1000 },
+  7: { name: "kilometres", mm: 1e6 },
+  8: { name: "microinches", mm: 25.4e-6 },
+  9: { name: "mils", mm: 0.0254 },
+  10: { name: "yards", mm: 914.4 },
+  11: { name: "angstroms", mm: 1e-7 },
+  12: { name: "nanometres", mm: 1e-6 },
+  13: { name: "microns", mm: 1e-3 },
+  14: { name: "decimetres", mm: 100 },
+  15: { name: "decametres", mm: 1e4 },
+  16: { name: "hectometres", mm: 1e5 },
+  17: { name: "gigametres", mm: 1e12 },
+  18: { name: "astronomical units", mm: 1.495978707e14 },
+  19: { name: "light years", mm: 9.4607304725808e18 },
+  20: { name: "parsecs", mm: 3.0856775814913673e19 },
+};
+
+/** Drawing units of CAD Studio geometry ($INSUNITS code — millimetres) */
+export const DRAWING_INSUNITS = 4;
+
+/** Factor converting lengths in `from` units to `to` units (1 when either is unitless/unknown) */
+export function unitScale(from: number, to: number): number {
+  const a = INSUNITS[from], b = INSUNITS[to];
+  return a && b ? a.mm / b.mm : 1;
+}
@@ -0,0 +1,585 @@
+// ============================================================
+// DXF Export — Write CAD Studio drawings as standard DXF files
+// Targets: R12 (AC1009) and R2000 (AC1015)
+// Sections: HEADER, TABLES (LTYPE/LAYER/STYLE/…), BLOCKS, ENTITIES
+// ============================================================
+//
+// Model space is Y-down (screen-like) while DXF is Y-up, so every
+// coordinate is mirrored on the way out — the exact inverse of
+// dxf-import.ts. Angles flip sign for the same reason.
+
+import type { CADEntity, Point, Layer, LineStyle, BlockDefinition, HatchData, HatchPattern } from "./cad-types";
+import { dimensionGeometry, distance, getLineDash } from "./cad-utils";
+import { getEntitiesBBoxWithBlocks } from "./block-utils";
+import { catmullRomToBezier, evaluateCatmullRom } from "./spline-utils";
+import { ACI_BYBLOCK, DRAWING_INSUNITS, hexToAci, hexToTrueColor, opacityToTransparency, widthToLineweight } from "./dxf-common";
+
+export type DXFVersion = "R12" | "R2000";
+
+export interface DXFExportOptions {
+  version?: DXFVersion;
+}
+
+const ACAD_VERSIONS: Record<DXFVersion, string> = { R12: "AC1009", R2000: "AC1015" };
+
+const LINETYPE_NAMES: Record<LineStyle, string> = { solid: "CONTINUOUS", dashed: "DASHED", dotted: "DOT", dashdot: "DASHDOT" };
+const LINETYPE_DESCRIPTIONS: Record<LineStyle, string> = { solid: "Solid line", dashed: "Dashed __ __ __", dotted: "Dotted . . . .", dashdot: "Dash dot __ . __" };
+
+const HATCH_PATTERN_NAMES: Record<HatchPattern, string> = {
+  solid: "SOLID", crosshatch: "ANSI37", diagonal: "ANSI31", dots: "DOTS",
+  horizontal: "LINE", vertical: "LINE", brick: "BRICK",
+};
+
+// ============================================================
+// Writer context
+// ============================================================
+interface WriterContext {
+  version: DXFVersion;
+  out: string[];
+  nextHandle: number;
+  layerNames: Map<string, string>;
+  blockNames: Map<string, string>;
+  dimensionBlocks: Map<CADEntity, string>;
+  blockRecords: Map<string, string>;
+  modelSpaceRecord: string;
+  farDistance: number;
+}
+
+function num(n: number): string {
+  if (!Number.isFinite(n) || Math.abs(n) < 1e-10) return "0";
+  return String(Math.round(n * 1e8) / 1e8);
+}
+
+function g(ctx: WriterContext, code: number, value: string | number) {
+  ctx.out.push(String(code), typeof value === "number" ? num(value) : value);
+}
+
+function newHandle(ctx: WriterContext): string {
+  return (ctx.nextHandle++).toString(16).toUpperCase();
+}
+
+/** Handle + owner pointer (R2000 only) */
+function writeHandle(ctx: WriterContext, owner: string, code = 5): string {
+  if (ctx.version === "R12") return "";
+  const h = newHandle(ctx);
+  g(ctx, code, h);
+  g(ctx, 330, owner);
+  return h;
+}
+
+/** Subclass marker (R2000 only) */
+function subclass(ctx: WriterContext, name: string) {
+  if (ctx.version === "R2000") g(ctx, 100, name);
+}
+
+/** Write a point with mirrored Y at group codes base / base+10 / base+20 */
+function writePoint(ctx: WriterContext, base: number, p: Point, withZ = true) {
+  g(ctx, base, p.x);
+  g(ctx, base + 10, -p.y);
+  if (withZ) g(ctx, base + 20, 0);
+}
+
+/** Encode text for DXF: single line, non-ASCII as \U+XXXX */
+function dxfString(s: string): string {
+  let result = "";
+  for (const ch of s.replace(/\r?\n/g, " ")) {
+    const code = ch.codePointAt(0) ?? 32;
+    result += code > 126 ? `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}` : ch;
+  }
+  return result;
+}
+
+/** Replace characters not allowed in symbol table names and make unique */
+function symbolName(name: string, used: Set<string>, fallback: string): string {
+  const base = name.trim().replace(/[<>/\\":;?*|,=`]/g, "_") || fallback;
+  let candidate = base, i = 1;
+  while (used.has(candidate.toUpperCase())) candidate = `${base}_${i++}`;
+  used.add(candidate.toUpperCase());
+  return candidate;
+}
+
+// ============================================================
+// Entity writers
+// ============================================================
+function writeEntityHeader(ctx: WriterContext, type: string, entity: CADEntity, owner: string, color = entity.color) {
+  g(ctx, 0, type);
+  writeHandle(ctx, owner);
+  subclass(ctx, "AcDbEntity");
+  g(ctx, 8, ctx.layerNames.get(entity.layerId) ?? "0");
+  if (entity.lineStyle !== "solid") g(ctx, 6, LINETYPE_NAMES[entity.lineStyle] ?? "CONTINUOUS");
+  g(ctx, 62, entity.colorByBlock ? ACI_BYBLOCK : hexToAci(color));
+  if (ctx.version === "R2000") {
+    g(ctx, 370, widthToLineweight(entity.lineWidth));
+    const tc = entity.colorByBlock ? null : hexToTrueColor(color);
+    if (tc !== null) g(ctx, 420, tc);
+  }
+}
+
+function writeLine(ctx: WriterContext, entity: CADEntity, owner: string, a: Point, b: Point) {
+  writeEntityHeader(ctx, "LINE", entity, owner);
+  subclass(ctx, "AcDbLine");
+  writePoint(ctx, 10, a);
+  writePoint(ctx, 11, b);
+}
+
+function writePolyline(ctx: WriterContext, entity: CADEntity, owner: string, points: Point[], closed: boolean) {
+  if (points.length < 2) return;
+  if (ctx.version === "R2000") {
+    writeEntityHeader(ctx, "LWPOLYLINE", entity, owner);
+    subclass(ctx, "AcDbPolyline");
+    g(ctx, 90, points.length);
+    g(ctx, 70, closed ? 1 : 0);
+    g(ctx, 43, 0);
+    points.forEach(p => writePoint(ctx, 10, p, false));
+    return;
+  }
+  // R12 has no LWPOLYLINE — use POLYLINE / VERTEX / SEQEND
+  writeEntityHeader(ctx, "POLYLINE", entity, owner);
+  g(ctx, 66, 1);
+  writePoint(ctx, 10, { x: 0, y: 0 });
+  g(ctx, 70, closed ? 1 : 0);
+  const layer = ctx.layerNames.get(entity.layerId) ?? "0";
+  for (const p of points) {
+    g(ctx, 0, "VERTEX");
+    g(ctx, 8, layer);
+    writePoint(ctx, 10, p);
+  }
+  g(ctx, 0, "SEQEND");
+  g(ctx, 8, layer);
+}
+
+function writeText(ctx: WriterContext, entity: CADEntity, owner: string, position: Point, content: string, height: number, rotation: number, centered = false) {
+  writeEntityHeader(ctx, "TEXT", entity, owner);
+  subclass(ctx, "AcDbText");
+  writePoint(ctx, 10, position);
+  g(ctx, 40, height);
+  g(ctx, 1, dxfString(content));
+  if (rotation) g(ctx, 50, -rotation * 180 / Math.PI);
+  g(ctx, 7, "STANDARD");
+  if (centered) { g(ctx, 72, 1); writePoint(ctx, 11, position); }
+  subclass(ctx, "AcDbText");
+}
+
+function ellipsePoints(center: Point, rx: number, ry: number, rotation: number, segments = 72): Point[] {
+  const cos = Math.cos(rotation), sin = Math.sin(rotation);
+  const pts: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t = (i / segments) * Math.PI * 2;
+    const x = rx * Math.cos(t), y = ry * Math.sin(t);
+    pts.push({ x: center.x + x * cos - y * sin, y: center.y + x * sin + y * cos });
+  }
+  return pts;
+}
+
+/** Hatch pattern definition lines in DXF (Y-up) space */
+function hatchPatternLines(pattern: HatchPattern, scale: number, angleDeg: number) {
+  const s = 10 * (scale || 1);
+  const family = (deg: number, shift = 0, dashes: number[] = []) => {
+    const r = deg * Math.PI / 180;
+    return { angle: deg, offset: { x: shift * Math.cos(r) - s * Math.sin(r), y: shift * Math.sin(r) + s * Math.cos(r) }, dashes };
+  };
+  switch (pattern) {
+    case "diagonal": return [family(angleDeg + 45)];
+    case "crosshatch": return [family(angleDeg + 45), family(angleDeg - 45)];
+    case "horizontal": return [family(angleDeg)];
+    case "vertical": return [family(angleDeg + 90)];
+    case "dots": return [family(angleDeg, 0, [0, -s])];
+    case "brick": return [family(angleDeg), family(angleDeg + 90, s, [s, -s])];
+    default: return [];
+  }
+}
+
+function writeHatch(ctx: WriterContext, entity: CADEntity, owner: string, d: HatchData) {
+  if (d.boundary.length < 3) return;
+  if (ctx.version === "R12") {
+    // R12 has no HATCH — keep the boundaries so the region is not lost
+    writePolyline(ctx, entity, owner, d.boundary, true);
+    (d.islands ?? []).forEach(loop => writePolyline(ctx, entity, owner, loop, true));
+    return;
+  }
+  const angle = -(d.patternAngle || 0) + (d.pattern === "vertical" ? 90 : 0);
+  writeEntityHeader(ctx, "HATCH", entity, owner, d.fillColor || entity.color);
+  g(ctx, 440, opacityToTransparency(d.fillOpacity ?? 0.4));
+  subclass(ctx, "AcDbHatch");
+  writePoint(ctx, 10, { x: 0, y: 0 });
+  g(ctx, 210, 0); g(ctx, 220, 0); g(ctx, 230, 1);
+  g(ctx, 2, HATCH_PATTERN_NAMES[d.pattern] ?? "SOLID");
+  g(ctx, 70, d.pattern === "solid" ? 1 : 0);
+  g(ctx, 71, 0);
+  const islands = (d.islands ?? []).filter(loop => loop.length >= 3);
+  g(ctx, 91, 1 + islands.length);
+  [d.boundary, ...islands].forEach((loop, i) => {
+    g(ctx, 92, i === 0 ? 3 : 2); // (external |) polyline
+    g(ctx, 72, 0);
+    g(ctx, 73, 1);
+    g(ctx, 93, loop.length);
+    loop.forEach(p => writePoint(ctx, 10, p, false));
+    g(ctx, 97, 0);
+  });
+  g(ctx, 75, 1);
+  g(ctx, 76, 1);
+  if (d.pattern !== "solid") {
+    const lines = hatchPatternLines(d.pattern, d.patternScale, -(d.patternAngle || 0));
+    g(ctx, 52, angle);
+    g(ctx, 41, d.patternScale || 1);
+    g(ctx, 77, 0);
+    g(ctx, 78, lines.length);
+    for (const line of lines) {
+      g(ctx, 53, line.angle);
+      g(ctx, 43, 0); g(ctx, 44, 0);
+      g(ctx, 45, line.offset.x); g(ctx, 46, line.offset.y);
+      g(ctx, 79, line.dashes.length);
+      line.dashes.forEach(dash => g(ctx, 49, dash));
+    }
+  }
+  g(ctx, 98, 0);
+}
+
+function writeSpline(ctx: WriterContext, entity: CADEntity, owner: string, controlPoints: Point[], degree: number, closed: boolean) {
+  if (controlPoints.length < 2) return;
+  if (degree <= 1) { writePolyline(ctx, entity, owner, controlPoints, closed); return; }
+  if (ctx.version === "R12") {
+    writePolyline(ctx, entity, owner, evaluateCatmullRom(controlPoints, closed, Math.max(60, controlPoints.length * 20)), false);
+    return;
+  }
+  // Our splines are Catmull-Rom curves; write them exactly as a
+  // piecewise cubic Bezier expressed as a clamped B-spline.
+  const segments = catmullRomToBezier(controlPoints, closed);
+  const cps: Point[] = [segments[0][0]];
+  segments.forEach(seg => cps.push(seg[1], seg[2], seg[3]));
+  const knots = [0, 0, 0, 0];
+  for (let i = 1; i < segments.length; i++) knots.push(i, i, i);
+  knots.push(segments.length, segments.length, segments.length, segments.length);
+
+  writeEntityHeader(ctx, "SPLINE", entity, owner);
+  subclass(ctx, "AcDbSpline");
+  g(ctx, 210, 0); g(ctx, 220, 0); g(ctx, 230, 1);
+  g(ctx, 70, 8); // planar
+  g(ctx, 71, 3);
+  g(ctx, 72, knots.length);
+  g(ctx, 73, cps.length);
+  g(ctx, 74, 0);
+  g(ctx, 42, 1e-7); g(ctx, 43, 1e-7);
+  knots.forEach(k => g(ctx, 40, k));
+  cps.forEach(p => writePoint(ctx, 10, p));
+}
+
+function writeDimension(ctx: WriterContext, entity: CADEntity, owner: string) {
+  if (entity.data.type !== "dimension") return;
+  const blockName = ctx.dimensionBlocks.get(entity);
+  if (!blockName) return;
+  const { start, end, offset } = entity.data;
+  const geo = dimensionGeometry(entity);
+  writeEntityHeader(ctx, "DIMENSION", entity, owner);
+  subclass(ctx, "AcDbDimension");
+  g(ctx, 2, blockName);
+  writePoint(ctx, 10, { x: end.x, y: end.y - offset });
+  writePoint(ctx, 11, geo.textPosition);
+  g(ctx, 70, 32); // rotated, block referenced by this dimension only
+  if (ctx.version === "R2000") g(ctx, 42, distance(start, end));
+  g(ctx, 3, "STANDARD");
+  subclass(ctx, "AcDbAlignedDimension");
+  writePoint(ctx, 13, start);
+  writePoint(ctx, 14, end);
+  g(ctx, 50, -Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI);
+  subclass(ctx, "AcDbRotatedDimension");
+}
+
+function writeEntity(ctx: WriterContext, entity: CADEntity, owner: string) {
+  const d = entity.data;
+  switch (d.type) {
+    case "line": writeLine(ctx, entity, owner, d.start, d.end); break;
+    case "circle":
+      writeEntityHeader(ctx, "CIRCLE", entity, owner);
+      subclass(ctx, "AcDbCircle");
+      writePoint(ctx, 10, d.center);
+      g(ctx, 40, d.radius);
+      break;
+    case "arc":
+      writeEntityHeader(ctx, "ARC", entity, owner);
+      subclass(ctx, "AcDbCircle");
+      writePoint(ctx, 10, d.center);
+      g(ctx, 40, d.radius);
+      subclass(ctx, "AcDbArc");
+      g(ctx, 50, -d.endAngle * 180 / Math.PI);
+      g(ctx, 51, -d.startAngle * 180 / Math.PI);
+      break;
+    case "rectangle": {
+      const tl = d.topLeft;
+      writePolyline(ctx, entity, owner, [tl, { x: tl.x + d.width, y: tl.y }, { x: tl.x + d.width, y: tl.y + d.height }, { x: tl.x, y: tl.y + d.height }], true);
+      break;
+    }
+    case "polyline": writePolyline(ctx, entity, owner, d.points, d.closed); break;
+    case "ellipse": {
+      if (ctx.version === "R12") { writePolyline(ctx, entity, owner, ellipsePoints(d.center, d.radiusX, d.radiusY, d.rotation), true); break; }
+      // DXF requires the major axis to be the longer one
+      const major = d.radiusX >= d.radiusY ? d.radiusX : d.radiusY;
+      const minor = d.radiusX >= d.radiusY ? d.radiusY : d.radiusX;
+      const axisAngle = d.rotation + (d.radiusX >= d.radiusY ? 0 : Math.PI / 2);
+      writeEntityHeader(ctx, "ELLIPSE", entity, owner);
+      subclass(ctx, "AcDbEllipse");
+      writePoint(ctx, 10, d.center);
+      writePoint(ctx, 11, { x: major * Math.cos(axisAngle), y: major * Math.sin(axisAngle) });
+      g(ctx, 210, 0); g(ctx, 220, 0); g(ctx, 230, 1);
+      g(ctx, 40, major ? minor / major : 1);
+      g(ctx, 41, 0);
+      g(ctx, 42, Math.PI * 2);
+      break;
+    }
+    case "text": writeText(ctx, entity, owner, d.position, d.content, d.fontSize, d.rotation); break;
+    case "dimension": writeDimension(ctx, entity, owner); break;
+    case "hatch": writeHatch(ctx, entity, owner, d); break;
+    case "spline": writeSpline(ctx, entity, owner, d.controlPoints, d.degree, d.closed); break;
+    case "xline":
+    case "ray": {
+      const len = Math.hypot(d.direction.x, d.direction.y) || 1;
+      const dir = { x: d.direction.x / len, y: d.direction.y / len };
+      if (ctx.version === "R12") {
+        // R12 has no XLINE/RAY — approximate with a line well beyond the drawing extents
+        const far = ctx.farDistance;
+        const from = d.type === "xline" ? { x: d.basePoint.x - dir.x * far, y: d.basePoint.y - dir.y * far } : d.basePoint;
+        writeLine(ctx, entity, owner, from, { x: d.basePoint.x + dir.x * far, y: d.basePoint.y + dir.y * far });
+        break;
+      }
+      writeEntityHeader(ctx, d.type === "xline" ? "XLINE" : "RAY", entity, owner);
+      subclass(ctx, d.type === "xline" ? "AcDbXline" : "AcDbRay");
+      writePoint(ctx, 10, d.basePoint);
+      writePoint(ctx, 11, dir);
+      break;
+    }
+    case "blockref": {
+      const name = ctx.blockNames.get(d.blockId);
+      if (!name) break;
+      writeEntityHeader(ctx, "INSERT", entity, owner);
+      subclass(ctx, "AcDbBlockReference");
+      g(ctx, 2, name);
+      writePoint(ctx, 10, d.insertPoint);
+      g(ctx, 41, d.scaleX);
+      g(ctx, 42, d.scaleY);
+      g(ctx, 43, 1);
+      g(ctx, 50, -d.rotation);
+      break;
+    }
+    case "point":
+      writeEntityHeader(ctx, "POINT", entity, owner);
+      subclass(ctx, "AcDbPoint");
+      writePoint(ctx, 10, d.position);
+      break;
+    // DXF IMAGE entities reference an external file, so embedded images are not written
+    case "image": break;
+  }
+}
+
+// ============================================================
+// Sections
+// ============================================================
+function beginTable(ctx: WriterContext, name: string, count: number, extraSubclass?: string): string {
+  g(ctx, 0, "TABLE");
+  g(ctx, 2, name);
+  const h = writeHandle(ctx, "0");
+  subclass(ctx, "AcDbSymbolTable");
+  g(ctx, 70, count);
+  if (extraSubclass) subclass(ctx, extraSubclass);
+  return h;
+}
+
+function beginRecord(ctx: WriterContext, type: string, table: string, recordSubclass: string, name: string, handleCode = 5): string {
+  g(ctx, 0, type);
+  const h = writeHandle(ctx, table, handleCode);
+  subclass(ctx, "AcDbSymbolTableRecord");
+  subclass(ctx, recordSubclass);
+  g(ctx, 2, name);
+  return h;
+}
+
+function writeTables(ctx: WriterContext, layerNameList: [Layer, string][], blockNameList: string[]) {
+  const r2000 = ctx.version === "R2000";
+  g(ctx, 0, "SECTION");
+  g(ctx, 2, "TABLES");
+
+  beginTable(ctx, "VPORT", 0);
+  g(ctx, 0, "ENDTAB");
+
+  // Line types
+  const styles: LineStyle[] = ["solid", "dashed", "dotted", "dashdot"];
+  const ltypeTable = beginTable(ctx, "LTYPE", styles.length + (r2000 ? 2 : 0));
+  const writeLtype = (name: string, description: string, pattern: number[]) => {
+    beginRecord(ctx, "LTYPE", ltypeTable, "AcDbLinetypeTableRecord", name);
+    g(ctx, 70, 0);
+    g(ctx, 3, description);
+    g(ctx, 72, 65);
+    g(ctx, 73, pattern.length);
+    g(ctx, 40, pattern.reduce((sum, v) => sum + Math.abs(v), 0));
+    pattern.forEach(v => { g(ctx, 49, v); if (r2000) g(ctx, 74, 0); });
+  };
+  if (r2000) { writeLtype("BYBLOCK", "", []); writeLtype("BYLAYER", "", []); }
+  for (const style of styles) {
+    writeLtype(LINETYPE_NAMES[style], LINETYPE_DESCRIPTIONS[style], getLineDash(style).map((v, i) => i % 2 ? -v : v));
+  }
+  g(ctx, 0, "ENDTAB");
+
+  // Layers — written by name, never by internal id
+  const hasZero = layerNameList.some(([, name]) => name === "0");
+  const layerTable = beginTable(ctx, "LAYER", layerNameList.length + (hasZero ? 0 : 1));
+  const writeLayer = (name: string, color: string, visible: boolean, locked: boolean) => {
+    beginRecord(ctx, "LAYER", layerTable, "AcDbLayerTableRecord", name);
+    g(ctx, 70, locked ? 4 : 0);
+    const aci = hexToAci(color);
+    g(ctx, 62, visible ? aci : -aci);
+    g(ctx, 6, "CONTINUOUS");
+    if (r2000) {
+      const tc = hexToTrueColor(color);
+      if (tc !== null) g(ctx, 420, tc);
+      g(ctx, 370, -3);
+    }
+  };
+  if (!hasZero) writeLayer("0", "#ffffff", true, false);
+  for (const [layer, name] of layerNameList) writeLayer(name, layer.color, layer.visible, layer.locked);
+  g(ctx, 0, "ENDTAB");
+
+  // Text styles
+  const styleTable = beginTable(ctx, "STYLE", 1);
+  beginRecord(ctx, "STYLE", styleTable, "AcDbTextStyleTableRecord", "STANDARD");
+  g(ctx, 70, 0); g(ctx, 40, 0); g(ctx, 41, 1); g(ctx, 50, 0); g(ctx, 71, 0); g(ctx, 42, 2.5);
+  g(ctx, 3, "txt"); g(ctx, 4, "");
+  g(ctx, 0, "ENDTAB");
+
+  beginTable(ctx, "VIEW", 0);
+  g(ctx, 0, "ENDTAB");
+  beginTable(ctx, "UCS", 0);
+  g(ctx, 0, "ENDTAB");
+
+  const appTable = beginTable(ctx, "APPID", 1);
+  beginRecord(ctx, "APPID", appTable, "AcDbRegAppTableRecord", "ACAD");
+  g(ctx, 70, 0);
+  g(ctx, 0, "ENDTAB");
+
+  const dimTable = beginTable(ctx, "DIMSTYLE", 1, "AcDbDimStyleTable");
+  beginRecord(ctx, "DIMSTYLE", dimTable, "AcDbDimStyleTableRecord", "STANDARD", 105);
+  g(ctx, 70, 0);
+  g(ctx, 0, "ENDTAB");
+
+  if (r2000) {
+    const recordNames = ["*Model_Space", "*Paper_Space", ...blockNameList];
+    const recordTable = beginTable(ctx, "BLOCK_RECORD", recordNames.length);
+    for (const name of recordNames) ctx.blockRecords.set(name, beginRecord(ctx, "BLOCK_RECORD", recordTable, "AcDbBlockTableRecord", name));
+    ctx.modelSpaceRecord = ctx.blockRecords.get("*Model_Space")!;
+  }
+
+  g(ctx, 0, "ENDSEC");
+}
+
+function writeBlock(ctx: WriterContext, name: string, basePoint: Point, flags: number, write: (owner: string) => void) {
+  const record = ctx.blockRecords.get(name) ?? "0";
+  g(ctx, 0, "BLOCK");
+  writeHandle(ctx, record);
+  subclass(ctx, "AcDbEntity");
+  g(ctx, 8, "0");
+  subclass(ctx, "AcDbBlockBegin");
+  g(ctx, 2, name);
+  g(ctx, 70, flags);
+  writePoint(ctx, 10, basePoint);
+  g(ctx, 3, name);
+  g(ctx, 1, "");
+  write(record);
+  g(ctx, 0, "ENDBLK");
+  writeHandle(ctx, record);
+  subclass(ctx, "AcDbEntity");
+  g(ctx, 8, "0");
+  subclass(ctx, "AcDbBlockEnd");
+}
+
+function writeBlocks(ctx: WriterContext, blocks: BlockDefinition[]) {
+  g(ctx, 0, "SECTION");
+  g(ctx, 2, "BLOCKS");
+  const origin = { x: 0, y: 0 };
+  if (ctx.version === "R2000") {
+    writeBlock(ctx, "*Model_Space", origin, 0, () => {});
+    writeBlock(ctx, "*Paper_Space", origin, 0, () => {});
+  }
+  for (const block of blocks) {
+    const name = ctx.blockNames.get(block.id)!;
+    writeBlock(ctx, name, block.basePoint, 0, owner => block.entities.forEach(e => writeEntity(ctx, e, owner)));
+  }
+  ctx.dimensionBlocks.forEach((name, entity) => {
+    const geo = dimensionGeometry(entity);
+    writeBlock(ctx, name, origin, 1, owner => {
+      geo.lines.forEach(([a, b]) => writeLine(ctx, entity, owner, a, b));
+      writeText(ctx, entity, owner, geo.textPosition, geo.text, 12, 0, true);
+    });
+  });
+  g(ctx, 0, "ENDSEC");
+}
+
+function writeObjects(ctx: WriterContext) {
+  const root = newHandle(ctx), groups = newHandle(ctx);
+  g(ctx, 0, "SECTION");
+  g(ctx, 2, "OBJECTS");
+  g(ctx, 0, "DICTIONARY"); g(ctx, 5, root); g(ctx, 330, "0");
+  g(ctx, 100, "AcDbDictionary"); g(ctx, 281, 1);
+  g(ctx, 3, "ACAD_GROUP"); g(ctx, 350, groups);
+  g(ctx, 0, "DICTIONARY"); g(ctx, 5, groups); g(ctx, 330, root);
+  g(ctx, 100, "AcDbDictionary"); g(ctx, 281, 1);
+  g(ctx, 0, "ENDSEC");
+}
+
+function writeHeader(ctx: WriterContext, extents: { minX: number; minY: number; maxX: number; maxY: number }) {
+  const variable = (name: string) => g(ctx, 9, name);
+  g(ctx, 0, "SECTION");
+  g(ctx, 2, "HEADER");
+  variable("$ACADVER"); g(ctx, 1, ACAD_VERSIONS[ctx.version]);
+  variable("$DWGCODEPAGE"); g(ctx, 3, "ANSI_1252");
+  variable("$INSBASE"); writePoint(ctx, 10, { x: 0, y: 0 });
+  variable("$EXTMIN"); writePoint(ctx, 10, { x: extents.minX, y: extents.maxY });
+  variable("$EXTMAX"); writePoint(ctx, 10, { x: extents.maxX, y: extents.minY });
+  if (ctx.version === "R2000") {
+    variable("$INSUNITS"); g(ctx, 70, DRAWING_INSUNITS);
+    variable("$HANDSEED"); g(ctx, 5, newHandle(ctx));
+  }
+  g(ctx, 0, "ENDSEC");
+}
+
+// ============================================================
+// Main export function
+// ============================================================
+export function exportToDXF(entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[], options: DXFExportOptions = {}): string {
+  const version = options.version ?? "R2000";
+  const ctx: WriterContext = {
+    version, out: [], nextHandle: 0x20,
+    layerNames: new Map(), blockNames: new Map(), dimensionBlocks: new Map(), blockRecords: new Map(),
+    modelSpaceRecord: "0", farDistance: 1e4,
+  };
+
+  const usedLayers = new Set<string>();
+  const layerNameList: [Layer, string][] = layers.map(l => {
+    const name = symbolName(l.name, usedLayers, "0");
+    ctx.layerNames.set(l.id, name);
+    return [l, name];
+  });
+
+  const usedBlocks = new Set<string>();
+  for (const b of blocks) ctx.blockNames.set(b.id, symbolName(b.name, usedBlocks, "BLOCK"));
+  let dimCount = 0;
+  const collectDimensions = (list: CADEntity[]) => list.forEach(e => { if (e.type === "dimension") ctx.dimensionBlocks.set(e, `*D${++dimCount}`); });
+  collectDimensions(entities);
+  blocks.forEach(b => collectDimensions(b.entities));
+
+  const extents = getEntitiesBBoxWithBlocks(entities, blocks) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  ctx.farDistance = Math.max(1e4, 10 * Math.hypot(extents.maxX - extents.minX, extents.maxY - extents.minY));
+
+  writeTables(ctx, layerNameList, [...blocks.map(b => ctx.blockNames.get(b.id)!), ...Array.from(ctx.dimensionBlocks.values())]);
+  writeBlocks(ctx, blocks);
+
+  g(ctx, 0, "SECTION");
+  g(ctx, 2, "ENTITIES");
+  entities.forEach(e => writeEntity(ctx, e, ctx.modelSpaceRecord));
+  g(ctx, 0, "ENDSEC");
+
+  if (version === "R2000") writeObjects(ctx);
+  g(ctx, 0, "EOF");
+
+  const body = ctx.out;
+  ctx.out = [];
+  writeHeader(ctx, extents);
+  return [...ctx.out, ...body].join("\n") + "\n";
+}
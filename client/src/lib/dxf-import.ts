@@ -1,10 +1,16 @@
 // ============================================================
 // DXF Import — Parse standard DXF files into CAD Studio entities
 // Supports: LINE, CIRCLE, ARC, ELLIPSE, LWPOLYLINE, POLYLINE,
-//           TEXT, MTEXT, DIMENSION, SPLINE, POINT, INSERT (basic)
+//           TEXT, MTEXT, DIMENSION, SPLINE, HATCH, POINT, XLINE, RAY,
+//           INSERT (+ BLOCKS)
 // ============================================================
 
-import type { CADEntity, EntityData, Point, Layer, LineStyle } from "./cad-types";
+import type { CADEntity, EntityData, Point, Layer, LineStyle, BlockDefinition, HatchData, HatchPattern, ParseStats, DXFHeader, DXFImportResult } from "./cad-types";
+import { ACI_BYBLOCK, ACI_BYLAYER, aciToHex, trueColorToHex, transparencyToOpacity, lineweightToWidth, unitScale } from "./dxf-common";
+import { getEntitiesBBoxWithBlocks } from "./block-utils";
+import { scaleEntityData } from "./rotate-scale-utils";
+
+export type { ParseStats, DXFHeader, DXFImportResult } from "./cad-types";
 
 interface DXFGroup {
   code: number;
@@ -16,55 +22,6 @@ interface DXFSection {
   groups: DXFGroup[];
 }
 
-// AutoCAD Color Index (ACI) to hex — first 10 standard colors
-const ACI_COLORS: Record<number, string> = {
-  0: "#ffffff", // BYBLOCK
-  1: "#ff0000",
-  2: "#ffff00",
-  3: "#00ff00",
-  4: "#00ffff",
-  5: "#0000ff",
-  6: "#ff00ff",
-  7: "#ffffff",
-  8: "#808080",
-  9: "#c0c0c0",
-  10: "#ff0000",
-  11: "#ff7f7f",
-  30: "#ff7f00",
-  40: "#ff7f00",
-  50: "#ffff00",
-  60: "#7fff00",
-  70: "#00ff00",
-  80: "#00ff7f",
-  90: "#00ffff",
-  100: "#007fff",
-  110: "#0000ff",
-  120: "#7f00ff",
-  130: "#ff00ff",
-  140: "#ff007f",
-  150: "#ff3333",
-  160: "#ff6633",
-  170: "#ff9933",
-  180: "#ffcc33",
-  190: "#ffff33",
-  200: "#ccff33",
-  210: "#99ff33",
-  220: "#66ff33",
-  230: "#33ff33",
-  240: "#33ff66",
-  250: "#33ff99",
-  251: "#a0a0a0",
-  252: "#808080",
-  253: "#606060",
-  254: "#404040",
-  255: "#000000",
-  256: "#ffffff", // BYLAYER
-};
-
-function aciToHex(aci: number): string {
-  return ACI_COLORS[aci] || `#${Math.min(255, aci * 3).toString(16).padStart(2, "0")}${Math.min(255, (aci * 7) % 256).toString(16).padStart(2, "0")}${Math.min(255, (aci * 11) % 256).toString(16).padStart(2, "0")}`;
-}
-
 function generateId(): string {
   return `dxf-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 }
@@ -155,29 +112,76 @@ function getAllNums(groups: DXFGroup[], code: number): number[] {
 }
 
 // ============================================================
-// Parse TABLES section for layers
+// Parse TABLES section — line types and layers
 // ============================================================
-function parseLayers(section: DXFSection | undefined): Layer[] {
-  if (!section) return [];
+interface LineTypeStyle {
+  lineStyle: LineStyle;
+  linePattern?: number[];
+}
+
+interface LayerStyle extends LineTypeStyle {
+  lineWidth: number;
+}
+
+/** LTYPE records: name → dash elements (group 49; >0 dash, <0 gap, 0 dot) */
+function parseLineTypes(section: DXFSection | undefined): Map<string, number[]> {
+  const lineTypes = new Map<string, number[]>();
+  if (!section) return lineTypes;
+  for (const raw of splitEntities(section.groups)) {
+    if (raw.type !== "LTYPE") continue;
+    lineTypes.set(getVal(raw.groups, 2).toUpperCase(), getAllNums(raw.groups, 49));
+  }
+  return lineTypes;
+}
+
+/** Map a linetype onto the closest line style, keeping the exact dashes when they don't fit one */
+function resolveLineType(name: string, lineTypes: Map<string, number[]>, scale = 1): LineTypeStyle {
+  const pattern = lineTypes.get(name.toUpperCase());
+  if (!pattern) return { lineStyle: mapLineType(name) };
+  if (!pattern.some(v => v < 0)) return { lineStyle: "solid" };
+  const dashes = pattern.filter(v => v > 1e-6).length;
+  const dots = pattern.filter(v => Math.abs(v) <= 1e-6).length;
+  const lineStyle: LineStyle = dashes && dots ? "dashdot" : dots ? "dotted" : "dashed";
+  const simple = pattern.length === (lineStyle === "dashdot" ? 4 : 2);
+  return simple ? { lineStyle } : { lineStyle, linePattern: pattern.map(v => Math.abs(v) * scale) };
+}
+
+function parseLayers(section: DXFSection | undefined, lineTypes: Map<string, number[]>): { layers: Layer[]; styles: Map<string, LayerStyle> } {
   const layers: Layer[] = [];
+  const styles = new Map<string, LayerStyle>();
+  if (!section) return { layers, styles };
   const rawEntities = splitEntities(section.groups);
   for (const raw of rawEntities) {
     if (raw.type !== "LAYER") continue;
     const name = getVal(raw.groups, 2, "0");
     const colorIndex = getNum(raw.groups, 62, 7);
+    const trueColor = getVal(raw.groups, 420);
     const flags = getNum(raw.groups, 70, 0);
     const frozen = (flags & 1) !== 0;
     const locked = (flags & 4) !== 0;
-    layers.push({
+    const lineweight = getNum(raw.groups, 370, -3);
+    const layer: Layer = {
       id: `layer-${name.toLowerCase().replace(/\s+/g, "-")}-${generateId()}`,
       name,
-      color: aciToHex(Math.abs(colorIndex)),
+      color: trueColor ? trueColorToHex(parseInt(trueColor, 10)) : aciToHex(Math.abs(colorIndex)),
       visible: !frozen && colorIndex >= 0,
       locked,
       active: name === "0",
-    });
+    };
+    layers.push(layer);
+    styles.set(layer.id, { ...resolveLineType(getVal(raw.groups, 6, "CONTINUOUS"), lineTypes), lineWidth: lineweight >= 0 ? lineweightToWidth(lineweight) : 1 });
   }
-  return layers;
+  return { layers, styles };
+}
+
+/** Entity color: true color (420) wins, then ACI; ByLayer takes the layer color */
+function resolveColor(groups: DXFGroup[], layerColor: string): { color: string; byBlock: boolean } {
+  const aci = getNum(groups, 62, ACI_BYLAYER);
+  if (aci === ACI_BYBLOCK) return { color: layerColor, byBlock: true };
+  const trueColor = getVal(groups, 420);
+  if (trueColor) return { color: trueColorToHex(parseInt(trueColor, 10)), byBlock: false };
+  if (aci === ACI_BYLAYER) return { color: layerColor, byBlock: false };
+  return { color: aciToHex(aci), byBlock: false };
 }
 
 // ============================================================
@@ -333,6 +337,29 @@ function parseSplineEntity(raw: RawEntity, layerId: string, color: string, lineW
   };
 }
 
+function parsePointEntity(raw: RawEntity, layerId: string, color: string, lineWidth: number, lineStyle: LineStyle): CADEntity | null {
+  const position: Point = { x: getNum(raw.groups, 10), y: -getNum(raw.groups, 20) };
+  return {
+    id: generateId(), type: "point",
+    data: { type: "point", position } as EntityData,
+    layerId, color, lineWidth, lineStyle, visible: true, locked: false, selected: false,
+  };
+}
+
+/** XLINE and RAY: a base point and a direction vector */
+function parseConstructionLineEntity(raw: RawEntity, layerId: string, color: string, lineWidth: number, lineStyle: LineStyle): CADEntity | null {
+  const type = raw.type === "XLINE" ? "xline" : "ray";
+  const basePoint: Point = { x: getNum(raw.groups, 10), y: -getNum(raw.groups, 20) };
+  const dx = getNum(raw.groups, 11), dy = -getNum(raw.groups, 21);
+  const len = Math.hypot(dx, dy);
+  if (len < 1e-12) return null;
+  return {
+    id: generateId(), type,
+    data: { type, basePoint, direction: { x: dx / len, y: dy / len } } as EntityData,
+    layerId, color, lineWidth, lineStyle, visible: true, locked: false, selected: false,
+  };
+}
+
 function parseRectangleFromSolid(raw: RawEntity, layerId: string, color: string, lineWidth: number, lineStyle: LineStyle): CADEntity | null {
   // SOLID entities have 4 corner points
   const x1 = getNum(raw.groups, 10), y1 = -getNum(raw.groups, 20);
@@ -347,6 +374,250 @@ function parseRectangleFromSolid(raw: RawEntity, layerId: string, color: string,
   };
 }
 
+// ============================================================
+// HATCH — boundary paths (polyline & edge loops), islands, patterns
+// ============================================================
+
+/** Sequential reader over a group list — HATCH codes repeat per path/edge */
+class GroupCursor {
+  private index: number;
+  constructor(private groups: DXFGroup[], start = 0) { this.index = start; }
+  peek(offset = 0): DXFGroup | undefined { return this.groups[this.index + offset]; }
+  /** Read the next group's value as a number if it has the given code */
+  num(code: number, fallback = 0): number {
+    const g = this.groups[this.index];
+    if (!g || g.code !== code) return fallback;
+    this.index++;
+    const v = parseFloat(g.value);
+    return isNaN(v) ? fallback : v;
+  }
+  /** Skip ahead to the next group with the given code */
+  seek(code: number): boolean {
+    while (this.index < this.groups.length && this.groups[this.index].code !== code) this.index++;
+    return this.index < this.groups.length;
+  }
+}
+
+/** Sample an arc from angle a0 to a1 (radians, DXF space) */
+function sampleArc(cx: number, cy: number, rx: number, ry: number, rotation: number, a0: number, a1: number): Point[] {
+  const steps = Math.max(4, Math.ceil(Math.abs(a1 - a0) / (Math.PI / 36)));
+  const cos = Math.cos(rotation), sin = Math.sin(rotation);
+  const pts: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = a0 + (a1 - a0) * (i / steps);
+    const x = rx * Math.cos(a), y = ry * Math.sin(a);
+    pts.push({ x: cx + x * cos - y * sin, y: cy + x * sin + y * cos });
+  }
+  return pts;
+}
+
+/** Points along a polyline segment with a bulge (tan of 1/4 the included angle) */
+function bulgePoints(p1: Point, p2: Point, bulge: number): Point[] {
+  if (Math.abs(bulge) < 1e-9) return [p1];
+  const theta = 4 * Math.atan(bulge);
+  const dx = p2.x - p1.x, dy = p2.y - p1.y;
+  const chord = Math.sqrt(dx * dx + dy * dy);
+  if (chord < 1e-12) return [p1];
+  const r = chord / (2 * Math.sin(theta / 2));
+  const h = r * Math.cos(theta / 2);
+  const cx = (p1.x + p2.x) / 2 - (dy / chord) * h;
+  const cy = (p1.y + p2.y) / 2 + (dx / chord) * h;
+  const a0 = Math.atan2(p1.y - cy, p1.x - cx);
+  const pts = sampleArc(cx, cy, Math.abs(r), Math.abs(r), 0, a0, a0 + theta);
+  pts.pop(); // end point is the next vertex
+  return pts;
+}
+
+/** Start/end angles (degrees) of a hatch arc edge as a radian sweep; clockwise edges store mirrored angles */
+function edgeSweep(startDeg: number, endDeg: number, ccw: boolean): [number, number] {
+  const toRad = Math.PI / 180;
+  if (ccw) {
+    let end = endDeg;
+    while (end <= startDeg) end += 360;
+    return [startDeg * toRad, end * toRad];
+  }
+  let end = -endDeg;
+  while (end >= -startDeg) end -= 360;
+  return [-startDeg * toRad, end * toRad];
+}
+
+/** Evaluate a (possibly rational) B-spline with an explicit knot vector */
+function sampleBSpline(degree: number, knots: number[], ctrl: Point[], weights: number[], samples: number): Point[] {
+  const n = ctrl.length;
+  if (n < 2 || knots.length < n + degree + 1) return [...ctrl];
+  const w = weights.length === n ? weights : ctrl.map(() => 1);
+  const tMin = knots[degree], tMax = knots[n];
+  const pts: Point[] = [];
+  for (let s = 0; s <= samples; s++) {
+    const t = Math.min(tMin + (tMax - tMin) * (s / samples), tMax - 1e-10);
+    let k = degree;
+    while (k < n - 1 && t >= knots[k + 1]) k++;
+    const d = [];
+    for (let j = 0; j <= degree; j++) {
+      const c = ctrl[k - degree + j], wj = w[k - degree + j];
+      d.push({ x: c.x * wj, y: c.y * wj, w: wj });
+    }
+    for (let r = 1; r <= degree; r++) {
+      for (let j = degree; j >= r; j--) {
+        const i = k - degree + j;
+        const denom = knots[i + degree - r + 1] - knots[i];
+        const alpha = denom === 0 ? 0 : (t - knots[i]) / denom;
+        d[j] = {
+          x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+          y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+          w: (1 - alpha) * d[j - 1].w + alpha * d[j].w,
+        };
+      }
+    }
+    pts.push({ x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w });
+  }
+  return pts;
+}
+
+/** Read one edge-defined boundary loop (lines, arcs, ellipse arcs, splines) */
+function readEdgeLoop(cur: GroupCursor): Point[] {
+  const edgeCount = cur.num(93);
+  const pts: Point[] = [];
+  for (let e = 0; e < edgeCount; e++) {
+    const edgeType = cur.num(72);
+    let edgePts: Point[] = [];
+    switch (edgeType) {
+      case 1: { // line
+        const a = { x: cur.num(10), y: cur.num(20) };
+        const b = { x: cur.num(11), y: cur.num(21) };
+        edgePts = [a, b];
+        break;
+      }
+      case 2: { // circular arc
+        const cx = cur.num(10), cy = cur.num(20), r = cur.num(40);
+        const start = cur.num(50), end = cur.num(51), ccw = cur.num(73, 1) !== 0;
+        const [a0, a1] = edgeSweep(start, end, ccw);
+        edgePts = sampleArc(cx, cy, r, r, 0, a0, a1);
+        break;
+      }
+      case 3: { // elliptic arc
+        const cx = cur.num(10), cy = cur.num(20);
+        const mx = cur.num(11), my = cur.num(21), ratio = cur.num(40, 1);
+        const start = cur.num(50), end = cur.num(51), ccw = cur.num(73, 1) !== 0;
+        const major = Math.sqrt(mx * mx + my * my);
+        const [a0, a1] = edgeSweep(start, end, ccw);
+        edgePts = sampleArc(cx, cy, major, major * ratio, Math.atan2(my, mx), a0, a1);
+        break;
+      }
+      case 4: { // spline
+        const degree = cur.num(94, 3);
+        const rational = cur.num(73) !== 0;
+        cur.num(74); // periodic
+        const knotCount = cur.num(95), ctrlCount = cur.num(96);
+        const knots: number[] = [];
+        for (let i = 0; i < knotCount; i++) knots.push(cur.num(40));
+        const ctrl: Point[] = [], weights: number[] = [];
+        for (let i = 0; i < ctrlCount; i++) {
+          ctrl.push({ x: cur.num(10), y: cur.num(20) });
+          if (rational) weights.push(cur.num(42, 1));
+        }
+        // R2010+ fit data (97 here is a fit count, not the source-object count)
+        const next = cur.peek(1);
+        if (cur.peek()?.code === 97 && next && [11, 12, 13, 97].includes(next.code)) {
+          const fitCount = cur.num(97);
+          for (let i = 0; i < fitCount; i++) { cur.num(11); cur.num(21); }
+          cur.num(12); cur.num(22); cur.num(13); cur.num(23);
+        }
+        edgePts = sampleBSpline(degree, knots, ctrl, weights, Math.max(16, ctrlCount * 8));
+        break;
+      }
+      default:
+        return pts;
+    }
+    for (const p of edgePts) {
+      const last = pts[pts.length - 1];
+      if (!last || Math.abs(last.x - p.x) > 1e-9 || Math.abs(last.y - p.y) > 1e-9) pts.push(p);
+    }
+  }
+  return pts;
+}
+
+/** Read one polyline boundary loop, expanding bulges into arc points */
+function readPolylineLoop(cur: GroupCursor): Point[] {
+  const hasBulge = cur.num(72) !== 0;
+  cur.num(73); // closed
+  const count = cur.num(93);
+  const verts: { p: Point; bulge: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const p = { x: cur.num(10), y: cur.num(20) };
+    verts.push({ p, bulge: hasBulge ? cur.num(42) : 0 });
+  }
+  return verts.flatMap((v, i) => bulgePoints(v.p, verts[(i + 1) % verts.length].p, v.bulge));
+}
+
+function loopArea(pts: Point[]): number {
+  let a = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i], q = pts[(i + 1) % pts.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(a) / 2;
+}
+
+/** Map a DXF pattern name + angle onto our built-in patterns (solid when nothing matches) */
+function mapHatchPattern(name: string, solidFill: boolean, angleDeg: number): { pattern: HatchPattern; angle: number } {
+  const n = name.toUpperCase();
+  const angle = -angleDeg;
+  if (solidFill || n === "SOLID") return { pattern: "solid", angle: 0 };
+  if (n === "LINE") {
+    // LINE at 90° is our "vertical" pattern
+    const a = ((angleDeg % 180) + 180) % 180;
+    return Math.abs(a - 90) < 1e-6 ? { pattern: "vertical", angle: 0 } : { pattern: "horizontal", angle };
+  }
+  if (["ANSI37", "ANSI38", "NET", "NET3", "CROSS", "SQUARE", "ANGLE", "GRID"].includes(n)) return { pattern: "crosshatch", angle };
+  if (/^ANSI3[1-6]$/.test(n) || n === "STEEL") return { pattern: "diagonal", angle };
+  if (["DOTS", "DOT", "AR-SAND", "SAND", "GRAVEL", "AR-CONC"].includes(n)) return { pattern: "dots", angle };
+  if (n.includes("BRICK") || n.startsWith("AR-B") || n === "AR-BRSTD") return { pattern: "brick", angle };
+  if (n.includes("VERT")) return { pattern: "vertical", angle };
+  if (n.includes("HORIZ")) return { pattern: "horizontal", angle };
+  return { pattern: "solid", angle: 0 };
+}
+
+function parseHatchEntity(raw: RawEntity, layerId: string, color: string, lineWidth: number, lineStyle: LineStyle): CADEntity | null {
+  const patternName = getVal(raw.groups, 2, "SOLID");
+  const solidFill = getNum(raw.groups, 70, 0) === 1;
+  const start = raw.groups.findIndex(g => g.code === 91);
+  if (start < 0) return null;
+  const cur = new GroupCursor(raw.groups, start);
+  const pathCount = cur.num(91);
+
+  const loops: { pts: Point[]; external: boolean }[] = [];
+  for (let i = 0; i < pathCount; i++) {
+    if (!cur.seek(92)) break;
+    const flags = cur.num(92);
+    const pts = (flags & 2) ? readPolylineLoop(cur) : readEdgeLoop(cur);
+    const sourceCount = cur.num(97);
+    for (let j = 0; j < sourceCount; j++) cur.num(330);
+    if (pts.length >= 3) loops.push({ pts: pts.map(p => ({ x: p.x, y: -p.y })), external: (flags & (1 | 16)) !== 0 });
+  }
+  if (loops.length === 0) return null;
+
+  // Outer loop: the one flagged external/outermost, else the largest
+  let outerIndex = loops.findIndex(l => l.external);
+  if (outerIndex < 0) {
+    outerIndex = 0;
+    loops.forEach((l, i) => { if (loopArea(l.pts) > loopArea(loops[outerIndex].pts)) outerIndex = i; });
+  }
+  const islands = loops.filter((_, i) => i !== outerIndex).map(l => l.pts);
+
+  const { pattern, angle } = mapHatchPattern(patternName, solidFill, getNum(raw.groups, 52, 0));
+  const data: HatchData = {
+    type: "hatch", boundary: loops[outerIndex].pts, pattern,
+    patternScale: getNum(raw.groups, 41, 1) || 1, patternAngle: angle,
+    fillColor: color, fillOpacity: transparencyToOpacity(getNum(raw.groups, 440, 0)) ?? 0.4,
+  };
+  if (islands.length > 0) data.islands = islands;
+  return {
+    id: generateId(), type: "hatch", data,
+    layerId, color, lineWidth, lineStyle, visible: true, locked: false, selected: false,
+  };
+}
+
 // ============================================================
 // DXF Line type mapping
 // ============================================================
@@ -361,71 +632,139 @@ function mapLineType(ltypeName: string): LineStyle {
 }
 
 // ============================================================
-// Main parser
+// INSERT — block references, expanded over MINSERT column/row arrays
 // ============================================================
-export interface DXFImportResult {
-  entities: CADEntity[];
-  layers: Layer[];
-  stats: {
-    totalParsed: number;
-    skipped: number;
-    byType: Record<string, number>;
-  };
+/** MINSERT arrays with more copies than this are skipped; a hostile file could ask for 32767 × 32767 */
+const MAX_INSERT_ARRAY = 10000;
+
+/** Columns and rows of an INSERT's MINSERT array (1 × 1 for a plain INSERT) */
+function insertArraySize(raw: RawEntity): { columns: number; rows: number } {
+  return { columns: Math.max(1, Math.floor(getNum(raw.groups, 70, 1))), rows: Math.max(1, Math.floor(getNum(raw.groups, 71, 1))) };
 }
 
-export function parseDXF(content: string): DXFImportResult {
-  const groups = tokenize(content);
-  const sections = splitSections(groups);
+function parseInsertEntities(raw: RawEntity, blockIds: Map<string, string>, layerId: string, color: string, lineWidth: number, lineStyle: LineStyle): CADEntity[] {
+  const blockId = blockIds.get(getVal(raw.groups, 2).toUpperCase());
+  if (!blockId) return [];
+  const insert = { x: getNum(raw.groups, 10), y: getNum(raw.groups, 20) };
+  const scaleX = getNum(raw.groups, 41, 1) || 1;
+  const scaleY = getNum(raw.groups, 42, 1) || 1;
+  const rotationDeg = getNum(raw.groups, 50, 0);
+  const { columns, rows } = insertArraySize(raw);
+  const columnSpacing = getNum(raw.groups, 44, 0);
+  const rowSpacing = getNum(raw.groups, 45, 0);
+  const rad = rotationDeg * Math.PI / 180;
+  const refs: CADEntity[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      // Array offsets run along the rotated block axes (DXF space, Y-up)
+      const ox = c * columnSpacing, oy = r * rowSpacing;
+      const x = insert.x + ox * Math.cos(rad) - oy * Math.sin(rad);
+      const y = insert.y + ox * Math.sin(rad) + oy * Math.cos(rad);
+      refs.push({
+        id: generateId(), type: "blockref",
+        data: { type: "blockref", blockId, insertPoint: { x, y: -y }, scaleX, scaleY, rotation: -rotationDeg } as EntityData,
+        layerId, color, lineWidth, lineStyle, visible: true, locked: false, selected: false,
+      });
+    }
+  }
+  return refs;
+}
 
-  // Parse layers from TABLES section
-  const tablesSection = sections.find(s => s.name === "TABLES");
-  const dxfLayers = parseLayers(tablesSection);
+// ============================================================
+// BLOCKS section — block records with their base points
+// ============================================================
+interface RawBlock {
+  name: string;
+  basePoint: Point;
+  body: RawEntity[];
+}
 
-  // Build layer lookup
-  const layerMap = new Map<string, Layer>();
-  for (const l of dxfLayers) {
-    layerMap.set(l.name.toLowerCase(), l);
+function splitBlocks(section: DXFSection | undefined): RawBlock[] {
+  if (!section) return [];
+  const blocks: RawBlock[] = [];
+  let current: RawBlock | null = null;
+  for (const raw of splitEntities(section.groups)) {
+    if (raw.type === "BLOCK") {
+      current = { name: getVal(raw.groups, 2), basePoint: { x: getNum(raw.groups, 10), y: -getNum(raw.groups, 20) }, body: [] };
+    } else if (raw.type === "ENDBLK") {
+      if (current) blocks.push(current);
+      current = null;
+    } else if (current) {
+      current.body.push(raw);
+    }
   }
+  return blocks;
+}
 
-  // Ensure default layer exists
-  if (!layerMap.has("0")) {
-    const defaultLayer: Layer = { id: "layer-0", name: "0", color: "#ffffff", visible: true, locked: false, active: true };
-    dxfLayers.unshift(defaultLayer);
-    layerMap.set("0", defaultLayer);
-  }
+function isLayoutBlock(name: string): boolean {
+  const n = name.toUpperCase();
+  return n.startsWith("*MODEL_SPACE") || n.startsWith("*PAPER_SPACE") || n.startsWith("$MODEL_SPACE") || n.startsWith("$PAPER_SPACE");
+}
 
-  // Make first layer active
-  let hasActive = false;
-  for (const l of dxfLayers) {
-    if (l.active) { hasActive = true; break; }
-  }
-  if (!hasActive && dxfLayers.length > 0) {
-    dxfLayers[0].active = true;
-  }
+// ============================================================
+// Entity list parser — shared by ENTITIES and block bodies
+// ============================================================
+const SKIP_REASONS: Record<string, string> = {
+  INSERT: "References a block that is not defined",
+  MINSERT: `Block arrays of more than ${MAX_INSERT_ARRAY.toLocaleString("en")} copies are not imported`,
+  ATTDEF: "Attribute definitions are not imported",
+  VIEWPORT: "Paper space viewports are not imported",
+  IMAGE: "Raster images are not supported",
+  WIPEOUT: "Wipeouts are not supported",
+  LEADER: "Leaders are not supported",
+  MLEADER: "Multileaders are not supported",
+  TOLERANCE: "Geometric tolerances are not supported",
+  "3DSOLID": "ACIS solid data cannot be read",
+  REGION: "ACIS region data cannot be read",
+  BODY: "ACIS body data cannot be read",
+  MESH: "3D meshes are not supported",
+};
 
-  // Parse entities
-  const entitiesSection = sections.find(s => s.name === "ENTITIES");
-  if (!entitiesSection) {
-    return { entities: [], layers: dxfLayers, stats: { totalParsed: 0, skipped: 0, byType: {} } };
-  }
+const SUPPORTED_TYPES = new Set(["LINE", "CIRCLE", "ARC", "ELLIPSE", "LWPOLYLINE", "POLYLINE", "TEXT", "MTEXT", "DIMENSION", "SPLINE", "SOLID", "3DFACE", "HATCH", "POINT", "XLINE", "RAY"]);
+
+/** Human-readable reason an entity of this DXF type was skipped */
+export function skipReason(type: string): string {
+  if (SKIP_REASONS[type]) return SKIP_REASONS[type];
+  return SUPPORTED_TYPES.has(type) ? "Invalid or degenerate geometry" : "Entity type not supported";
+}
+
+function countSkipped(stats: ParseStats, type: string) {
+  stats.skipped++;
+  stats.skippedByType[type] = (stats.skippedByType[type] || 0) + 1;
+}
+
+interface ParseContext {
+  layerMap: Map<string, Layer>;
+  layerStyles: Map<string, LayerStyle>;
+  lineTypes: Map<string, number[]>;
+  blockIds: Map<string, string>;
+}
 
-  const rawEntities = splitEntities(entitiesSection.groups);
+function parseEntityList(rawEntities: RawEntity[], pctx: ParseContext, stats: ParseStats): CADEntity[] {
   const entities: CADEntity[] = [];
-  const stats = { totalParsed: 0, skipped: 0, byType: {} as Record<string, number> };
 
   for (let i = 0; i < rawEntities.length; i++) {
     const raw = rawEntities[i];
     stats.totalParsed++;
 
-    // Get entity properties
+    // Get entity properties, resolving ByLayer / ByBlock
     const layerName = getVal(raw.groups, 8, "0");
-    const layer = layerMap.get(layerName.toLowerCase()) || layerMap.get("0")!;
+    const layer = pctx.layerMap.get(layerName.toLowerCase()) || pctx.layerMap.get("0")!;
     const layerId = layer.id;
-    const colorIndex = getNum(raw.groups, 62, -1);
-    const color = colorIndex >= 0 ? aciToHex(colorIndex) : layer.color;
-    const ltypeName = getVal(raw.groups, 6, "CONTINUOUS");
-    const lineStyle = mapLineType(ltypeName);
-    const lineWidth = Math.max(0.5, getNum(raw.groups, 370, 0) / 100) || 1;
+    const layerStyle = pctx.layerStyles.get(layerId);
+    const { color, byBlock } = resolveColor(raw.groups, layer.color);
+    const ltypeName = getVal(raw.groups, 6, "BYLAYER").toUpperCase();
+    const lineType: LineTypeStyle = ltypeName === "BYLAYER" ? (layerStyle ?? { lineStyle: "solid" })
+      : ltypeName === "BYBLOCK" ? { lineStyle: "solid" }
+      : resolveLineType(ltypeName, pctx.lineTypes, getNum(raw.groups, 48, 1));
+    const lineStyle = lineType.lineStyle;
+    const lineweight = getNum(raw.groups, 370, -1);
+    const lineWidth = lineweight >= 0 ? lineweightToWidth(lineweight) : lineweight === -1 ? layerStyle?.lineWidth ?? 1 : 1;
+    const decorate = (e: CADEntity) => {
+      if (lineType.linePattern) e.linePattern = lineType.linePattern;
+      if (byBlock) e.colorByBlock = true;
+      return e;
+    };
 
     let entity: CADEntity | null = null;
 
@@ -474,25 +813,183 @@ export function parseDXF(content: string): DXFImportResult {
         entity = parseRectangleFromSolid(raw, layerId, color, lineWidth, lineStyle);
         break;
       case "POINT":
-        // Skip point entities (they're just markers)
+        entity = parsePointEntity(raw, layerId, color, lineWidth, lineStyle);
         break;
-      case "INSERT":
-        // Block inserts — skip for now (would need BLOCKS section parsing)
+      case "XLINE":
+      case "RAY":
+        entity = parseConstructionLineEntity(raw, layerId, color, lineWidth, lineStyle);
         break;
+      case "INSERT": {
+        // Attributes follow the INSERT up to SEQEND — not imported
+        if (getNum(raw.groups, 66, 0) === 1) {
+          while (i + 1 < rawEntities.length && rawEntities[i + 1].type !== "SEQEND") i++;
+          i++;
+        }
+        const { columns, rows } = insertArraySize(raw);
+        if (columns * rows > MAX_INSERT_ARRAY) {
+          countSkipped(stats, "MINSERT");
+          continue;
+        }
+        const refs = parseInsertEntities(raw, pctx.blockIds, layerId, color, lineWidth, lineStyle);
+        if (refs.length > 0) {
+          entities.push(...refs.map(decorate));
+          stats.byType[raw.type] = (stats.byType[raw.type] || 0) + 1;
+        } else {
+          countSkipped(stats, raw.type);
+        }
+        continue;
+      }
       case "HATCH":
-        // Hatch entities are complex — skip for now
+        entity = parseHatchEntity(raw, layerId, color, lineWidth, lineStyle);
         break;
       default:
         break;
     }
 
     if (entity) {
-      entities.push(entity);
+      entities.push(decorate(entity));
       stats.byType[raw.type] = (stats.byType[raw.type] || 0) + 1;
     } else {
-      stats.skipped++;
+      countSkipped(stats, raw.type);
     }
   }
 
-  return { entities, layers: dxfLayers, stats };
+  return entities;
+}
+
+// ============================================================
+// HEADER section — drawing units and extents
+// ============================================================
+function parseHeader(section: DXFSection | undefined): DXFHeader {
+  const vars = new Map<string, DXFGroup[]>();
+  let current: DXFGroup[] | null = null;
+  for (const g of section?.groups ?? []) {
+    if (g.code === 9) vars.set(g.value.toUpperCase(), current = []);
+    else current?.push(g);
+  }
+  const point = (name: string): Point | null => {
+    const v = vars.get(name);
+    if (!v) return null;
+    const x = getNum(v, 10, NaN), y = getNum(v, 20, NaN);
+    // Empty drawings report ±1e20 extents
+    return Number.isFinite(x) && Number.isFinite(y) && Math.abs(x) < 1e19 && Math.abs(y) < 1e19 ? { x, y } : null;
+  };
+  return {
+    version: getVal(vars.get("$ACADVER") ?? [], 1),
+    insUnits: getNum(vars.get("$INSUNITS") ?? [], 70, 0),
+    lUnits: getNum(vars.get("$LUNITS") ?? [], 70, 2),
+    extMin: point("$EXTMIN"),
+    extMax: point("$EXTMAX"),
+  };
+}
+
+/**
+ * $INSUNITS code the drawing was made in. Unitless drawings with
+ * architectural or engineering display units are taken to be in inches.
+ */
+function detectUnits(header: DXFHeader): number {
+  if (header.insUnits > 0) return header.insUnits;
+  return header.lUnits === 3 || header.lUnits === 4 ? 1 : 0;
+}
+
+// ============================================================
+// Main parser
+// ============================================================
+export function parseDXF(content: string): DXFImportResult {
+  const groups = tokenize(content);
+  const sections = splitSections(groups);
+
+  // Parse layers from TABLES section
+  const tablesSection = sections.find(s => s.name === "TABLES");
+  const lineTypes = parseLineTypes(tablesSection);
+  const { layers: dxfLayers, styles: layerStyles } = parseLayers(tablesSection, lineTypes);
+
+  // Build layer lookup
+  const layerMap = new Map<string, Layer>();
+  for (const l of dxfLayers) {
+    layerMap.set(l.name.toLowerCase(), l);
+  }
+
+  // Ensure default layer exists
+  if (!layerMap.has("0")) {
+    const defaultLayer: Layer = { id: "layer-0", name: "0", color: "#ffffff", visible: true, locked: false, active: true };
+    dxfLayers.unshift(defaultLayer);
+    layerMap.set("0", defaultLayer);
+  }
+
+  // Make first layer active
+  let hasActive = false;
+  for (const l of dxfLayers) {
+    if (l.active) { hasActive = true; break; }
+  }
+  if (!hasActive && dxfLayers.length > 0) {
+    dxfLayers[0].active = true;
+  }
+
+  const entitiesSection = sections.find(s => s.name === "ENTITIES");
+  const rawEntities = entitiesSection ? splitEntities(entitiesSection.groups) : [];
+
+  // Block definitions: named blocks always, anonymous (*U, *D…) only when inserted
+  const rawBlocks = splitBlocks(sections.find(s => s.name === "BLOCKS")).filter(b => b.name && !isLayoutBlock(b.name));
+  const inserted = new Set<string>();
+  for (const raw of [...rawEntities, ...rawBlocks.flatMap(b => b.body)]) {
+    if (raw.type === "INSERT") inserted.add(getVal(raw.groups, 2).toUpperCase());
+  }
+  const usedBlocks = rawBlocks.filter(b => !b.name.startsWith("*") || inserted.has(b.name.toUpperCase()));
+  const blockIds = new Map<string, string>();
+  for (const b of usedBlocks) blockIds.set(b.name.toUpperCase(), `block-${generateId()}`);
+
+  const pctx: ParseContext = { layerMap, layerStyles, lineTypes, blockIds };
+  const blockStats: ParseStats = { totalParsed: 0, skipped: 0, byType: {}, skippedByType: {} };
+  const blocks: BlockDefinition[] = usedBlocks.map(b => ({
+    id: blockIds.get(b.name.toUpperCase())!,
+    name: b.name,
+    basePoint: b.basePoint,
+    entities: parseEntityList(b.body, pctx, blockStats),
+  }));
+
+  const stats: ParseStats = { totalParsed: 0, skipped: 0, byType: {}, skippedByType: {} };
+  const entities = parseEntityList(rawEntities, pctx, stats);
+
+  const header = parseHeader(sections.find(s => s.name === "HEADER"));
+  const { extMin, extMax } = header;
+  const extents = extMin && extMax && extMax.x >= extMin.x && extMax.y >= extMin.y
+    ? { minX: extMin.x, minY: -extMax.y, maxX: extMax.x, maxY: -extMin.y }
+    : getEntitiesBBoxWithBlocks(entities, blocks);
+
+  return { entities, layers: dxfLayers, blocks, stats, header, units: detectUnits(header), extents };
+}
+
+// ============================================================
+// Unit conversion — scale imported content about the origin
+// ============================================================
+function scaleImportedEntity(e: CADEntity, factor: number): CADEntity {
+  const origin = { x: 0, y: 0 };
+  // Block contents are scaled with their definitions, so references only move
+  let data = e.data.type === "blockref"
+    ? { ...e.data, insertPoint: { x: e.data.insertPoint.x * factor, y: e.data.insertPoint.y * factor } }
+    : scaleEntityData(e.data, origin, factor);
+  // Hatch pattern spacing is in drawing units too, like the boundary it fills
+  if (data.type === "hatch") data = { ...data, patternScale: data.patternScale * factor };
+  const scaled: CADEntity = { ...e, data };
+  if (e.linePattern) scaled.linePattern = e.linePattern.map(v => v * factor);
+  return scaled;
+}
+
+/** Convert an import result from `units` to `targetUnits` ($INSUNITS codes) */
+export function convertImportUnits(result: DXFImportResult, targetUnits: number): DXFImportResult {
+  const factor = unitScale(result.units, targetUnits);
+  if (factor === 1) return result;
+  const { extents } = result;
+  return {
+    ...result,
+    entities: result.entities.map(e => scaleImportedEntity(e, factor)),
+    blocks: result.blocks.map(b => ({
+      ...b,
+      basePoint: { x: b.basePoint.x * factor, y: b.basePoint.y * factor },
+      entities: b.entities.map(e => scaleImportedEntity(e, factor)),
+    })),
+    units: targetUnits,
+    extents: extents && { minX: extents.minX * factor, minY: extents.minY * factor, maxX: extents.maxX * factor, maxY: extents.maxY * factor },
+  };
 }
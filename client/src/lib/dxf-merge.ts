@@ -0,0 +1,83 @@
+// ============================================================
+// DXF Merge — Import DXF content into the current drawing
+// Layers are reconciled by name; content is placed at an
+// insertion point, either as loose entities or as a new block.
+// ============================================================
+
+import type { Point, CADEntity, Layer, BlockDefinition, LayerConflictMode, PendingImport } from "./cad-types";
+import { generateId } from "./cad-utils";
+import { copyEntities } from "./copy-utils";
+import { createBlockRefEntity } from "./block-utils";
+
+export type { LayerConflictMode, ImportPlacement, DXFMergeOptions, PendingImport } from "./cad-types";
+
+export interface DXFMergeResult {
+  entities: CADEntity[];
+  layers: Layer[];
+  blocks: BlockDefinition[];
+}
+
+/**
+ * Merge incoming layers into the existing list by (case-insensitive) name.
+ * Returns the combined list and a map from incoming layer ids to final ids.
+ */
+export function mergeLayers(existing: Layer[], incoming: Layer[], mode: LayerConflictMode): { layers: Layer[]; idMap: Map<string, string> } {
+  const layers = existing.map(l => ({ ...l }));
+  const idMap = new Map<string, string>();
+  for (const layer of incoming) {
+    const match = layers.find(l => l.name.toLowerCase() === layer.name.toLowerCase());
+    if (match) {
+      idMap.set(layer.id, match.id);
+      if (mode === "overwrite") Object.assign(match, { color: layer.color, visible: layer.visible, locked: layer.locked });
+      continue;
+    }
+    const id = layers.some(l => l.id === layer.id) ? `layer-${generateId()}` : layer.id;
+    idMap.set(layer.id, id);
+    layers.push({ ...layer, id, active: false });
+  }
+  return { layers, idMap };
+}
+
+/** Point entities (and block contents) at the reconciled layer ids */
+export function remapLayerIds(entities: CADEntity[], idMap: Map<string, string>): CADEntity[] {
+  return entities.map(e => ({ ...e, layerId: idMap.get(e.layerId) ?? e.layerId }));
+}
+
+function uniqueBlockName(name: string, taken: Set<string>): string {
+  let candidate = name, i = 2;
+  while (taken.has(candidate.toLowerCase())) candidate = `${name} (${i++})`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Build everything needed to merge a parsed DXF into the drawing with its
+ * origin at `insertPoint`. New blocks are renamed when their names clash.
+ */
+export function buildDXFMerge(
+  pending: PendingImport,
+  existingLayers: Layer[],
+  existingBlocks: BlockDefinition[],
+  insertPoint: Point,
+  activeLayerId: string,
+  activeColor: string
+): DXFMergeResult {
+  const { result, options } = pending;
+  const { layers, idMap } = mergeLayers(existingLayers, result.layers, options.layerConflict);
+  const taken = new Set(existingBlocks.map(b => b.name.toLowerCase()));
+  const blocks: BlockDefinition[] = result.blocks.map(b => ({ ...b, name: uniqueBlockName(b.name, taken), entities: remapLayerIds(b.entities, idMap) }));
+  const imported = remapLayerIds(result.entities, idMap);
+
+  if (options.placement === "block") {
+    const block: BlockDefinition = {
+      id: `block-${generateId()}`,
+      name: uniqueBlockName(options.blockName.trim() || pending.fileName.replace(/\.dxf$/i, ""), taken),
+      entities: imported,
+      basePoint: { x: 0, y: 0 },
+    };
+    const ref = createBlockRefEntity(block.id, insertPoint, 1, 1, 0, activeLayerId, activeColor);
+    return { entities: [ref], layers, blocks: [...blocks, block] };
+  }
+
+  return { entities: copyEntities(imported, insertPoint.x, insertPoint.y), layers, blocks };
+}
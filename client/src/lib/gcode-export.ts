@@ -0,0 +1,472 @@
+// ============================================================
+// G-code Export — Laser/plasma toolpaths from drawing contours
+// Kerf compensation, interior-first ordering, lead-ins/outs,
+// G2/G3 arcs and per-layer feed and power
+// ============================================================
+
+import type { Point, CADEntity, Layer, BlockDefinition, GCodeSettings, LayerCutSettings, PolylineData } from "./cad-types";
+import { distance, generateId } from "./cad-utils";
+import { offsetEntity } from "./offset-utils";
+import { splineCurvePoints } from "./spline-utils";
+import { explodeBlockRef } from "./block-utils";
+
+export const DEFAULT_LAYER_CUT: LayerCutSettings = { enabled: true, feed: 1500, power: 80 };
+
+/** Settings for a layer, falling back to the defaults */
+export function layerCutSettings(settings: GCodeSettings, layerId: string): LayerCutSettings {
+  return settings.layers[layerId] ?? DEFAULT_LAYER_CUT;
+}
+
+/** Distance within which contour ends are joined */
+const JOIN_TOLERANCE = 1e-3;
+const TWO_PI = Math.PI * 2;
+
+// ============================================================
+// Contours
+// ============================================================
+
+/** Arcs are in drawing coordinates; a positive sweep runs toward increasing angle */
+type Segment =
+  | { kind: "line"; start: Point; end: Point; lead?: boolean }
+  | { kind: "arc"; start: Point; end: Point; center: Point; radius: number; sweep: number; lead?: boolean };
+
+interface Contour {
+  layerId: string;
+  segments: Segment[];
+  closed: boolean;
+  /** The single entity a closed contour came from, offset directly for kerf */
+  source?: CADEntity;
+}
+
+function lineSeg(start: Point, end: Point): Segment {
+  return { kind: "line", start, end };
+}
+
+function arcSeg(center: Point, radius: number, startAngle: number, sweep: number): Segment {
+  const at = (a: number) => ({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius });
+  return { kind: "arc", start: at(startAngle), end: at(startAngle + sweep), center, radius, sweep };
+}
+
+function pointsToSegments(points: Point[], closed: boolean): Segment[] {
+  const pts = points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > JOIN_TOLERANCE);
+  if (closed && pts.length > 1 && distance(pts[0], pts[pts.length - 1]) <= JOIN_TOLERANCE) pts.pop();
+  const segs: Segment[] = [];
+  for (let i = 0; i < pts.length - 1; i++) segs.push(lineSeg(pts[i], pts[i + 1]));
+  if (closed && pts.length > 2) segs.push(lineSeg(pts[pts.length - 1], pts[0]));
+  return segs;
+}
+
+function ellipsePoints(center: Point, rx: number, ry: number, rotation: number): Point[] {
+  const cos = Math.cos(rotation), sin = Math.sin(rotation);
+  return Array.from({ length: 72 }, (_, i) => {
+    const a = (i / 72) * TWO_PI;
+    const x = rx * Math.cos(a), y = ry * Math.sin(a);
+    return { x: center.x + x * cos - y * sin, y: center.y + x * sin + y * cos };
+  });
+}
+
+/** Cuttable contour of one entity, or null for entities that are not cut (text, hatch, images…) */
+function entityContour(e: CADEntity): Contour | null {
+  const d = e.data;
+  const contour = (segments: Segment[], closed: boolean): Contour | null =>
+    segments.length > 0 ? { layerId: e.layerId, segments, closed, source: closed ? e : undefined } : null;
+  switch (d.type) {
+    case "line": return contour(pointsToSegments([d.start, d.end], false), false);
+    case "arc": {
+      let sweep = (d.endAngle - d.startAngle) % TWO_PI;
+      if (sweep <= 0) sweep += TWO_PI;
+      return contour([arcSeg(d.center, d.radius, d.startAngle, sweep)], false);
+    }
+    case "circle":
+      // Two half circles: a full-circle G2 is ambiguous on many controllers
+      return d.radius > 0 ? contour([arcSeg(d.center, d.radius, 0, Math.PI), arcSeg(d.center, d.radius, Math.PI, Math.PI)], true) : null;
+    case "rectangle": {
+      const { x, y } = d.topLeft;
+      return contour(pointsToSegments([{ x, y }, { x: x + d.width, y }, { x: x + d.width, y: y + d.height }, { x, y: y + d.height }], true), true);
+    }
+    case "polyline": return contour(pointsToSegments(d.points, d.closed), d.closed && d.points.length >= 3);
+    case "spline": return contour(pointsToSegments(splineCurvePoints(d), d.closed), d.closed);
+    case "ellipse": return contour(pointsToSegments(ellipsePoints(d.center, d.radiusX, d.radiusY, d.rotation), true), true);
+    default: return null;
+  }
+}
+
+function reverseSegment(s: Segment): Segment {
+  return s.kind === "line" ? { ...s, start: s.end, end: s.start } : { ...s, start: s.end, end: s.start, sweep: -s.sweep };
+}
+
+function reverseContour(c: Contour): Contour {
+  return { ...c, segments: c.segments.map(reverseSegment).reverse() };
+}
+
+function contourStart(c: Contour): Point { return c.segments[0].start; }
+function contourEnd(c: Contour): Point { return c.segments[c.segments.length - 1].end; }
+
+/**
+ * Join open contours on the same layer whose ends meet, so outlines drawn
+ * as separate lines and arcs are cut (and compensated) as one closed path.
+ */
+function chainContours(contours: Contour[]): Contour[] {
+  const closed = contours.filter(c => c.closed);
+  const open = contours.filter(c => !c.closed);
+  const result: Contour[] = [...closed];
+  const used = new Array(open.length).fill(false);
+  for (let i = 0; i < open.length; i++) {
+    if (used[i]) continue;
+    used[i] = true;
+    let chain: Contour = { layerId: open[i].layerId, segments: [...open[i].segments], closed: false };
+    let extended = true;
+    while (extended && distance(contourStart(chain), contourEnd(chain)) > JOIN_TOLERANCE) {
+      extended = false;
+      for (let j = 0; j < open.length; j++) {
+        if (used[j] || open[j].layerId !== chain.layerId) continue;
+        const c = open[j];
+        const end = contourEnd(chain), start = contourStart(chain);
+        let next: Segment[] | null = null, prepend = false;
+        if (distance(end, contourStart(c)) <= JOIN_TOLERANCE) next = c.segments;
+        else if (distance(end, contourEnd(c)) <= JOIN_TOLERANCE) next = reverseContour(c).segments;
+        else if (distance(start, contourEnd(c)) <= JOIN_TOLERANCE) { next = c.segments; prepend = true; }
+        else if (distance(start, contourStart(c)) <= JOIN_TOLERANCE) { next = reverseContour(c).segments; prepend = true; }
+        if (!next) continue;
+        chain = { ...chain, segments: prepend ? [...next, ...chain.segments] : [...chain.segments, ...next] };
+        used[j] = true;
+        extended = true;
+        break;
+      }
+    }
+    chain.closed = chain.segments.length > 1 && distance(contourStart(chain), contourEnd(chain)) <= JOIN_TOLERANCE;
+    result.push(chain);
+  }
+  return result;
+}
+
+/** Contour flattened to points (arcs sampled every 5°), without the closing point */
+function flatten(c: Contour): Point[] {
+  const pts: Point[] = [];
+  for (const s of c.segments) {
+    pts.push(s.start);
+    if (s.kind === "arc") {
+      const a0 = Math.atan2(s.start.y - s.center.y, s.start.x - s.center.x);
+      const steps = Math.max(2, Math.ceil(Math.abs(s.sweep) / (Math.PI / 36)));
+      for (let i = 1; i < steps; i++) {
+        const a = a0 + s.sweep * (i / steps);
+        pts.push({ x: s.center.x + Math.cos(a) * s.radius, y: s.center.y + Math.sin(a) * s.radius });
+      }
+    }
+  }
+  if (!c.closed) pts.push(contourEnd(c));
+  return pts;
+}
+
+function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x, yi = polygon[i].y, xj = polygon[j].x, yj = polygon[j].y;
+    if ((yi > p.y) !== (yj > p.y) && p.x < (xj - xi) * (p.y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Shoelace area in drawing coordinates (Y down): positive runs clockwise on screen */
+function signedArea(pts: Point[]): number {
+  let a = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i], q = pts[(i + 1) % pts.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return a / 2;
+}
+
+// ============================================================
+// Kerf compensation
+// ============================================================
+
+/**
+ * Offset a closed contour by half the kerf away from the part: outward for
+ * outlines, inward for holes. Single circles, rectangles, ellipses and
+ * polylines go straight through offsetEntity; chained outlines are offset
+ * as a polyline (their arcs flattened). Null when the contour cannot be offset.
+ */
+function compensate(c: Contour, halfKerf: number, outward: boolean): Contour | null {
+  if (halfKerf <= 0 || !c.closed) return c;
+  const polygon = flatten(c);
+  const source: CADEntity = c.source && c.source.data.type !== "spline"
+    ? c.source
+    : { id: generateId(), type: "polyline", data: { type: "polyline", points: polygon, closed: true } as PolylineData, layerId: c.layerId, color: "", lineWidth: 1, lineStyle: "solid", visible: true, locked: false, selected: false };
+  const d = source.data;
+  let side: Point;
+  if (d.type === "circle" || d.type === "ellipse") {
+    const r = d.type === "circle" ? d.radius : Math.max(d.radiusX, d.radiusY);
+    side = outward ? { x: d.center.x + r * 2 + 1, y: d.center.y } : d.center;
+  } else if (d.type === "rectangle") {
+    side = outward ? { x: d.topLeft.x - 1, y: d.topLeft.y - 1 } : { x: d.topLeft.x + d.width / 2, y: d.topLeft.y + d.height / 2 };
+  } else if (d.type === "polyline") {
+    // offsetPolyline picks the side from the first segment's unit normal
+    const a = d.points[0], b = d.points[1];
+    const len = distance(a, b) || 1;
+    const n = { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const eps = Math.min(halfKerf, len) * 0.01;
+    const plusInside = pointInPolygon({ x: mid.x + n.x * eps, y: mid.y + n.y * eps }, d.points);
+    const sign = plusInside !== outward ? 1 : -1;
+    side = { x: mid.x + n.x * sign, y: mid.y + n.y * sign };
+  } else {
+    return null;
+  }
+  const offset = offsetEntity(source, halfKerf, side);
+  return offset && entityContour(offset);
+}
+
+// ============================================================
+// Toolpath
+// ============================================================
+
+interface CutOperation {
+  layerId: string;
+  segments: Segment[];
+}
+
+export interface Toolpath {
+  operations: CutOperation[];
+  /** Lower-left of the cut extents in drawing coordinates (the "extents" origin) */
+  extents: { minX: number; minY: number; maxX: number; maxY: number } | null;
+  /** `uncompensated` counts closed contours cut on the line because they could not be offset for the kerf */
+  stats: { contours: number; cutLength: number; rapidLength: number; cutMinutes: number; uncompensated: number };
+}
+
+function segmentLength(s: Segment): number {
+  return s.kind === "line" ? distance(s.start, s.end) : Math.abs(s.sweep) * s.radius;
+}
+
+/** Unit direction of travel at the start of a segment */
+function startTangent(s: Segment): Point {
+  if (s.kind === "line") {
+    const len = distance(s.start, s.end) || 1;
+    return { x: (s.end.x - s.start.x) / len, y: (s.end.y - s.start.y) / len };
+  }
+  const rx = (s.start.x - s.center.x) / s.radius, ry = (s.start.y - s.center.y) / s.radius;
+  return s.sweep > 0 ? { x: -ry, y: rx } : { x: ry, y: -rx };
+}
+
+/**
+ * Start a closed contour at the segment start nearest to a point. A starting
+ * line is split at its middle so the lead meets a straight edge, not a corner.
+ */
+function rotateToNearest(c: Contour, from: Point): Contour {
+  let best = 0;
+  c.segments.forEach((s, i) => { if (distance(s.start, from) < distance(c.segments[best].start, from)) best = i; });
+  const segments = [...c.segments.slice(best), ...c.segments.slice(0, best)];
+  const first = segments[0];
+  if (first.kind === "line") {
+    const mid = { x: (first.start.x + first.end.x) / 2, y: (first.start.y + first.end.y) / 2 };
+    segments.splice(0, 1, lineSeg(mid, first.end));
+    segments.push(lineSeg(first.start, mid));
+  }
+  return { ...c, segments };
+}
+
+/**
+ * Lead point off the start of a closed contour on the scrap side: outside
+ * an outline, inside a hole (shortened until it stays inside).
+ */
+function leadPoint(start: Point, tangent: Point, length: number, polygon: Point[], hole: boolean): Point | null {
+  if (length <= 0) return null;
+  const n = { x: -tangent.y, y: tangent.x };
+  const probe = Math.min(length, 0.01);
+  const sign = pointInPolygon({ x: start.x + n.x * probe, y: start.y + n.y * probe }, polygon) === hole ? 1 : -1;
+  for (let len = length; len > 1e-3; len /= 2) {
+    const p = { x: start.x + n.x * sign * len, y: start.y + n.y * sign * len };
+    if (pointInPolygon(p, polygon) === hole) return p;
+  }
+  return null;
+}
+
+function collectEntities(entities: CADEntity[], blocks: BlockDefinition[], depth = 0): CADEntity[] {
+  return entities.flatMap(e => {
+    if (e.data.type !== "blockref") return [e];
+    const blockId = e.data.blockId;
+    const block = blocks.find(b => b.id === blockId);
+    return block && depth < 8 ? collectEntities(explodeBlockRef(block, e.data, e.layerId, e.color), blocks, depth + 1) : [];
+  });
+}
+
+/**
+ * Plan the cut: contours on visible, enabled layers are chained, compensated
+ * for kerf, oriented (outlines clockwise, holes counter-clockwise as seen on
+ * the machine) and ordered so everything inside an outline is cut before it,
+ * nearest first. Open contours are cut on the line without leads.
+ */
+export function buildToolpath(entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[], settings: GCodeSettings): Toolpath {
+  const visible = new Set(layers.filter(l => l.visible && layerCutSettings(settings, l.id).enabled).map(l => l.id));
+  const raw = collectEntities(entities.filter(e => e.visible && visible.has(e.layerId)), blocks)
+    .map(entityContour)
+    .filter((c): c is Contour => c !== null);
+  const contours = chainContours(raw);
+  const polygons = contours.map(flatten);
+
+  // Closed contours containing each contour, judged on the uncompensated geometry
+  const areas = contours.map((c, i) => c.closed ? Math.abs(signedArea(polygons[i])) : 0);
+  const containers = contours.map((c, i) => contours
+    .map((o, j) => j)
+    .filter(j => j !== i && contours[j].closed && areas[j] > areas[i] && pointInPolygon(polygons[i][0], polygons[j])));
+
+  const halfKerf = Math.max(0, settings.kerf) / 2;
+  let uncompensated = 0;
+  const prepared = contours.map((c, i) => {
+    if (!c.closed) return c;
+    // Even depth: a part outline; odd depth: a hole in the part around it
+    const hole = containers[i].length % 2 === 1;
+    const compensated = compensate(c, halfKerf, !hole);
+    if (!compensated) uncompensated++;
+    let out = compensated ?? c;
+    // A positive drawing area runs clockwise on screen, and so on the machine once Y is flipped
+    const clockwise = signedArea(flatten(out)) > 0;
+    if (clockwise === hole) out = reverseContour(out);
+    return out;
+  });
+
+  const operations: CutOperation[] = [];
+  const done = new Array(contours.length).fill(false);
+  let position: Point = { x: 0, y: 0 };
+  let rapidLength = 0, cutLength = 0, cutMinutes = 0;
+  for (let count = 0; count < contours.length; count++) {
+    // Ready: nothing still uncut lies inside it
+    let best = -1, bestDist = Infinity;
+    for (let i = 0; i < contours.length; i++) {
+      if (done[i] || containers.some((cs, j) => !done[j] && cs.includes(i))) continue;
+      const c = prepared[i];
+      const d = c.closed
+        ? Math.min(...c.segments.map(s => distance(s.start, position)))
+        : Math.min(distance(contourStart(c), position), distance(contourEnd(c), position));
+      if (d < bestDist) { best = i; bestDist = d; }
+    }
+    if (best < 0) break;
+    done[best] = true;
+
+    let c = prepared[best];
+    const segments: Segment[] = [];
+    if (c.closed) {
+      c = rotateToNearest(c, position);
+      const start = contourStart(c);
+      const polygon = flatten(c);
+      const hole = containers[best].length % 2 === 1;
+      const tangent = startTangent(c.segments[0]);
+      const leadIn = leadPoint(start, tangent, settings.leadIn, polygon, hole);
+      const leadOut = leadPoint(start, tangent, settings.leadOut, polygon, hole);
+      if (leadIn) segments.push({ kind: "line", start: leadIn, end: start, lead: true });
+      segments.push(...c.segments);
+      if (leadOut) segments.push({ kind: "line", start, end: leadOut, lead: true });
+    } else {
+      if (distance(contourEnd(c), position) < distance(contourStart(c), position)) c = reverseContour(c);
+      segments.push(...c.segments);
+    }
+
+    const layer = layerCutSettings(settings, c.layerId);
+    const length = segments.reduce((sum, s) => sum + segmentLength(s), 0);
+    rapidLength += distance(position, segments[0].start);
+    cutLength += length;
+    cutMinutes += length / Math.max(1, layer.feed);
+    operations.push({ layerId: c.layerId, segments });
+    position = segments[segments.length - 1].end;
+  }
+
+  let extents: Toolpath["extents"] = null;
+  for (const op of operations) {
+    for (const p of flatten({ layerId: op.layerId, segments: op.segments, closed: false })) {
+      if (!extents) extents = { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+      else {
+        extents.minX = Math.min(extents.minX, p.x); extents.minY = Math.min(extents.minY, p.y);
+        extents.maxX = Math.max(extents.maxX, p.x); extents.maxY = Math.max(extents.maxY, p.y);
+      }
+    }
+  }
+  return { operations, extents, stats: { contours: operations.length, cutLength, rapidLength, cutMinutes, uncompensated } };
+}
+
+// ============================================================
+// G-code
+// ============================================================
+
+function fmt(v: number): string {
+  return String(+v.toFixed(3) || 0);
+}
+
+/**
+ * Write the toolpath as G-code (mm, absolute). The drawing's Y-down
+ * coordinates are flipped so the machine sees the part as drawn.
+ * Laser jobs use M4 (power scaled with speed), plasma M3 with a pierce dwell.
+ */
+export function toolpathToGCode(toolpath: Toolpath, layers: Layer[], settings: GCodeSettings): string {
+  const ox = settings.origin === "extents" && toolpath.extents ? toolpath.extents.minX : 0;
+  const oy = settings.origin === "extents" && toolpath.extents ? toolpath.extents.maxY : 0;
+  const X = (p: Point) => fmt(p.x - ox);
+  const Y = (p: Point) => fmt(oy - p.y);
+  const names = new Map(layers.map(l => [l.id, l.name]));
+  const { stats } = toolpath;
+
+  const lines: string[] = [
+    `; CAD Studio toolpath (${settings.machine}, kerf ${fmt(settings.kerf)} mm)`,
+    `; ${stats.contours} contours, cut ${fmt(stats.cutLength)} mm, rapid ${fmt(stats.rapidLength)} mm, about ${stats.cutMinutes.toFixed(1)} min cutting`,
+    ...(stats.uncompensated ? [`; WARNING: ${stats.uncompensated} closed contours are cut on the line without kerf compensation`] : []),
+    "G21 ; millimeters",
+    "G90 ; absolute positioning",
+    "G17 ; XY plane",
+    "M5",
+  ];
+  toolpath.operations.forEach((op, i) => {
+    const layer = layerCutSettings(settings, op.layerId);
+    const power = Math.round(Math.max(0, Math.min(100, layer.power)) / 100 * settings.maxPower);
+    lines.push(`; contour ${i + 1} (${names.get(op.layerId) ?? op.layerId})`);
+    lines.push(`G0 X${X(op.segments[0].start)} Y${Y(op.segments[0].start)}`);
+    if (settings.machine === "plasma") {
+      lines.push(`M3 S${power}`);
+      if (settings.pierceDelay > 0) lines.push(`G4 P${fmt(settings.pierceDelay)}`);
+    } else {
+      lines.push(`M4 S${power}`);
+    }
+    op.segments.forEach((s, j) => {
+      const feed = j === 0 ? ` F${fmt(layer.feed)}` : "";
+      if (s.kind === "line") {
+        lines.push(`G1 X${X(s.end)} Y${Y(s.end)}${feed}`);
+      } else {
+        // Increasing drawing angle is clockwise once Y points up
+        const code = s.sweep > 0 ? "G2" : "G3";
+        lines.push(`${code} X${X(s.end)} Y${Y(s.end)} I${fmt(s.center.x - s.start.x)} J${fmt(s.start.y - s.center.y)}${feed}`);
+      }
+    });
+    lines.push("M5");
+  });
+  lines.push("G0 X0 Y0", "M2", "");
+  return lines.join("\n");
+}
+
+// ============================================================
+// Canvas preview
+// ============================================================
+
+/** Overlay rapids (dashed), leads and cuts, with pierce points, on the canvas */
+export function drawToolpath(ctx: CanvasRenderingContext2D, toolpath: Toolpath, toScreen: (x: number, y: number) => Point) {
+  ctx.save();
+  ctx.lineWidth = 1;
+  let position: Point = { x: 0, y: 0 };
+  for (const op of toolpath.operations) {
+    const start = op.segments[0].start;
+    const a = toScreen(position.x, position.y), b = toScreen(start.x, start.y);
+    ctx.strokeStyle = "#f97316";
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+    ctx.setLineDash([]);
+    for (const s of op.segments) {
+      ctx.strokeStyle = s.lead ? "#eab308" : "#22d3ee";
+      ctx.lineWidth = s.lead ? 1 : 1.5;
+      ctx.beginPath();
+      const pts = flatten({ layerId: op.layerId, segments: [s], closed: false }).map(p => toScreen(p.x, p.y));
+      pts.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    }
+    ctx.fillStyle = "#ef4444";
+    ctx.beginPath(); ctx.arc(b.x, b.y, 2.5, 0, TWO_PI); ctx.fill();
+    position = op.segments[op.segments.length - 1].end;
+  }
+  ctx.restore();
+}
@@ -0,0 +1,300 @@
+// ============================================================
+// GeoJSON — Import features as points and polylines placed
+// through the drawing georeference, and export chosen layers
+// as a FeatureCollection
+// ============================================================
+
+import type { Point, CADEntity, EntityData, Layer, Georeference } from "./cad-types";
+import { generateId } from "./cad-utils";
+import { getEntityBoundary } from "./hatch-utils";
+import { splineCurvePoints } from "./spline-utils";
+import { drawingToGround, groundToDrawing } from "./georeference";
+
+type Position = number[];
+
+interface Geometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: unknown;
+}
+
+/** A feature reduced to its geometry and properties */
+export interface GeoJSONFeature {
+  geometry: Geometry;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJSONImportOptions {
+  layerId: string;
+  color: string;
+}
+
+export interface GeoJSONImportResult {
+  entities: CADEntity[];
+  /** `holes` counts the inner polygon rings, which come in as outlines of their own */
+  stats: { points: number; lines: number; polygons: number; holes: number; skipped: Record<string, number> };
+  /** Drawing extents of the imported entities */
+  extents: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+export interface GeoJSONExportResult {
+  json: string;
+  features: number;
+  /** Entity types that have no GeoJSON equivalent, with counts */
+  skipped: Record<string, number>;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isGeometry(v: unknown): v is Geometry {
+  return isObject(v) && typeof v.type === "string";
+}
+
+/** Members of a GeometryCollection */
+function childGeometries(g: Geometry): Geometry[] {
+  return Array.isArray(g.geometries) ? g.geometries.filter(isGeometry) : [];
+}
+
+function isPosition(v: unknown): v is Position {
+  return Array.isArray(v) && v.length >= 2 && typeof v[0] === "number" && typeof v[1] === "number";
+}
+
+// ============================================================
+// Reading
+// ============================================================
+
+/** Flatten a GeoJSON document (FeatureCollection, Feature or bare geometry) into features */
+export function readGeoJSON(text: string): GeoJSONFeature[] {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (!isObject(root) || typeof root.type !== "string") throw new Error("The file is not a GeoJSON object");
+  const features: GeoJSONFeature[] = [];
+  const addFeature = (f: Record<string, unknown>) => {
+    if (!isGeometry(f.geometry)) return;
+    const properties: Record<string, unknown> = isObject(f.properties) ? { ...f.properties } : {};
+    if ((typeof f.id === "string" || typeof f.id === "number") && !("id" in properties)) properties.id = f.id;
+    features.push({ geometry: f.geometry, properties });
+  };
+  if (root.type === "FeatureCollection") {
+    if (!Array.isArray(root.features)) throw new Error("FeatureCollection has no features array");
+    root.features.filter(isObject).forEach(addFeature);
+  } else if (root.type === "Feature") {
+    addFeature(root);
+  } else if (isGeometry(root)) {
+    features.push({ geometry: root, properties: {} });
+  }
+  return features;
+}
+
+/** Every position in a geometry, for extents */
+function positions(g: Geometry): Position[] {
+  if (g.type === "GeometryCollection") return childGeometries(g).flatMap(positions);
+  const out: Position[] = [];
+  const walk = (c: unknown) => {
+    if (isPosition(c)) out.push(c);
+    else if (Array.isArray(c)) c.forEach(walk);
+  };
+  walk(g.coordinates);
+  return out;
+}
+
+/** Ground extents of the features (lon/lat or easting/northing) */
+export function geoJSONExtents(features: GeoJSONFeature[]): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const f of features) {
+    for (const [x, y] of positions(f.geometry)) {
+      minX = Math.min(minX, x); minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+    }
+  }
+  return minX <= maxX ? { minX, minY, maxX, maxY } : null;
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+/**
+ * Convert features into entities: Point/MultiPoint become points,
+ * LineString/MultiLineString open polylines and every Polygon ring
+ * a closed polyline; holes are counted so the import can report that they
+ * are plain outlines. Feature properties are kept as entity metadata.
+ */
+export function geoJSONToEntities(features: GeoJSONFeature[], geo: Georeference, options: GeoJSONImportOptions): GeoJSONImportResult {
+  const entities: CADEntity[] = [];
+  const stats: GeoJSONImportResult["stats"] = { points: 0, lines: 0, polygons: 0, holes: 0, skipped: {} };
+  const skip = (type: string) => { stats.skipped[type] = (stats.skipped[type] ?? 0) + 1; };
+  const toDrawing = (c: Position) => groundToDrawing({ x: c[0], y: c[1] }, geo);
+
+  const add = (data: EntityData, properties: Record<string, unknown>) => {
+    const entity: CADEntity = {
+      id: generateId(), type: data.type, data, layerId: options.layerId, color: options.color,
+      lineWidth: 1, lineStyle: "solid", visible: true, locked: false, selected: false,
+    };
+    if (Object.keys(properties).length > 0) entity.metadata = { ...properties };
+    entities.push(entity);
+  };
+  const addPoint = (c: unknown, props: Record<string, unknown>) => {
+    if (!isPosition(c)) return;
+    add({ type: "point", position: toDrawing(c) }, props);
+    stats.points++;
+  };
+  const addLine = (c: unknown, props: Record<string, unknown>) => {
+    const pts = Array.isArray(c) ? c.filter(isPosition).map(toDrawing) : [];
+    if (pts.length < 2) return;
+    add({ type: "polyline", points: pts, closed: false }, props);
+    stats.lines++;
+  };
+  const addPolygon = (c: unknown, props: Record<string, unknown>) => {
+    if (!Array.isArray(c)) return;
+    let added = false;
+    c.forEach((ring, i) => {
+      const pts = Array.isArray(ring) ? ring.filter(isPosition).map(toDrawing) : [];
+      // GeoJSON rings repeat the first position at the end
+      if (pts.length > 1 && pts[0].x === pts[pts.length - 1].x && pts[0].y === pts[pts.length - 1].y) pts.pop();
+      if (pts.length < 3) return;
+      add({ type: "polyline", points: pts, closed: true }, props);
+      added = true;
+      if (i > 0) stats.holes++;
+    });
+    if (added) stats.polygons++;
+  };
+
+  const convert = (g: Geometry, props: Record<string, unknown>) => {
+    const c = g.coordinates;
+    switch (g.type) {
+      case "Point": addPoint(c, props); break;
+      case "MultiPoint": if (Array.isArray(c)) c.forEach(p => addPoint(p, props)); break;
+      case "LineString": addLine(c, props); break;
+      case "MultiLineString": if (Array.isArray(c)) c.forEach(l => addLine(l, props)); break;
+      case "Polygon": addPolygon(c, props); break;
+      case "MultiPolygon": if (Array.isArray(c)) c.forEach(p => addPolygon(p, props)); break;
+      case "GeometryCollection": childGeometries(g).forEach(child => convert(child, props)); break;
+      default: skip(String(g.type));
+    }
+  };
+  features.forEach(f => convert(f.geometry, f.properties));
+
+  let extents: GeoJSONImportResult["extents"] = null;
+  for (const e of entities) {
+    const pts = e.data.type === "point" ? [e.data.position] : e.data.type === "polyline" ? e.data.points : [];
+    for (const p of pts) {
+      if (!extents) extents = { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+      else {
+        extents.minX = Math.min(extents.minX, p.x); extents.minY = Math.min(extents.minY, p.y);
+        extents.maxX = Math.max(extents.maxX, p.x); extents.maxY = Math.max(extents.maxY, p.y);
+      }
+    }
+  }
+  return { entities, stats, extents };
+}
+
+// ============================================================
+// Export
+// ============================================================
+
+function arcPoints(center: Point, radius: number, start: number, end: number): Point[] {
+  if (end < start) end += Math.PI * 2;
+  const steps = Math.max(8, Math.ceil((end - start) / (Math.PI / 32)));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const a = start + (end - start) * (i / steps);
+    return { x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius };
+  });
+}
+
+function ellipsePoints(d: Extract<EntityData, { type: "ellipse" }>): Point[] {
+  const cos = Math.cos(d.rotation), sin = Math.sin(d.rotation);
+  return Array.from({ length: 64 }, (_, i) => {
+    const a = (i / 64) * Math.PI * 2;
+    const x = d.radiusX * Math.cos(a), y = d.radiusY * Math.sin(a);
+    return { x: d.center.x + x * cos - y * sin, y: d.center.y + x * sin + y * cos };
+  });
+}
+
+/** GeoJSON geometry in drawing coordinates; rings are left open */
+function entityGeometry(e: CADEntity): { type: "Point"; point: Point } | { type: "LineString"; points: Point[] } | { type: "Polygon"; rings: Point[][] } | null {
+  const d = e.data;
+  switch (d.type) {
+    case "point": return { type: "Point", point: d.position };
+    case "text": return { type: "Point", point: d.position };
+    case "line": return { type: "LineString", points: [d.start, d.end] };
+    case "arc": return { type: "LineString", points: arcPoints(d.center, d.radius, d.startAngle, d.endAngle) };
+    case "polyline":
+      if (d.closed && d.points.length >= 3) return { type: "Polygon", rings: [d.points] };
+      return d.points.length >= 2 ? { type: "LineString", points: d.points } : null;
+    case "spline": {
+      let pts = splineCurvePoints(d);
+      // Closed curves end where they start; the ring is closed when written
+      const last = pts[pts.length - 1];
+      if (d.closed && pts.length > 1 && pts[0].x === last.x && pts[0].y === last.y) pts = pts.slice(0, -1);
+      if (d.closed && pts.length >= 3) return { type: "Polygon", rings: [pts] };
+      return pts.length >= 2 ? { type: "LineString", points: pts } : null;
+    }
+    case "ellipse": return { type: "Polygon", rings: [ellipsePoints(d)] };
+    case "circle":
+    case "rectangle": {
+      const ring = getEntityBoundary(e);
+      return ring ? { type: "Polygon", rings: [ring] } : null;
+    }
+    case "hatch":
+      return d.boundary.length >= 3 ? { type: "Polygon", rings: [d.boundary, ...(d.islands ?? []).filter(r => r.length >= 3)] } : null;
+    default:
+      return null;
+  }
+}
+
+/** Signed area of a ring in ground coordinates (positive = counter-clockwise) */
+function ringArea(ring: Position[]): number {
+  let a = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i], [x2, y2] = ring[(i + 1) % ring.length];
+    a += x1 * y2 - x2 * y1;
+  }
+  return a / 2;
+}
+
+/**
+ * Export the entities on the chosen layers as a FeatureCollection in ground
+ * coordinates. Curves are flattened, closed shapes become polygons (hatch
+ * islands become holes) and text becomes a point carrying its content.
+ * Each feature's properties are the entity metadata plus its layer name.
+ */
+export function exportToGeoJSON(entities: CADEntity[], layers: Layer[], layerIds: string[], geo: Georeference): GeoJSONExportResult {
+  const chosen = new Set(layerIds);
+  const layerNames = new Map(layers.map(l => [l.id, l.name]));
+  const digits = geo.system === "geographic" ? 8 : 3;
+  const round = (v: number) => +v.toFixed(digits);
+  const toGround = (p: Point): Position => { const g = drawingToGround(p, geo); return [round(g.x), round(g.y)]; };
+  // RFC 7946: exterior rings counter-clockwise, holes clockwise, first position repeated
+  const closeRing = (ring: Point[], hole: boolean): Position[] => {
+    const pts = ring.map(toGround);
+    if ((ringArea(pts) > 0) === hole) pts.reverse();
+    pts.push(pts[0]);
+    return pts;
+  };
+
+  const features: unknown[] = [];
+  const skipped: Record<string, number> = {};
+  for (const e of entities) {
+    if (!chosen.has(e.layerId) || !e.visible) continue;
+    const g = entityGeometry(e);
+    if (!g) { skipped[e.type] = (skipped[e.type] ?? 0) + 1; continue; }
+    const geometry =
+      g.type === "Point" ? { type: "Point", coordinates: toGround(g.point) }
+      : g.type === "LineString" ? { type: "LineString", coordinates: g.points.map(toGround) }
+      : { type: "Polygon", coordinates: g.rings.map((r, i) => closeRing(r, i > 0)) };
+    const properties: Record<string, unknown> = { ...e.metadata, layer: layerNames.get(e.layerId) ?? e.layerId };
+    if (e.data.type === "text") properties.text = e.data.content;
+    features.push({ type: "Feature", geometry, properties });
+  }
+  const collection: Record<string, unknown> = { type: "FeatureCollection", features };
+  // Projected coordinates are outside RFC 7946; name the system with the legacy crs member
+  if (geo.system === "projected" && geo.crsName) collection.crs = { type: "name", properties: { name: geo.crsName } };
+  return { json: JSON.stringify(collection, null, 2), features: features.length, skipped };
+}
@@ -0,0 +1,87 @@
+// ============================================================
+// Georeference — Mapping between drawing coordinates and
+// geographic (WGS84 lon/lat) or projected (easting/northing)
+// ground coordinates
+// ============================================================
+
+import type { Point, Georeference } from "./cad-types";
+
+/** WGS84 semi-major axis in meters */
+const EARTH_RADIUS = 6378137;
+const DEG = Math.PI / 180;
+
+/** Meters per drawing unit; drawings are in millimeters */
+export const DEFAULT_UNIT_SCALE = 0.001;
+
+// ============================================================
+// Local frame
+// ============================================================
+
+/**
+ * Offset of a drawing point from the reference point in meters, east/north.
+ * Drawing Y grows downward, so it is flipped to point north.
+ */
+function toLocal(p: Point, geo: Georeference): Point {
+  const x = (p.x - geo.drawingPoint.x) * geo.unitScale;
+  const y = -(p.y - geo.drawingPoint.y) * geo.unitScale;
+  const cos = Math.cos(geo.rotation * DEG), sin = Math.sin(geo.rotation * DEG);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+function fromLocal(m: Point, geo: Georeference): Point {
+  const cos = Math.cos(geo.rotation * DEG), sin = Math.sin(geo.rotation * DEG);
+  const x = m.x * cos + m.y * sin, y = -m.x * sin + m.y * cos;
+  return { x: geo.drawingPoint.x + x / geo.unitScale, y: geo.drawingPoint.y - y / geo.unitScale };
+}
+
+// ============================================================
+// Conversion
+// ============================================================
+
+/**
+ * Ground coordinates of a drawing point: lon/lat in degrees, or easting/northing.
+ * Geographic positions use an equirectangular projection about the reference
+ * point, which is accurate to well under a meter across a site of a few km.
+ */
+export function drawingToGround(p: Point, geo: Georeference): Point {
+  const m = toLocal(p, geo);
+  if (geo.system === "projected") return { x: geo.groundPoint.x + m.x, y: geo.groundPoint.y + m.y };
+  const cosLat = Math.max(1e-9, Math.cos(geo.groundPoint.y * DEG));
+  return {
+    x: geo.groundPoint.x + m.x / (EARTH_RADIUS * cosLat) / DEG,
+    y: geo.groundPoint.y + m.y / EARTH_RADIUS / DEG,
+  };
+}
+
+/** Drawing point for ground coordinates (the inverse of drawingToGround) */
+export function groundToDrawing(c: Point, geo: Georeference): Point {
+  if (geo.system === "projected") return fromLocal({ x: c.x - geo.groundPoint.x, y: c.y - geo.groundPoint.y }, geo);
+  const cosLat = Math.max(1e-9, Math.cos(geo.groundPoint.y * DEG));
+  return fromLocal({
+    x: (c.x - geo.groundPoint.x) * DEG * EARTH_RADIUS * cosLat,
+    y: (c.y - geo.groundPoint.y) * DEG * EARTH_RADIUS,
+  }, geo);
+}
+
+/**
+ * Georeference that places the center of some ground extents at the drawing
+ * origin, guessing the system from the coordinate range.
+ */
+export function suggestGeoreference(extents: { minX: number; minY: number; maxX: number; maxY: number }): Georeference {
+  const geographic = extents.minX >= -180 && extents.maxX <= 180 && extents.minY >= -90 && extents.maxY <= 90;
+  return {
+    drawingPoint: { x: 0, y: 0 },
+    system: geographic ? "geographic" : "projected",
+    groundPoint: { x: (extents.minX + extents.maxX) / 2, y: (extents.minY + extents.maxY) / 2 },
+    rotation: 0,
+    unitScale: DEFAULT_UNIT_SCALE,
+  };
+}
+
+/** One-line description for status messages */
+export function describeGeoreference(geo: Georeference): string {
+  const ground = geo.system === "geographic"
+    ? `${geo.groundPoint.y.toFixed(6)}°, ${geo.groundPoint.x.toFixed(6)}°`
+    : `E ${geo.groundPoint.x.toFixed(3)} N ${geo.groundPoint.y.toFixed(3)}${geo.crsName ? ` (${geo.crsName})` : ""}`;
+  return `(${geo.drawingPoint.x.toFixed(2)}, ${geo.drawingPoint.y.toFixed(2)}) → ${ground}, ${geo.rotation}°, ${geo.unitScale} m/unit`;
+}
@@ -94,7 +94,8 @@ export function getEntityGrips(entity: CADEntity): GripPoint[] {
       grips.push({ id: `${eid}-ry`, entityId: eid, point: { x: d.center.x, y: d.center.y - d.radiusY }, type: "quadrant", dataKey: "radiusY" });
       break;
     }
-    case "text": {
+    case "text":
+    case "point": {
       grips.push({ id: `${eid}-pos`, entityId: eid, point: d.position, type: "endpoint", dataKey: "position" });
       break;
     }
@@ -312,7 +313,8 @@ export function applyGripMove(entity: CADEntity, grip: GripPoint, newWorldPoint:
       if (grip.dataKey === "radiusY") return { ...d, radiusY: Math.max(1, Math.abs(np.y - d.center.y)) };
       return d;
     }
-    case "text": {
+    case "text":
+    case "point": {
       if (grip.dataKey === "position") return { ...d, position: np };
       return d;
     }
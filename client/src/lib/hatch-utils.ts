@@ -76,26 +76,30 @@ export function drawHatchPattern(
   panX: number,
   panY: number,
   canvasW: number,
-  canvasH: number
+  canvasH: number,
+  islands: Point[][] = []
 ) {
   if (boundary.length < 3) return;
 
   ctx.save();
 
   // Transform boundary to screen coords
-  const screenPts = boundary.map(p => ({
+  const toScreen = (p: Point) => ({
     x: p.x * zoom + panX + canvasW / 2,
     y: p.y * zoom + panY + canvasH / 2,
-  }));
+  });
+  const screenPts = boundary.map(toScreen);
 
-  // Create clip path
+  // Create clip path — islands are cut out with the even-odd rule
   ctx.beginPath();
-  ctx.moveTo(screenPts[0].x, screenPts[0].y);
-  for (let i = 1; i < screenPts.length; i++) {
-    ctx.lineTo(screenPts[i].x, screenPts[i].y);
+  for (const loop of [screenPts, ...islands.filter(l => l.length >= 3).map(l => l.map(toScreen))]) {
+    ctx.moveTo(loop[0].x, loop[0].y);
+    for (let i = 1; i < loop.length; i++) {
+      ctx.lineTo(loop[i].x, loop[i].y);
+    }
+    ctx.closePath();
   }
-  ctx.closePath();
-  ctx.clip();
+  ctx.clip("evenodd");
 
   ctx.globalAlpha = opacity;
 
@@ -112,7 +116,7 @@ export function drawHatchPattern(
   switch (pattern) {
     case "solid": {
       ctx.fillStyle = color;
-      ctx.fill();
+      ctx.fill("evenodd");
       break;
     }
     case "crosshatch": {
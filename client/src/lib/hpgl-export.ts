@@ -0,0 +1,305 @@
+// ============================================================
+// HPGL/2 Export — Plotter and vinyl cutter files from model
+// space windows or layout sheets
+// Pens by layer or color, native AA/CI arcs and circles,
+// flattened splines and ellipses, IW clipping per viewport
+// ============================================================
+//
+// Plotter units are 0.025 mm with the origin at the lower-left of the
+// paper and Y up. Paper space here is mm from the top-left with Y down,
+// so Y is mirrored on output and arc sweeps change sign.
+
+import type { BlockDefinition, CADEntity, Layer, LineStyle, Layout, Point } from "./cad-types";
+import { dimensionGeometry, distance } from "./cad-utils";
+import { getBlockRefEntities } from "./block-utils";
+import { catmullRomToBezier } from "./spline-utils";
+import { getPaperMmSize, MM_TO_PX } from "./layout-utils";
+import { computePlotLayout, getPlotExtents, type PlotSettings } from "./pdf-export";
+
+export type HPGLPenMapping = "layer" | "color";
+
+export type HPGLTarget =
+  | { kind: "model"; settings: PlotSettings }
+  | { kind: "layout"; layout: Layout };
+
+export interface HPGLExportOptions {
+  target: HPGLTarget;
+  penMapping: HPGLPenMapping;
+  /** Pen per layer id or per lowercase entity color; anything unmapped uses pen 1 */
+  pens: Record<string, number>;
+  /** Largest gap between a flattened curve and the true one, in paper mm */
+  tolerance: number;
+  /** Plot the rectangle of each layout viewport */
+  viewportFrames: boolean;
+}
+
+export const HPGL_PEN_COUNT = 8;
+const UNITS_PER_MM = 40;
+/** Points per PD command; older plotters have small input buffers */
+const MAX_PD_POINTS = 64;
+
+/** Pens 1..8 assigned in turn to the given keys */
+export function defaultPens(keys: string[]): Record<string, number> {
+  return Object.fromEntries(keys.map((k, i) => [k, (i % HPGL_PEN_COUNT) + 1]));
+}
+
+/** Distinct entity colors used by the drawing, including inside blocks */
+export function drawingColors(entities: CADEntity[], blocks: BlockDefinition[]): string[] {
+  const colors = new Set<string>();
+  for (const e of [...entities, ...blocks.flatMap(b => b.entities)]) {
+    if (e.data.type !== "blockref" && e.data.type !== "image") colors.add(e.color.toLowerCase());
+  }
+  return Array.from(colors);
+}
+
+// ============================================================
+// Strokes on paper
+// ============================================================
+
+/** Model space drawn onto paper: paper mm = offset + model * scale, clipped to `clip` */
+interface Frame {
+  scale: number;
+  offset: Point;
+  clip: { x: number; y: number; w: number; h: number };
+}
+
+type Stroke =
+  | { kind: "path"; points: Point[] }
+  | { kind: "arc"; start: Point; center: Point; sweep: number }
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "dot"; at: Point }
+  | { kind: "label"; at: Point; text: string; height: number; rotation: number };
+
+interface PlacedStroke {
+  stroke: Stroke;
+  pen: number;
+  frame: number;
+  lineStyle: LineStyle;
+}
+
+/** Chord count keeping a full circle of radius r within tol of its polygon */
+function chordCount(r: number, tol: number): number {
+  if (r <= tol) return 8;
+  const step = 2 * Math.acos(1 - tol / r);
+  return Math.min(720, Math.max(8, Math.ceil(Math.PI * 2 / step)));
+}
+
+/** Subdivide a cubic until its control points lie within tol of the chord */
+function flattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, tol: number, out: Point[], depth = 0) {
+  const dx = p3.x - p0.x, dy = p3.y - p0.y;
+  const len = Math.hypot(dx, dy);
+  const dev = (p: Point) => len < 1e-9 ? distance(p, p0) : Math.abs((p.x - p0.x) * dy - (p.y - p0.y) * dx) / len;
+  if (depth >= 12 || Math.max(dev(p1), dev(p2)) <= tol) { out.push(p3); return; }
+  const mid = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const a = mid(p0, p1), b = mid(p1, p2), c = mid(p2, p3), ab = mid(a, b), bc = mid(b, c), m = mid(ab, bc);
+  flattenCubic(p0, a, ab, m, tol, out, depth + 1);
+  flattenCubic(m, bc, c, p3, tol, out, depth + 1);
+}
+
+/** Long enough segment of an infinite line to cross the whole clip window */
+function lineThroughFrame(base: Point, dir: Point, frame: Frame, ray: boolean): Point[] {
+  const len = Math.hypot(dir.x, dir.y) || 1;
+  const u = { x: dir.x / len, y: dir.y / len };
+  const { x, y, w, h } = frame.clip;
+  const center = { x: (x + w / 2 - frame.offset.x) / frame.scale, y: (y + h / 2 - frame.offset.y) / frame.scale };
+  const reach = distance(base, center) + Math.hypot(w, h) / frame.scale;
+  const far = (t: number) => ({ x: base.x + u.x * t, y: base.y + u.y * t });
+  return [ray ? base : far(-reach), far(reach)];
+}
+
+/** Strokes of one entity in paper mm */
+function entityStrokes(e: CADEntity, frame: Frame, tol: number): Stroke[] {
+  const s = frame.scale;
+  const p = (q: Point): Point => ({ x: frame.offset.x + q.x * s, y: frame.offset.y + q.y * s });
+  const path = (pts: Point[], closed = false): Stroke[] =>
+    pts.length < 2 ? [] : [{ kind: "path", points: (closed ? [...pts, pts[0]] : pts).map(p) }];
+  const d = e.data;
+  switch (d.type) {
+    case "line": return path([d.start, d.end]);
+    case "circle": return d.radius > 0 ? [{ kind: "circle", center: p(d.center), radius: d.radius * s }] : [];
+    case "arc": {
+      let sweep = (d.endAngle - d.startAngle) % (Math.PI * 2);
+      if (sweep <= 0) sweep += Math.PI * 2;
+      const start = { x: d.center.x + Math.cos(d.startAngle) * d.radius, y: d.center.y + Math.sin(d.startAngle) * d.radius };
+      return [{ kind: "arc", start: p(start), center: p(d.center), sweep }];
+    }
+    case "rectangle": {
+      const { x, y } = d.topLeft;
+      return path([{ x, y }, { x: x + d.width, y }, { x: x + d.width, y: y + d.height }, { x, y: y + d.height }], true);
+    }
+    case "polyline": return path(d.points, d.closed);
+    case "ellipse": {
+      const n = chordCount(Math.max(d.radiusX, d.radiusY) * s, tol);
+      const cos = Math.cos(d.rotation), sin = Math.sin(d.rotation);
+      return path(Array.from({ length: n }, (_, i) => {
+        const a = (i / n) * Math.PI * 2, x = d.radiusX * Math.cos(a), y = d.radiusY * Math.sin(a);
+        return { x: d.center.x + x * cos - y * sin, y: d.center.y + x * sin + y * cos };
+      }), true);
+    }
+    case "spline": {
+      if (d.degree <= 1 || d.controlPoints.length < 3) return path(d.controlPoints, d.closed);
+      // The same Catmull-Rom curve the canvas draws, split into cubics and flattened on paper
+      const cubics = catmullRomToBezier(d.controlPoints, d.closed).map(c => c.map(p) as [Point, Point, Point, Point]);
+      const pts = [cubics[0][0]];
+      for (const [p0, p1, p2, p3] of cubics) flattenCubic(p0, p1, p2, p3, tol, pts);
+      return [{ kind: "path", points: pts }];
+    }
+    case "xline":
+    case "ray": return path(lineThroughFrame(d.basePoint, d.direction, frame, d.type === "ray"));
+    case "point": return [{ kind: "dot", at: p(d.position) }];
+    case "text": return d.content.trim() ? [{ kind: "label", at: p(d.position), text: d.content, height: d.fontSize * s, rotation: d.rotation }] : [];
+    case "dimension": {
+      const dim = dimensionGeometry(e);
+      return [
+        ...dim.lines.flatMap(([a, b]) => path([a, b])),
+        { kind: "label", at: p(dim.textPosition), text: dim.text, height: 12 * s, rotation: 0 },
+      ];
+    }
+    default: return [];
+  }
+}
+
+// ============================================================
+// Writer
+// ============================================================
+
+function hpglUnits(v: number): string {
+  return String(Math.round(v * UNITS_PER_MM));
+}
+
+/** Pen-relative line types; HPGL/2 LT with pattern length in mm (mode 1) */
+function lineType(style: LineStyle): string {
+  switch (style) {
+    case "dashed": return "LT2,6,1;";
+    case "dotted": return "LT1,3,1;";
+    case "dashdot": return "LT4,8,1;";
+    default: return "LT;";
+  }
+}
+
+/** Label text without the ETX terminator or other control characters */
+function labelText(text: string): string {
+  return text.replace(/[\x00-\x1f\x7f]/g, " ");
+}
+
+/** Chord angle in degrees that keeps a circle of radius r within tol; HPGL/2 accepts 0.5 to 180 */
+function chordAngle(r: number, tol: number): number {
+  const deg = r <= tol ? 180 : 2 * Math.acos(1 - tol / r) * 180 / Math.PI;
+  return +Math.min(180, Math.max(0.5, deg)).toFixed(2);
+}
+
+function writeStroke(out: string[], stroke: Stroke, xy: (q: Point) => string, tol: number) {
+  switch (stroke.kind) {
+    case "path": {
+      out.push(`PU${xy(stroke.points[0])};`);
+      for (let i = 1; i < stroke.points.length; i += MAX_PD_POINTS) {
+        out.push(`PD${stroke.points.slice(i, i + MAX_PD_POINTS).map(xy).join(",")};`);
+      }
+      break;
+    }
+    case "arc":
+      // Counter-clockwise on the plotter is a negative sweep in Y-down paper space
+      out.push(`PU${xy(stroke.start)};PD;AA${xy(stroke.center)},${+(-stroke.sweep * 180 / Math.PI).toFixed(3)},${chordAngle(distance(stroke.start, stroke.center), tol)};`);
+      break;
+    case "circle":
+      out.push(`PU${xy(stroke.center)};CI${hpglUnits(stroke.radius)},${chordAngle(stroke.radius, tol)};`);
+      break;
+    case "dot":
+      out.push(`PU${xy(stroke.at)};PD;PU;`);
+      break;
+    case "label": {
+      // SI takes cm: cap height about 0.7 of the font size, monospace width about 0.4
+      const cm = (v: number) => +(v / 10).toFixed(4);
+      out.push(`PU${xy(stroke.at)};DI${+Math.cos(stroke.rotation).toFixed(5)},${+(-Math.sin(stroke.rotation)).toFixed(5)};`);
+      out.push(`SI${cm(stroke.height * 0.4)},${cm(stroke.height * 0.7)};LB${labelText(stroke.text)}\x03`);
+      break;
+    }
+  }
+}
+
+/** Model space frames and paper size for the target */
+function targetFrames(target: HPGLTarget, entities: CADEntity[]): { frames: Frame[]; paper: { w: number; h: number }; borders: Frame["clip"][] } | null {
+  if (target.kind === "layout") {
+    const paper = getPaperMmSize(target.layout);
+    // Same mapping as the layout on the canvas: one model unit is viewZoom / MM_TO_PX mm on paper
+    const frames = target.layout.viewports.map(vp => {
+      const scale = vp.viewZoom / MM_TO_PX;
+      return {
+        scale,
+        offset: { x: vp.x + vp.width / 2 - vp.viewCenter.x * scale, y: vp.y + vp.height / 2 - vp.viewCenter.y * scale },
+        clip: { x: vp.x, y: vp.y, w: vp.width, h: vp.height },
+      };
+    });
+    return { frames, paper, borders: frames.map(f => f.clip) };
+  }
+  const { settings } = target;
+  const bounds = settings.area ?? getPlotExtents(entities);
+  if (!bounds) return null;
+  const plot = computePlotLayout(settings, bounds);
+  const x = settings.margin + plot.originX, y = settings.margin + plot.originY;
+  // One sheet: whatever falls outside the printable area is clipped, not tiled
+  const clipX = Math.max(settings.margin, x), clipY = Math.max(settings.margin, y);
+  const clip = {
+    x: clipX, y: clipY,
+    w: Math.min(plot.pageW - settings.margin, x + (bounds.maxX - bounds.minX) * plot.scale) - clipX,
+    h: Math.min(plot.pageH - settings.margin, y + (bounds.maxY - bounds.minY) * plot.scale) - clipY,
+  };
+  const frame = { scale: plot.scale, offset: { x: x - bounds.minX * plot.scale, y: y - bounds.minY * plot.scale }, clip };
+  return { frames: [frame], paper: { w: plot.pageW, h: plot.pageH }, borders: [] };
+}
+
+/**
+ * Write visible entities as HPGL/2. Strokes are grouped by pen so each pen
+ * is picked up once; each viewport (or the model window) clips its content
+ * with an input window. Hatches and images are not plotted.
+ */
+export function exportToHPGL(entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[], options: HPGLExportOptions): string {
+  const target = targetFrames(options.target, entities);
+  const out = ["IN;", "PA;"];
+  if (!target) { out.push("SP0;"); return out.join("\n") + "\n"; }
+
+  const visible = new Set(layers.filter(l => l.visible).map(l => l.id));
+  const tol = Math.max(0.005, options.tolerance);
+  const penFor = (e: CADEntity) => {
+    const pen = options.pens[options.penMapping === "layer" ? e.layerId : e.color.toLowerCase()];
+    return pen && pen >= 1 ? Math.round(pen) : 1;
+  };
+
+  // Block references contribute their children, which keep their own layer and color
+  const drawn = entities.filter(e => e.visible && visible.has(e.layerId)).flatMap(e => {
+    if (e.data.type !== "blockref") return [e];
+    const ref = e.data;
+    const block = blocks.find(b => b.id === ref.blockId);
+    return block ? getBlockRefEntities(block, ref, blocks, e.color).filter(c => c.visible) : [];
+  });
+
+  const placed: PlacedStroke[] = [];
+  target.frames.forEach((frame, i) => {
+    for (const e of drawn) {
+      for (const stroke of entityStrokes(e, frame, tol)) placed.push({ stroke, pen: penFor(e), frame: i, lineStyle: e.lineStyle });
+    }
+  });
+  if (options.viewportFrames) {
+    for (const b of target.borders) {
+      placed.push({ stroke: { kind: "path", points: [{ x: b.x, y: b.y }, { x: b.x + b.w, y: b.y }, { x: b.x + b.w, y: b.y + b.h }, { x: b.x, y: b.y + b.h }, { x: b.x, y: b.y }] }, pen: 1, frame: -1, lineStyle: "solid" });
+    }
+  }
+  // Stable sort keeps drawing order within a pen and viewport
+  placed.sort((a, b) => a.pen - b.pen || a.frame - b.frame);
+
+  const { h: paperH } = target.paper;
+  const xy = (q: Point) => `${hpglUnits(q.x)},${hpglUnits(paperH - q.y)}`;
+  let pen = 0, frame: number | null = null, style: LineStyle | null = null;
+  for (const s of placed) {
+    if (s.pen !== pen) { out.push(`SP${s.pen};`); pen = s.pen; }
+    if (s.frame !== frame) {
+      const c = s.frame >= 0 ? target.frames[s.frame].clip : null;
+      out.push(c ? `IW${xy({ x: c.x, y: c.y + c.h })},${xy({ x: c.x + c.w, y: c.y })};` : "IW;");
+      frame = s.frame;
+    }
+    if (s.lineStyle !== style) { out.push(lineType(s.lineStyle)); style = s.lineStyle; }
+    writeStroke(out, s.stroke, xy, tol);
+  }
+  out.push("PU;", "IW;", "SP0;");
+  return out.join("\n") + "\n";
+}
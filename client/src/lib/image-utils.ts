@@ -0,0 +1,194 @@
+// ============================================================
+// Image Utils — Raster underlays: loading, geometry, two-point
+// calibration and drawing
+// ============================================================
+
+import type { Point, CADEntity, ImageEntityData } from "./cad-types";
+import { generateId, distance } from "./cad-utils";
+
+// ============================================================
+// Decoded image cache
+// ============================================================
+const imageCache = new Map<string, HTMLImageElement>();
+const loadListeners = new Set<() => void>();
+
+/** Decoded image for a data URL, or null while it is still loading; listeners hear when it arrives */
+export function getImageElement(src: string): HTMLImageElement | null {
+  if (typeof Image === "undefined") return null;
+  let img = imageCache.get(src);
+  if (!img) {
+    img = new Image();
+    img.onload = () => loadListeners.forEach(l => l());
+    img.src = src;
+    imageCache.set(src, img);
+  }
+  return img.complete && img.naturalWidth > 0 ? img : null;
+}
+
+/** Subscribe to image loads (to redraw once an underlay has decoded); returns an unsubscribe function */
+export function onImageLoaded(listener: () => void): () => void {
+  loadListeners.add(listener);
+  return () => { loadListeners.delete(listener); };
+}
+
+/** Read an image file as a data URL together with its pixel size */
+export function readImageFile(file: File): Promise<{ src: string; pixelWidth: number; pixelHeight: number }> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.onload = () => {
+      const src = reader.result as string;
+      const img = new Image();
+      img.onerror = () => reject(new Error(`${file.name} is not a supported image`));
+      img.onload = () => {
+        imageCache.set(src, img);
+        resolve({ src, pixelWidth: img.naturalWidth, pixelHeight: img.naturalHeight });
+      };
+      img.src = src;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+// ============================================================
+// Create
+// ============================================================
+export function createImageEntity(
+  src: string, pixelWidth: number, pixelHeight: number,
+  insertPoint: Point, width: number,
+  layerId: string, color: string
+): CADEntity {
+  const data: ImageEntityData = {
+    type: "image", src, pixelWidth, pixelHeight, insertPoint,
+    width, height: width * pixelHeight / Math.max(1, pixelWidth),
+    rotation: 0, opacity: 1,
+  };
+  return { id: generateId(), type: "image", data, layerId, color, lineWidth: 1, lineStyle: "solid", visible: true, locked: false, selected: false };
+}
+
+// ============================================================
+// Geometry
+// ============================================================
+
+/** World point at normalized image coordinates (0..1 across, 0..1 down) */
+export function imagePoint(d: ImageEntityData, u: number, v: number): Point {
+  const x = u * d.width, y = v * d.height;
+  const cos = Math.cos(d.rotation), sin = Math.sin(d.rotation);
+  return { x: d.insertPoint.x + x * cos - y * sin, y: d.insertPoint.y + x * sin + y * cos };
+}
+
+/** Normalized image coordinates of a world point */
+export function imageCoordinates(d: ImageEntityData, p: Point): Point {
+  const dx = p.x - d.insertPoint.x, dy = p.y - d.insertPoint.y;
+  const cos = Math.cos(d.rotation), sin = Math.sin(d.rotation);
+  return { x: (dx * cos + dy * sin) / d.width, y: (-dx * sin + dy * cos) / d.height };
+}
+
+/** Corners in world space: top-left, top-right, bottom-right, bottom-left */
+export function imageCorners(d: ImageEntityData): Point[] {
+  return [imagePoint(d, 0, 0), imagePoint(d, 1, 0), imagePoint(d, 1, 1), imagePoint(d, 0, 1)];
+}
+
+/** Visible outline in world space: the clip polygon when set, else the frame */
+export function imageOutline(d: ImageEntityData): Point[] {
+  return d.clip && d.clip.length >= 3 ? d.clip.map(c => imagePoint(d, c.x, c.y)) : imageCorners(d);
+}
+
+function distToSeg(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+/** Images are picked by their frame so geometry traced over them stays selectable */
+export function hitTestImage(d: ImageEntityData, point: Point, tolerance: number): boolean {
+  const outline = imageOutline(d);
+  return outline.some((a, i) => distToSeg(point, a, outline[(i + 1) % outline.length]) < tolerance);
+}
+
+/** Clip an image to a closed world-space boundary */
+export function clipImage(d: ImageEntityData, boundary: Point[]): ImageEntityData {
+  return { ...d, clip: boundary.map(p => imageCoordinates(d, p)) };
+}
+
+/**
+ * Two-point calibration: scale the image about the first point so the
+ * distance between the picked points becomes the real distance.
+ */
+export function calibrateImage(d: ImageEntityData, p1: Point, p2: Point, realDistance: number): ImageEntityData {
+  const picked = distance(p1, p2);
+  if (picked < 1e-9 || !(realDistance > 0)) return d;
+  const k = realDistance / picked;
+  return {
+    ...d,
+    insertPoint: { x: p1.x + (d.insertPoint.x - p1.x) * k, y: p1.y + (d.insertPoint.y - p1.y) * k },
+    width: d.width * k,
+    height: d.height * k,
+  };
+}
+
+// ============================================================
+// Drawing
+// ============================================================
+
+/** Trace the clip polygon (or the frame) in image-local pixels */
+function traceOutline(ctx: CanvasRenderingContext2D, d: ImageEntityData, w: number, h: number) {
+  const pts = d.clip && d.clip.length >= 3 ? d.clip : [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+  ctx.beginPath();
+  pts.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h));
+  ctx.closePath();
+}
+
+/** Draw an image underlay; `origin` is the screen position of insertPoint and `zoom` screen px per unit */
+export function drawImageEntity(ctx: CanvasRenderingContext2D, d: ImageEntityData, origin: Point, zoom: number, frameColor: string, selected: boolean) {
+  const w = d.width * zoom, h = d.height * zoom;
+  const img = getImageElement(d.src);
+  ctx.save();
+  ctx.translate(origin.x, origin.y);
+  ctx.rotate(d.rotation);
+  if (img) {
+    ctx.save();
+    traceOutline(ctx, d, w, h);
+    ctx.clip();
+    ctx.globalAlpha = Math.max(0, Math.min(1, d.opacity));
+    ctx.drawImage(img, 0, 0, w, h);
+    ctx.restore();
+  }
+  // Frame only when selected, or as a placeholder while the image decodes
+  if (selected || !img) {
+    ctx.setLineDash(img ? [] : [4, 4]);
+    ctx.strokeStyle = selected ? "#3b82f6" : frameColor;
+    ctx.lineWidth = 1;
+    traceOutline(ctx, d, w, h);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Bake rotation, clip and transparency into a PNG at the image's own resolution,
+ * for outputs that can only place axis-aligned images (PDF).
+ * Returns null while the image has not decoded.
+ */
+export function renderImageEntity(d: ImageEntityData): { dataUrl: string; corners: Point[] } | null {
+  const img = getImageElement(d.src);
+  if (!img) return null;
+  const corners = imageOutline(d);
+  const minX = Math.min(...corners.map(p => p.x)), minY = Math.min(...corners.map(p => p.y));
+  const maxX = Math.max(...corners.map(p => p.x)), maxY = Math.max(...corners.map(p => p.y));
+  // Keep the source pixel density, capped so huge scans stay within canvas limits
+  const density = Math.min(d.pixelWidth / d.width, 4096 / Math.max(maxX - minX, maxY - minY));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil((maxX - minX) * density));
+  canvas.height = Math.max(1, Math.ceil((maxY - minY) * density));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const o = imagePoint(d, 0, 0);
+  drawImageEntity(ctx, d, { x: (o.x - minX) * density, y: (o.y - minY) * density }, density, "#000000", false);
+  return {
+    dataUrl: canvas.toDataURL("image/png"),
+    corners: [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }],
+  };
+}
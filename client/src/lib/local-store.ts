@@ -0,0 +1,164 @@
+// ============================================================
+// Local Store — IndexedDB persistence for autosaved sessions
+// (crash recovery) and recently opened or saved drawings
+// ============================================================
+//
+// Each browser tab is one session. Its metadata (name, entity count)
+// is kept apart from the serialized document, so listing sessions stays
+// cheap however large the drawings grow. Open tabs answer a ping on a
+// BroadcastChannel, which tells a closed or crashed session from a live one.
+
+const DB_NAME = "cad-studio";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const SNAPSHOTS = "snapshots";
+const RECENT = "recent";
+const CHANNEL = "cad-studio-sessions";
+
+/** How many recent drawings are kept */
+export const MAX_RECENT_DRAWINGS = 10;
+/** How long open tabs get to answer a liveness ping */
+const PING_TIMEOUT_MS = 300;
+
+/** Id of this tab's session, fixed for the page's lifetime */
+export const SESSION_ID = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface SessionInfo {
+  id: string;
+  name: string;
+  entityCount: number;
+  /** Last autosave */
+  updatedAt: number;
+  /** Changes not written to a file yet; clean sessions are not offered for recovery */
+  unsaved: boolean;
+}
+
+export interface RecentDrawing {
+  id: string;
+  name: string;
+  entityCount: number;
+  openedAt: number;
+  /** Serialized .cadstudio document */
+  text: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") { reject(new Error("IndexedDB is not available")); return; }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(RECENT)) db.createObjectStore(RECENT, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry if opening failed (private mode, blocked upgrade…)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+/** Run `fn` in one transaction and resolve with its result once the transaction commits */
+async function transact<T>(stores: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const req = fn(tx);
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ============================================================
+// Sessions
+// ============================================================
+
+/** Write a session's document and metadata together */
+export function saveSession(info: SessionInfo, text: string): Promise<unknown> {
+  return transact([SESSIONS, SNAPSHOTS], "readwrite", tx => {
+    tx.objectStore(SESSIONS).put(info);
+    tx.objectStore(SNAPSHOTS).put({ id: info.id, text });
+  });
+}
+
+export async function listSessions(): Promise<SessionInfo[]> {
+  const sessions = await transact<SessionInfo[]>([SESSIONS], "readonly", tx => tx.objectStore(SESSIONS).getAll());
+  return (sessions ?? []).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Sessions of tabs that closed or crashed with unsaved changes, newest first; other closed sessions are dropped */
+export async function listRecoverableSessions(): Promise<SessionInfo[]> {
+  const [sessions, live] = await Promise.all([listSessions(), findLiveSessions()]);
+  const closed = sessions.filter(s => s.id !== SESSION_ID && !live.has(s.id));
+  const recoverable = closed.filter(s => s.unsaved && s.entityCount > 0);
+  await Promise.all(closed.filter(s => !recoverable.includes(s)).map(s => deleteSession(s.id)));
+  return recoverable;
+}
+
+export async function loadSessionSnapshot(id: string): Promise<string | null> {
+  const snapshot = await transact<{ id: string; text: string }>([SNAPSHOTS], "readonly", tx => tx.objectStore(SNAPSHOTS).get(id));
+  return snapshot?.text ?? null;
+}
+
+export function deleteSession(id: string): Promise<unknown> {
+  return transact([SESSIONS, SNAPSHOTS], "readwrite", tx => {
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(SNAPSHOTS).delete(id);
+  });
+}
+
+// ============================================================
+// Liveness
+// ============================================================
+
+/** Answer pings from other tabs for as long as this tab is open; returns a cleanup function */
+export function answerLivenessPings(): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = (ev: MessageEvent) => { if (ev.data?.type === "ping") channel.postMessage({ type: "pong", id: SESSION_ID }); };
+  return () => channel.close();
+}
+
+/** Session ids of the other tabs that are open right now */
+function findLiveSessions(): Promise<Set<string>> {
+  const live = new Set<string>();
+  if (typeof BroadcastChannel === "undefined") return Promise.resolve(live);
+  return new Promise(resolve => {
+    const channel = new BroadcastChannel(CHANNEL);
+    channel.onmessage = (ev: MessageEvent) => { if (ev.data?.type === "pong" && typeof ev.data.id === "string") live.add(ev.data.id); };
+    channel.postMessage({ type: "ping" });
+    setTimeout(() => { channel.close(); resolve(live); }, PING_TIMEOUT_MS);
+  });
+}
+
+// ============================================================
+// Recent drawings
+// ============================================================
+
+/** Remember a drawing that was opened or saved; a drawing with the same name replaces its older entry */
+export async function addRecentDrawing(name: string, entityCount: number, text: string): Promise<void> {
+  const recent = await listRecentDrawings();
+  const stale = recent.filter(r => r.name === name).concat(recent.filter(r => r.name !== name).slice(MAX_RECENT_DRAWINGS - 1));
+  await transact([RECENT], "readwrite", tx => {
+    const store = tx.objectStore(RECENT);
+    for (const r of stale) store.delete(r.id);
+    store.put({ id: `recent-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, entityCount, openedAt: Date.now(), text } satisfies RecentDrawing);
+  });
+}
+
+/** Recent drawings, newest first */
+export async function listRecentDrawings(): Promise<RecentDrawing[]> {
+  const recent = await transact<RecentDrawing[]>([RECENT], "readonly", tx => tx.objectStore(RECENT).getAll());
+  return (recent ?? []).sort((a, b) => b.openedAt - a.openedAt);
+}
+
+export function removeRecentDrawing(id: string): Promise<unknown> {
+  return transact([RECENT], "readwrite", tx => { tx.objectStore(RECENT).delete(id); });
+}
@@ -80,7 +80,8 @@ function mirrorEntityData(data: EntityData, axisStart: Point, axisEnd: Point): E
         rotation: 2 * axisAngle - data.rotation,
       };
     }
-    case "text": {
+    case "text":
+    case "point": {
       return {
         ...data,
         position: reflectPoint(data.position, axisStart, axisEnd),
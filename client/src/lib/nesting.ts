@@ -0,0 +1,356 @@
+// ============================================================
+// Nesting — Pack copies of closed parts onto rectangular sheets
+// True-shape bottom-left fill on an occupancy grid, with part
+// spacing, sheet margin and allowed rotations
+// ============================================================
+
+import type { Point, CADEntity, BlockDefinition } from "./cad-types";
+import { generateId, getEntitiesBBox } from "./cad-utils";
+import { getEntityBoundary } from "./hatch-utils";
+import { copyEntities } from "./copy-utils";
+import { rotateEntityData } from "./rotate-scale-utils";
+import { getBlockRefEntities } from "./block-utils";
+
+export type NestRotation = "none" | "180" | "90" | "free";
+
+export const NEST_ROTATIONS: { value: NestRotation; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "180", label: "0° / 180°" },
+  { value: "90", label: "Every 90°" },
+  { value: "free", label: "Every 15°" },
+];
+
+/** A closed outline and everything drawn inside it, nested as one piece */
+export interface NestPart {
+  id: string;
+  name: string;
+  entities: CADEntity[];
+  /** Outer boundary in drawing coordinates */
+  outline: Point[];
+  /** Outline area less the holes inside it */
+  area: number;
+}
+
+export interface NestSettings {
+  sheetWidth: number;
+  sheetHeight: number;
+  /** Minimum gap between parts */
+  spacing: number;
+  /** Minimum gap between parts and the sheet edge */
+  margin: number;
+  rotation: NestRotation;
+  /** Copies per part id */
+  quantities: Record<string, number>;
+}
+
+export const DEFAULT_NEST_SETTINGS: Omit<NestSettings, "quantities"> = {
+  sheetWidth: 2500,
+  sheetHeight: 1250,
+  spacing: 5,
+  margin: 10,
+  rotation: "90",
+};
+
+export interface NestSheetReport {
+  /** Placed copies per part name */
+  parts: Record<string, number>;
+  utilization: number;
+}
+
+export interface NestResult {
+  /** Copies, sheet frames and labels, all on the output layer */
+  entities: CADEntity[];
+  sheets: NestSheetReport[];
+  placed: number;
+  /** Copies that fit on no sheet, per part name */
+  unplaced: Record<string, number>;
+  utilization: number;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+// ============================================================
+// Geometry
+// ============================================================
+
+function polygonArea(pts: Point[]): number {
+  let a = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i], q = pts[(i + 1) % pts.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(a) / 2;
+}
+
+function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x, yi = polygon[i].y, xj = polygon[j].x, yj = polygon[j].y;
+    if ((yi > p.y) !== (yj > p.y) && p.x < (xj - xi) * (p.y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function distToPolygon(p: Point, polygon: Point[]): number {
+  let best = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+    best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+  }
+  return best;
+}
+
+function rotatePoint(p: Point, c: Point, angle: number): Point {
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const dx = p.x - c.x, dy = p.y - c.y;
+  return { x: c.x + dx * cos - dy * sin, y: c.y + dx * sin + dy * cos };
+}
+
+function bounds(pts: Point[]) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of pts) {
+    minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+/** Outline of a block reference: its largest closed boundary, else its bounding box */
+function blockRefOutline(e: CADEntity, blocks: BlockDefinition[]): Point[] | null {
+  if (e.data.type !== "blockref") return null;
+  const blockId = e.data.blockId;
+  const block = blocks.find(b => b.id === blockId);
+  if (!block) return null;
+  const children = getBlockRefEntities(block, e.data, blocks);
+  const outlines = children.map(getEntityBoundary).filter((b): b is Point[] => !!b && b.length >= 3);
+  if (outlines.length > 0) return outlines.reduce((a, b) => polygonArea(b) > polygonArea(a) ? b : a);
+  const bb = getEntitiesBBox(children);
+  return bb ? [{ x: bb.minX, y: bb.minY }, { x: bb.maxX, y: bb.minY }, { x: bb.maxX, y: bb.maxY }, { x: bb.minX, y: bb.maxY }] : null;
+}
+
+// ============================================================
+// Parts
+// ============================================================
+
+/**
+ * Group a selection into parts: every closed shape or block reference that is
+ * not inside another becomes a part, and selected entities inside it (holes,
+ * markings) travel with it. Anything outside all outlines is ignored.
+ */
+export function collectNestParts(selected: CADEntity[], blocks: BlockDefinition[]): { parts: NestPart[]; ignored: number } {
+  const outlined = selected
+    .map(e => ({ entity: e, outline: e.data.type === "blockref" ? blockRefOutline(e, blocks) : getEntityBoundary(e) }))
+    .filter((o): o is { entity: CADEntity; outline: Point[] } => !!o.outline && o.outline.length >= 3)
+    .map(o => ({ ...o, area: polygonArea(o.outline) }))
+    .sort((a, b) => b.area - a.area);
+
+  const parts: NestPart[] = [];
+  const assigned = new Set<string>();
+  for (const o of outlined) {
+    if (assigned.has(o.entity.id)) continue;
+    // Largest first, so an outline already inside a part belongs to it
+    if (parts.some(p => pointInPolygon(o.outline[0], p.outline))) continue;
+    assigned.add(o.entity.id);
+    const d = o.entity.data;
+    const blockName = d.type === "blockref" ? blocks.find(b => b.id === d.blockId)?.name : undefined;
+    parts.push({ id: o.entity.id, name: blockName ?? `Part ${parts.length + 1} (${o.entity.type})`, entities: [o.entity], outline: o.outline, area: o.area });
+  }
+  let ignored = 0;
+  for (const e of selected) {
+    if (assigned.has(e.id)) continue;
+    const bb = getEntitiesBBox([e]);
+    const probe = bb ? { x: (bb.minX + bb.maxX) / 2, y: (bb.minY + bb.maxY) / 2 } : null;
+    const owner = probe ? parts.find(p => pointInPolygon(probe, p.outline)) : undefined;
+    if (!owner) { ignored++; continue; }
+    owner.entities.push(e);
+    const hole = outlined.find(o => o.entity.id === e.id);
+    if (hole) owner.area -= hole.area;
+  }
+  return { parts, ignored };
+}
+
+// ============================================================
+// Occupancy grid
+// ============================================================
+
+interface Mask {
+  angle: number;
+  cols: number;
+  rows: number;
+  /** Occupied cells as col + row * cols, in test order */
+  cells: number[];
+  /** Drawing offset from the grid cell (0,0) corner to the rotation pivot */
+  pivotOffset: Point;
+}
+
+/**
+ * Rasterize a rotated outline, grown by `pad` plus half a cell diagonal so
+ * that masks which do not overlap keep at least 2 × pad between the parts.
+ */
+function buildMask(outline: Point[], pivot: Point, angle: number, cell: number, pad: number): Mask {
+  const rotated = outline.map(p => rotatePoint(p, pivot, angle));
+  const bb = bounds(rotated);
+  const grow = pad + cell * Math.SQRT1_2;
+  const originX = bb.minX - pad, originY = bb.minY - pad;
+  const cols = Math.max(1, Math.ceil((bb.maxX - bb.minX + 2 * pad) / cell));
+  const rows = Math.max(1, Math.ceil((bb.maxY - bb.minY + 2 * pad) / cell));
+  const cells: number[] = [];
+  for (let r = rows - 1; r >= 0; r--) {
+    for (let c = 0; c < cols; c++) {
+      const center = { x: originX + (c + 0.5) * cell, y: originY + (r + 0.5) * cell };
+      if (pointInPolygon(center, rotated) || distToPolygon(center, rotated) <= grow) cells.push(c + r * cols);
+    }
+  }
+  // Test cells spread over the whole mask first, so overlaps show up within a few lookups
+  const spread: number[] = [];
+  for (let k = 0; k < 16; k++) for (let i = k; i < cells.length; i += 16) spread.push(cells[i]);
+  return { angle, cols, rows, cells: spread, pivotOffset: { x: pivot.x - originX, y: pivot.y - originY } };
+}
+
+interface Sheet {
+  grid: Uint8Array;
+  cols: number;
+  rows: number;
+  placements: { part: NestPart; mask: Mask; col: number; row: number }[];
+  /** Per mask, the scan position where its last search stopped */
+  resume: Map<Mask, number>;
+}
+
+/** Scan positions run bottom row first, left to right */
+function scanPosition(index: number, sheet: Sheet, mask: Mask): { col: number; row: number } {
+  const width = sheet.cols - mask.cols + 1;
+  return { col: index % width, row: sheet.rows - mask.rows - Math.floor(index / width) };
+}
+
+function fits(sheet: Sheet, mask: Mask, col: number, row: number): boolean {
+  for (const cell of mask.cells) {
+    const r = row + Math.floor(cell / mask.cols), c = col + cell % mask.cols;
+    if (sheet.grid[c + r * sheet.cols]) return false;
+  }
+  return true;
+}
+
+/** First free position for a mask; positions that failed before stay failed as the sheet only fills up */
+function findPosition(sheet: Sheet, mask: Mask): { col: number; row: number; index: number } | null {
+  if (mask.cols > sheet.cols || mask.rows > sheet.rows) return null;
+  const total = (sheet.cols - mask.cols + 1) * (sheet.rows - mask.rows + 1);
+  for (let i = sheet.resume.get(mask) ?? 0; i < total; i++) {
+    const { col, row } = scanPosition(i, sheet, mask);
+    if (fits(sheet, mask, col, row)) { sheet.resume.set(mask, i); return { col, row, index: i }; }
+  }
+  sheet.resume.set(mask, total);
+  return null;
+}
+
+function rotationAngles(rotation: NestRotation): number[] {
+  const step = rotation === "none" ? 360 : rotation === "180" ? 180 : rotation === "90" ? 90 : 15;
+  return Array.from({ length: 360 / step }, (_, i) => i * step * Math.PI / 180);
+}
+
+// ============================================================
+// Nesting
+// ============================================================
+
+function rotatePartEntity(e: CADEntity, pivot: Point, angle: number): CADEntity {
+  if (angle === 0) return e;
+  const data = rotateEntityData(e.data, pivot, angle);
+  return { ...e, type: data.type, data };
+}
+
+/**
+ * Pack the requested copies, largest parts first, onto as many sheets as
+ * needed. Each copy goes to the lowest, then leftmost, free spot on the first
+ * sheet it fits, trying every allowed rotation. Sheets are laid out in a row
+ * from `origin` (the top-left of the first sheet); copies, frames and labels
+ * are placed on `layerId`.
+ */
+export function nestParts(parts: NestPart[], settings: NestSettings, origin: Point, layerId: string): NestResult {
+  const { sheetWidth: W, sheetHeight: H } = settings;
+  const pad = Math.max(0, settings.spacing) / 2;
+  const margin = Math.max(0, settings.margin);
+  const cell = Math.max(W, H) / 500;
+  // The grid covers the sheet inside the margin, plus the padding every mask carries
+  const gridOrigin = { x: margin - pad, y: margin - pad };
+  const cols = Math.max(0, Math.floor((W - 2 * margin + 2 * pad) / cell));
+  const rows = Math.max(0, Math.floor((H - 2 * margin + 2 * pad) / cell));
+  const angles = rotationAngles(settings.rotation);
+
+  const masks = new Map(parts.map(p => {
+    const bb = bounds(p.outline);
+    const pivot = { x: (bb.minX + bb.maxX) / 2, y: (bb.minY + bb.maxY) / 2 };
+    return [p.id, { pivot, masks: angles.map(a => buildMask(p.outline, pivot, a, cell, pad)) }];
+  }));
+
+  const queue = parts
+    .flatMap(p => Array.from({ length: Math.max(0, Math.floor(settings.quantities[p.id] ?? 0)) }, () => p))
+    .sort((a, b) => b.area - a.area);
+
+  const sheets: Sheet[] = [];
+  const unplaced: Record<string, number> = {};
+  const newSheet = (): Sheet => ({ grid: new Uint8Array(cols * rows), cols, rows, placements: [], resume: new Map() });
+  for (const part of queue) {
+    const { masks: partMasks } = masks.get(part.id)!;
+    let placed = false;
+    for (const sheet of [...sheets, newSheet()]) {
+      // Keep the rotation whose placement reaches least high, then least far right
+      let best: { mask: Mask; col: number; row: number; score: number } | null = null;
+      for (const mask of partMasks) {
+        const pos = findPosition(sheet, mask);
+        if (!pos) continue;
+        const score = (sheet.rows - pos.row) * (cols + 1) + pos.col + mask.cols;
+        if (!best || score < best.score) best = { mask, col: pos.col, row: pos.row, score };
+      }
+      if (!best) continue;
+      for (const c of best.mask.cells) {
+        sheet.grid[best.col + c % best.mask.cols + (best.row + Math.floor(c / best.mask.cols)) * cols] = 1;
+      }
+      sheet.placements.push({ part, mask: best.mask, col: best.col, row: best.row });
+      if (!sheets.includes(sheet)) sheets.push(sheet);
+      placed = true;
+      break;
+    }
+    if (!placed) unplaced[part.name] = (unplaced[part.name] ?? 0) + 1;
+  }
+
+  // Emit copies, frames and labels
+  const gap = W * 0.1;
+  const fontSize = Math.max(1, H * 0.03);
+  const entities: CADEntity[] = [];
+  const style = { lineWidth: 1, lineStyle: "solid" as const, visible: true, locked: false, selected: false };
+  const reports: NestSheetReport[] = sheets.map((sheet, i) => {
+    const sheetOrigin = { x: origin.x + i * (W + gap), y: origin.y };
+    const counts: Record<string, number> = {};
+    let used = 0;
+    for (const { part, mask, col, row } of sheet.placements) {
+      const { pivot } = masks.get(part.id)!;
+      const target = {
+        x: sheetOrigin.x + gridOrigin.x + col * cell + mask.pivotOffset.x,
+        y: sheetOrigin.y + gridOrigin.y + row * cell + mask.pivotOffset.y,
+      };
+      const rotated = part.entities.map(e => rotatePartEntity(e, pivot, mask.angle));
+      entities.push(...copyEntities(rotated, target.x - pivot.x, target.y - pivot.y).map(e => ({ ...e, layerId, selected: false })));
+      counts[part.name] = (counts[part.name] ?? 0) + 1;
+      used += part.area;
+    }
+    const utilization = used / (W * H);
+    entities.push({ ...style, id: generateId(), type: "rectangle", data: { type: "rectangle", topLeft: sheetOrigin, width: W, height: H }, layerId, color: "#94a3b8" });
+    entities.push({
+      ...style, id: generateId(), type: "text", layerId, color: "#94a3b8",
+      data: { type: "text", position: { x: sheetOrigin.x, y: sheetOrigin.y + H + fontSize * 1.5 }, content: `Sheet ${i + 1} — ${(utilization * 100).toFixed(1)}% used`, fontSize, rotation: 0 },
+    });
+    return { parts: counts, utilization };
+  });
+
+  const placedCount = sheets.reduce((n, s) => n + s.placements.length, 0);
+  const totalUsed = reports.reduce((sum, r) => sum + r.utilization, 0);
+  return {
+    entities,
+    sheets: reports,
+    placed: placedCount,
+    unplaced,
+    utilization: reports.length > 0 ? totalUsed / reports.length : 0,
+    bounds: { minX: origin.x, minY: origin.y, maxX: origin.x + Math.max(1, reports.length) * (W + gap) - gap, maxY: origin.y + H + fontSize * 2 },
+  };
+}
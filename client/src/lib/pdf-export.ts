@@ -2,28 +2,28 @@
 // PDF Export — Render paper space layout or model space to PDF
 // Uses jsPDF for PDF generation
 // ============================================================
+//
+// The build* functions return the document and run in Node as well;
+// the export* functions save it as a browser download.
 
 import { jsPDF } from "jspdf";
-import type { CADEntity, Layout, Point } from "./cad-types";
+import type { CADEntity, Layout, Point, PlotStyleTable, PaperSize, PaperOrientation, ImageEntityData } from "./cad-types";
+import { PAPER_SIZES } from "./cad-types";
 import { getPaperMmSize, MM_TO_PX } from "./layout-utils";
-
-// ============================================================
-// Color helpers
-// ============================================================
-function hexToRgb(hex: string): [number, number, number] {
-  const h = hex.replace("#", "");
-  const r = parseInt(h.substring(0, 2), 16) || 0;
-  const g = parseInt(h.substring(2, 4), 16) || 0;
-  const b = parseInt(h.substring(4, 6), 16) || 0;
-  return [r, g, b];
-}
-
-// For PDF we invert white entities to black for print
-function printColor(color: string): [number, number, number] {
-  const [r, g, b] = hexToRgb(color);
-  // If very light (near white), make it black for printing
-  if (r > 220 && g > 220 && b > 220) return [0, 0, 0];
-  return [r, g, b];
+import { hexToRgb, resolvePlotStyle, findPlotStyleTable } from "./plot-styles";
+import { renderImageEntity, imageOutline } from "./image-utils";
+
+type PdfBlocks = { id: string; entities: CADEntity[]; basePoint: Point }[];
+
+/**
+ * The format an image embeds in directly ("PNG" or "JPEG"), or null when
+ * it has to be baked on a canvas first (rotated, clipped, transparent or
+ * another format)
+ */
+export function directImageFormat(data: ImageEntityData): "PNG" | "JPEG" | null {
+  const format = /^data:image\/(png|jpe?g);/i.exec(data.src)?.[1].toUpperCase();
+  if (!format || data.rotation || data.clip || data.opacity < 1) return null;
+  return format === "PNG" ? "PNG" : "JPEG";
 }
 
 // ============================================================
@@ -36,21 +36,23 @@ function drawEntityToPdf(
   offsetY: number,
   scale: number, // mm per model unit
   allEntities: CADEntity[],
-  blocks: { id: string; entities: CADEntity[]; basePoint: Point }[]
+  blocks: { id: string; entities: CADEntity[]; basePoint: Point }[],
+  plotStyle: PlotStyleTable | null
 ) {
   if (!entity.visible) return;
 
-  const [r, g, b] = printColor(entity.color);
+  const style = resolvePlotStyle(entity, plotStyle);
+  const [r, g, b] = style.rgb;
   doc.setDrawColor(r, g, b);
-  doc.setLineWidth(Math.max(0.1, entity.lineWidth * 0.15));
+  doc.setLineWidth(style.lineWeight);
 
   // Set line dash
-  if (entity.lineStyle === "dashed") {
+  if (style.lineStyle === "dashed") {
     // @ts-ignore - jsPDF supports setLineDash in some builds
     doc.setLineDashPattern?.([2, 1], 0);
-  } else if (entity.lineStyle === "dotted") {
+  } else if (style.lineStyle === "dotted") {
     doc.setLineDashPattern?.([0.5, 0.5], 0);
-  } else if (entity.lineStyle === "dashdot") {
+  } else if (style.lineStyle === "dashdot") {
     doc.setLineDashPattern?.([2, 0.5, 0.5, 0.5], 0);
   } else {
     doc.setLineDashPattern?.([], 0);
@@ -195,6 +197,12 @@ function drawEntityToPdf(
         doc.line(tx(bp[i].x), ty(bp[i].y), tx(bp[i + 1].x), ty(bp[i + 1].y));
       }
       doc.line(tx(bp[bp.length - 1].x), ty(bp[bp.length - 1].y), tx(bp[0].x), ty(bp[0].y));
+      for (const island of data.islands ?? []) {
+        for (let i = 0; i < island.length; i++) {
+          const a = island[i], b = island[(i + 1) % island.length];
+          doc.line(tx(a.x), ty(a.y), tx(b.x), ty(b.y));
+        }
+      }
 
       // Draw hatch pattern lines (simplified)
       if (data.pattern !== "solid") {
@@ -234,8 +242,29 @@ function drawEntityToPdf(
       for (const child of block.entities) {
         // Transform child entity positions
         const transformed = transformBlockEntity(child, data.insertPoint, data.scaleX, data.scaleY, data.rotation, block.basePoint);
-        drawEntityToPdf(doc, transformed, offsetX, offsetY, scale, allEntities, blocks);
+        if (child.colorByBlock) transformed.color = entity.color;
+        drawEntityToPdf(doc, transformed, offsetX, offsetY, scale, allEntities, blocks, plotStyle);
+      }
+      break;
+    }
+    case "point":
+      // A dot the size of the plotted lineweight
+      doc.setFillColor(r, g, b);
+      doc.circle(tx(data.position.x), ty(data.position.y), Math.max(0.25, style.lineWeight), "F");
+      break;
+    case "image": {
+      // Images plot in their own colors; PNG and JPEG embed as-is when
+      // placed square, anything else is baked to an axis-aligned PNG first
+      const format = directImageFormat(data);
+      if (format) {
+        doc.addImage(data.src, format, tx(data.insertPoint.x), ty(data.insertPoint.y), data.width * scale, data.height * scale);
+        break;
       }
+      // Baking needs a canvas; without one (Node) the image is left out
+      const baked = renderImageEntity(data);
+      if (!baked) break;
+      const [tl, , br] = baked.corners;
+      doc.addImage(baked.dataUrl, "PNG", tx(tl.x), ty(tl.y), (br.x - tl.x) * scale, (br.y - tl.y) * scale);
       break;
     }
   }
@@ -289,6 +318,9 @@ function transformBlockEntity(
     case "text":
       newData = { ...d, position: tp(d.position), fontSize: d.fontSize * Math.abs(scaleX) };
       break;
+    case "point":
+      newData = { ...d, position: tp(d.position) };
+      break;
     default:
       newData = d;
   }
@@ -389,89 +421,224 @@ function drawTitleBlockToPdf(doc: jsPDF, layout: Layout) {
 }
 
 // ============================================================
-// Export Model Space to PDF
+// Plot Model Space to PDF
 // ============================================================
-export function exportModelSpaceToPdf(
-  entities: CADEntity[],
-  blocks: { id: string; entities: CADEntity[]; basePoint: Point }[],
-  filename: string = "drawing.pdf"
-) {
-  // Calculate bounding box of all entities
+export interface PlotBounds { minX: number; minY: number; maxX: number; maxY: number }
+
+export interface PlotSettings {
+  /** Model space region to plot; null = drawing extents */
+  area: PlotBounds | null;
+  paperSize: Exclude<PaperSize, "Custom">;
+  /** "auto" follows the aspect ratio of the plot area */
+  orientation: PaperOrientation | "auto";
+  /** Paper mm per drawing unit (1:50 = 1/50), or shrink/grow the area onto one sheet */
+  scale: number | "fit";
+  /** Center the area on the paper; otherwise place it at `offset` from the top-left of the printable area */
+  center: boolean;
+  /** mm */
+  offset: Point;
+  /** Unprintable border in mm */
+  margin: number;
+  /** Paper shared by neighbouring tiles in mm */
+  tileOverlap: number;
+}
+
+export const DEFAULT_PLOT_SETTINGS: PlotSettings = {
+  area: null, paperSize: "A3", orientation: "auto", scale: "fit", center: true, offset: { x: 0, y: 0 }, margin: 20, tileOverlap: 10,
+};
+
+/** Standard plot scales as paper mm per drawing unit (drawing units are mm) */
+export const PLOT_SCALES: { label: string; value: number }[] = [
+  { label: "10:1", value: 10 }, { label: "5:1", value: 5 }, { label: "2:1", value: 2 }, { label: "1:1", value: 1 },
+  { label: "1:2", value: 1 / 2 }, { label: "1:5", value: 1 / 5 }, { label: "1:10", value: 1 / 10 }, { label: "1:20", value: 1 / 20 },
+  { label: "1:50", value: 1 / 50 }, { label: "1:100", value: 1 / 100 }, { label: "1:200", value: 1 / 200 }, { label: "1:500", value: 1 / 500 },
+  { label: "1:1000", value: 1 / 1000 },
+];
+
+/** Plots needing more pages than this are refused; a wrong scale would otherwise produce thousands */
+export const MAX_PLOT_PAGES = 100;
+
+/** The plot would need more than MAX_PLOT_PAGES pages */
+export class PlotPageLimitError extends Error {
+  constructor(public pages: number) {
+    super(`the plot needs ${pages} pages, more than the limit of ${MAX_PLOT_PAGES}; choose a smaller scale or a larger paper`);
+    this.name = "PlotPageLimitError";
+  }
+}
+
+/** Page geometry of a plot: sheet size, resolved scale and how many tiles it needs */
+export interface PlotPageLayout {
+  bounds: PlotBounds;
+  pageW: number;
+  pageH: number;
+  orientation: PaperOrientation;
+  /** Paper mm per drawing unit */
+  scale: number;
+  cols: number;
+  rows: number;
+  /** Top-left of the plotted area on the (tiled) printable area, in mm */
+  originX: number;
+  originY: number;
+}
+
+/** Extents of visible entities, or null for an empty drawing */
+export function getPlotExtents(entities: CADEntity[]): PlotBounds | null {
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
   for (const e of entities) {
     if (!e.visible) continue;
-    const d = e.data;
-    const pts = getEntityBounds(d);
-    for (const p of pts) {
-      minX = Math.min(minX, p.x);
-      minY = Math.min(minY, p.y);
-      maxX = Math.max(maxX, p.x);
-      maxY = Math.max(maxY, p.y);
+    for (const p of getEntityBounds(e.data)) {
+      minX = Math.min(minX, p.x); minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
     }
   }
+  return isFinite(minX) ? { minX, minY, maxX, maxY } : null;
+}
+
+export function computePlotLayout(settings: PlotSettings, bounds: PlotBounds): PlotPageLayout {
+  const drawW = Math.max(bounds.maxX - bounds.minX, 1e-6);
+  const drawH = Math.max(bounds.maxY - bounds.minY, 1e-6);
+  const dim = PAPER_SIZES[settings.paperSize];
+  const orientation = settings.orientation === "auto" ? (drawW >= drawH ? "landscape" : "portrait") : settings.orientation;
+  const pageW = orientation === "landscape" ? Math.max(dim.width, dim.height) : Math.min(dim.width, dim.height);
+  const pageH = orientation === "landscape" ? Math.min(dim.width, dim.height) : Math.max(dim.width, dim.height);
+  const availW = pageW - settings.margin * 2;
+  const availH = pageH - settings.margin * 2;
+
+  const scale = settings.scale === "fit" ? Math.min(availW / drawW, availH / drawH) : settings.scale;
+  const contentW = drawW * scale, contentH = drawH * scale;
+  // An offset pushes the content further across the tiles
+  const extentW = contentW + (settings.center ? 0 : Math.max(0, settings.offset.x));
+  const extentH = contentH + (settings.center ? 0 : Math.max(0, settings.offset.y));
+
+  // Tiles advance by the printable size less the overlap
+  const overlap = Math.max(0, Math.min(settings.tileOverlap, Math.min(availW, availH) / 2));
+  const tiles = (content: number, avail: number) => content <= avail + 1e-6 ? 1 : Math.ceil((content - overlap) / (avail - overlap));
+  const cols = tiles(extentW, availW), rows = tiles(extentH, availH);
+  const totalW = cols === 1 ? availW : cols * (availW - overlap) + overlap;
+  const totalH = rows === 1 ? availH : rows * (availH - overlap) + overlap;
+
+  return {
+    bounds, pageW, pageH, orientation, scale, cols, rows,
+    originX: settings.center ? (totalW - contentW) / 2 : settings.offset.x,
+    originY: settings.center ? (totalH - contentH) / 2 : settings.offset.y,
+  };
+}
+
+/** Crosshair marks at the overlap centre lines, identical on neighbouring tiles */
+function drawRegistrationMarks(doc: jsPDF, margin: number, availW: number, availH: number, overlap: number) {
+  doc.setDrawColor(120, 120, 120);
+  doc.setLineWidth(0.15);
+  doc.setLineDashPattern?.([], 0);
+  const xs = [margin + overlap / 2, margin + availW - overlap / 2];
+  const ys = [margin + overlap / 2, margin + availH - overlap / 2];
+  for (const x of xs) {
+    for (const y of ys) {
+      doc.line(x - 4, y, x + 4, y);
+      doc.line(x, y - 4, x, y + 4);
+      doc.circle(x, y, 2, "S");
+    }
+  }
+}
+
+/** Plot model space with the given area, paper, scale and placement; tiles onto several pages when it does not fit */
+export function plotModelSpaceToPdf(
+  entities: CADEntity[],
+  blocks: PdfBlocks,
+  settings: PlotSettings,
+  filename: string = "drawing.pdf",
+  plotStyle: PlotStyleTable | null = null
+) {
+  buildModelSpacePdf(entities, blocks, settings, plotStyle).save(filename);
+}
 
-  if (!isFinite(minX)) {
+/** The PDF document plotModelSpaceToPdf saves */
+export function buildModelSpacePdf(
+  entities: CADEntity[],
+  blocks: PdfBlocks,
+  settings: PlotSettings = DEFAULT_PLOT_SETTINGS,
+  plotStyle: PlotStyleTable | null = null
+): jsPDF {
+  const bounds = settings.area ?? getPlotExtents(entities);
+  if (!bounds) {
     // No entities, create empty page
     const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a3" });
     doc.setFontSize(14);
     doc.text("CAD Studio — Empty Drawing", 20, 20);
-    doc.save(filename);
-    return;
+    return doc;
   }
 
-  // Add margin
-  const margin = 20;
-  const drawW = maxX - minX;
-  const drawH = maxY - minY;
-
-  // Choose paper size based on aspect ratio
-  const aspect = drawW / (drawH || 1);
-  const orientation = aspect > 1 ? "landscape" : "portrait";
-  const format = "a3";
-
-  const doc = new jsPDF({ orientation: orientation as "landscape" | "portrait", unit: "mm", format });
-  const pageW = doc.internal.pageSize.getWidth();
-  const pageH = doc.internal.pageSize.getHeight();
-
-  // Calculate scale to fit drawing on page
-  const availW = pageW - margin * 2;
-  const availH = pageH - margin * 2;
-  const scale = Math.min(availW / (drawW || 1), availH / (drawH || 1));
+  const plot = computePlotLayout(settings, bounds);
+  if (plot.cols * plot.rows > MAX_PLOT_PAGES) throw new PlotPageLimitError(plot.cols * plot.rows);
+  const { margin } = settings;
+  const availW = plot.pageW - margin * 2, availH = plot.pageH - margin * 2;
+  const overlap = Math.max(0, Math.min(settings.tileOverlap, Math.min(availW, availH) / 2));
+  const tiled = plot.cols * plot.rows > 1;
+  const contentW = (bounds.maxX - bounds.minX) * plot.scale, contentH = (bounds.maxY - bounds.minY) * plot.scale;
+
+  const doc = new jsPDF({ orientation: plot.orientation, unit: "mm", format: [Math.max(plot.pageW, plot.pageH), Math.min(plot.pageW, plot.pageH)] });
+
+  for (let row = 0; row < plot.rows; row++) {
+    for (let col = 0; col < plot.cols; col++) {
+      if (row > 0 || col > 0) doc.addPage([Math.max(plot.pageW, plot.pageH), Math.min(plot.pageW, plot.pageH)], plot.orientation);
+      const shiftX = col * (availW - overlap), shiftY = row * (availH - overlap);
+      const areaX = margin + plot.originX - shiftX, areaY = margin + plot.originY - shiftY;
+
+      // Clip to the plot area where it lies on the printable part of this page
+      const clipX = Math.max(margin, areaX), clipY = Math.max(margin, areaY);
+      const clipW = Math.min(margin + availW, areaX + contentW) - clipX;
+      const clipH = Math.min(margin + availH, areaY + contentH) - clipY;
+      if (clipW > 0 && clipH > 0) {
+        doc.saveGraphicsState();
+        doc.rect(clipX, clipY, clipW, clipH, null);
+        doc.clip();
+        doc.discardPath();
+        const offsetX = areaX - bounds.minX * plot.scale;
+        const offsetY = areaY - bounds.minY * plot.scale;
+        for (const entity of entities) {
+          drawEntityToPdf(doc, entity, offsetX, offsetY, plot.scale, entities, blocks, plotStyle);
+        }
+        doc.restoreGraphicsState();
+      }
 
-  // Center the drawing
-  const offsetX = margin + (availW - drawW * scale) / 2 - minX * scale;
-  const offsetY = margin + (availH - drawH * scale) / 2 - minY * scale;
+      if (tiled) {
+        drawRegistrationMarks(doc, margin, availW, availH, overlap);
+        doc.setFontSize(8);
+        doc.setTextColor(120, 120, 120);
+        doc.text(`Tile ${row * plot.cols + col + 1} of ${plot.cols * plot.rows} — row ${row + 1}, column ${col + 1}`, margin, plot.pageH - 5);
+      }
 
-  // Draw all entities
-  for (const entity of entities) {
-    drawEntityToPdf(doc, entity, offsetX, offsetY, scale, entities, blocks);
+      // Add watermark
+      doc.setFontSize(8);
+      doc.setTextColor(180, 180, 180);
+      doc.text("Exported from CAD Studio", plot.pageW - margin, plot.pageH - 5, { align: "right" });
+    }
   }
 
-  // Add watermark
-  doc.setFontSize(8);
-  doc.setTextColor(180, 180, 180);
-  doc.text("Exported from CAD Studio", pageW - margin, pageH - 5, { align: "right" });
+  return doc;
+}
 
-  doc.save(filename);
+/** Quick export: drawing extents fitted onto one A3 sheet */
+export function exportModelSpaceToPdf(
+  entities: CADEntity[],
+  blocks: PdfBlocks,
+  filename: string = "drawing.pdf",
+  plotStyle: PlotStyleTable | null = null
+) {
+  plotModelSpaceToPdf(entities, blocks, DEFAULT_PLOT_SETTINGS, filename, plotStyle);
 }
 
 // ============================================================
 // Export Layout (Paper Space) to PDF
 // ============================================================
-export function exportLayoutToPdf(
-  layout: Layout,
-  entities: CADEntity[],
-  blocks: { id: string; entities: CADEntity[]; basePoint: Point }[],
-  filename: string = "layout.pdf"
-) {
-  const { w: paperW, h: paperH } = getPaperMmSize(layout);
-  const orientation = paperW > paperH ? "landscape" : "portrait";
+/** jsPDF page format and orientation for a layout's paper */
+function layoutPageFormat(layout: Layout): { format: number[]; orientation: "landscape" | "portrait" } {
+  const { w, h } = getPaperMmSize(layout);
+  return { format: [Math.max(w, h), Math.min(w, h)], orientation: w > h ? "landscape" : "portrait" };
+}
 
-  const doc = new jsPDF({
-    orientation: orientation as "landscape" | "portrait",
-    unit: "mm",
-    format: [Math.max(paperW, paperH), Math.min(paperW, paperH)],
-  });
+/** Draw a layout sheet onto the current page of the document */
+function drawLayoutPage(doc: jsPDF, layout: Layout, entities: CADEntity[], blocks: PdfBlocks, plotStyle: PlotStyleTable | null) {
+  const { w: paperW, h: paperH } = getPaperMmSize(layout);
 
   // Draw paper border
   doc.setDrawColor(0, 0, 0);
@@ -516,7 +683,7 @@ export function exportLayoutToPdf(
     for (const entity of entities) {
       if (!entity.visible) continue;
       // Simple bounds check
-      drawEntityToPdf(doc, entity, vpOffsetX, vpOffsetY, vpScale, entities, blocks);
+      drawEntityToPdf(doc, entity, vpOffsetX, vpOffsetY, vpScale, entities, blocks, plotStyle);
     }
   }
 
@@ -527,6 +694,126 @@ export function exportLayoutToPdf(
   doc.setFontSize(6);
   doc.setTextColor(200, 200, 200);
   doc.text("Exported from CAD Studio", paperW - layout.marginRight, paperH - 2, { align: "right" });
+}
+
+export function exportLayoutToPdf(
+  layout: Layout,
+  entities: CADEntity[],
+  blocks: PdfBlocks,
+  filename: string = "layout.pdf",
+  plotStyle: PlotStyleTable | null = null
+) {
+  buildLayoutPdf(layout, entities, blocks, plotStyle).save(filename);
+}
+
+/** The PDF document exportLayoutToPdf saves: one page with the layout sheet */
+export function buildLayoutPdf(layout: Layout, entities: CADEntity[], blocks: PdfBlocks, plotStyle: PlotStyleTable | null = null): jsPDF {
+  const { format, orientation } = layoutPageFormat(layout);
+  const doc = new jsPDF({ orientation, unit: "mm", format });
+  drawLayoutPage(doc, layout, entities, blocks, plotStyle);
+  return doc;
+}
+
+// ============================================================
+// Publish several layouts as one PDF sheet set
+// ============================================================
+export interface PublishOptions {
+  /** Prepend a generated sheet index listing every published layout */
+  coverSheet: boolean;
+  /** Heading of the cover sheet; defaults to the first layout's project name */
+  title?: string;
+}
+
+/** Bookmark and index label of a layout: "sheet number — name" when a sheet number is set */
+export function sheetLabel(layout: Layout): string {
+  const num = layout.titleBlock.sheetNumber.trim();
+  return num ? `${num} — ${layout.name}` : layout.name;
+}
+
+const COVER_ROW_H = 7;
+const COVER_TOP = 50;
+
+/** Sheet index on A4 portrait pages; each row links to its sheet's page */
+function drawCoverSheet(doc: jsPDF, layouts: Layout[], firstSheetPage: number, rowsPerPage: number, title: string) {
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const cols = [margin, margin + 25, pageW - margin - 55, pageW - margin - 15];
+  const pages = Math.max(1, Math.ceil(layouts.length / rowsPerPage));
+
+  for (let page = 0; page < pages; page++) {
+    if (page > 0) doc.addPage("a4", "portrait");
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(18);
+    doc.text(title, margin, 30);
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(100, 100, 100);
+    doc.text(pages > 1 ? `Sheet Index (${page + 1}/${pages})` : "Sheet Index", margin, 38);
+
+    // Column headings
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "bold");
+    ["SHEET", "TITLE", "PAPER", "REV"].forEach((h, i) => doc.text(h, cols[i], COVER_TOP - 2));
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.3);
+    doc.line(margin, COVER_TOP, pageW - margin, COVER_TOP);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    layouts.slice(page * rowsPerPage, (page + 1) * rowsPerPage).forEach((layout, i) => {
+      const index = page * rowsPerPage + i;
+      const y = COVER_TOP + (i + 1) * COVER_ROW_H - 2;
+      const tb = layout.titleBlock;
+      doc.setTextColor(0, 0, 0);
+      doc.text(tb.sheetNumber || String(index + 1), cols[0], y);
+      doc.setTextColor(30, 64, 175);
+      doc.textWithLink(tb.drawingTitle || layout.name, cols[1], y, { pageNumber: firstSheetPage + index });
+      doc.setTextColor(0, 0, 0);
+      doc.text(`${layout.paperSize} ${layout.orientation}`, cols[2], y);
+      doc.text(tb.revision, cols[3], y);
+      doc.setDrawColor(220, 220, 220);
+      doc.line(margin, y + 2, pageW - margin, y + 2);
+    });
+
+    doc.setFontSize(6);
+    doc.setTextColor(200, 200, 200);
+    doc.text("Exported from CAD Studio", pageW - margin, pageH - 5, { align: "right" });
+  }
+}
+
+/** Publish layouts, in the given order, as pages of one PDF with a bookmark per sheet */
+export function publishLayoutsToPdf(
+  layouts: Layout[],
+  entities: CADEntity[],
+  blocks: PdfBlocks,
+  options: PublishOptions,
+  filename: string = "sheet-set.pdf",
+  plotStyleTables: PlotStyleTable[] = []
+) {
+  if (layouts.length === 0) return;
+  const rowsPerPage = Math.floor((297 - COVER_TOP - 20) / COVER_ROW_H);
+  const coverPages = options.coverSheet ? Math.max(1, Math.ceil(layouts.length / rowsPerPage)) : 0;
+
+  const first = layoutPageFormat(layouts[0]);
+  const doc = options.coverSheet
+    ? new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" })
+    : new jsPDF({ orientation: first.orientation, unit: "mm", format: first.format });
+
+  if (options.coverSheet) {
+    drawCoverSheet(doc, layouts, coverPages + 1, rowsPerPage, options.title || layouts[0].titleBlock.projectName || "Drawing Set");
+    doc.outline.add(null, "Sheet Index", { pageNumber: 1 });
+  }
+
+  layouts.forEach((layout, i) => {
+    if (options.coverSheet || i > 0) {
+      const { format, orientation } = layoutPageFormat(layout);
+      doc.addPage(format, orientation);
+    }
+    drawLayoutPage(doc, layout, entities, blocks, findPlotStyleTable(plotStyleTables, layout.plotStyleTableId));
+    doc.outline.add(null, sheetLabel(layout), { pageNumber: coverPages + i + 1 });
+  });
 
   doc.save(filename);
 }
@@ -568,6 +855,10 @@ function getEntityBounds(data: any): Point[] {
       return data.controlPoints;
     case "hatch":
       return data.boundary;
+    case "point":
+      return [data.position];
+    case "image":
+      return imageOutline(data);
     default:
       return [];
   }
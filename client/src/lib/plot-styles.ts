@@ -0,0 +1,121 @@
+// ============================================================
+// Plot Styles — Named tables mapping entity colors and layers
+// to plotted color, lineweight, screening and linetype
+// ============================================================
+
+import type { CADEntity, BlockDefinition, LineStyle, PlotStyleTable, PlotStyleRule } from "./cad-types";
+
+/** Lineweight in mm plotted for one unit of entity line width when no rule sets one */
+export const MM_PER_LINE_WIDTH = 0.15;
+
+/** Thinnest line a plotter reliably draws */
+const MIN_LINE_WEIGHT = 0.1;
+
+export const BUILTIN_PLOT_STYLE_TABLES: PlotStyleTable[] = [
+  { id: "builtin-monochrome", name: "monochrome", mode: "monochrome", rules: [], builtIn: true },
+  { id: "builtin-grayscale", name: "grayscale", mode: "grayscale", rules: [], builtIn: true },
+];
+
+/** Built-in tables followed by the drawing's own */
+export function getPlotStyleTables(custom: PlotStyleTable[]): PlotStyleTable[] {
+  return [...BUILTIN_PLOT_STYLE_TABLES, ...custom];
+}
+
+export function findPlotStyleTable(custom: PlotStyleTable[], id: string | null | undefined): PlotStyleTable | null {
+  if (!id) return null;
+  return getPlotStyleTables(custom).find(t => t.id === id) ?? null;
+}
+
+export function createPlotStyleTable(name: string): PlotStyleTable {
+  return { id: `pst-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, mode: "color", rules: [] };
+}
+
+export function createPlotStyleRule(match: PlotStyleRule["match"]): PlotStyleRule {
+  return { id: `psr-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, match };
+}
+
+// ============================================================
+// Color helpers
+// ============================================================
+export function hexToRgb(hex: string): [number, number, number] {
+  const h = hex.replace("#", "");
+  const r = parseInt(h.substring(0, 2), 16) || 0;
+  const g = parseInt(h.substring(2, 4), 16) || 0;
+  const b = parseInt(h.substring(4, 6), 16) || 0;
+  return [r, g, b];
+}
+
+export function rgbToHex([r, g, b]: [number, number, number]): string {
+  return "#" + [r, g, b].map(v => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, "0")).join("");
+}
+
+function isNearWhite([r, g, b]: [number, number, number]): boolean {
+  return r > 220 && g > 220 && b > 220;
+}
+
+/** Print style without a plot style table: near-white would vanish on paper, so it prints black */
+export function printColor(color: string): string {
+  if (!/^#[0-9a-f]{6}$/i.test(color)) return color;
+  return isNearWhite(hexToRgb(color)) ? "#000000" : color;
+}
+
+// ============================================================
+// Resolve
+// ============================================================
+export interface ResolvedPlotStyle {
+  rgb: [number, number, number];
+  /** Lineweight in mm */
+  lineWeight: number;
+  lineStyle: LineStyle;
+  /** Custom dash pattern, dropped when the rule overrides the linetype */
+  linePattern?: number[];
+}
+
+function matchRule(entity: CADEntity, table: PlotStyleTable): PlotStyleRule | undefined {
+  const color = entity.color.toLowerCase();
+  return table.rules.find(r => r.match.by === "layer" ? r.match.layerId === entity.layerId : r.match.color.toLowerCase() === color);
+}
+
+/**
+ * Plotted appearance of an entity. Without a table, near-white becomes black
+ * (it would vanish on paper) and everything else plots in its own color.
+ */
+export function resolvePlotStyle(entity: CADEntity, table: PlotStyleTable | null): ResolvedPlotStyle {
+  const rule = table ? matchRule(entity, table) : undefined;
+  let rgb = hexToRgb(rule?.color ?? entity.color);
+
+  if (!rule?.color) {
+    const [r, g, b] = rgb;
+    switch (table?.mode ?? "color") {
+      case "monochrome": rgb = [0, 0, 0]; break;
+      case "grayscale": { const y = 0.299 * r + 0.587 * g + 0.114 * b; rgb = [y, y, y]; break; }
+      case "color": if (isNearWhite(rgb)) rgb = [0, 0, 0]; break;
+    }
+  }
+
+  // Screening fades the ink towards the white of the paper
+  if (rule?.screening !== undefined) {
+    const k = Math.max(0, Math.min(100, rule.screening)) / 100;
+    rgb = rgb.map(v => 255 - (255 - v) * k) as [number, number, number];
+  }
+  rgb = rgb.map(Math.round) as [number, number, number];
+
+  return {
+    rgb,
+    lineWeight: Math.max(MIN_LINE_WEIGHT, rule?.lineWeight ?? entity.lineWidth * MM_PER_LINE_WIDTH),
+    lineStyle: rule?.lineStyle ?? entity.lineStyle,
+    linePattern: rule?.lineStyle ? undefined : entity.linePattern,
+  };
+}
+
+/** Entities restyled as they will plot, for the on-canvas plot style preview */
+export function applyPlotStyle(entities: CADEntity[], table: PlotStyleTable | null): CADEntity[] {
+  return entities.map(e => {
+    const s = resolvePlotStyle(e, table);
+    return { ...e, color: rgbToHex(s.rgb), lineWidth: s.lineWeight / MM_PER_LINE_WIDTH, lineStyle: s.lineStyle, linePattern: s.linePattern };
+  });
+}
+
+export function applyPlotStyleToBlocks(blocks: BlockDefinition[], table: PlotStyleTable | null): BlockDefinition[] {
+  return blocks.map(b => ({ ...b, entities: applyPlotStyle(b.entities, table) }));
+}
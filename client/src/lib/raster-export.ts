@@ -0,0 +1,158 @@
+// ============================================================
+// Raster Export — Render model space, a window or a layout
+// sheet offscreen and encode it as PNG, JPEG or WebP
+// ============================================================
+
+import type { CADEntity, Layer, BlockDefinition, Layout } from "./cad-types";
+import { getEntitiesBBox } from "./cad-utils";
+import { getBlockRefEntities } from "./block-utils";
+import { drawPaperSheet, drawTitleBlock, getPaperMmSize, getPaperPixelSize } from "./layout-utils";
+import { drawModelEntities, drawLayoutViewports } from "./canvas-render";
+import { printColor } from "./plot-styles";
+
+export type RasterFormat = "png" | "jpeg" | "webp";
+export type RasterBackground = "white" | "transparent";
+
+export interface RasterBounds { minX: number; minY: number; maxX: number; maxY: number }
+
+export type RasterArea =
+  | { kind: "extents" }
+  | { kind: "window"; bounds: RasterBounds }
+  | { kind: "layout"; layoutId: string };
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  area: RasterArea;
+  /** Resolution; 96 dpi draws lines and text at their on-screen size */
+  dpi: number;
+  /** Image width in pixels for model space areas; layouts size from paper and dpi */
+  width: number;
+  /** JPEG has no alpha channel, so it is always written on white */
+  background: RasterBackground;
+  /** Encoder quality for JPEG and WebP, 0..1 */
+  quality?: number;
+}
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = { png: "image/png", jpeg: "image/jpeg", webp: "image/webp" };
+export const RASTER_EXTENSIONS: Record<RasterFormat, string> = { png: "png", jpeg: "jpg", webp: "webp" };
+
+/** Largest side in pixels; browsers refuse bigger canvases */
+export const MAX_RASTER_SIZE = 8192;
+
+/** Screen resolution that entity line widths and font sizes are expressed in */
+const SCREEN_DPI = 96;
+
+// ============================================================
+// Area and size
+// ============================================================
+
+/** Extents of the visible drawing with block references expanded, or null when it is empty */
+export function getDrawingExtents(entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[]): RasterBounds | null {
+  const hidden = new Set(layers.filter(l => !l.visible).map(l => l.id));
+  const flat = entities.filter(e => e.visible && !hidden.has(e.layerId)).flatMap(e => {
+    if (e.data.type !== "blockref") return [e];
+    const ref = e.data;
+    const block = blocks.find(b => b.id === ref.blockId);
+    return block ? getBlockRefEntities(block, ref, blocks) : [];
+  });
+  return getEntitiesBBox(flat);
+}
+
+/** Model space bounds an area covers; extents get a 5% margin so edge lines are not cut */
+function areaBounds(area: RasterArea, entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[]): RasterBounds {
+  if (area.kind === "window") return area.bounds;
+  const ext = getDrawingExtents(entities, layers, blocks) ?? { minX: -100, minY: -100, maxX: 500, maxY: 500 };
+  const m = Math.max(ext.maxX - ext.minX, ext.maxY - ext.minY, 1) * 0.05;
+  return { minX: ext.minX - m, minY: ext.minY - m, maxX: ext.maxX + m, maxY: ext.maxY + m };
+}
+
+/** Pixel size of the exported image, before clamping to MAX_RASTER_SIZE */
+export function getRasterSize(options: RasterExportOptions, entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[], layouts: Layout[]): { width: number; height: number } {
+  const { area } = options;
+  if (area.kind === "layout") {
+    const layout = layouts.find(l => l.id === area.layoutId);
+    if (!layout) return { width: 0, height: 0 };
+    const mm = getPaperMmSize(layout);
+    return { width: Math.round(mm.w / 25.4 * options.dpi), height: Math.round(mm.h / 25.4 * options.dpi) };
+  }
+  const b = areaBounds(area, entities, layers, blocks);
+  const w = Math.max(b.maxX - b.minX, 1e-6), h = Math.max(b.maxY - b.minY, 1e-6);
+  const width = Math.max(1, Math.round(options.width));
+  return { width, height: Math.max(1, Math.round(width * h / w)) };
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+
+/** Print style: near-white would vanish on a white background, so draw it black */
+const toPrint = (list: CADEntity[]): CADEntity[] => list.map(e => ({ ...e, color: printColor(e.color) }));
+
+/** Render the requested area onto a new canvas */
+export function renderRaster(
+  options: RasterExportOptions,
+  entities: CADEntity[],
+  layers: Layer[],
+  blocks: BlockDefinition[],
+  layouts: Layout[]
+): HTMLCanvasElement {
+  const size = getRasterSize(options, entities, layers, blocks, layouts);
+  if (size.width === 0) throw new Error("Layout not found");
+  const clamp = Math.min(1, MAX_RASTER_SIZE / Math.max(size.width, size.height));
+  const width = Math.max(1, Math.floor(size.width * clamp)), height = Math.max(1, Math.floor(size.height * clamp));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  // Draw in screen pixels scaled to the target resolution, as the editor does for devicePixelRatio
+  const k = options.dpi / SCREEN_DPI * clamp;
+  ctx.scale(k, k);
+  const logicalW = width / k, logicalH = height / k;
+
+  const white = options.background === "white" || options.format === "jpeg";
+  const drawEntities = white ? toPrint(entities) : entities;
+  const drawBlocks = white ? blocks.map(b => ({ ...b, entities: toPrint(b.entities) })) : blocks;
+
+  if (white) {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, logicalW, logicalH);
+  }
+
+  const { area } = options;
+  if (area.kind === "layout") {
+    const layout = layouts.find(l => l.id === area.layoutId)!;
+    const paperZoom = logicalW / getPaperPixelSize(layout).w;
+    if (white) drawPaperSheet(ctx, layout, 0, 0, paperZoom, false);
+    drawLayoutViewports(ctx, layout, drawEntities, layers, drawBlocks, 0, 0, paperZoom, false, null, false);
+    drawTitleBlock(ctx, layout, 0, 0, paperZoom, false);
+  } else {
+    const b = areaBounds(area, entities, layers, blocks);
+    const zoom = logicalW / Math.max(b.maxX - b.minX, 1e-6);
+    const cx = logicalW / 2, cy = logicalH / 2;
+    drawModelEntities(ctx, drawEntities, layers, drawBlocks, zoom, -(b.minX + b.maxX) / 2 * zoom, -(b.minY + b.maxY) / 2 * zoom, cx, cy);
+  }
+  return canvas;
+}
+
+/** Render and encode the requested area */
+export function exportToRaster(
+  options: RasterExportOptions,
+  entities: CADEntity[],
+  layers: Layer[],
+  blocks: BlockDefinition[],
+  layouts: Layout[]
+): Promise<Blob> {
+  const canvas = renderRaster(options, entities, layers, blocks, layouts);
+  const type = RASTER_MIME_TYPES[options.format];
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers fall back to PNG for encoders they lack (WebP in older Safari)
+      if (!blob) reject(new Error(`Could not encode ${options.format.toUpperCase()} image`));
+      else if (blob.type !== type) reject(new Error(`This browser cannot write ${options.format.toUpperCase()} images`));
+      else resolve(blob);
+    }, type, options.quality ?? 0.92);
+  });
+}
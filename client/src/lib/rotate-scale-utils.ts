@@ -52,6 +52,20 @@ export function rotateEntityData(data: EntityData, center: Point, angle: number)
     case "dimension": {
       return { ...data, start: rotatePoint(data.start, center, angle), end: rotatePoint(data.end, center, angle) };
     }
+    case "hatch":
+      return { ...data, boundary: data.boundary.map(p => rotatePoint(p, center, angle)), islands: data.islands?.map(loop => loop.map(p => rotatePoint(p, center, angle))), patternAngle: data.patternAngle + angle * 180 / Math.PI };
+    case "spline":
+      return { ...data, controlPoints: data.controlPoints.map(p => rotatePoint(p, center, angle)) };
+    case "xline":
+    case "ray":
+      return { ...data, basePoint: rotatePoint(data.basePoint, center, angle), direction: rotatePoint(data.direction, { x: 0, y: 0 }, angle) };
+    case "blockref":
+      // Block rotation is in degrees
+      return { ...data, insertPoint: rotatePoint(data.insertPoint, center, angle), rotation: data.rotation + angle * 180 / Math.PI };
+    case "image":
+      return { ...data, insertPoint: rotatePoint(data.insertPoint, center, angle), rotation: data.rotation + angle };
+    case "point":
+      return { ...data, position: rotatePoint(data.position, center, angle) };
     default:
       return data;
   }
@@ -97,6 +111,20 @@ export function scaleEntityData(data: EntityData, center: Point, factor: number)
     case "dimension": {
       return { ...data, start: scalePoint(data.start, center, factor), end: scalePoint(data.end, center, factor), offset: data.offset * Math.abs(factor) };
     }
+    case "hatch":
+      return { ...data, boundary: data.boundary.map(p => scalePoint(p, center, factor)), islands: data.islands?.map(loop => loop.map(p => scalePoint(p, center, factor))) };
+    case "spline":
+      return { ...data, controlPoints: data.controlPoints.map(p => scalePoint(p, center, factor)) };
+    case "xline":
+    case "ray":
+      return { ...data, basePoint: scalePoint(data.basePoint, center, factor) };
+    case "blockref":
+      return { ...data, insertPoint: scalePoint(data.insertPoint, center, factor), scaleX: data.scaleX * factor, scaleY: data.scaleY * factor };
+    case "point":
+      return { ...data, position: scalePoint(data.position, center, factor) };
+    case "image":
+      // A negative factor mirrors through the base point, which for an image is a half turn
+      return { ...data, insertPoint: scalePoint(data.insertPoint, center, factor), width: data.width * Math.abs(factor), height: data.height * Math.abs(factor), rotation: data.rotation + (factor < 0 ? Math.PI : 0) };
     default:
       return data;
   }
@@ -152,6 +152,35 @@ export function evaluateCatmullRom(controlPoints: Point[], closed: boolean, segm
   return result;
 }
 
+// ─── Catmull-Rom → Cubic Bezier Segments (exact, for export) ───
+
+export function catmullRomToBezier(controlPoints: Point[], closed: boolean): [Point, Point, Point, Point][] {
+  if (controlPoints.length < 2) return [];
+  const pts = closed && controlPoints.length > 2
+    ? [controlPoints[controlPoints.length - 1], ...controlPoints, controlPoints[0], controlPoints[1]]
+    : [controlPoints[0], ...controlPoints, controlPoints[controlPoints.length - 1]];
+
+  const segments: [Point, Point, Point, Point][] = [];
+  for (let i = 0; i < pts.length - 3; i++) {
+    const p0 = pts[i], p1 = pts[i + 1], p2 = pts[i + 2], p3 = pts[i + 3];
+    segments.push([
+      p1,
+      { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      p2,
+    ]);
+  }
+  return segments;
+}
+
+/** The points a spline is drawn through: Catmull-Rom samples, or the control points themselves for degree 1 */
+export function splineCurvePoints(data: SplineData): Point[] {
+  const { controlPoints, degree, closed } = data;
+  return degree <= 1
+    ? controlPoints
+    : evaluateCatmullRom(controlPoints, closed, Math.max(60, controlPoints.length * 20));
+}
+
 // ─── Draw Spline on Canvas ───
 
 export function drawSpline(
@@ -166,13 +195,10 @@ export function drawSpline(
   selected: boolean,
   showControlPoints: boolean = false,
 ) {
-  const { controlPoints, degree, closed } = data;
+  const { controlPoints, closed } = data;
   if (controlPoints.length < 2) return;
 
-  // Evaluate spline curve points
-  const curvePoints = degree <= 1
-    ? controlPoints // degree 1 = polyline
-    : evaluateCatmullRom(controlPoints, closed, Math.max(60, controlPoints.length * 20));
+  const curvePoints = splineCurvePoints(data);
 
   // Draw the curve
   ctx.save();
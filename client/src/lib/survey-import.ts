@@ -0,0 +1,283 @@
+// ============================================================
+// Survey Import — Point files (number, northing, easting,
+// elevation, description) as points or marker blocks with
+// labels, optionally joined into polylines by description code
+// ============================================================
+//
+// Survey coordinates are projected easting/northing in meters and are
+// placed through the drawing georeference, like GeoJSON imports.
+
+import type { Point, CADEntity, EntityData, BlockDefinition, Georeference } from "./cad-types";
+import { generateId } from "./cad-utils";
+import { createBlockRefEntity } from "./block-utils";
+import { groundToDrawing } from "./georeference";
+
+export type SurveyDelimiter = "," | ";" | "\t" | " ";
+
+export const SURVEY_DELIMITERS: { value: SurveyDelimiter; label: string }[] = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: " ", label: "Spaces" },
+];
+
+export type SurveyField = "number" | "northing" | "easting" | "elevation" | "description";
+
+export const SURVEY_FIELDS: { field: SurveyField; label: string; required: boolean }[] = [
+  { field: "number", label: "Point number", required: false },
+  { field: "northing", label: "Northing", required: true },
+  { field: "easting", label: "Easting", required: true },
+  { field: "elevation", label: "Elevation", required: false },
+  { field: "description", label: "Description", required: false },
+];
+
+/** Column index per field; -1 when the file has no such column */
+export type SurveyColumns = Record<SurveyField, number>;
+
+/** Which coordinate comes first in the file: PNEZD or PENZD */
+export type SurveyAxisOrder = "ne" | "en";
+
+export interface SurveyPoint {
+  number: string;
+  northing: number;
+  easting: number;
+  elevation: number | null;
+  description: string;
+}
+
+export interface SurveyImportOptions {
+  layerId: string;
+  color: string;
+  marker: "point" | "block";
+  /** Marker block size in meters on the ground */
+  markerSize: number;
+  labelNumber: boolean;
+  labelDescription: boolean;
+  /** Label height in meters on the ground */
+  textHeight: number;
+  /** Description codes whose points are joined, in file order, into polylines */
+  joinCodes: string[];
+}
+
+export const DEFAULT_SURVEY_OPTIONS: Omit<SurveyImportOptions, "layerId" | "color"> = {
+  marker: "point",
+  markerSize: 0.5,
+  labelNumber: true,
+  labelDescription: true,
+  textHeight: 0.5,
+  joinCodes: [],
+};
+
+export interface SurveyImportResult {
+  entities: CADEntity[];
+  /** Marker block to add to the drawing, when it does not exist yet */
+  block: BlockDefinition | null;
+  stats: { points: number; labels: number; lines: number };
+  extents: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+const MARKER_BLOCK_NAME = "SURVEY_POINT";
+
+// ============================================================
+// Reading
+// ============================================================
+
+/** The delimiter that splits the first lines into the most, equally sized, columns */
+export function detectDelimiter(text: string): SurveyDelimiter {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+  let best: SurveyDelimiter = ",", bestScore = 0;
+  for (const { value } of SURVEY_DELIMITERS) {
+    const counts = lines.map(l => splitLine(l, value).length);
+    const consistent = counts.every(c => c === counts[0]);
+    const score = counts.length > 0 && counts[0] > 1 ? counts[0] + (consistent ? 100 : 0) : 0;
+    if (score > bestScore) { best = value; bestScore = score; }
+  }
+  return best;
+}
+
+/** Split one line, honouring double quotes; runs of spaces count as one delimiter */
+function splitLine(line: string, delimiter: SurveyDelimiter): string[] {
+  if (delimiter === " ") return line.trim().match(/"[^"]*"|\S+/g)?.map(f => f.replace(/^"|"$/g, "")) ?? [];
+  const fields: string[] = [];
+  let field = "", quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === delimiter) { fields.push(field.trim()); field = ""; }
+    else field += c;
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/** Non-empty rows of a delimited file */
+export function splitRows(text: string, delimiter: SurveyDelimiter): string[][] {
+  return text.split(/\r?\n/).filter(l => l.trim() && !l.trimStart().startsWith("#")).map(l => splitLine(l, delimiter));
+}
+
+function isNumber(s: string | undefined): boolean {
+  return s !== undefined && s.trim() !== "" && Number.isFinite(Number(s));
+}
+
+/** Conventional PNEZD / PENZD layout for the given column count */
+export function defaultColumns(axisOrder: SurveyAxisOrder, columnCount: number): SurveyColumns {
+  const at = (i: number) => i < columnCount ? i : -1;
+  return {
+    number: at(0),
+    northing: at(axisOrder === "ne" ? 1 : 2),
+    easting: at(axisOrder === "ne" ? 2 : 1),
+    elevation: at(3),
+    description: at(4),
+  };
+}
+
+const HEADER_NAMES: Record<SurveyField, RegExp> = {
+  number: /^(p|pt|pnt|point|no|nr|num|number|id|name|point ?(no|number|id))$/i,
+  northing: /^(n|north|northing|y)$/i,
+  easting: /^(e|east|easting|x)$/i,
+  elevation: /^(z|h|elev|elevation|height|rl)$/i,
+  description: /^(d|desc|description|code|remarks?)$/i,
+};
+
+/**
+ * Whether the first row is a header, and the columns it names. Without a
+ * header (or for fields it does not name) the PNEZD / PENZD layout is used.
+ */
+export function guessColumns(rows: string[][], axisOrder: SurveyAxisOrder): { hasHeader: boolean; columns: SurveyColumns } {
+  const width = Math.max(0, ...rows.slice(0, 10).map(r => r.length));
+  const columns = defaultColumns(axisOrder, width);
+  const first = rows[0] ?? [];
+  const hasHeader = first.length > 0 && !(isNumber(first[columns.northing]) && isNumber(first[columns.easting]));
+  if (hasHeader) {
+    for (const { field } of SURVEY_FIELDS) {
+      const i = first.findIndex(h => HEADER_NAMES[field].test(h.trim()));
+      if (i >= 0) columns[field] = i;
+    }
+  }
+  return { hasHeader, columns };
+}
+
+/** Points of the rows; rows without numeric northing and easting are counted as skipped */
+export function readSurveyPoints(rows: string[][], columns: SurveyColumns, hasHeader: boolean): { points: SurveyPoint[]; skipped: number } {
+  const points: SurveyPoint[] = [];
+  let skipped = 0;
+  const cell = (row: string[], field: SurveyField) => columns[field] >= 0 ? row[columns[field]] ?? "" : "";
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const n = cell(row, "northing"), e = cell(row, "easting"), z = cell(row, "elevation");
+    if (!isNumber(n) || !isNumber(e)) { skipped++; return; }
+    points.push({
+      number: cell(row, "number") || String(i + 1),
+      northing: Number(n),
+      easting: Number(e),
+      elevation: isNumber(z) ? Number(z) : null,
+      description: cell(row, "description"),
+    });
+  });
+  return { points, skipped };
+}
+
+/** Field code of a description: its first word, upper-cased ("EP 12" → "EP") */
+export function descriptionCode(description: string): string {
+  return description.trim().split(/[\s,;/]+/)[0]?.toUpperCase() ?? "";
+}
+
+/** Description codes with their point counts, most frequent first */
+export function surveyCodes(points: SurveyPoint[]): { code: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const p of points) {
+    const code = descriptionCode(p.description);
+    if (code) counts.set(code, (counts.get(code) ?? 0) + 1);
+  }
+  return Array.from(counts, ([code, count]) => ({ code, count })).sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+}
+
+/** Ground extents as easting/northing, for suggesting a georeference */
+export function surveyExtents(points: SurveyPoint[]): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  if (points.length === 0) return null;
+  const es = points.map(p => p.easting), ns = points.map(p => p.northing);
+  return { minX: Math.min(...es), minY: Math.min(...ns), maxX: Math.max(...es), maxY: Math.max(...ns) };
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+/** Unit-size cross in a circle on the points' layer, inserted at each point scaled to the marker size */
+function markerBlock(layerId: string): BlockDefinition {
+  const base = { layerId, color: "#ffffff", colorByBlock: true, lineWidth: 1, lineStyle: "solid" as const, visible: true, locked: false, selected: false };
+  const data: EntityData[] = [
+    { type: "circle", center: { x: 0, y: 0 }, radius: 0.35 },
+    { type: "line", start: { x: -0.5, y: 0 }, end: { x: 0.5, y: 0 } },
+    { type: "line", start: { x: 0, y: -0.5 }, end: { x: 0, y: 0.5 } },
+  ];
+  return {
+    id: `block-${generateId()}`,
+    name: MARKER_BLOCK_NAME,
+    entities: data.map(d => ({ ...base, id: generateId(), type: d.type, data: d })),
+    basePoint: { x: 0, y: 0 },
+  };
+}
+
+/**
+ * Markers, labels and code lines for the points, placed through the
+ * georeference (which must be projected). Elevation, number and description
+ * are kept as attributes of each point or marker.
+ */
+export function surveyToEntities(points: SurveyPoint[], geo: Georeference, blocks: BlockDefinition[], options: SurveyImportOptions): SurveyImportResult {
+  const entities: CADEntity[] = [];
+  const stats = { points: 0, labels: 0, lines: 0 };
+  const units = (meters: number) => meters / geo.unitScale;
+  const size = units(options.markerSize), height = units(options.textHeight);
+  const existing = options.marker === "block" ? blocks.find(b => b.name === MARKER_BLOCK_NAME) : undefined;
+  const block = options.marker === "block" && !existing ? markerBlock(options.layerId) : null;
+  const blockId = existing?.id ?? block?.id ?? "";
+
+  const add = (data: EntityData) => {
+    const entity: CADEntity = {
+      id: generateId(), type: data.type, data, layerId: options.layerId, color: options.color,
+      lineWidth: 1, lineStyle: "solid", visible: true, locked: false, selected: false,
+    };
+    entities.push(entity);
+    return entity;
+  };
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const positions = points.map(p => {
+    const at = groundToDrawing({ x: p.easting, y: p.northing }, geo);
+    minX = Math.min(minX, at.x); minY = Math.min(minY, at.y);
+    maxX = Math.max(maxX, at.x); maxY = Math.max(maxY, at.y);
+    return at;
+  });
+
+  points.forEach((p, i) => {
+    const at = positions[i];
+    const marker = options.marker === "block"
+      ? createBlockRefEntity(blockId, at, size, size, 0, options.layerId, options.color)
+      : add({ type: "point", position: at });
+    if (options.marker === "block") entities.push(marker);
+    marker.metadata = { number: p.number, ...(p.elevation !== null ? { elevation: p.elevation } : {}), ...(p.description ? { description: p.description } : {}) };
+    stats.points++;
+
+    // Number above and description below, to the right of the marker (drawing Y grows downward)
+    const x = at.x + Math.max(size, height * 0.5);
+    if (options.labelNumber) { add({ type: "text", position: { x, y: at.y - height * 0.2 }, content: p.number, fontSize: height, rotation: 0 }); stats.labels++; }
+    if (options.labelDescription && p.description) { add({ type: "text", position: { x, y: at.y + height * 1.2 }, content: p.description, fontSize: height, rotation: 0 }); stats.labels++; }
+  });
+
+  for (const code of options.joinCodes) {
+    const pts: Point[] = positions.filter((_, i) => descriptionCode(points[i].description) === code);
+    if (pts.length < 2) continue;
+    // A line that returns to its first point is a closed figure (a building, a pad)
+    const first = pts[0], last = pts[pts.length - 1];
+    const closed = pts.length > 3 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-6;
+    add({ type: "polyline", points: closed ? pts.slice(0, -1) : pts, closed });
+    stats.lines++;
+  }
+
+  const pad = Math.max(size, height) * 2;
+  return { entities, block, stats, extents: minX <= maxX ? { minX: minX - pad, minY: minY - pad, maxX: maxX + pad, maxY: maxY + pad } : null };
+}
@@ -0,0 +1,301 @@
+// ============================================================
+// SVG Export — Write CAD Studio drawings as layered SVG
+// Layers become <g> groups, blocks become <symbol>/<use>,
+// hatches use <pattern> fills, xlines/rays are clipped to the
+// drawing extents.
+// ============================================================
+
+import type { CADEntity, Point, Layer, BlockDefinition, HatchData, ImageEntityData } from "./cad-types";
+import { dimensionGeometry, getEntitiesBBox, getLineDash } from "./cad-utils";
+import { catmullRomToBezier } from "./spline-utils";
+import { getBlockRefEntities } from "./block-utils";
+import { printColor } from "./plot-styles";
+
+export type SVGBackground = "dark" | "white" | "transparent";
+
+export interface SVGExportOptions {
+  /** "white" is print style: near-white strokes are written black */
+  background?: SVGBackground;
+  /** Export only these entities (e.g. the current selection) */
+  entityIds?: string[];
+}
+
+interface Bounds { minX: number; minY: number; maxX: number; maxY: number; }
+
+interface WriterContext {
+  out: string[];
+  print: boolean;
+  bounds: Bounds;
+  blocks: BlockDefinition[];
+  /** Block id → <symbol> id */
+  symbolIds: Map<string, string>;
+  /** True while writing block symbols, where ByBlock colors follow the reference */
+  inBlock: boolean;
+  /** Pattern ids already written to <defs>, keyed by pattern + scale + angle + color */
+  patterns: Map<string, string>;
+  defs: string[];
+}
+
+const DARK_BACKGROUND = "#0d0d0d";
+
+// ============================================================
+// Helpers
+// ============================================================
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function n(v: number): string {
+  return String(Math.round(v * 1e4) / 1e4);
+}
+
+function xmlId(prefix: string, name: string, taken: Set<string>): string {
+  const base = `${prefix}-${name.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+  let id = base, i = 2;
+  while (taken.has(id)) id = `${base}-${i++}`;
+  taken.add(id);
+  return id;
+}
+
+function paint(ctx: WriterContext, color: string): string {
+  return ctx.print ? printColor(color) : color;
+}
+
+/** ByBlock colors inside symbols inherit the <use> element's color */
+function entityColor(ctx: WriterContext, entity: CADEntity, color = entity.color): string {
+  return ctx.inBlock && entity.colorByBlock ? "currentColor" : paint(ctx, color);
+}
+
+function strokeAttrs(ctx: WriterContext, entity: CADEntity): string {
+  const color = entityColor(ctx, entity);
+  const dash = entity.linePattern ?? getLineDash(entity.lineStyle);
+  return `stroke="${color}" stroke-width="${n(entity.lineWidth)}" fill="none"${dash.length ? ` stroke-dasharray="${dash.map(n).join(",")}"` : ""}`;
+}
+
+function loopPath(points: Point[]): string {
+  return `M${points.map(p => `${n(p.x)} ${n(p.y)}`).join(" L")} Z`;
+}
+
+// ============================================================
+// Hatch patterns — one <pattern> per distinct look
+// ============================================================
+function patternId(ctx: WriterContext, d: HatchData, color: string): string {
+  const key = `${d.pattern}|${d.patternScale}|${d.patternAngle}|${color}`;
+  const existing = ctx.patterns.get(key);
+  if (existing) return existing;
+  const id = `hatch-${ctx.patterns.size + 1}`;
+  ctx.patterns.set(key, id);
+
+  // Same spacing and stroke weight as the canvas renderer, in drawing units
+  const s = 10 * d.patternScale, sw = 0.8;
+  const line = (x1: number, y1: number, x2: number, y2: number) => `<line x1="${n(x1)}" y1="${n(y1)}" x2="${n(x2)}" y2="${n(y2)}" stroke="${color}" stroke-width="${sw}"/>`;
+  let size = s, rotate = d.patternAngle, body = "";
+  switch (d.pattern) {
+    case "horizontal": body = line(0, s / 2, s, s / 2); break;
+    case "vertical": body = line(0, s / 2, s, s / 2); rotate += 90; break;
+    case "diagonal": body = line(0, s / 2, s, s / 2); rotate += 45; break;
+    case "crosshatch": body = line(0, s / 2, s, s / 2) + line(s / 2, 0, s / 2, s); rotate += 45; break;
+    case "dots": body = `<circle cx="${n(s / 2)}" cy="${n(s / 2)}" r="1.5" fill="${color}"/>`; rotate = 0; break;
+    case "brick":
+      size = 2 * s; rotate = 0;
+      body = line(0, 0, size, 0) + line(0, s, size, s) + line(0, 0, 0, s) + line(s, s, s, size);
+      break;
+  }
+  ctx.defs.push(`<pattern id="${id}" patternUnits="userSpaceOnUse" width="${n(size)}" height="${n(size)}"${rotate ? ` patternTransform="rotate(${n(rotate)})"` : ""}>${body}</pattern>`);
+  return id;
+}
+
+function writeHatch(ctx: WriterContext, entity: CADEntity, d: HatchData) {
+  if (d.boundary.length < 3) return;
+  const loops = [d.boundary, ...(d.islands ?? []).filter(l => l.length >= 3)];
+  const color = entityColor(ctx, entity, d.fillColor);
+  const fill = d.pattern === "solid" ? color : `url(#${patternId(ctx, d, color)})`;
+  ctx.out.push(`<path d="${loops.map(loopPath).join(" ")}" fill="${fill}" fill-rule="evenodd" fill-opacity="${n(d.fillOpacity)}" stroke="none"/>`);
+}
+
+// ============================================================
+// Images — embedded as data URLs, clip boundaries as <clipPath>
+// ============================================================
+function writeImage(ctx: WriterContext, d: ImageEntityData) {
+  const t = [`translate(${n(d.insertPoint.x)} ${n(d.insertPoint.y)})`];
+  if (d.rotation) t.push(`rotate(${n(d.rotation * 180 / Math.PI)})`);
+  let clip = "";
+  if (d.clip && d.clip.length >= 3) {
+    const id = `image-clip-${ctx.defs.length + 1}`;
+    ctx.defs.push(`<clipPath id="${id}"><polygon points="${d.clip.map(p => `${n(p.x * d.width)},${n(p.y * d.height)}`).join(" ")}"/></clipPath>`);
+    clip = ` clip-path="url(#${id})"`;
+  }
+  const opacity = d.opacity < 1 ? ` opacity="${n(d.opacity)}"` : "";
+  ctx.out.push(`<image href="${esc(d.src)}" xlink:href="${esc(d.src)}" width="${n(d.width)}" height="${n(d.height)}" preserveAspectRatio="none" transform="${t.join(" ")}"${opacity}${clip}/>`);
+}
+
+// ============================================================
+// Infinite lines — clipped to the drawing extents
+// ============================================================
+function clipToBounds(base: Point, dir: Point, b: Bounds, ray: boolean): [Point, Point] | null {
+  let t0 = ray ? 0 : -Infinity, t1 = Infinity;
+  for (const [p, v, lo, hi] of [[base.x, dir.x, b.minX, b.maxX], [base.y, dir.y, b.minY, b.maxY]]) {
+    if (Math.abs(v) < 1e-12) {
+      if (p < lo || p > hi) return null;
+      continue;
+    }
+    const a = (lo - p) / v, c = (hi - p) / v;
+    t0 = Math.max(t0, Math.min(a, c));
+    t1 = Math.min(t1, Math.max(a, c));
+  }
+  if (t0 > t1) return null;
+  return [{ x: base.x + dir.x * t0, y: base.y + dir.y * t0 }, { x: base.x + dir.x * t1, y: base.y + dir.y * t1 }];
+}
+
+// ============================================================
+// Entity writer
+// ============================================================
+function writeEntity(ctx: WriterContext, entity: CADEntity) {
+  const d = entity.data, attrs = strokeAttrs(ctx, entity);
+  const out = ctx.out;
+  switch (d.type) {
+    case "line": out.push(`<line x1="${n(d.start.x)}" y1="${n(d.start.y)}" x2="${n(d.end.x)}" y2="${n(d.end.y)}" ${attrs}/>`); break;
+    case "circle": out.push(`<circle cx="${n(d.center.x)}" cy="${n(d.center.y)}" r="${n(d.radius)}" ${attrs}/>`); break;
+    case "rectangle": out.push(`<rect x="${n(d.topLeft.x)}" y="${n(d.topLeft.y)}" width="${n(d.width)}" height="${n(d.height)}" ${attrs}/>`); break;
+    case "ellipse": {
+      const rot = d.rotation ? ` transform="rotate(${n(d.rotation * 180 / Math.PI)} ${n(d.center.x)} ${n(d.center.y)})"` : "";
+      out.push(`<ellipse cx="${n(d.center.x)}" cy="${n(d.center.y)}" rx="${n(d.radiusX)}" ry="${n(d.radiusY)}"${rot} ${attrs}/>`);
+      break;
+    }
+    case "polyline": {
+      const pts = d.points.map(p => `${n(p.x)},${n(p.y)}`).join(" ");
+      out.push(`<${d.closed ? "polygon" : "polyline"} points="${pts}" ${attrs}/>`);
+      break;
+    }
+    case "arc": {
+      let sweep = d.endAngle - d.startAngle;
+      while (sweep <= 0) sweep += Math.PI * 2;
+      while (sweep > Math.PI * 2) sweep -= Math.PI * 2;
+      const at = (a: number) => `${n(d.center.x + d.radius * Math.cos(a))} ${n(d.center.y + d.radius * Math.sin(a))}`;
+      const r = n(d.radius);
+      // A single SVG arc cannot close on itself, so full sweeps go through the midpoint
+      const mid = d.startAngle + sweep / 2;
+      out.push(sweep > Math.PI * 2 - 1e-9
+        ? `<path d="M ${at(d.startAngle)} A ${r} ${r} 0 0 1 ${at(mid)} A ${r} ${r} 0 0 1 ${at(d.startAngle)}" ${attrs}/>`
+        : `<path d="M ${at(d.startAngle)} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${at(d.endAngle)}" ${attrs}/>`);
+      break;
+    }
+    case "text": {
+      const rot = d.rotation ? ` transform="rotate(${n(d.rotation * 180 / Math.PI)} ${n(d.position.x)} ${n(d.position.y)})"` : "";
+      const color = entityColor(ctx, entity);
+      out.push(`<text x="${n(d.position.x)}" y="${n(d.position.y)}" fill="${color}" font-size="${n(d.fontSize)}" font-family="monospace"${rot}>${esc(d.content)}</text>`);
+      break;
+    }
+    case "dimension": {
+      const geo = dimensionGeometry(entity);
+      const color = entityColor(ctx, entity);
+      const path = geo.lines.map(([a, b]) => `M${n(a.x)} ${n(a.y)} L${n(b.x)} ${n(b.y)}`).join(" ");
+      out.push(`<g><path d="${path}" stroke="${color}" stroke-width="0.5" fill="none"/><text x="${n(geo.textPosition.x)}" y="${n(geo.textPosition.y)}" fill="${color}" font-size="12" text-anchor="middle" font-family="monospace">${esc(geo.text)}</text></g>`);
+      break;
+    }
+    case "spline": {
+      if (d.controlPoints.length < 2) break;
+      const segs = catmullRomToBezier(d.controlPoints, d.closed);
+      const path = `M${n(segs[0][0].x)} ${n(segs[0][0].y)} ` + segs.map(([, c1, c2, p]) => `C${n(c1.x)} ${n(c1.y)} ${n(c2.x)} ${n(c2.y)} ${n(p.x)} ${n(p.y)}`).join(" ") + (d.closed ? " Z" : "");
+      out.push(`<path d="${path}" ${attrs}/>`);
+      break;
+    }
+    case "hatch": writeHatch(ctx, entity, d); break;
+    case "xline":
+    case "ray": {
+      const seg = clipToBounds(d.basePoint, d.direction, ctx.bounds, d.type === "ray");
+      if (seg) out.push(`<line x1="${n(seg[0].x)}" y1="${n(seg[0].y)}" x2="${n(seg[1].x)}" y2="${n(seg[1].y)}" ${attrs}/>`);
+      break;
+    }
+    case "blockref": {
+      const block = ctx.blocks.find(b => b.id === d.blockId);
+      if (!block) break;
+      const t = [`translate(${n(d.insertPoint.x)} ${n(d.insertPoint.y)})`];
+      if (d.rotation) t.push(`rotate(${n(d.rotation)})`);
+      if (d.scaleX !== 1 || d.scaleY !== 1) t.push(`scale(${n(d.scaleX)} ${n(d.scaleY)})`);
+      if (block.basePoint.x || block.basePoint.y) t.push(`translate(${n(-block.basePoint.x)} ${n(-block.basePoint.y)})`);
+      // ByBlock children pick the reference color up through currentColor
+      const href = `#${ctx.symbolIds.get(block.id)}`;
+      out.push(`<use href="${href}" xlink:href="${href}" transform="${t.join(" ")}" color="${paint(ctx, entity.color)}"/>`);
+      break;
+    }
+    case "image": writeImage(ctx, d); break;
+    case "point": out.push(`<circle cx="${n(d.position.x)}" cy="${n(d.position.y)}" r="${n(Math.max(0.5, entity.lineWidth))}" fill="${entityColor(ctx, entity)}" stroke="none"/>`); break;
+  }
+}
+
+/** Blocks referenced by the given entities, including nested references */
+function usedBlocks(entities: CADEntity[], blocks: BlockDefinition[]): BlockDefinition[] {
+  const used = new Map<string, BlockDefinition>();
+  const visit = (list: CADEntity[], depth: number) => {
+    for (const e of list) {
+      if (e.data.type !== "blockref" || depth > 8) continue;
+      const blockId = e.data.blockId;
+      const block = blocks.find(b => b.id === blockId);
+      if (!block || used.has(block.id)) continue;
+      used.set(block.id, block);
+      visit(block.entities, depth + 1);
+    }
+  };
+  visit(entities, 0);
+  return Array.from(used.values());
+}
+
+// ============================================================
+// Main export
+// ============================================================
+export function exportToSVG(entities: CADEntity[], layers: Layer[], blocks: BlockDefinition[], options: SVGExportOptions = {}): string {
+  const background = options.background ?? "dark";
+  const hiddenLayers = new Set(layers.filter(l => !l.visible).map(l => l.id));
+  const wanted = options.entityIds ? new Set(options.entityIds) : null;
+  const visible = entities.filter(e => e.visible && !hiddenLayers.has(e.layerId) && (!wanted || wanted.has(e.id)));
+
+  // Extents of the finite geometry, with block references expanded
+  const flat = visible.flatMap(e => {
+    if (e.data.type !== "blockref") return [e];
+    const ref = e.data;
+    const block = blocks.find(b => b.id === ref.blockId);
+    return block ? getBlockRefEntities(block, ref, blocks) : [];
+  });
+  const content = getEntitiesBBox(flat);
+  const bounds = content
+    ? { minX: content.minX - 20, minY: content.minY - 20, maxX: content.maxX + 20, maxY: content.maxY + 20 }
+    : { minX: -100, minY: -100, maxX: 500, maxY: 500 };
+  const w = bounds.maxX - bounds.minX, h = bounds.maxY - bounds.minY;
+
+  const ids = new Set<string>();
+  const symbols = usedBlocks(visible, blocks);
+  const symbolIds = new Map(symbols.map(b => [b.id, xmlId("block", b.name, ids)]));
+  const ctx: WriterContext = { out: [], print: background === "white", bounds, blocks, symbolIds, inBlock: true, patterns: new Map(), defs: [] };
+
+  // Block definitions as symbols (written first so their patterns land in <defs>)
+  for (const block of symbols) {
+    ctx.out.push(`<symbol id="${symbolIds.get(block.id)}" overflow="visible">`);
+    block.entities.forEach(e => writeEntity(ctx, e));
+    ctx.out.push("</symbol>");
+  }
+  const symbolMarkup = ctx.out.splice(0);
+  ctx.inBlock = false;
+
+  // One group per layer, in layer order; entities on unknown layers go last
+  const layerIds = [...layers.map(l => l.id), ...Array.from(new Set(visible.map(e => e.layerId))).filter(id => !layers.some(l => l.id === id))];
+  for (const layerId of layerIds) {
+    // Image underlays first, as on the canvas
+    const onLayer = visible.filter(e => e.layerId === layerId && e.data.type === "image").concat(visible.filter(e => e.layerId === layerId && e.data.type !== "image"));
+    if (onLayer.length === 0) continue;
+    const name = layers.find(l => l.id === layerId)?.name ?? layerId;
+    ctx.out.push(`<g id="${xmlId("layer", name, ids)}" inkscape:groupmode="layer" inkscape:label="${esc(name)}">`);
+    onLayer.forEach(e => writeEntity(ctx, e));
+    ctx.out.push("</g>");
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" viewBox="${n(bounds.minX)} ${n(bounds.minY)} ${n(w)} ${n(h)}" width="${n(w)}" height="${n(h)}">`,
+  ];
+  if (ctx.defs.length || symbolMarkup.length) svg.push("<defs>", ...ctx.defs, ...symbolMarkup, "</defs>");
+  if (background !== "transparent") {
+    svg.push(`<rect x="${n(bounds.minX)}" y="${n(bounds.minY)}" width="${n(w)}" height="${n(h)}" fill="${background === "white" ? "#ffffff" : DARK_BACKGROUND}"/>`);
+  }
+  svg.push(...ctx.out, "</svg>");
+  return svg.join("\n");
+}
@@ -0,0 +1,585 @@
+// ============================================================
+// SVG Import — Convert SVG shapes, paths and groups into
+// CAD Studio entities (and optionally block definitions)
+// Supports: line, rect, circle, ellipse, polyline, polygon,
+//           text, path (M/L/H/V/C/S/Q/T/A/Z), g, use, svg
+// ============================================================
+
+import type { Point, CADEntity, EntityData, BlockDefinition } from "./cad-types";
+import { generateId, getEntitiesBBox } from "./cad-utils";
+import { createBlockDefinition, createBlockRefEntity } from "./block-utils";
+
+export interface SVGImportOptions {
+  layerId: string;
+  /** Color for shapes that rely on the SVG default (black) fill */
+  defaultColor: string;
+  /** Turn every non-empty <g> into a block definition with a reference in place */
+  groupsAsBlocks: boolean;
+  /** Names of the drawing's blocks, which new group blocks must not reuse */
+  existingBlockNames?: string[];
+}
+
+export interface SVGImportResult {
+  entities: CADEntity[];
+  blocks: BlockDefinition[];
+  stats: { byElement: Record<string, number>; skipped: Record<string, number> };
+  extents: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+// ============================================================
+// Minimal XML reader — elements, attributes and text only
+// ============================================================
+interface XMLNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XMLNode[];
+  text: string;
+}
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, e: string) => {
+    if (e[0] === "#") return String.fromCodePoint(e[1] === "x" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" }[e] ?? "";
+  });
+}
+
+function parseXML(src: string): XMLNode {
+  const root: XMLNode = { tag: "#document", attrs: {}, children: [], text: "" };
+  const stack = [root];
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>[]|\[[^\]]*\])*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>|([^<]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = token.exec(src))) {
+    const top = stack[stack.length - 1];
+    if (m[1] !== undefined) top.text += m[1];
+    else if (m[2] !== undefined) { if (stack.length > 1) stack.pop(); }
+    else if (m[3] !== undefined) {
+      const attrs: Record<string, string> = {};
+      const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let a: RegExpExecArray | null;
+      while ((a = attrRe.exec(m[4]))) attrs[a[1]] = decodeEntities(a[2] ?? a[3]);
+      const node: XMLNode = { tag: m[3].replace(/^.*:/, ""), attrs, children: [], text: "" };
+      top.children.push(node);
+      if (!m[5]) stack.push(node);
+    } else if (m[6] !== undefined) top.text += decodeEntities(m[6]);
+  }
+  return root;
+}
+
+function findSVGRoot(node: XMLNode): XMLNode | null {
+  if (node.tag === "svg") return node;
+  for (const c of node.children) { const r = findSVGRoot(c); if (r) return r; }
+  return null;
+}
+
+/** All text inside a node (e.g. <text> with <tspan> children), whitespace collapsed */
+function textContent(node: XMLNode): string {
+  return (node.text + node.children.map(textContent).join(" ")).replace(/\s+/g, " ").trim();
+}
+
+// ============================================================
+// Affine transforms — [a, b, c, d, e, f] as in SVG matrix()
+// ============================================================
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+/** Uniform scale of a matrix (geometric mean of its axis scales) */
+function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/** True when the matrix only rotates, mirrors, translates and scales uniformly */
+function isSimilarity(m: Matrix): boolean {
+  const sx = Math.hypot(m[0], m[1]), sy = Math.hypot(m[2], m[3]);
+  return Math.abs(sx - sy) <= 1e-9 * Math.max(sx, sy) && Math.abs(m[0] * m[2] + m[1] * m[3]) <= 1e-9 * sx * sy;
+}
+
+function parseNumbers(s: string): number[] {
+  return (s.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? []).map(Number);
+}
+
+function parseTransform(value: string | undefined): Matrix {
+  let m = IDENTITY;
+  if (!value) return m;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let t: RegExpExecArray | null;
+  while ((t = re.exec(value))) {
+    const v = parseNumbers(t[2]);
+    let n: Matrix = IDENTITY;
+    switch (t[1]) {
+      case "matrix": if (v.length === 6) n = v as Matrix; break;
+      case "translate": n = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0]; break;
+      case "scale": n = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0]; break;
+      case "rotate": {
+        const r = (v[0] ?? 0) * Math.PI / 180, cos = Math.cos(r), sin = Math.sin(r);
+        const cx = v[1] ?? 0, cy = v[2] ?? 0;
+        n = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case "skewX": n = [1, 0, Math.tan((v[0] ?? 0) * Math.PI / 180), 1, 0, 0]; break;
+      case "skewY": n = [1, Math.tan((v[0] ?? 0) * Math.PI / 180), 0, 1, 0, 0]; break;
+    }
+    m = multiply(m, n);
+  }
+  return m;
+}
+
+/** Image of an axis-aligned ellipse under a matrix: radii and rotation (radians) */
+function transformEllipse(rx: number, ry: number, m: Matrix): { radiusX: number; radiusY: number; rotation: number } {
+  // 2×2 SVD of M·diag(rx, ry)
+  const a = m[0] * rx, b = m[2] * ry, c = m[1] * rx, d = m[3] * ry;
+  const E = (a + d) / 2, F = (a - d) / 2, G = (c + b) / 2, H = (c - b) / 2;
+  const Q = Math.hypot(E, H), R = Math.hypot(F, G);
+  const a1 = Math.atan2(G, F), a2 = Math.atan2(H, E);
+  return { radiusX: Q + R, radiusY: Math.abs(Q - R), rotation: (a2 + a1) / 2 };
+}
+
+// ============================================================
+// Presentation styles — inherited through groups
+// ============================================================
+interface SVGStyle {
+  stroke: string | null;
+  fill: string | null;
+  /** true while fill is still the SVG default (black) */
+  defaultFill: boolean;
+  color: string;
+  strokeWidth: number;
+  dashArray: number[] | null;
+  fontSize: number;
+  display: boolean;
+}
+
+const INITIAL_STYLE: SVGStyle = { stroke: null, fill: "#000000", defaultFill: true, color: "#000000", strokeWidth: 1, dashArray: null, fontSize: 16, display: true };
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000", white: "#ffffff", red: "#ff0000", green: "#008000", lime: "#00ff00", blue: "#0000ff",
+  yellow: "#ffff00", cyan: "#00ffff", aqua: "#00ffff", magenta: "#ff00ff", fuchsia: "#ff00ff", gray: "#808080",
+  grey: "#808080", silver: "#c0c0c0", maroon: "#800000", olive: "#808000", navy: "#000080", purple: "#800080",
+  teal: "#008080", orange: "#ffa500", brown: "#a52a2a", pink: "#ffc0cb", gold: "#ffd700", darkgray: "#a9a9a9",
+  lightgray: "#d3d3d3", darkgrey: "#a9a9a9", lightgrey: "#d3d3d3",
+};
+
+/** CSS color to #rrggbb; null for none/transparent/paint servers, undefined when unrecognised */
+function parseColor(value: string, current: string): string | null | undefined {
+  const v = value.trim().toLowerCase();
+  if (v === "none" || v === "transparent" || v.startsWith("url(")) return null;
+  if (v === "currentcolor") return current;
+  if (NAMED_COLORS[v]) return NAMED_COLORS[v];
+  if (/^#[0-9a-f]{6}$/.test(v)) return v;
+  if (/^#[0-9a-f]{3}$/.test(v)) return `#${v[1]}${v[1]}${v[2]}${v[2]}${v[3]}${v[3]}`;
+  const rgb = v.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean).slice(0, 3)
+      .map(p => Math.max(0, Math.min(255, Math.round(p.endsWith("%") ? parseFloat(p) * 2.55 : parseFloat(p)))));
+    if (parts.length === 3 && parts.every(n => !isNaN(n))) return `#${parts.map(n => n.toString(16).padStart(2, "0")).join("")}`;
+  }
+  return undefined;
+}
+
+/** Length with an optional CSS unit, in user units (font-relative units use 16px) */
+function parseLength(value: string | undefined, fallback = 0): number {
+  if (!value) return fallback;
+  const n = parseFloat(value);
+  if (isNaN(n)) return fallback;
+  const unit = value.trim().replace(/^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/, "");
+  return n * ({ mm: 96 / 25.4, cm: 960 / 25.4, in: 96, pt: 96 / 72, pc: 16, em: 16, rem: 16 }[unit] ?? 1);
+}
+
+function resolveStyle(node: XMLNode, parent: SVGStyle): SVGStyle {
+  const props: Record<string, string> = { ...node.attrs };
+  for (const decl of (node.attrs.style ?? "").split(";")) {
+    const i = decl.indexOf(":");
+    if (i > 0) props[decl.slice(0, i).trim()] = decl.slice(i + 1).trim();
+  }
+  const style = { ...parent };
+  if (props.color) style.color = parseColor(props.color, parent.color) ?? parent.color;
+  if (props.stroke) { const c = parseColor(props.stroke, style.color); if (c !== undefined) style.stroke = c; }
+  if (props.fill) { const c = parseColor(props.fill, style.color); if (c !== undefined) { style.fill = c; style.defaultFill = false; } }
+  if (props["stroke-width"]) style.strokeWidth = parseLength(props["stroke-width"], parent.strokeWidth);
+  if (props["stroke-dasharray"]) {
+    const dash = props["stroke-dasharray"] === "none" ? [] : parseNumbers(props["stroke-dasharray"]);
+    style.dashArray = dash.length > 0 && dash.some(v => v > 0) ? (dash.length % 2 ? [...dash, ...dash] : dash) : null;
+  }
+  if (props["font-size"]) style.fontSize = parseLength(props["font-size"], parent.fontSize);
+  if (props.display === "none" || props.visibility === "hidden") style.display = false;
+  return style;
+}
+
+// ============================================================
+// Path data — parsed in user space, emitted as transformed segments
+// ============================================================
+type Segment =
+  | { kind: "line"; to: Point }
+  | { kind: "cubic"; c1: Point; c2: Point; to: Point }
+  | { kind: "arc"; center: Point; radius: number; startAngle: number; sweep: number; to: Point };
+
+interface Subpath {
+  start: Point;
+  segments: Segment[];
+  closed: boolean;
+}
+
+/** Tokens of a path: command letters and numbers (arc flags may be packed, e.g. "a1 1 0 0110 10") */
+function tokenizePath(d: string): (string | number)[] {
+  const tokens: (string | number)[] = [];
+  const re = /([MmLlHhVvCcSsQqTtAaZz])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/g;
+  let m: RegExpExecArray | null;
+  let cmd = "", argIndex = 0;
+  while ((m = re.exec(d))) {
+    if (m[1]) { tokens.push(m[1]); cmd = m[1]; argIndex = 0; continue; }
+    // Arc flags (4th and 5th argument) are single digits that may run into the next number
+    if ((cmd === "A" || cmd === "a") && (argIndex % 7 === 3 || argIndex % 7 === 4) && m[2].length > 1 && /^[01]/.test(m[2])) {
+      tokens.push(Number(m[2][0]));
+      re.lastIndex = m.index + 1;
+    } else {
+      tokens.push(Number(m[2]));
+    }
+    argIndex++;
+  }
+  return tokens;
+}
+
+/** Center parameterization of an SVG elliptical arc (SVG spec F.6.5) */
+function arcCenter(p1: Point, p2: Point, rx: number, ry: number, phiDeg: number, largeArc: boolean, sweep: boolean) {
+  const phi = phiDeg * Math.PI / 180, cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (p1.x - p2.x) / 2, dy = (p1.y - p2.y) / 2;
+  const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const k = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = k * rx * y1 / ry, cy1 = -k * ry * x1 / rx;
+  const center = { x: cos * cx1 - sin * cy1 + (p1.x + p2.x) / 2, y: sin * cx1 + cos * cy1 + (p1.y + p2.y) / 2 };
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let dTheta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && dTheta > 0) dTheta -= 2 * Math.PI;
+  if (sweep && dTheta < 0) dTheta += 2 * Math.PI;
+  return { center, rx, ry, phi, theta1, dTheta };
+}
+
+function parsePath(d: string, m: Matrix): Subpath[] {
+  const tokens = tokenizePath(d);
+  const subpaths: Subpath[] = [];
+  const open: { current: Subpath | null } = { current: null };
+  let pos: Point = { x: 0, y: 0 }, start: Point = { x: 0, y: 0 };
+  let lastCubic: Point | null = null, lastQuad: Point | null = null;
+  let i = 0, cmd = "", malformed = false;
+  const num = () => { const v = tokens[i++]; if (typeof v !== "number") malformed = true; return typeof v === "number" ? v : 0; };
+  const push = (seg: Segment) => {
+    if (!open.current) subpaths.push(open.current = { start: apply(m, pos), segments: [], closed: false });
+    open.current.segments.push(seg);
+  };
+  const similar = isSimilarity(m), mirrored = m[0] * m[3] - m[1] * m[2] < 0;
+
+  while (i < tokens.length && !malformed) {
+    if (typeof tokens[i] === "string") cmd = tokens[i++] as string;
+    else if (!cmd) { i++; continue; }
+    const rel = cmd === cmd.toLowerCase();
+    const base = rel ? pos : { x: 0, y: 0 };
+    const pt = () => { const x = num(), y = num(); return { x: base.x + x, y: base.y + y }; };
+    const C = cmd.toUpperCase();
+    let nextCubic: Point | null = null, nextQuad: Point | null = null;
+
+    switch (C) {
+      case "M": {
+        pos = start = pt();
+        subpaths.push(open.current = { start: apply(m, pos), segments: [], closed: false });
+        cmd = rel ? "l" : "L"; // subsequent pairs are implicit line-tos
+        break;
+      }
+      case "L": pos = pt(); push({ kind: "line", to: apply(m, pos) }); break;
+      case "H": pos = { x: (rel ? pos.x : 0) + num(), y: pos.y }; push({ kind: "line", to: apply(m, pos) }); break;
+      case "V": pos = { x: pos.x, y: (rel ? pos.y : 0) + num() }; push({ kind: "line", to: apply(m, pos) }); break;
+      case "C": case "S": {
+        const c1: Point = C === "C" ? pt() : lastCubic ? { x: 2 * pos.x - lastCubic.x, y: 2 * pos.y - lastCubic.y } : pos;
+        const c2 = pt(), to = pt();
+        push({ kind: "cubic", c1: apply(m, c1), c2: apply(m, c2), to: apply(m, to) });
+        nextCubic = c2; pos = to;
+        break;
+      }
+      case "Q": case "T": {
+        const q: Point = C === "Q" ? pt() : lastQuad ? { x: 2 * pos.x - lastQuad.x, y: 2 * pos.y - lastQuad.y } : pos;
+        const to = pt();
+        // Degree elevation — quadratics are exact cubics
+        const c1 = { x: pos.x + 2 / 3 * (q.x - pos.x), y: pos.y + 2 / 3 * (q.y - pos.y) };
+        const c2 = { x: to.x + 2 / 3 * (q.x - to.x), y: to.y + 2 / 3 * (q.y - to.y) };
+        push({ kind: "cubic", c1: apply(m, c1), c2: apply(m, c2), to: apply(m, to) });
+        nextQuad = q; pos = to;
+        break;
+      }
+      case "A": {
+        const rx = num(), ry = num(), phi = num(), large = num() !== 0, sweep = num() !== 0;
+        const to = pt();
+        if (rx === 0 || ry === 0 || (to.x === pos.x && to.y === pos.y)) { push({ kind: "line", to: apply(m, to) }); pos = to; break; }
+        const arc = arcCenter(pos, to, rx, ry, phi, large, sweep);
+        if (similar && Math.abs(arc.rx - arc.ry) <= 1e-9 * arc.rx) {
+          // Circular arc that stays circular: keep it as a true arc
+          const rot = Math.atan2(m[1], m[0]);
+          const startAngle = mirrored ? rot - (arc.theta1 + arc.phi) : arc.theta1 + arc.phi + rot;
+          push({ kind: "arc", center: apply(m, arc.center), radius: arc.rx * matrixScale(m), startAngle, sweep: mirrored ? -arc.dTheta : arc.dTheta, to: apply(m, to) });
+        } else {
+          const steps = Math.max(4, Math.ceil(Math.abs(arc.dTheta) / (Math.PI / 16)));
+          for (let k = 1; k <= steps; k++) {
+            const t = arc.theta1 + arc.dTheta * k / steps;
+            const lx = arc.rx * Math.cos(t), ly = arc.ry * Math.sin(t);
+            const p = k === steps ? to : { x: arc.center.x + lx * Math.cos(arc.phi) - ly * Math.sin(arc.phi), y: arc.center.y + lx * Math.sin(arc.phi) + ly * Math.cos(arc.phi) };
+            push({ kind: "line", to: apply(m, p) });
+          }
+        }
+        pos = to;
+        break;
+      }
+      case "Z": {
+        const sp = open.current;
+        if (sp) {
+          const last = sp.segments.length ? sp.segments[sp.segments.length - 1].to : sp.start;
+          if (Math.hypot(last.x - sp.start.x, last.y - sp.start.y) > 1e-9) sp.segments.push({ kind: "line", to: sp.start });
+          sp.closed = true;
+        }
+        pos = start; open.current = null;
+        cmd = ""; // stray numbers after Z are ignored
+        break;
+      }
+    }
+    lastCubic = nextCubic; lastQuad = nextQuad;
+  }
+  return subpaths.filter(sp => sp.segments.length > 0);
+}
+
+function cubicAt(p0: Point, c1: Point, c2: Point, p1: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p1.x,
+    y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p1.y,
+  };
+}
+
+/** Split a subpath into runs of lines (polyline), curves (spline) and arcs (arc) */
+function subpathToData(sp: Subpath): EntityData[] {
+  const kinds = new Set(sp.segments.map(s => s.kind));
+  const points = (from: Point, segs: Segment[]) => [from, ...segs.map(s => s.to)];
+  const splinePoints = (from: Point, segs: Segment[]) => {
+    const pts = [from];
+    let p = from;
+    for (const s of segs) {
+      if (s.kind === "cubic") pts.push(cubicAt(p, s.c1, s.c2, s.to, 1 / 3), cubicAt(p, s.c1, s.c2, s.to, 2 / 3));
+      pts.push(s.to);
+      p = s.to;
+    }
+    return pts;
+  };
+
+  if (sp.closed && kinds.size === 1 && kinds.has("line")) {
+    return [{ type: "polyline", points: points(sp.start, sp.segments).slice(0, -1), closed: true }];
+  }
+  if (sp.closed && !kinds.has("arc") && sp.segments.every((s, i) => s.kind === "cubic" || i === sp.segments.length - 1)) {
+    // Closed curve (a trailing closing line segment, if any, joins the loop)
+    return [{ type: "spline", controlPoints: splinePoints(sp.start, sp.segments).slice(0, -1), degree: 3, closed: true }];
+  }
+
+  const out: EntityData[] = [];
+  let from = sp.start;
+  let i = 0;
+  while (i < sp.segments.length) {
+    const seg = sp.segments[i];
+    if (seg.kind === "arc") {
+      const [a0, a1] = seg.sweep >= 0 ? [seg.startAngle, seg.startAngle + seg.sweep] : [seg.startAngle + seg.sweep, seg.startAngle];
+      out.push({ type: "arc", center: seg.center, radius: seg.radius, startAngle: a0, endAngle: a1 });
+      from = seg.to; i++;
+      continue;
+    }
+    let j = i;
+    while (j < sp.segments.length && sp.segments[j].kind === seg.kind) j++;
+    const run = sp.segments.slice(i, j);
+    if (seg.kind === "cubic") out.push({ type: "spline", controlPoints: splinePoints(from, run), degree: 3, closed: false });
+    else if (run.length === 1) out.push({ type: "line", start: from, end: run[0].to });
+    else out.push({ type: "polyline", points: points(from, run), closed: false });
+    from = run[run.length - 1].to; i = j;
+  }
+  return out;
+}
+
+// ============================================================
+// Element conversion
+// ============================================================
+const SKIPPED_CONTAINERS = new Set(["defs", "symbol", "clipPath", "mask", "pattern", "marker", "style", "script", "title", "desc", "metadata", "linearGradient", "radialGradient", "filter", "foreignObject"]);
+
+interface WalkContext {
+  options: SVGImportOptions;
+  ids: Map<string, XMLNode>;
+  blocks: BlockDefinition[];
+  blockNames: Set<string>;
+  stats: SVGImportResult["stats"];
+  /** Every generated entity in drawing coordinates, for extents */
+  flat: CADEntity[];
+}
+
+function collectIds(node: XMLNode, ids: Map<string, XMLNode>) {
+  if (node.attrs.id) ids.set(node.attrs.id, node);
+  node.children.forEach(c => collectIds(c, ids));
+}
+
+function num(node: XMLNode, name: string, fallback = 0): number {
+  return parseLength(node.attrs[name], fallback);
+}
+
+function polyPoints(value: string | undefined, m: Matrix): Point[] {
+  const v = parseNumbers(value ?? "");
+  const pts: Point[] = [];
+  for (let i = 0; i + 1 < v.length; i += 2) pts.push(apply(m, { x: v[i], y: v[i + 1] }));
+  return pts;
+}
+
+function ellipseData(cx: number, cy: number, rx: number, ry: number, m: Matrix): EntityData {
+  const center = apply(m, { x: cx, y: cy });
+  if (isSimilarity(m) && Math.abs(rx - ry) <= 1e-9 * rx) return { type: "circle", center, radius: rx * matrixScale(m) };
+  const e = transformEllipse(rx, ry, m);
+  return { type: "ellipse", center, ...e };
+}
+
+/** Geometry of one shape element in drawing coordinates */
+function shapeData(node: XMLNode, m: Matrix, style: SVGStyle): EntityData[] | null {
+  switch (node.tag) {
+    case "line":
+      return [{ type: "line", start: apply(m, { x: num(node, "x1"), y: num(node, "y1") }), end: apply(m, { x: num(node, "x2"), y: num(node, "y2") }) }];
+    case "rect": {
+      const x = num(node, "x"), y = num(node, "y"), w = num(node, "width"), h = num(node, "height");
+      if (w <= 0 || h <= 0) return [];
+      let rx = node.attrs.rx !== undefined ? num(node, "rx") : node.attrs.ry !== undefined ? num(node, "ry") : 0;
+      let ry = node.attrs.ry !== undefined ? num(node, "ry") : rx;
+      rx = Math.min(rx, w / 2); ry = Math.min(ry, h / 2);
+      if (rx > 0 && ry > 0) {
+        const d = `M${x + rx},${y}H${x + w - rx}A${rx},${ry} 0 0 1 ${x + w},${y + ry}V${y + h - ry}A${rx},${ry} 0 0 1 ${x + w - rx},${y + h}H${x + rx}A${rx},${ry} 0 0 1 ${x},${y + h - ry}V${y + ry}A${rx},${ry} 0 0 1 ${x + rx},${y}Z`;
+        return parsePath(d, m).flatMap(subpathToData);
+      }
+      if (Math.abs(m[1]) < 1e-12 && Math.abs(m[2]) < 1e-12) {
+        const p1 = apply(m, { x, y }), p2 = apply(m, { x: x + w, y: y + h });
+        return [{ type: "rectangle", topLeft: { x: Math.min(p1.x, p2.x), y: Math.min(p1.y, p2.y) }, width: Math.abs(p2.x - p1.x), height: Math.abs(p2.y - p1.y) }];
+      }
+      return [{ type: "polyline", points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }].map(p => apply(m, p)), closed: true }];
+    }
+    case "circle": {
+      const r = num(node, "r");
+      return r > 0 ? [ellipseData(num(node, "cx"), num(node, "cy"), r, r, m)] : [];
+    }
+    case "ellipse": {
+      const rx = num(node, "rx"), ry = num(node, "ry");
+      return rx > 0 && ry > 0 ? [ellipseData(num(node, "cx"), num(node, "cy"), rx, ry, m)] : [];
+    }
+    case "polyline":
+    case "polygon": {
+      const pts = polyPoints(node.attrs.points, m);
+      return pts.length >= 2 ? [{ type: "polyline", points: pts, closed: node.tag === "polygon" }] : [];
+    }
+    case "path":
+      return parsePath(node.attrs.d ?? "", m).flatMap(subpathToData);
+    case "text": {
+      const content = textContent(node);
+      if (!content) return [];
+      const x = parseNumbers(node.attrs.x ?? "0")[0] ?? 0, y = parseNumbers(node.attrs.y ?? "0")[0] ?? 0;
+      return [{ type: "text", position: apply(m, { x, y }), content, fontSize: style.fontSize * matrixScale(m), rotation: Math.atan2(m[1], m[0]) }];
+    }
+    default:
+      return null;
+  }
+}
+
+function makeEntity(data: EntityData, style: SVGStyle, m: Matrix, ctx: WalkContext): CADEntity {
+  const paint = style.stroke ?? style.fill;
+  const color = paint === null || (style.stroke === null && style.defaultFill) ? ctx.options.defaultColor : paint;
+  const scale = matrixScale(m);
+  const entity: CADEntity = {
+    id: generateId(), type: data.type, data, layerId: ctx.options.layerId, color,
+    lineWidth: style.stroke !== null ? Math.max(0.5, style.strokeWidth * scale) : 1,
+    lineStyle: "solid", visible: true, locked: false, selected: false,
+  };
+  if (style.dashArray) entity.linePattern = style.dashArray.map(v => v * scale);
+  return entity;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name, i = 2;
+  while (taken.has(candidate.toLowerCase())) candidate = `${name} (${i++})`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function walk(node: XMLNode, parentMatrix: Matrix, parentStyle: SVGStyle, ctx: WalkContext, depth: number): CADEntity[] {
+  if (depth > 64 || SKIPPED_CONTAINERS.has(node.tag)) return [];
+  const style = resolveStyle(node, parentStyle);
+  if (!style.display) return [];
+  let m = multiply(parentMatrix, parseTransform(node.attrs.transform));
+
+  switch (node.tag) {
+    case "svg":
+    case "g":
+    case "a":
+    case "switch": {
+      if (node.tag === "svg" && depth > 0) m = multiply(m, [1, 0, 0, 1, num(node, "x"), num(node, "y")]);
+      const children = node.children.flatMap(c => walk(c, m, style, ctx, depth + 1));
+      if (node.tag !== "g" || !ctx.options.groupsAsBlocks || children.length === 0) return children;
+      const block = createBlockDefinition(uniqueName(node.attrs.id || `SVG Group ${ctx.blocks.length + 1}`, ctx.blockNames), children);
+      ctx.blocks.push(block);
+      ctx.stats.byElement.g = (ctx.stats.byElement.g || 0) + 1;
+      return [createBlockRefEntity(block.id, block.basePoint, 1, 1, 0, ctx.options.layerId, style.stroke ?? ctx.options.defaultColor)];
+    }
+    case "use": {
+      const href = (node.attrs.href ?? node.attrs["xlink:href"] ?? "").replace(/^#/, "");
+      const target = ctx.ids.get(href);
+      if (!target) { ctx.stats.skipped.use = (ctx.stats.skipped.use || 0) + 1; return []; }
+      m = multiply(m, [1, 0, 0, 1, num(node, "x"), num(node, "y")]);
+      // A referenced <symbol> behaves like a group
+      return walk(target.tag === "symbol" ? { ...target, tag: "g" } : target, m, style, ctx, depth + 1);
+    }
+  }
+
+  const data = shapeData(node, m, style);
+  if (data === null) {
+    ctx.stats.skipped[node.tag] = (ctx.stats.skipped[node.tag] || 0) + 1;
+    return [];
+  }
+  ctx.stats.byElement[node.tag] = (ctx.stats.byElement[node.tag] || 0) + 1;
+  const entities = data.map(d => makeEntity(d, style, m, ctx));
+  ctx.flat.push(...entities);
+  return entities;
+}
+
+/**
+ * Root transform: when the <svg> has absolute width/height and a viewBox,
+ * user units are scaled so the drawing comes in at its physical size in mm,
+ * with the viewBox's top-left corner at the origin; otherwise one user unit
+ * is one drawing unit.
+ */
+function rootMatrix(svg: XMLNode): Matrix {
+  const width = svg.attrs.width, viewBox = parseNumbers(svg.attrs.viewBox ?? "");
+  if (!width || viewBox.length !== 4 || viewBox[2] <= 0 || !/(mm|cm|in|pt|pc|px)\s*$/.test(width)) return IDENTITY;
+  const s = parseLength(width) * 25.4 / 96 / viewBox[2];
+  return [s, 0, 0, s, -viewBox[0] * s, -viewBox[1] * s];
+}
+
+// ============================================================
+// Main parser
+// ============================================================
+export function parseSVG(content: string, options: SVGImportOptions): SVGImportResult {
+  const svg = findSVGRoot(parseXML(content));
+  if (!svg) throw new Error("No <svg> element found");
+  const ctx: WalkContext = { options, ids: new Map(), blocks: [], blockNames: new Set((options.existingBlockNames ?? []).map(name => name.toLowerCase())), stats: { byElement: {}, skipped: {} }, flat: [] };
+  collectIds(svg, ctx.ids);
+  const entities = walk(svg, rootMatrix(svg), INITIAL_STYLE, ctx, 0);
+  return { entities, blocks: ctx.blocks, stats: ctx.stats, extents: getEntitiesBBox(ctx.flat) };
+}
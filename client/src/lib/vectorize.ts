@@ -0,0 +1,421 @@
+// ============================================================
+// Vectorize — Trace image underlays into lines, arcs and
+// polylines: threshold, outline or centerline extraction,
+// Douglas-Peucker simplification and arc fitting
+// ============================================================
+
+import type { Point, EntityData, ImageEntityData } from "./cad-types";
+import { getImageElement, imageCoordinates, imagePoint } from "./image-utils";
+
+export type VectorizeMode = "outline" | "centerline";
+
+export interface VectorizeOptions {
+  /** "outline" traces the edges of dark regions, "centerline" their skeleton */
+  mode: VectorizeMode;
+  /** Luminance 0–255 below which a pixel counts as ink */
+  threshold: number;
+  /** Light lines on a dark background */
+  invert: boolean;
+  /** Maximum deviation from the traced pixels, in drawing units */
+  tolerance: number;
+  /** Paths shorter than this, in drawing units, are dropped (specks, noise) */
+  minLength: number;
+  /** Replace runs of points that lie on a circle with arcs */
+  fitArcs: boolean;
+  /** World-space window limiting the traced region, or null for the whole image */
+  region: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+export const DEFAULT_VECTORIZE_OPTIONS: VectorizeOptions = {
+  mode: "centerline", threshold: 128, invert: false, tolerance: 1, minLength: 5, fitArcs: true, region: null,
+};
+
+/** One byte per pixel, 1 = ink */
+export interface Bitmap { width: number; height: number; data: Uint8Array; }
+
+interface PixelPath { points: Point[]; closed: boolean; }
+
+// ============================================================
+// Threshold
+// ============================================================
+
+/** Binary ink mask from RGBA pixels; transparent pixels are never ink */
+export function thresholdPixels(rgba: Uint8ClampedArray, width: number, height: number, threshold: number, invert: boolean): Bitmap {
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4;
+    if (rgba[o + 3] < 128) continue;
+    const lum = 0.299 * rgba[o] + 0.587 * rgba[o + 1] + 0.114 * rgba[o + 2];
+    data[i] = (invert ? lum > threshold : lum < threshold) ? 1 : 0;
+  }
+  return { width, height, data };
+}
+
+// ============================================================
+// Outline — boundaries between ink and background
+// ============================================================
+
+/**
+ * Closed boundary loops around ink regions. Every ink pixel side facing
+ * background is a directed edge (ink on the right); edges chain into
+ * loops, and using edge midpoints turns pixel stairs into diagonals.
+ */
+export function traceOutlines(bmp: Bitmap): PixelPath[] {
+  const { width: w, height: h, data } = bmp;
+  const ink = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && data[y * w + x] === 1;
+  const vw = w + 1;
+  // Outgoing edges per corner vertex; a vertex has at most two
+  const out = new Map<number, number[]>();
+  const addEdge = (x0: number, y0: number, x1: number, y1: number) => {
+    const from = y0 * vw + x0, to = y1 * vw + x1;
+    const list = out.get(from);
+    if (list) list.push(to); else out.set(from, [to]);
+  };
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!data[y * w + x]) continue;
+      if (!ink(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!ink(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!ink(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!ink(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: PixelPath[] = [];
+  for (const start of Array.from(out.keys())) {
+    while ((out.get(start)?.length ?? 0) > 0) {
+      const points: Point[] = [];
+      let v = start;
+      do {
+        const list = out.get(v)!;
+        const next = list.pop()!;
+        if (list.length === 0) out.delete(v);
+        points.push({ x: ((v % vw) + (next % vw)) / 2, y: (Math.floor(v / vw) + Math.floor(next / vw)) / 2 });
+        v = next;
+      } while (v !== start && out.has(v));
+      if (points.length >= 3) loops.push({ points, closed: true });
+    }
+  }
+  return loops;
+}
+
+// ============================================================
+// Centerline — Zhang-Suen thinning, then skeleton walking
+// ============================================================
+
+/** Thin ink regions to one-pixel-wide skeletons (in place) */
+export function thinBitmap(bmp: Bitmap): Bitmap {
+  const { width: w, height: h, data } = bmp;
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h ? data[y * w + x] : 0;
+  const remove: number[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      remove.length = 0;
+      for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+          if (!data[y * w + x]) continue;
+          // Neighbors clockwise from north
+          const p = [at(x, y - 1), at(x + 1, y - 1), at(x + 1, y), at(x + 1, y + 1), at(x, y + 1), at(x - 1, y + 1), at(x - 1, y), at(x - 1, y - 1)];
+          const b = p.reduce((s, v) => s + v, 0);
+          if (b < 2 || b > 6) continue;
+          let a = 0;
+          for (let i = 0; i < 8; i++) if (p[i] === 0 && p[(i + 1) % 8] === 1) a++;
+          if (a !== 1) continue;
+          if (pass === 0 ? (p[0] && p[2] && p[4]) || (p[2] && p[4] && p[6]) : (p[0] && p[2] && p[6]) || (p[0] && p[4] && p[6])) continue;
+          remove.push(y * w + x);
+        }
+      }
+      for (const i of remove) data[i] = 0;
+      if (remove.length) changed = true;
+    }
+  }
+  return bmp;
+}
+
+const NEIGHBORS_4 = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+const NEIGHBORS_DIAG = [[1, -1], [1, 1], [-1, 1], [-1, -1]];
+
+/** Open and closed paths along a one-pixel skeleton, split at ends and junctions */
+export function traceSkeleton(bmp: Bitmap): PixelPath[] {
+  const { width: w, height: h, data } = bmp;
+  const on = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && data[y * w + x] === 1;
+  // m-adjacency: a diagonal only counts when no 4-neighbor already bridges it,
+  // otherwise every stair step would look like a junction
+  const neighbors = (i: number): number[] => {
+    const x = i % w, y = Math.floor(i / w), result: number[] = [];
+    for (const [dx, dy] of NEIGHBORS_4) if (on(x + dx, y + dy)) result.push((y + dy) * w + x + dx);
+    for (const [dx, dy] of NEIGHBORS_DIAG) if (on(x + dx, y + dy) && !on(x + dx, y) && !on(x, y + dy)) result.push((y + dy) * w + x + dx);
+    return result;
+  };
+  const center = (i: number): Point => ({ x: (i % w) + 0.5, y: Math.floor(i / w) + 0.5 });
+
+  const visited = new Uint8Array(w * h);
+  const usedLinks = new Set<string>();
+  const linkKey = (a: number, b: number) => a < b ? `${a}-${b}` : `${b}-${a}`;
+  const isNode = (i: number) => neighbors(i).length !== 2;
+  const paths: PixelPath[] = [];
+
+  const walk = (from: number, first: number): PixelPath => {
+    const pts = [center(from)];
+    let prev = from, cur = first;
+    usedLinks.add(linkKey(from, first));
+    for (;;) {
+      pts.push(center(cur));
+      if (cur === from) return { points: pts, closed: true };
+      if (isNode(cur)) break;
+      visited[cur] = 1;
+      const next = neighbors(cur).find(n => n !== prev && !usedLinks.has(linkKey(cur, n)));
+      if (next === undefined) break;
+      usedLinks.add(linkKey(cur, next));
+      prev = cur; cur = next;
+    }
+    return { points: pts, closed: false };
+  };
+
+  // Paths between end points and junctions
+  for (let i = 0; i < w * h; i++) {
+    if (!data[i] || !isNode(i)) continue;
+    visited[i] = 1;
+    for (const n of neighbors(i)) if (!usedLinks.has(linkKey(i, n))) paths.push(walk(i, n));
+  }
+  // What is left are closed loops without any junction
+  for (let i = 0; i < w * h; i++) {
+    if (!data[i] || visited[i]) continue;
+    visited[i] = 1;
+    const n = neighbors(i).find(m => !usedLinks.has(linkKey(i, m)));
+    if (n !== undefined) paths.push(walk(i, n));
+  }
+  return paths.filter(p => p.points.length >= 2);
+}
+
+// ============================================================
+// Simplify and fit
+// ============================================================
+
+function distToSeg(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/** Douglas-Peucker; returns the indices of the kept points */
+export function simplifyPath(points: Point[], tolerance: number): number[] {
+  if (points.length <= 2) return points.map((_, i) => i);
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    let worst = -1, worstDist = tolerance;
+    for (let i = a + 1; i < b; i++) {
+      const dist = distToSeg(points[i], points[a], points[b]);
+      if (dist > worstDist) { worst = i; worstDist = dist; }
+    }
+    if (worst < 0) continue;
+    keep[worst] = 1;
+    stack.push([a, worst], [worst, b]);
+  }
+  const result: number[] = [];
+  keep.forEach((k, i) => { if (k) result.push(i); });
+  return result;
+}
+
+/** Least-squares circle through points (Kåsa fit), or null when they are collinear */
+export function fitCircle(points: Point[]): { center: Point; radius: number } | null {
+  const n = points.length;
+  if (n < 3) return null;
+  const mx = points.reduce((s, p) => s + p.x, 0) / n, my = points.reduce((s, p) => s + p.y, 0) / n;
+  let suu = 0, svv = 0, suv = 0, suuu = 0, svvv = 0, suvv = 0, svuu = 0;
+  for (const p of points) {
+    const u = p.x - mx, v = p.y - my;
+    suu += u * u; svv += v * v; suv += u * v;
+    suuu += u * u * u; svvv += v * v * v; suvv += u * v * v; svuu += v * u * u;
+  }
+  const det = suu * svv - suv * suv;
+  if (Math.abs(det) < 1e-9) return null;
+  const ru = (suuu + suvv) / 2, rv = (svvv + svuu) / 2;
+  const uc = (ru * svv - rv * suv) / det, vc = (rv * suu - ru * suv) / det;
+  return { center: { x: uc + mx, y: vc + my }, radius: Math.sqrt(uc * uc + vc * vc + (suu + svv) / n) };
+}
+
+type Piece = { kind: "chain"; points: Point[] } | { kind: "arc"; center: Point; radius: number; startAngle: number; endAngle: number };
+
+/** Arc through the points if they all lie within tolerance of one circle and turn one way */
+function arcThrough(points: Point[], tolerance: number): Piece | null {
+  const fit = fitCircle(points);
+  if (!fit) return null;
+  const chord = Math.hypot(points[points.length - 1].x - points[0].x, points[points.length - 1].y - points[0].y);
+  // Very flat arcs are straighter drawn as lines
+  if (fit.radius > 50 * Math.max(chord, tolerance)) return null;
+  if (points.some(p => Math.abs(Math.hypot(p.x - fit.center.x, p.y - fit.center.y) - fit.radius) > tolerance)) return null;
+  let sweep = 0, prev = Math.atan2(points[0].y - fit.center.y, points[0].x - fit.center.x);
+  const start = prev;
+  for (let i = 1; i < points.length; i++) {
+    const a = Math.atan2(points[i].y - fit.center.y, points[i].x - fit.center.x);
+    let step = a - prev;
+    if (step > Math.PI) step -= 2 * Math.PI;
+    if (step < -Math.PI) step += 2 * Math.PI;
+    if (sweep !== 0 && Math.sign(step) !== Math.sign(sweep) && Math.abs(step) > 1e-9) return null;
+    sweep += step;
+    prev = a;
+  }
+  sweep = Math.max(-2 * Math.PI, Math.min(2 * Math.PI, sweep));
+  // Arcs run with increasing angle, so counter-turning runs start from their far end
+  return sweep >= 0
+    ? { kind: "arc", center: fit.center, radius: fit.radius, startAngle: start, endAngle: start + sweep }
+    : { kind: "arc", center: fit.center, radius: fit.radius, startAngle: prev, endAngle: prev - sweep };
+}
+
+/** Split a simplified path into straight chains and arcs, fitting arcs to the original points */
+function fitPieces(points: Point[], kept: number[], tolerance: number, fitArcs: boolean): Piece[] {
+  const pieces: Piece[] = [];
+  let chain: Point[] = [points[kept[0]]];
+  let i = 0;
+  while (i < kept.length - 1) {
+    let best: Piece | null = null, bestEnd = i;
+    // An arc has to span at least three simplified segments
+    if (fitArcs) {
+      for (let j = i + 3; j < kept.length; j++) {
+        const arc = arcThrough(points.slice(kept[i], kept[j] + 1), tolerance);
+        if (!arc) break;
+        best = arc; bestEnd = j;
+      }
+    }
+    if (best) {
+      if (chain.length >= 2) pieces.push({ kind: "chain", points: chain });
+      pieces.push(best);
+      i = bestEnd;
+      chain = [points[kept[i]]];
+    } else {
+      i++;
+      chain.push(points[kept[i]]);
+    }
+  }
+  if (chain.length >= 2) pieces.push({ kind: "chain", points: chain });
+  return pieces;
+}
+
+function pathLength(points: Point[]): number {
+  let len = 0;
+  for (let i = 1; i < points.length; i++) len += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  return len;
+}
+
+// ============================================================
+// Bitmap → entity data
+// ============================================================
+
+/**
+ * Trace a bitmap into entity data in pixel coordinates.
+ * `tolerance` and `minLength` are in pixels here.
+ */
+export function vectorizeBitmap(bmp: Bitmap, mode: VectorizeMode, tolerance: number, minLength: number, fitArcs: boolean): EntityData[] {
+  const paths = mode === "outline" ? traceOutlines(bmp) : traceSkeleton(thinBitmap(bmp));
+  const result: EntityData[] = [];
+  for (const path of paths) {
+    const pts = path.closed && mode === "outline" ? [...path.points, path.points[0]] : path.points;
+    if (pathLength(pts) < minLength) continue;
+    const pieces = fitPieces(pts, simplifyPath(pts, tolerance), tolerance, fitArcs);
+    for (const piece of pieces) {
+      if (piece.kind === "arc") {
+        result.push({ type: "arc", center: piece.center, radius: piece.radius, startAngle: piece.startAngle, endAngle: piece.endAngle });
+      } else if (piece.points.length === 2) {
+        result.push({ type: "line", start: piece.points[0], end: piece.points[1] });
+      } else if (pieces.length === 1 && path.closed) {
+        // The loop's closing point duplicates its first
+        result.push({ type: "polyline", points: piece.points.slice(0, -1), closed: true });
+      } else {
+        result.push({ type: "polyline", points: piece.points, closed: false });
+      }
+    }
+  }
+  return result;
+}
+
+// ============================================================
+// Image underlay → drawing geometry
+// ============================================================
+
+/** Image pixels inside the region and clip boundary, as an ink mask cropped to their extent */
+function readInkMask(d: ImageEntityData, options: VectorizeOptions): { bmp: Bitmap; x0: number; y0: number } | null {
+  const img = getImageElement(d.src);
+  if (!img) return null;
+  const pw = d.pixelWidth, ph = d.pixelHeight;
+
+  // Pixel extent of the region
+  let x0 = 0, y0 = 0, x1 = pw, y1 = ph;
+  const region = options.region;
+  if (region) {
+    const uv = [
+      { x: region.minX, y: region.minY }, { x: region.maxX, y: region.minY },
+      { x: region.maxX, y: region.maxY }, { x: region.minX, y: region.maxY },
+    ].map(p => imageCoordinates(d, p));
+    x0 = Math.max(0, Math.floor(Math.min(...uv.map(p => p.x)) * pw));
+    y0 = Math.max(0, Math.floor(Math.min(...uv.map(p => p.y)) * ph));
+    x1 = Math.min(pw, Math.ceil(Math.max(...uv.map(p => p.x)) * pw));
+    y1 = Math.min(ph, Math.ceil(Math.max(...uv.map(p => p.y)) * ph));
+  }
+  const w = x1 - x0, h = y1 - y0;
+  if (w <= 0 || h <= 0) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w; canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, -x0, -y0, pw, ph);
+  const bmp = thresholdPixels(ctx.getImageData(0, 0, w, h).data, w, h, options.threshold, options.invert);
+
+  // Rotated images and clip boundaries do not line up with the pixel grid
+  const clip = d.clip && d.clip.length >= 3 ? d.clip : null;
+  if ((region && d.rotation) || clip) {
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const i = y * w + x;
+        if (!bmp.data[i]) continue;
+        const u = (x0 + x + 0.5) / pw, v = (y0 + y + 0.5) / ph;
+        const p = imagePoint(d, u, v);
+        const inRegion = !region || (p.x >= region.minX && p.x <= region.maxX && p.y >= region.minY && p.y <= region.maxY);
+        if (!inRegion || (clip && !pointInPolygon({ x: u, y: v }, clip))) bmp.data[i] = 0;
+      }
+    }
+  }
+  return { bmp, x0, y0 };
+}
+
+function pointInPolygon(p: Point, poly: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Trace an image underlay into line, arc and polyline data in drawing
+ * coordinates. Returns null while the image has not decoded or the
+ * region misses it.
+ */
+export function vectorizeImage(d: ImageEntityData, options: VectorizeOptions): EntityData[] | null {
+  const mask = readInkMask(d, options);
+  if (!mask) return null;
+  const sx = d.width / d.pixelWidth, sy = d.height / d.pixelHeight;
+  const unitsPerPixel = (sx + sy) / 2;
+  // Arcs only survive a uniform pixel scale
+  const uniform = Math.abs(sx - sy) <= 0.01 * unitsPerPixel;
+  const traced = vectorizeBitmap(mask.bmp, options.mode, Math.max(0.5, options.tolerance / unitsPerPixel), options.minLength / unitsPerPixel, options.fitArcs && uniform);
+
+  const toWorld = (p: Point) => imagePoint(d, (p.x + mask.x0) / d.pixelWidth, (p.y + mask.y0) / d.pixelHeight);
+  return traced.map((data): EntityData => {
+    switch (data.type) {
+      case "line": return { ...data, start: toWorld(data.start), end: toWorld(data.end) };
+      case "polyline": return { ...data, points: data.points.map(toWorld) };
+      case "arc": return { ...data, center: toWorld(data.center), radius: data.radius * unitsPerPixel, startAngle: data.startAngle + d.rotation, endAngle: data.endAngle + d.rotation };
+      default: return data;
+    }
+  });
+}
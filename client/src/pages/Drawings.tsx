@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { toast } from "sonner";
+import { FilePlus2, FileUp, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { initialState } from "@/contexts/CADContext";
+import { parseDocument, DOCUMENT_FILE_EXTENSION } from "@/lib/cad-document";
+import { createDrawing, deleteDrawing, getAuthorName, listDrawings, renameDrawing, type DrawingSummary } from "@/lib/drawings-api";
+import { serverDrawingPath } from "@/hooks/useServerDrawing";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+/** Drawings kept on the server: open, upload, rename and delete */
+export default function Drawings() {
+  const [, navigate] = useLocation();
+  const [drawings, setDrawings] = useState<DrawingSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    listDrawings()
+      .then(list => { setDrawings(list); setError(null); })
+      .catch(err => setError(errorMessage(err)));
+  };
+
+  useEffect(refresh, []);
+
+  const handleUpload = () => {
+    const inp = document.createElement("input"); inp.type = "file"; inp.accept = `${DOCUMENT_FILE_EXTENSION},.json`;
+    inp.onchange = async (ev: Event) => {
+      const file = (ev.target as HTMLInputElement).files?.[0]; if (!file) return;
+      try {
+        // Validate locally first, so legacy files are stored in the current schema
+        const doc = parseDocument(await file.text(), initialState);
+        const created = await createDrawing(file.name.replace(/\.(cadstudio|cad\.json|json)$/i, ""), doc, { author: getAuthorName(), message: `Uploaded ${file.name}` });
+        toast.success(`Uploaded ${created.name}`);
+        refresh();
+      } catch (err) {
+        toast.error(`Cannot upload ${file.name}: ${errorMessage(err)}`);
+      }
+    };
+    inp.click();
+  };
+
+  const handleRename = async (d: DrawingSummary) => {
+    const name = prompt("Drawing name:", d.name);
+    if (!name || name.trim() === d.name) return;
+    try {
+      await renameDrawing(d.id, name);
+      refresh();
+    } catch (err) {
+      toast.error(`Cannot rename ${d.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  const handleDelete = async (d: DrawingSummary) => {
+    if (!confirm(`Delete ${d.name} from the server? This cannot be undone.`)) return;
+    try {
+      await deleteDrawing(d.id);
+      toast.success(`Deleted ${d.name}`);
+      refresh();
+    } catch (err) {
+      toast.error(`Cannot delete ${d.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen w-screen overflow-hidden bg-background text-foreground">
+      <div className="flex items-center h-9 px-3 gap-2 border-b select-none" style={{ background: "var(--cad-toolbar-bg)", borderColor: "var(--cad-panel-border)" }}>
+        <Link href="/" className="text-xs font-semibold tracking-wide text-foreground/90 hover:text-foreground">CAD Studio</Link>
+        <span className="text-xs text-muted-foreground">— Server Drawings</span>
+        <div className="flex-1" />
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={refresh}><RefreshCw className="mr-1.5 h-3.5 w-3.5" /> Refresh</Button>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleUpload}><FileUp className="mr-1.5 h-3.5 w-3.5" /> Upload...</Button>
+        <Button size="sm" className="h-7 text-xs" onClick={() => navigate("/")}><FilePlus2 className="mr-1.5 h-3.5 w-3.5" /> Workspace</Button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4">
+        {error ? (
+          <p className="text-xs text-destructive">Cannot list drawings: {error}</p>
+        ) : drawings === null ? (
+          <p className="text-xs text-muted-foreground">Loading…</p>
+        ) : drawings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No drawings on the server yet. Use File &gt; Save to Server in the workspace, or upload a {DOCUMENT_FILE_EXTENSION} file.</p>
+        ) : (
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Revision</TableHead>
+                <TableHead className="text-right">Entities</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drawings.map(d => (
+                <TableRow key={d.id}>
+                  <TableCell><Link href={serverDrawingPath(d.id)} className="hover:underline">{d.name}</Link></TableCell>
+                  <TableCell className="text-right font-mono">{d.revision}</TableCell>
+                  <TableCell className="text-right font-mono">{d.entityCount}</TableCell>
+                  <TableCell className="text-right font-mono">{formatSize(d.size)}</TableCell>
+                  <TableCell className="text-muted-foreground">{new Date(d.updatedAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => navigate(serverDrawingPath(d.id))}>Open</Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Rename" onClick={() => handleRename(d)}><Pencil className="h-3.5 w-3.5" /></Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Delete" onClick={() => handleDelete(d)}><Trash2 className="h-3.5 w-3.5" /></Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
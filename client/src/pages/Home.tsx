@@ -1,4 +1,5 @@
 import { CADProvider, useCAD } from "@/contexts/CADContext";
+import { CollabProvider } from "@/contexts/CollabContext";
 import MenuBar from "@/components/MenuBar";
 import Toolbar from "@/components/Toolbar";
 import CADCanvas from "@/components/CADCanvas";
@@ -9,9 +10,15 @@ import StatusBar from "@/components/StatusBar";
 import SnapToolbar from "@/components/SnapToolbar";
 import HotkeyGuide from "@/components/HotkeyGuide";
 import LayoutManager from "@/components/LayoutManager";
+import RecoveryDialog from "@/components/RecoveryDialog";
+import RevisionCompareBar from "@/components/RevisionCompareBar";
+import { useAutosave } from "@/hooks/useAutosave";
+import { useServerDrawing } from "@/hooks/useServerDrawing";
 
 function CADWorkspace() {
   const { state } = useCAD();
+  useAutosave(state);
+  useServerDrawing(state);
 
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-background text-foreground">
@@ -28,9 +35,11 @@ function CADWorkspace() {
         {state.showLayers && <LayersPanel />}
       </div>
       <LayoutManager />
+      <RevisionCompareBar />
       <SnapToolbar />
       <StatusBar />
       <HotkeyGuide />
+      <RecoveryDialog />
     </div>
   );
 }
@@ -38,7 +47,9 @@ function CADWorkspace() {
 export default function Home() {
   return (
     <CADProvider>
-      <CADWorkspace />
+      <CollabProvider>
+        <CADWorkspace />
+      </CollabProvider>
     </CADProvider>
   );
 }
@@ -0,0 +1,248 @@
+// ============================================================
+// Collaboration Hub — One editing session per server drawing,
+// reached over a WebSocket at /api/collab/<drawing id>
+// ============================================================
+//
+// A session lives in memory while anyone is connected: it starts from the
+// drawing's current revision in the store, and every client that joins
+// receives the session's copy. Operations are applied and forwarded in
+// arrival order (see shared/collab.ts for the conflict rules); one that
+// changes nothing is dropped without a number. Nothing here writes to
+// disk; participants save revisions through the drawings API as usual and
+// tell the others about it.
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { nanoid } from "nanoid";
+import { WebSocketServer, type WebSocket } from "ws";
+import { DrawingNotFoundError, type DrawingStore } from "./drawing-store";
+import { migrateDocument } from "../client/src/lib/cad-document";
+import {
+  COLLAB_API_PATH, MAX_COLLAB_MESSAGE_BYTES, MAX_PEER_NAME_LENGTH,
+  type CollabClientMessage, type CollabOperation, type CollabPeer, type CollabPresence, type CollabServerMessage, type RecordChanges,
+} from "../shared/collab";
+
+/** Connections are pinged this often; one that has not answered the previous ping is dropped */
+const PING_INTERVAL_MS = 30000;
+
+/** Cursor and selection colors, handed out in order to the participants of a session */
+const PEER_COLORS = ["#f97316", "#06b6d4", "#a855f7", "#22c55e", "#ec4899", "#eab308", "#3b82f6", "#14b8a6"];
+
+const RECORD_KINDS = ["entities", "layers", "blocks"] as const;
+type RecordKind = typeof RECORD_KINDS[number];
+type RecordMap = Map<string, unknown>;
+
+interface Participant extends CollabPeer {
+  socket: WebSocket;
+}
+
+interface Session {
+  records: Record<RecordKind, RecordMap>;
+  /** Number of the last applied operation */
+  seq: number;
+  participants: Map<string, Participant>;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function recordId(record: unknown): string | null {
+  const id = record && typeof record === "object" ? (record as { id?: unknown }).id : undefined;
+  return typeof id === "string" && id ? id : null;
+}
+
+function isPresence(value: unknown): value is CollabPresence {
+  if (!value || typeof value !== "object") return false;
+  const { cursor, selection } = value as Record<string, unknown>;
+  const cursorOk = cursor === null || (!!cursor && typeof cursor === "object"
+    && Number.isFinite((cursor as { x?: unknown }).x) && Number.isFinite((cursor as { y?: unknown }).y));
+  return cursorOk && Array.isArray(selection) && selection.every(id => typeof id === "string");
+}
+
+/** Apply one kind of changes to the session's records; returns what actually took effect */
+function applyChanges(records: RecordMap, changes: RecordChanges<unknown> | undefined): RecordChanges<unknown> | undefined {
+  if (!changes || typeof changes !== "object") return undefined;
+  const applied: Required<RecordChanges<unknown>> = { add: [], update: [], remove: [] };
+  for (const record of Array.isArray(changes.add) ? changes.add : []) {
+    const id = recordId(record);
+    if (id) { records.set(id, record); applied.add.push(record); }
+  }
+  for (const record of Array.isArray(changes.update) ? changes.update : []) {
+    // A record removed by an earlier operation stays removed
+    const id = recordId(record);
+    if (id && records.has(id)) { records.set(id, record); applied.update.push(record); }
+  }
+  for (const id of Array.isArray(changes.remove) ? changes.remove : []) {
+    if (typeof id === "string" && records.delete(id)) applied.remove.push(id);
+  }
+  return applied.add.length + applied.update.length + applied.remove.length ? applied : undefined;
+}
+
+export class CollabHub {
+  private sessions = new Map<string, Session>();
+  private wss = new WebSocketServer({ noServer: true, maxPayload: MAX_COLLAB_MESSAGE_BYTES });
+
+  constructor(private store: DrawingStore) {}
+
+  /** Take over WebSocket upgrades of the HTTP server */
+  attach(server: Server) {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head).catch(err => {
+        console.error("Collaboration upgrade failed:", err);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      });
+    });
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const prefix = `${COLLAB_API_PATH}/`;
+    if (!pathname.startsWith(prefix)) { rejectUpgrade(socket, 404, "Not Found"); return; }
+    const drawingId = decodeURIComponent(pathname.slice(prefix.length));
+    let stored: Session["records"];
+    try {
+      stored = await this.loadRecords(drawingId);
+    } catch (err) {
+      // Missing drawings and malformed ids alike
+      if (!(err instanceof DrawingNotFoundError)) throw err;
+      rejectUpgrade(socket, 404, "Not Found");
+      return;
+    }
+    this.wss.handleUpgrade(req, socket, head, ws => this.connect(drawingId, stored, ws));
+  }
+
+  /** The records of the drawing's current revision, to start a session from */
+  private async loadRecords(drawingId: string): Promise<Session["records"]> {
+    const { document } = await this.store.get(drawingId);
+    const content = (migrateDocument(document).content ?? {}) as Partial<Record<RecordKind, unknown>>;
+    const seed = (records: unknown): RecordMap => new Map((Array.isArray(records) ? records : [])
+      .map(r => [recordId(r), r] as const)
+      .filter((pair): pair is readonly [string, unknown] => pair[0] !== null));
+    return { entities: seed(content.entities), layers: seed(content.layers), blocks: seed(content.blocks) };
+  }
+
+  private connect(drawingId: string, stored: Session["records"], socket: WebSocket) {
+    let participant: Participant | null = null;
+    let alive = true;
+    socket.on("pong", () => { alive = true; });
+    const pinger = setInterval(() => {
+      if (!alive) { socket.terminate(); return; }
+      alive = false;
+      socket.ping();
+    }, PING_INTERVAL_MS);
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) { socket.close(1003, "text messages only"); return; }
+      let message: CollabClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        this.send(socket, { type: "error", error: "messages must be JSON" });
+        return;
+      }
+      if (!participant) {
+        if (message?.type !== "hello") { this.send(socket, { type: "error", error: "the first message must be hello" }); return; }
+        participant = this.join(drawingId, stored, socket, message);
+        return;
+      }
+      this.receive(this.sessions.get(drawingId)!, participant, message);
+    });
+    socket.on("error", () => socket.terminate());
+    socket.on("close", () => {
+      clearInterval(pinger);
+      if (participant) this.leave(drawingId, participant);
+    });
+  }
+
+  private join(drawingId: string, stored: Session["records"], socket: WebSocket, hello: Extract<CollabClientMessage, { type: "hello" }>): Participant {
+    let session = this.sessions.get(drawingId);
+    if (!session) {
+      session = { records: stored, seq: 0, participants: new Map() };
+      this.sessions.set(drawingId, session);
+    }
+    const used = new Set(Array.from(session.participants.values()).map(p => p.color));
+    const participant: Participant = {
+      clientId: nanoid(10),
+      name: (typeof hello.name === "string" ? hello.name.trim().slice(0, MAX_PEER_NAME_LENGTH) : "") || "Guest",
+      color: PEER_COLORS.find(c => !used.has(c)) ?? PEER_COLORS[session.participants.size % PEER_COLORS.length],
+      cursor: null,
+      selection: [],
+      socket,
+    };
+    const peers = Array.from(session.participants.values()).map(p => this.peerInfo(p));
+    this.send(socket, {
+      type: "welcome",
+      clientId: participant.clientId,
+      color: participant.color,
+      peers,
+      snapshot: {
+        entities: Array.from(session.records.entities.values()),
+        layers: Array.from(session.records.layers.values()),
+        blocks: Array.from(session.records.blocks.values()),
+      },
+      seq: session.seq,
+    });
+    this.broadcast(session, { type: "peer-joined", peer: this.peerInfo(participant) });
+    session.participants.set(participant.clientId, participant);
+    return participant;
+  }
+
+  private leave(drawingId: string, participant: Participant) {
+    const session = this.sessions.get(drawingId);
+    if (!session) return;
+    session.participants.delete(participant.clientId);
+    if (session.participants.size === 0) this.sessions.delete(drawingId);
+    else this.broadcast(session, { type: "peer-left", clientId: participant.clientId });
+  }
+
+  private receive(session: Session, from: Participant, message: CollabClientMessage) {
+    switch (message?.type) {
+      case "op": {
+        const op = message.op;
+        if (!op || typeof op.id !== "string") { this.send(from.socket, { type: "error", error: "an operation needs an id" }); return; }
+        const applied: CollabOperation = { id: op.id };
+        for (const kind of RECORD_KINDS) {
+          const changes = applyChanges(session.records[kind], op[kind]);
+          if (changes) applied[kind] = changes;
+        }
+        if (!applied.entities && !applied.layers && !applied.blocks) {
+          this.send(from.socket, { type: "dropped", opId: op.id });
+          return;
+        }
+        const seq = ++session.seq;
+        this.send(from.socket, { type: "ack", opId: op.id, seq });
+        this.broadcast(session, { type: "op", clientId: from.clientId, seq, op: applied }, from);
+        return;
+      }
+      case "presence": {
+        if (!isPresence(message.presence)) return;
+        from.cursor = message.presence.cursor;
+        from.selection = message.presence.selection;
+        this.broadcast(session, { type: "presence", clientId: from.clientId, presence: { cursor: from.cursor, selection: from.selection } }, from);
+        return;
+      }
+      case "saved": {
+        if (!Number.isInteger(message.revision) || typeof message.name !== "string") return;
+        this.broadcast(session, { type: "saved", clientId: from.clientId, revision: message.revision, name: message.name }, from);
+        return;
+      }
+      default:
+        this.send(from.socket, { type: "error", error: "unknown message type" });
+    }
+  }
+
+  private peerInfo(p: Participant): CollabPeer {
+    return { clientId: p.clientId, name: p.name, color: p.color, cursor: p.cursor, selection: p.selection };
+  }
+
+  private send(socket: WebSocket, message: CollabServerMessage) {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  }
+
+  private broadcast(session: Session, message: CollabServerMessage, except?: Participant) {
+    const text = JSON.stringify(message);
+    for (const p of Array.from(session.participants.values())) {
+      if (p !== except && p.socket.readyState === p.socket.OPEN) p.socket.send(text);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// ============================================================
+// Convert Routes — File conversion over HTTP, for pipelines
+// that regenerate PDFs and SVGs without a browser
+// ============================================================
+//
+//   POST /api/convert?to=pdf|svg|dxf[&from=dxf|cadstudio][&layout=][&plotStyle=]
+//                    [&dxfVersion=R12|R2000][&svgBackground=][&name=]
+//        body: the DXF or .cadstudio file as is   → the converted file
+//   POST /api/convert?to=…&drawing=<id>           → converts a stored drawing
+//
+// Warnings (content the output leaves out) come back in X-Conversion-Warnings.
+// PDF output can be missing content: rotated, clipped or semi-transparent
+// images need a browser canvas to be placed, so the server leaves them out
+// and names them in that header. Export those drawings from the editor.
+//
+// Each conversion runs in its own worker thread with a time and memory
+// limit; a file that exceeds either gets 413, and when MAX_CONCURRENT
+// conversions are already running the request gets 503.
+
+import { Worker } from "worker_threads";
+import express, { Router, type NextFunction, type Request, type Response } from "express";
+import { readConvertOptions, ConversionError, type ConvertOptions, type ConvertResult } from "../client/src/lib/convert";
+import { DrawingNotFoundError, type DrawingStore } from "./drawing-store";
+import type { ConvertJob, ConvertJobResult } from "./convert-worker";
+
+/** Conversions running at once; more would only share the same CPU */
+const MAX_CONCURRENT = 2;
+/** Heap of one conversion worker */
+const WORKER_HEAP_MB = 512;
+
+/**
+ * In the build the worker is bundled as convert-worker.js beside this file. Run
+ * from source (tsx) it is a .ts file, and workers do not inherit tsx's loader,
+ * so a small script registers it first.
+ */
+function startWorker(job: ConvertJob): Worker {
+  const options = { workerData: job, resourceLimits: { maxOldGenerationSizeMb: WORKER_HEAP_MB } };
+  if (!import.meta.url.endsWith(".ts")) return new Worker(new URL("./convert-worker.js", import.meta.url), options);
+  const entry = JSON.stringify(new URL("./convert-worker.ts", import.meta.url).href);
+  return new Worker(`import("tsx/esm/api").then(({ register }) => { register(); return import(${entry}); })`, { ...options, eval: true });
+}
+
+/** The conversion ran out of time or memory (413), or the server is busy with others (503) */
+class ConversionLimitError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ConversionLimitError";
+  }
+}
+
+let running = 0;
+
+/** convertDrawing in a worker thread, stopped after `timeoutMs` */
+function convertInWorker(input: string, options: ConvertOptions, timeoutMs: number): Promise<ConvertResult> {
+  if (running >= MAX_CONCURRENT) return Promise.reject(new ConversionLimitError("the server is busy with other conversions; try again shortly", 503));
+  running++;
+  return new Promise<ConvertResult>((resolve, reject) => {
+    const worker = startWorker({ input, options });
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      running--;
+      clearTimeout(timer);
+      fn();
+    };
+    const timer = setTimeout(() => {
+      settle(() => reject(new ConversionLimitError(`the conversion took longer than ${timeoutMs / 1000} s`, 413)));
+      worker.terminate();
+    }, timeoutMs);
+    worker.once("message", (reply: ConvertJobResult) => settle(() => {
+      if (reply.ok) resolve(reply.result);
+      else reject(reply.conversionError ? new ConversionError(reply.message) : new Error(reply.message));
+    }));
+    worker.once("error", err => settle(() => {
+      const outOfMemory = (err as { code?: string }).code === "ERR_WORKER_OUT_OF_MEMORY";
+      reject(outOfMemory ? new ConversionLimitError("the drawing is too complex to convert", 413) : err);
+    }));
+    worker.once("exit", code => settle(() => reject(new Error(`the conversion worker stopped (exit code ${code})`))));
+  });
+}
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+/** Pass rejected promises on to the error handler (Express 4 does not) */
+const route = (handler: Handler) => (req: Request, res: Response, next: NextFunction) => { handler(req, res).catch(next); };
+
+/** The query parameters that are single strings */
+function queryStrings(req: Request): Record<string, string | undefined> {
+  return Object.fromEntries(Object.entries(req.query).map(([k, v]) => [k, typeof v === "string" ? v : undefined]));
+}
+
+/** Attachment file name without characters that would break the header */
+const safeFileName = (name: string) => name.replace(/[^\w .()-]+/g, "_").trim() || "drawing";
+
+/** `maxBodySize` bounds uploaded files, in express notation ("50mb"); `timeoutMs` bounds each conversion */
+export function convertRouter(store: DrawingStore, maxBodySize: string, timeoutMs: number): Router {
+  const router = Router();
+  // Any content type: the file is read as text and its format detected
+  router.use(express.text({ type: () => true, limit: maxBodySize }));
+
+  router.post("/", route(async (req, res) => {
+    const params = queryStrings(req);
+    const options = readConvertOptions(params);
+    let input: string;
+    let name = params.name;
+    if (params.drawing) {
+      const drawing = await store.get(params.drawing);
+      input = JSON.stringify(drawing.document);
+      options.from = "cadstudio";
+      name ??= drawing.name;
+    } else {
+      if (typeof req.body !== "string" || !req.body.trim()) throw new ConversionError("send the file to convert as the request body, or name a stored drawing with ?drawing=");
+      input = req.body;
+    }
+    const result = await convertInWorker(input, options, timeoutMs);
+    const fileName = safeFileName(`${name ?? "drawing"}${options.layout ? `-${options.layout}` : ""}`) + result.extension;
+    res.setHeader("Content-Type", result.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    if (result.warnings.length) res.setHeader("X-Conversion-Warnings", result.warnings.join("; "));
+    res.send(typeof result.data === "string" ? result.data : Buffer.from(result.data));
+  }));
+
+  router.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof ConversionError) res.status(400).json({ error: err.message });
+    else if (err instanceof ConversionLimitError) res.status(err.status).json({ error: err.message });
+    else if (err instanceof DrawingNotFoundError) res.status(404).json({ error: err.message });
+    // Bodies over the size limit, from express.text()
+    else if (err instanceof Error && "status" in err && typeof err.status === "number" && err.status < 500) res.status(err.status).json({ error: err.message });
+    else next(err);
+  });
+
+  return router;
+}
@@ -0,0 +1,27 @@
+// ============================================================
+// Convert Worker — Runs one conversion off the server's event
+// loop, so a large file cannot stall the drawings API or the
+// collaboration sockets
+// ============================================================
+
+import { parentPort, workerData } from "worker_threads";
+import { convertDrawing, ConversionError, type ConvertOptions } from "../client/src/lib/convert";
+
+export interface ConvertJob {
+  input: string;
+  options: ConvertOptions;
+}
+
+export type ConvertJobResult =
+  | { ok: true; result: ReturnType<typeof convertDrawing> }
+  | { ok: false; conversionError: boolean; message: string };
+
+const job = workerData as ConvertJob;
+let reply: ConvertJobResult;
+try {
+  reply = { ok: true, result: convertDrawing(job.input, job.options) };
+} catch (err) {
+  reply = { ok: false, conversionError: err instanceof ConversionError, message: err instanceof Error ? err.message : String(err) };
+}
+const transfer = reply.ok && typeof reply.result.data !== "string" ? [reply.result.data.buffer as ArrayBuffer] : [];
+parentPort!.postMessage(reply, transfer);
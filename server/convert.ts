@@ -0,0 +1,101 @@
+// ============================================================
+// Convert CLI — Converts DXF and .cadstudio files to PDF, SVG
+// or DXF from the command line, without a browser
+// ============================================================
+//
+//   pnpm convert plan.dxf --to pdf --layout "Sheet 1" --plot-style monochrome
+//   node dist/convert.js plan.cadstudio --to svg -o - > plan.svg
+//
+// Exit status: 0 converted, 1 the input or options cannot be converted,
+// 2 bad usage.
+
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { convertDrawing, readConvertOptions, ConversionError, CONVERT_INPUT_FORMATS, CONVERT_OUTPUT_FORMATS } from "../client/src/lib/convert";
+
+const USAGE = `Usage: convert <input> --to ${CONVERT_OUTPUT_FORMATS.join("|")} [options]
+
+Options:
+  --to <format>             output format (required)
+  --from <format>           input format, ${CONVERT_INPUT_FORMATS.join(" or ")} (detected when omitted)
+  --layout <name>           PDF: plot this paper space layout instead of model space
+  --plot-style <name>       PDF/SVG: plot style table by name, or "none"
+  --dxf-version <version>   DXF: R12 or R2000 (default R2000)
+  --svg-background <bg>     SVG: dark, white or transparent (default dark)
+  -o, --output <file>       output file, or - for standard output
+                            (default: the input name with the new extension)
+  -h, --help                show this help`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function readArgs() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        to: { type: "string" },
+        from: { type: "string" },
+        layout: { type: "string" },
+        "plot-style": { type: "string" },
+        "dxf-version": { type: "string" },
+        "svg-background": { type: "string" },
+        output: { type: "string", short: "o" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+async function main() {
+  const { values, positionals } = readArgs();
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) throw new UsageError(positionals.length ? "convert one file at a time" : "no input file given");
+  if (!values.to) throw new UsageError("--to is required");
+
+  const inputPath = positionals[0];
+  const options = readConvertOptions({
+    to: values.to,
+    from: values.from,
+    layout: values.layout,
+    plotStyle: values["plot-style"],
+    dxfVersion: values["dxf-version"],
+    svgBackground: values["svg-background"],
+  });
+  const input = await readFile(inputPath, "utf8");
+  const result = convertDrawing(input, options);
+  for (const warning of result.warnings) console.warn(`warning: ${warning}`);
+
+  if (values.output === "-") {
+    process.stdout.write(result.data);
+    return;
+  }
+  const { dir, name } = path.parse(inputPath);
+  const outputPath = values.output ?? path.join(dir, name + result.extension);
+  if (path.resolve(outputPath) === path.resolve(inputPath)) throw new UsageError(`the output would overwrite ${inputPath}; choose another with -o`);
+  await writeFile(outputPath, result.data);
+  console.warn(`wrote ${outputPath}`);
+}
+
+main().catch(err => {
+  if (err instanceof UsageError) {
+    console.error(`convert: ${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else if (err instanceof ConversionError || (err instanceof Error && "code" in err && err.code === "ENOENT")) {
+    console.error(`convert: ${err.message}`);
+    process.exitCode = 1;
+  } else {
+    console.error(err);
+    process.exitCode = 1;
+  }
+});
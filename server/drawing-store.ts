@@ -0,0 +1,259 @@
+// ============================================================
+// Drawing Store — .cadstudio documents on the local disk,
+// one directory per drawing with its metadata beside it
+// ============================================================
+//
+//   <root>/<id>/meta.json                DrawingSummary
+//   <root>/<id>/drawing.cadstudio        current document
+//   <root>/<id>/revisions.json           RevisionSummary[], oldest first
+//   <root>/<id>/revisions/<n>.cadstudio  every saved revision
+//
+// Files are replaced by writing a temporary file and renaming it over the
+// old one, so a crash never leaves half a drawing; meta.json is written
+// last and is what makes a new revision current. Writes to one drawing
+// are queued, which makes the revision check and the save one step.
+// Drawings stored before revisions were kept have no history yet: their
+// current document stands in as the only revision until the next save.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { nanoid } from "nanoid";
+import { migrateDocument, DocumentValidationError } from "../client/src/lib/cad-document";
+import {
+  MAX_AUTHOR_LENGTH, MAX_DRAWING_NAME_LENGTH, MAX_REVISION_MESSAGE_LENGTH,
+  type DrawingSummary, type DrawingWithDocument, type RevisionNote, type RevisionSummary, type RevisionWithDocument,
+} from "../shared/drawings";
+
+const META_FILE = "meta.json";
+const DOCUMENT_FILE = "drawing.cadstudio";
+const REVISIONS_FILE = "revisions.json";
+const REVISIONS_DIR = "revisions";
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** The request itself is wrong: a bad name or something that is not a drawing */
+export class DrawingInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DrawingInputError";
+  }
+}
+
+export class DrawingNotFoundError extends Error {
+  constructor(public readonly id: string, revision?: number) {
+    super(revision === undefined ? `drawing ${id} does not exist` : `drawing ${id} has no revision ${revision}`);
+    this.name = "DrawingNotFoundError";
+  }
+}
+
+/** The drawing was saved by someone else after the revision the update started from */
+export class DrawingConflictError extends Error {
+  constructor(public readonly current: DrawingSummary, baseRevision: number) {
+    super(`drawing ${current.id} is at revision ${current.revision}, not ${baseRevision}`);
+    this.name = "DrawingConflictError";
+  }
+}
+
+function checkName(name: unknown): string {
+  if (typeof name !== "string" || !name.trim()) throw new DrawingInputError("a drawing needs a name");
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_DRAWING_NAME_LENGTH) throw new DrawingInputError(`names are limited to ${MAX_DRAWING_NAME_LENGTH} characters`);
+  return trimmed;
+}
+
+/** Author and message trimmed to their limits; non-strings count as empty */
+function checkNote(note: RevisionNote | undefined): { author: string; message: string } {
+  const text = (value: unknown, max: number) => typeof value === "string" ? value.trim().slice(0, max) : "";
+  return { author: text(note?.author, MAX_AUTHOR_LENGTH), message: text(note?.message, MAX_REVISION_MESSAGE_LENGTH) };
+}
+
+/** Serialized document text and its entity count; throws DrawingInputError for anything that is not a drawing */
+function checkDocument(document: unknown): { text: string; entityCount: number } {
+  try {
+    const { content } = migrateDocument(document);
+    const entities = content && typeof content === "object" ? (content as { entities?: unknown }).entities : undefined;
+    if (!Array.isArray(entities)) throw new DocumentValidationError("missing document content", "content");
+    return { text: JSON.stringify(document), entityCount: entities.length };
+  } catch (err) {
+    if (err instanceof DocumentValidationError) throw new DrawingInputError(err.message);
+    throw err;
+  }
+}
+
+async function writeAtomic(file: string, text: string) {
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, text, "utf-8");
+  await fs.rename(tmp, file);
+}
+
+function isMissing(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export class DrawingStore {
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(readonly root: string) {}
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+  }
+
+  private dir(id: string): string {
+    // Ids end up in paths; anything else would let a request escape the root
+    if (!ID_PATTERN.test(id)) throw new DrawingNotFoundError(id);
+    return path.join(this.root, id);
+  }
+
+  /**
+   * Run `task` after every earlier task on the same drawing. Writes go
+   * through here, and so do reads that need meta and document to agree.
+   */
+  private exclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(id) ?? Promise.resolve();
+    const run = previous.catch(() => {}).then(task);
+    const tail = run.catch(() => {});
+    this.queues.set(id, tail);
+    tail.then(() => { if (this.queues.get(id) === tail) this.queues.delete(id); });
+    return run;
+  }
+
+  private async readMeta(id: string): Promise<DrawingSummary> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.dir(id), META_FILE), "utf-8"));
+    } catch (err) {
+      if (isMissing(err)) throw new DrawingNotFoundError(id);
+      throw err;
+    }
+  }
+
+  private async writeMeta(meta: DrawingSummary) {
+    await writeAtomic(path.join(this.dir(meta.id), META_FILE), JSON.stringify(meta, null, 2));
+  }
+
+  private revisionFile(id: string, revision: number): string {
+    return path.join(this.dir(id), REVISIONS_DIR, `${revision}${path.extname(DOCUMENT_FILE)}`);
+  }
+
+  /** The history log, with the current revision standing in for itself when it predates the log */
+  private async readRevisions(meta: DrawingSummary): Promise<RevisionSummary[]> {
+    let revisions: RevisionSummary[] = [];
+    try {
+      revisions = JSON.parse(await fs.readFile(path.join(this.dir(meta.id), REVISIONS_FILE), "utf-8"));
+    } catch (err) {
+      if (!isMissing(err)) throw err;
+    }
+    if (!revisions.some(r => r.revision === meta.revision)) {
+      revisions.push({ revision: meta.revision, savedAt: meta.updatedAt, author: "", message: "", entityCount: meta.entityCount, size: meta.size });
+    }
+    return revisions;
+  }
+
+  /**
+   * Store `text` as the revision after `current` (or as revision 1 of a new
+   * drawing) and make it current. Callers hold the drawing's queue.
+   */
+  private async commitRevision(current: DrawingSummary | null, base: DrawingSummary, text: string, entityCount: number, note: RevisionNote | undefined): Promise<DrawingSummary> {
+    const dir = this.dir(base.id);
+    const history = current ? await this.readRevisions(current) : [];
+    await fs.mkdir(path.join(dir, REVISIONS_DIR), { recursive: true });
+    // A drawing saved before history was kept gets its current document filed first
+    if (current && !await fs.stat(this.revisionFile(base.id, current.revision)).catch(() => null)) {
+      await fs.copyFile(path.join(dir, DOCUMENT_FILE), this.revisionFile(base.id, current.revision));
+    }
+    const now = new Date().toISOString();
+    const meta: DrawingSummary = { ...base, revision: current ? current.revision + 1 : 1, updatedAt: now, entityCount, size: Buffer.byteLength(text) };
+    const revision: RevisionSummary = { revision: meta.revision, savedAt: now, ...checkNote(note), entityCount, size: meta.size };
+    await writeAtomic(this.revisionFile(base.id, meta.revision), text);
+    await writeAtomic(path.join(dir, DOCUMENT_FILE), text);
+    await writeAtomic(path.join(dir, REVISIONS_FILE), JSON.stringify([...history, revision], null, 2));
+    await this.writeMeta(meta);
+    return meta;
+  }
+
+  /** All drawings, most recently saved first; directories without readable metadata are skipped */
+  async list(): Promise<DrawingSummary[]> {
+    const entries = await fs.readdir(this.root, { withFileTypes: true });
+    const metas = await Promise.all(entries
+      .filter(e => e.isDirectory() && ID_PATTERN.test(e.name))
+      .map(e => this.readMeta(e.name).catch(() => null)));
+    return metas.filter((m): m is DrawingSummary => m !== null).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** A drawing's summary without reading its document */
+  async summary(id: string): Promise<DrawingSummary> {
+    return this.readMeta(id);
+  }
+
+  async get(id: string): Promise<DrawingWithDocument> {
+    return this.exclusive(id, async () => {
+      const meta = await this.readMeta(id);
+      const text = await fs.readFile(path.join(this.dir(id), DOCUMENT_FILE), "utf-8");
+      return { ...meta, document: JSON.parse(text) };
+    });
+  }
+
+  async create(name: unknown, document: unknown, note?: RevisionNote): Promise<DrawingSummary> {
+    const { text, entityCount } = checkDocument(document);
+    const now = new Date().toISOString();
+    const base: DrawingSummary = { id: nanoid(12), name: checkName(name), revision: 0, createdAt: now, updatedAt: now, entityCount, size: 0 };
+    await fs.mkdir(this.dir(base.id));
+    return this.exclusive(base.id, () => this.commitRevision(null, base, text, entityCount, note));
+  }
+
+  /** Save a new revision; throws DrawingConflictError unless `baseRevision` is still the current one */
+  async update(id: string, document: unknown, baseRevision: unknown, note?: RevisionNote): Promise<DrawingSummary> {
+    if (typeof baseRevision !== "number" || !Number.isInteger(baseRevision)) throw new DrawingInputError("baseRevision must be an integer");
+    const { text, entityCount } = checkDocument(document);
+    return this.exclusive(id, async () => {
+      const current = await this.readMeta(id);
+      if (current.revision !== baseRevision) throw new DrawingConflictError(current, baseRevision);
+      return this.commitRevision(current, current, text, entityCount, note);
+    });
+  }
+
+  /** The drawing's history, newest first */
+  async listRevisions(id: string): Promise<RevisionSummary[]> {
+    const revisions = await this.readRevisions(await this.readMeta(id));
+    return revisions.reverse();
+  }
+
+  async getRevision(id: string, revision: number): Promise<RevisionWithDocument> {
+    return this.exclusive(id, async () => {
+      const meta = await this.readMeta(id);
+      const summary = (await this.readRevisions(meta)).find(r => r.revision === revision);
+      if (!summary) throw new DrawingNotFoundError(id, revision);
+      let text: string;
+      try {
+        text = await fs.readFile(this.revisionFile(id, revision), "utf-8");
+      } catch (err) {
+        // Only the current revision of a drawing without history lacks its file
+        if (!isMissing(err) || revision !== meta.revision) throw err;
+        text = await fs.readFile(path.join(this.dir(id), DOCUMENT_FILE), "utf-8");
+      }
+      return { ...summary, document: JSON.parse(text) };
+    });
+  }
+
+  /** Save an earlier revision's document as the newest revision, under the same conflict check as `update` */
+  async restore(id: string, revision: number, baseRevision: unknown, author?: string): Promise<DrawingSummary> {
+    const { document } = await this.getRevision(id, revision);
+    return this.update(id, document, baseRevision, { author, message: `Restored revision ${revision}` });
+  }
+
+  /** Renaming leaves the document and its revision alone */
+  async rename(id: string, name: unknown): Promise<DrawingSummary> {
+    const checked = checkName(name);
+    return this.exclusive(id, async () => {
+      const meta = { ...await this.readMeta(id), name: checked };
+      await this.writeMeta(meta);
+      return meta;
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    return this.exclusive(id, async () => {
+      await this.readMeta(id);
+      await fs.rm(this.dir(id), { recursive: true, force: true });
+    });
+  }
+}
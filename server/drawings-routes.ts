@@ -0,0 +1,85 @@
+// ============================================================
+// Drawings Routes — REST API over the drawing store
+// ============================================================
+//
+//   GET    /api/drawings        list (summaries)
+//   POST   /api/drawings        create { name, document, author?, message? }         → 201
+//   GET    /api/drawings/:id    summary with its document
+//   PUT    /api/drawings/:id    save { document, baseRevision, author?, message? }   → 409 on conflict
+//   PATCH  /api/drawings/:id    rename { name }
+//   DELETE /api/drawings/:id                                                         → 204
+//   GET    /api/drawings/:id/revisions                history, newest first
+//   GET    /api/drawings/:id/revisions/:n             revision with its document
+//   POST   /api/drawings/:id/revisions/:n/restore     { baseRevision, author? }     → 409 on conflict
+
+import express, { Router, type NextFunction, type Request, type Response } from "express";
+import { DrawingConflictError, DrawingInputError, DrawingNotFoundError, type DrawingStore } from "./drawing-store";
+import type { DrawingErrorResponse } from "../shared/drawings";
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+/** Pass rejected promises on to the error handler (Express 4 does not) */
+const route = (handler: Handler) => (req: Request, res: Response, next: NextFunction) => { handler(req, res).catch(next); };
+
+function revisionParam(req: Request): number {
+  const revision = Number(req.params.revision);
+  if (!Number.isInteger(revision) || revision < 1) throw new DrawingInputError("revisions are numbered from 1");
+  return revision;
+}
+
+const note = (req: Request) => ({ author: req.body?.author, message: req.body?.message });
+
+/** `maxBodySize` bounds uploaded documents, in express.json() notation ("50mb") */
+export function drawingsRouter(store: DrawingStore, maxBodySize: string): Router {
+  const router = Router();
+  router.use(express.json({ limit: maxBodySize }));
+
+  router.get("/", route(async (_req, res) => {
+    res.json(await store.list());
+  }));
+
+  router.post("/", route(async (req, res) => {
+    res.status(201).json(await store.create(req.body?.name, req.body?.document, note(req)));
+  }));
+
+  router.get("/:id", route(async (req, res) => {
+    res.json(await store.get(req.params.id));
+  }));
+
+  router.put("/:id", route(async (req, res) => {
+    res.json(await store.update(req.params.id, req.body?.document, req.body?.baseRevision, note(req)));
+  }));
+
+  router.patch("/:id", route(async (req, res) => {
+    res.json(await store.rename(req.params.id, req.body?.name));
+  }));
+
+  router.delete("/:id", route(async (req, res) => {
+    await store.remove(req.params.id);
+    res.status(204).end();
+  }));
+
+  router.get("/:id/revisions", route(async (req, res) => {
+    res.json(await store.listRevisions(req.params.id));
+  }));
+
+  router.get("/:id/revisions/:revision", route(async (req, res) => {
+    res.json(await store.getRevision(req.params.id, revisionParam(req)));
+  }));
+
+  router.post("/:id/revisions/:revision/restore", route(async (req, res) => {
+    res.json(await store.restore(req.params.id, revisionParam(req), req.body?.baseRevision, req.body?.author));
+  }));
+
+  router.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    const send = (status: number, body: DrawingErrorResponse) => { res.status(status).json(body); };
+    if (err instanceof DrawingNotFoundError) send(404, { error: err.message });
+    else if (err instanceof DrawingConflictError) send(409, { error: err.message, current: err.current });
+    else if (err instanceof DrawingInputError) send(400, { error: err.message });
+    // Bodies over the size limit or with broken JSON, from express.json()
+    else if (err instanceof Error && "status" in err && typeof err.status === "number" && err.status < 500) send(err.status, { error: err.message });
+    else next(err);
+  });
+
+  return router;
+}
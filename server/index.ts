@@ -2,6 +2,11 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { DrawingStore } from "./drawing-store";
+import { drawingsRouter } from "./drawings-routes";
+import { CollabHub } from "./collab";
+import { convertRouter } from "./convert-routes";
+import { DRAWINGS_API_PATH } from "../shared/drawings";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -16,6 +21,18 @@ async function startServer() {
       ? path.resolve(__dirname, "public")
       : path.resolve(__dirname, "..", "dist", "public");
 
+  // Drawings are kept as files under DRAWINGS_DIR (default ./data/drawings)
+  const drawings = new DrawingStore(path.resolve(process.env.DRAWINGS_DIR || path.join(process.cwd(), "data", "drawings")));
+  await drawings.init();
+  app.use(DRAWINGS_API_PATH, drawingsRouter(drawings, process.env.DRAWINGS_MAX_SIZE || "50mb"));
+  app.use("/api/convert", convertRouter(drawings, process.env.DRAWINGS_MAX_SIZE || "50mb", Number(process.env.CONVERT_TIMEOUT_MS) || 60000));
+  // Shared editing sessions arrive as WebSocket upgrades, not Express requests
+  new CollabHub(drawings).attach(server);
+  // Unknown API paths are errors, not the client app
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ error: "not found" });
+  });
+
   app.use(express.static(staticPath));
 
   // Handle client-side routing - serve index.html for all routes
@@ -27,6 +44,7 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
+    console.log(`Drawings stored in ${drawings.root}`);
   });
 }
 
@@ -0,0 +1,84 @@
+// ============================================================
+// Collaboration — Messages exchanged over the WebSocket of a
+// shared editing session on one server drawing
+// ============================================================
+//
+// Every client edits its own copy and sends what changed as operations.
+// The server applies them to the session's copy in the order they arrive,
+// numbers them, and forwards them to everyone else; that order decides
+// conflicts:
+//   - the later write of a record replaces it whole (last writer wins),
+//   - a removal wins over an edit: updates to a removed record are dropped,
+//   - an add of an id that already exists counts as an update.
+// A client that still has its own unacknowledged change to a record keeps
+// its version when someone else's edit of that record arrives, because the
+// server will apply its change after that edit.
+//
+// Records are opaque to the server apart from their string id, so these
+// types are generic; the client fills in its entity, layer and block types.
+
+/** Path of a drawing's session: `${COLLAB_API_PATH}/<drawing id>` */
+export const COLLAB_API_PATH = "/api/collab";
+
+export interface RecordChanges<T> {
+  add?: T[];
+  update?: T[];
+  remove?: string[];
+}
+
+/** Changes made by one edit, grouped by the kind of record */
+export interface CollabOperation<E = unknown, L = unknown, B = unknown> {
+  /** Chosen by the sending client; acknowledged back to it */
+  id: string;
+  entities?: RecordChanges<E>;
+  layers?: RecordChanges<L>;
+  blocks?: RecordChanges<B>;
+}
+
+/** The session's copy of the drawing */
+export interface CollabSnapshot<E = unknown, L = unknown, B = unknown> {
+  entities: E[];
+  layers: L[];
+  blocks: B[];
+}
+
+export interface CollabPoint { x: number; y: number; }
+
+export interface CollabPresence {
+  /** Pointer in drawing coordinates; null while it is off the canvas */
+  cursor: CollabPoint | null;
+  selection: string[];
+}
+
+export interface CollabPeer extends CollabPresence {
+  clientId: string;
+  name: string;
+  /** CSS color the peer's cursor and selection are drawn in */
+  color: string;
+}
+
+export type CollabClientMessage =
+  /** First message: who is joining */
+  | { type: "hello"; name: string }
+  | { type: "op"; op: CollabOperation }
+  | { type: "presence"; presence: CollabPresence }
+  /** The sender saved the drawing to the server as this revision */
+  | { type: "saved"; revision: number; name: string };
+
+export type CollabServerMessage =
+  | { type: "welcome"; clientId: string; color: string; peers: CollabPeer[]; snapshot: CollabSnapshot; seq: number }
+  | { type: "op"; clientId: string; seq: number; op: CollabOperation }
+  /** The sender's own operation was applied as number `seq` */
+  | { type: "ack"; opId: string; seq: number }
+  /** The sender's own operation changed nothing, so it was discarded without a number */
+  | { type: "dropped"; opId: string }
+  | { type: "presence"; clientId: string; presence: CollabPresence }
+  | { type: "peer-joined"; peer: CollabPeer }
+  | { type: "peer-left"; clientId: string }
+  | { type: "saved"; clientId: string; revision: number; name: string }
+  | { type: "error"; error: string };
+
+/** Largest message either side sends; a snapshot of a big drawing is the largest */
+export const MAX_COLLAB_MESSAGE_BYTES = 64 * 1024 * 1024;
+/** Longest participant name the server keeps */
+export const MAX_PEER_NAME_LENGTH = 60;
@@ -0,0 +1,84 @@
+// ============================================================
+// Drawings API — Types shared by the server's drawing storage
+// and the client's drawing browser
+// ============================================================
+//
+// Every save bumps a drawing's revision and is kept, with its author and
+// message, in the drawing's history. An update names the revision it was
+// based on; when someone else saved in between, the server answers 409
+// with the current summary instead of overwriting their work.
+
+export const DRAWINGS_API_PATH = "/api/drawings";
+
+export interface DrawingSummary {
+  id: string;
+  name: string;
+  /** Starts at 1 and grows by one with every save of the document */
+  revision: number;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+  entityCount: number;
+  /** Stored document size in bytes */
+  size: number;
+}
+
+/** A drawing with its .cadstudio document (the parsed JSON, not text) */
+export interface DrawingWithDocument extends DrawingSummary {
+  document: unknown;
+}
+
+/** One saved version in a drawing's history */
+export interface RevisionSummary {
+  revision: number;
+  /** ISO timestamp */
+  savedAt: string;
+  /** Empty when the saver gave no name */
+  author: string;
+  message: string;
+  entityCount: number;
+  size: number;
+}
+
+export interface RevisionWithDocument extends RevisionSummary {
+  document: unknown;
+}
+
+/** Who saved a revision and why; both optional */
+export interface RevisionNote {
+  author?: string;
+  message?: string;
+}
+
+export interface CreateDrawingRequest extends RevisionNote {
+  name: string;
+  document: unknown;
+}
+
+export interface UpdateDrawingRequest extends RevisionNote {
+  document: unknown;
+  /** Revision the edit started from; must still be the current one */
+  baseRevision: number;
+}
+
+/** Save an old revision's document again as the newest revision */
+export interface RestoreRevisionRequest {
+  baseRevision: number;
+  author?: string;
+}
+
+export interface RenameDrawingRequest {
+  name: string;
+}
+
+export interface DrawingErrorResponse {
+  error: string;
+  /** Present on 409 conflicts: the drawing as it is now on the server */
+  current?: DrawingSummary;
+}
+
+/** Longest drawing name the server accepts */
+export const MAX_DRAWING_NAME_LENGTH = 200;
+/** Longest revision author and message the server keeps; longer ones are cut */
+export const MAX_AUTHOR_LENGTH = 100;
+export const MAX_REVISION_MESSAGE_LENGTH = 2000;
@@ -180,6 +180,10 @@ export default defineConfig({
       "localhost",
       "127.0.0.1",
     ],
+    // API requests and collaboration sockets go to the Express server (pnpm dev:server)
+    proxy: {
+      "/api": { target: `http://localhost:${process.env.API_PORT || 3001}`, ws: true },
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],